@@ -0,0 +1,112 @@
+#!/usr/bin/env node
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// Generates TypeScript row types from the schema of a live database.
+//
+// Usage:
+//   spanner-codegen --instance <id> --database <id> [--project <id>]
+//     [--out <file>] [--import-from <module>] [--enum <name>]... [--no-helpers]
+
+const fs = require('fs');
+const {Spanner, generateRowTypes} = require('../build/src');
+
+const USAGE = `Usage: spanner-codegen --instance <id> --database <id> [options]
+
+Options:
+  --project <id>          The project of the instance. Defaults to the project
+                          of the application default credentials.
+  --out <file>            The file to write to. Defaults to standard output.
+  --import-from <module>  The module to import the client library from.
+                          Defaults to @google-cloud/spanner.
+  --enum <name>           The fully qualified name of a proto enum in the proto
+                          bundle. Can be repeated.
+  --no-helpers            Only generate types, without the table helpers.
+  --help                  Show this help.`;
+
+function parseArgs(args) {
+  const options = {enums: [], helpers: true};
+  const names = {
+    '--project': 'project',
+    '--instance': 'instance',
+    '--database': 'database',
+    '--out': 'out',
+    '--import-from': 'importFrom',
+  };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--help') {
+      options.help = true;
+    } else if (arg === '--no-helpers') {
+      options.helpers = false;
+    } else if (arg === '--enum' || names[arg]) {
+      const value = args[++i];
+      if (value === undefined || value.startsWith('--')) {
+        throw new Error(`Missing value for ${arg}.`);
+      }
+      if (arg === '--enum') {
+        options.enums.push(value);
+      } else {
+        options[names[arg]] = value;
+      }
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  if (!options.help && (!options.instance || !options.database)) {
+    throw new Error('--instance and --database are required.');
+  }
+  return options;
+}
+
+async function main() {
+  let options;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (err) {
+    console.error(`${err.message}\n\n${USAGE}`);
+    process.exitCode = 2;
+    return;
+  }
+  if (options.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const spanner = new Spanner({projectId: options.project});
+  const database = spanner
+    .instance(options.instance)
+    .database(options.database);
+  try {
+    const model = await database.getSchemaModel();
+    const source = generateRowTypes(model, {
+      importFrom: options.importFrom,
+      enums: options.enums,
+      helpers: options.helpers,
+    });
+    if (options.out) {
+      fs.writeFileSync(options.out, source);
+    } else {
+      process.stdout.write(source);
+    }
+  } finally {
+    await database.close();
+    spanner.close();
+  }
+}
+
+main().catch(err => {
+  console.error(err.message);
+  process.exitCode = 1;
+});
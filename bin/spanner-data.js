@@ -0,0 +1,192 @@
+#!/usr/bin/env node
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// Exports a table or a query to CSV or NDJSON, and imports CSV or NDJSON into
+// a table.
+//
+// Usage:
+//   spanner-data export --instance <id> --database <id>
+//     (--table <name> [--columns <a,b>] | --query <sql>) [--format <format>]
+//     [--out <file>]
+//   spanner-data import --instance <id> --database <id> --table <name>
+//     [--format <format>] [--in <file>] [--from-line <n>] [--mode <mode>]
+//     [--dry-run]
+
+const fs = require('fs');
+const path = require('path');
+const {Spanner, exportRows, importRows} = require('../build/src');
+
+const USAGE = `Usage: spanner-data export --instance <id> --database <id> [options]
+       spanner-data import --instance <id> --database <id> --table <name> [options]
+
+Options:
+  --project <id>     The project of the instance. Defaults to the project of
+                     the application default credentials.
+  --table <name>     The table to export or import.
+  --columns <a,b>    The columns of the table to export. Defaults to all
+                     columns.
+  --query <sql>      The query to export, instead of a table.
+  --format <format>  csv or ndjson. Defaults to the extension of the file, or
+                     ndjson.
+  --out <file>       The file to export to. Defaults to standard output.
+  --in <file>        The file to import from. Defaults to standard input.
+  --from-line <n>    Resume an import from line n of the input.
+  --mode <mode>      How rows are imported: insert, update, upsert or replace.
+                     Defaults to upsert.
+  --dry-run          Validate the rows of an import without writing them.
+  --help             Show this help.`;
+
+const FORMATS = ['csv', 'ndjson'];
+const MODES = ['insert', 'update', 'upsert', 'replace'];
+
+function parseArgs(args) {
+  const options = {dryRun: false};
+  const names = {
+    '--project': 'project',
+    '--instance': 'instance',
+    '--database': 'database',
+    '--table': 'table',
+    '--columns': 'columns',
+    '--query': 'query',
+    '--format': 'format',
+    '--out': 'out',
+    '--in': 'in',
+    '--from-line': 'fromLine',
+    '--mode': 'mode',
+  };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--help') {
+      options.help = true;
+    } else if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (names[arg]) {
+      const value = args[++i];
+      if (value === undefined || value.startsWith('--')) {
+        throw new Error(`Missing value for ${arg}.`);
+      }
+      options[names[arg]] = value;
+    } else if (!arg.startsWith('--') && !options.command) {
+      options.command = arg;
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  if (options.help) {
+    return options;
+  }
+  if (options.command !== 'export' && options.command !== 'import') {
+    throw new Error('The command must be export or import.');
+  }
+  if (!options.instance || !options.database) {
+    throw new Error('--instance and --database are required.');
+  }
+  if (options.command === 'export' && !options.table === !options.query) {
+    throw new Error('Either --table or --query is required.');
+  }
+  if (options.command === 'import' && !options.table) {
+    throw new Error('--table is required.');
+  }
+  if (options.fromLine !== undefined) {
+    if (!/^[1-9]\d*$/.test(options.fromLine)) {
+      throw new Error('--from-line must be a positive integer.');
+    }
+    options.fromLine = Number(options.fromLine);
+  }
+  if (options.mode && !MODES.includes(options.mode)) {
+    throw new Error(`--mode must be one of ${MODES.join(', ')}.`);
+  }
+  const file = options.command === 'export' ? options.out : options.in;
+  const extension = file && path.extname(file).slice(1);
+  options.format =
+    options.format || (FORMATS.includes(extension) ? extension : 'ndjson');
+  if (!FORMATS.includes(options.format)) {
+    throw new Error(`--format must be one of ${FORMATS.join(', ')}.`);
+  }
+  return options;
+}
+
+async function runExport(database, options) {
+  const output = options.out
+    ? fs.createWriteStream(options.out)
+    : process.stdout;
+  const rows = await exportRows(database, output, {
+    format: options.format,
+    table: options.table,
+    columns: options.columns && options.columns.split(','),
+    query: options.query,
+  });
+  console.error(`Exported ${rows} rows.`);
+}
+
+async function runImport(database, options) {
+  const input = options.in ? fs.createReadStream(options.in) : process.stdin;
+  const result = await importRows(database, options.table, input, {
+    format: options.format,
+    fromLine: options.fromLine,
+    dryRun: options.dryRun,
+    writerOptions: {mode: options.mode},
+  });
+  result.failures.forEach(({line, error}) => {
+    console.error(`Line ${line}: ${error.message}`);
+  });
+  if (options.dryRun) {
+    console.error(
+      `Validated ${result.rows} rows, ${result.failures.length} invalid.`
+    );
+  } else {
+    console.error(
+      `Imported ${result.written} rows, ${result.failures.length} failed.`
+    );
+  }
+  if (result.failures.length) {
+    process.exitCode = 1;
+  }
+}
+
+async function main() {
+  let options;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (err) {
+    console.error(`${err.message}\n\n${USAGE}`);
+    process.exitCode = 2;
+    return;
+  }
+  if (options.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const spanner = new Spanner({projectId: options.project});
+  const database = spanner
+    .instance(options.instance)
+    .database(options.database);
+  try {
+    if (options.command === 'export') {
+      await runExport(database, options);
+    } else {
+      await runImport(database, options);
+    }
+  } finally {
+    await database.close();
+    spanner.close();
+  }
+}
+
+main().catch(err => {
+  console.error(err.message);
+  process.exitCode = 1;
+});
@@ -25,6 +25,7 @@ import {
   CLOUD_RESOURCE_HEADER,
   addLeaderAwareRoutingHeader,
 } from '../src/common';
+import {endSpan, startTrace} from './instrument';
 
 export interface TransactionIdentifier {
   session: string | Session;
@@ -131,7 +132,11 @@ class BatchTransaction extends Snapshot {
       };
     }
 
-    const reqOpts = Object.assign({}, query, Snapshot.encodeParams(query));
+    const reqOpts = Object.assign(
+      {},
+      query,
+      Snapshot.encodeParams(query, this._getCodecs())
+    );
 
     delete reqOpts.gaxOptions;
     delete reqOpts.types;
@@ -268,11 +273,22 @@ class BatchTransaction extends Snapshot {
    * region_tag:spanner_batch_execute_partitions
    */
   execute(partition, callback) {
-    if (is.string(partition.table)) {
-      this.read(partition.table, partition, callback);
-      return;
-    }
-    this.run(partition, callback);
+    const traceConfig = is.string(partition.table)
+      ? this._traceConfig({tableName: partition.table})
+      : this._traceConfig({sql: partition});
+
+    startTrace('BatchTransaction.execute', traceConfig, span => {
+      const done = (err, ...args) => {
+        endSpan(span, err);
+        callback(err, ...args);
+      };
+
+      if (is.string(partition.table)) {
+        this.read(partition.table, partition, done);
+        return;
+      }
+      this.run(partition, done);
+    });
   }
   /**
    * Executes partition in streaming mode.
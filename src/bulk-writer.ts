@@ -0,0 +1,317 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Writable} from 'stream';
+import {GoogleError, grpc} from 'google-gax';
+import {google} from '../protos/protos';
+import {Database} from './database';
+import {BatchWriteOptions, MutationGroup, MutationSet} from './transaction';
+import IBatchWriteResponse = google.spanner.v1.IBatchWriteResponse;
+
+/**
+ * The maximum number of mutations in a commit.
+ */
+const MAX_MUTATIONS = 80000;
+/**
+ * The maximum size of a commit request in bytes.
+ */
+const MAX_BYTES = 100 * 1024 * 1024;
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * @typedef {object} BulkWriterOptions
+ * @property {string} [mode='upsert'] How the rows are written: `insert`,
+ *     `update`, `upsert` or `replace`.
+ * @property {string} [method='writeAtLeastOnce'] Whether batches are written
+ *     with {@link Database#writeAtLeastOnce} or with
+ *     {@link Database#batchWriteAtLeastOnce}. With `batchWriteAtLeastOnce`,
+ *     every row is a separate mutation group, so that the failures of single
+ *     rows are reported.
+ * @property {number} [indexCount=0] The number of secondary indexes of the
+ *     table. Every index is assumed to count as many mutations as the columns
+ *     of a row.
+ * @property {number} [maxMutations=80000] The maximum number of mutations in a
+ *     batch.
+ * @property {number} [maxBytes=104857600] The maximum size of the mutations
+ *     of a batch in bytes.
+ * @property {number} [concurrency=4] The maximum number of batches that are
+ *     written at the same time.
+ * @property {BatchWriteOptions} [writeOptions] Options for the requests. The
+ *     `gaxOptions` are also used for {@link Database#writeAtLeastOnce}.
+ */
+export interface BulkWriterOptions {
+  mode?: 'insert' | 'update' | 'upsert' | 'replace';
+  method?: 'writeAtLeastOnce' | 'batchWriteAtLeastOnce';
+  indexCount?: number;
+  maxMutations?: number;
+  maxBytes?: number;
+  concurrency?: number;
+  writeOptions?: BatchWriteOptions;
+}
+
+/**
+ * @typedef {object} BulkWriteFailure
+ * @property {object} row The row that was not written.
+ * @property {number} index The position of the row in the rows that were
+ *     written to the bulk writer.
+ * @property {Error} error Why the row was not written.
+ */
+export interface BulkWriteFailure {
+  row: object;
+  index: number;
+  error: Error;
+}
+
+/**
+ * A row of a batch with its mutation group, mutation count and size.
+ *
+ * @private
+ */
+interface PendingRow {
+  row: object;
+  index: number;
+  group: MutationGroup;
+  mutations: number;
+  bytes: number;
+}
+
+/**
+ * A writable object stream that loads rows into a table in batches that stay
+ * within the mutation count and size limits of a commit.
+ *
+ * The mutation count of a row is estimated as its number of columns times one
+ * plus the number of secondary indexes, and its size as the encoded size of
+ * its mutation. Up to `concurrency` batches are written at the same time, and
+ * writes to the stream wait while all of them are in flight.
+ *
+ * Rows that cannot be written do not fail the stream. Each of them is reported
+ * with a `failure` event, and the counts of written and failed rows are
+ * available when the stream finishes.
+ *
+ * @class
+ * @extends Writable
+ *
+ * @param {Database} database The database to write to.
+ * @param {string} table The name of the table.
+ * @param {BulkWriterOptions} [options] Options for the bulk writer.
+ *
+ * @fires BulkWriter#failure
+ * @fires BulkWriter#batch
+ */
+export class BulkWriter extends Writable {
+  database: Database;
+  table: string;
+  mode: 'insert' | 'update' | 'upsert' | 'replace';
+  method: 'writeAtLeastOnce' | 'batchWriteAtLeastOnce';
+  indexCount: number;
+  maxMutations: number;
+  maxBytes: number;
+  concurrency: number;
+  writeOptions: BatchWriteOptions;
+  /**
+   * The number of rows that have been written.
+   * @name BulkWriter#written
+   * @type {number}
+   */
+  written = 0;
+  /**
+   * The number of rows that could not be written.
+   * @name BulkWriter#failed
+   * @type {number}
+   */
+  failed = 0;
+  private batch: PendingRow[] = [];
+  private batchMutations = 0;
+  private batchBytes = 0;
+  private count = 0;
+  private inFlight: Set<Promise<void>> = new Set<Promise<void>>();
+  constructor(database: Database, table: string, options?: BulkWriterOptions) {
+    super({objectMode: true});
+    this.database = database;
+    this.table = table;
+    this.mode = options?.mode || 'upsert';
+    this.method = options?.method || 'writeAtLeastOnce';
+    this.indexCount = options?.indexCount || 0;
+    this.maxMutations = options?.maxMutations || MAX_MUTATIONS;
+    this.maxBytes = options?.maxBytes || MAX_BYTES;
+    this.concurrency = options?.concurrency || DEFAULT_CONCURRENCY;
+    this.writeOptions = options?.writeOptions || {};
+  }
+
+  _write(
+    row: object,
+    _encoding: string,
+    callback: (err?: Error | null) => void
+  ) {
+    const index = this.count++;
+    let pending: PendingRow;
+    try {
+      pending = this.prepare(row, index);
+    } catch (err) {
+      this.fail(row, index, err as Error);
+      callback();
+      return;
+    }
+    if (
+      this.batchMutations + pending.mutations > this.maxMutations ||
+      this.batchBytes + pending.bytes > this.maxBytes
+    ) {
+      this.flush();
+    }
+    this.batch.push(pending);
+    this.batchMutations += pending.mutations;
+    this.batchBytes += pending.bytes;
+    this.whenReady().then(() => callback(), callback);
+  }
+
+  _final(callback: (err?: Error | null) => void) {
+    this.flush();
+    Promise.all(this.inFlight).then(() => callback(), callback);
+  }
+
+  /**
+   * Builds the mutation of a row, and checks that the row fits in a batch.
+   */
+  private prepare(row: object, index: number): PendingRow {
+    const group = new MutationGroup();
+    group[this.mode](this.table, row);
+    const mutations = Object.keys(row).length * (1 + this.indexCount);
+    const bytes = google.spanner.v1.BatchWriteRequest.MutationGroup.encode(
+      group.proto()
+    ).finish().length;
+    if (mutations > this.maxMutations || bytes > this.maxBytes) {
+      throw new GoogleError(
+        `Row at index ${index} has ${mutations} mutations and ${bytes} bytes, ` +
+          `which exceeds the limit of ${this.maxMutations} mutations and ` +
+          `${this.maxBytes} bytes of a batch.`
+      );
+    }
+    return {row, index, group, mutations, bytes};
+  }
+
+  /**
+   * Resolves when fewer than `concurrency` batches are in flight.
+   */
+  private async whenReady(): Promise<void> {
+    while (this.inFlight.size >= this.concurrency) {
+      await Promise.race(this.inFlight);
+    }
+  }
+
+  /**
+   * Starts to write the current batch.
+   */
+  private flush() {
+    if (!this.batch.length) {
+      return;
+    }
+    const batch = this.batch;
+    this.emit('batch', {
+      rows: batch.length,
+      mutations: this.batchMutations,
+      bytes: this.batchBytes,
+    });
+    this.batch = [];
+    this.batchMutations = 0;
+    this.batchBytes = 0;
+    const write =
+      this.method === 'batchWriteAtLeastOnce'
+        ? this.batchWrite(batch)
+        : this.commit(batch);
+    const promise = write.then(() => {
+      this.inFlight.delete(promise);
+    });
+    this.inFlight.add(promise);
+  }
+
+  private async commit(batch: PendingRow[]): Promise<void> {
+    const mutations = new MutationSet();
+    batch.forEach(({row}) => mutations[this.mode](this.table, row));
+    try {
+      await this.database.writeAtLeastOnce(
+        mutations,
+        this.writeOptions.gaxOptions || {}
+      );
+      this.written += batch.length;
+    } catch (err) {
+      batch.forEach(({row, index}) => this.fail(row, index, err as Error));
+    }
+  }
+
+  private batchWrite(batch: PendingRow[]): Promise<void> {
+    const unreported = new Set(batch);
+    return new Promise(resolve => {
+      this.database
+        .batchWriteAtLeastOnce(
+          batch.map(({group}) => group),
+          this.writeOptions
+        )
+        .on('data', (response: IBatchWriteResponse) => {
+          const code = response.status?.code || grpc.status.OK;
+          const error =
+            code !== grpc.status.OK &&
+            Object.assign(new Error(response.status!.message || ''), {
+              code,
+              details: response.status!.message || '',
+            });
+          (response.indexes || []).forEach(i => {
+            const pending = batch[i];
+            unreported.delete(pending);
+            if (error) {
+              this.fail(pending.row, pending.index, error);
+            } else {
+              this.written++;
+            }
+          });
+        })
+        .on('error', err => {
+          unreported.forEach(({row, index}) => this.fail(row, index, err));
+          unreported.clear();
+          resolve();
+        })
+        .on('end', () => {
+          // Groups without a response have not been applied.
+          const error = new GoogleError(
+            'The batch write ended without a response for the row.'
+          );
+          unreported.forEach(({row, index}) => this.fail(row, index, error));
+          unreported.clear();
+          resolve();
+        });
+    });
+  }
+
+  private fail(row: object, index: number, error: Error) {
+    this.failed++;
+    const failure: BulkWriteFailure = {row, index, error};
+    this.emit('failure', failure);
+  }
+}
+
+/**
+ * Emitted for every row that could not be written.
+ *
+ * @event BulkWriter#failure
+ * @type {BulkWriteFailure}
+ */
+
+/**
+ * Emitted when a batch is written, with the number of rows and mutations and
+ * the size of the batch.
+ *
+ * @event BulkWriter#batch
+ * @type {object}
+ */
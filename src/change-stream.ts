@@ -0,0 +1,642 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {PreciseDate} from '@google-cloud/precise-date';
+import {GoogleError} from 'google-gax';
+import {Readable} from 'stream';
+import {PGJsonb} from './codec';
+import {Database} from './database';
+import {PartialResultStream} from './partial-result-stream';
+import {ExecuteSqlRequest} from './transaction';
+
+const DEFAULT_HEARTBEAT_MS = 10000;
+
+/**
+ * @typedef {object} ChangeStreamColumnType
+ * @property {string} name The name of the column.
+ * @property {object} type The type of the column, for example
+ *     `{code: 'STRING'}`.
+ * @property {boolean} isPrimaryKey Whether the column is part of the primary
+ *     key.
+ * @property {number} ordinalPosition The position of the column in the table.
+ */
+export interface ChangeStreamColumnType {
+  name: string;
+  type: {[field: string]: unknown};
+  isPrimaryKey: boolean;
+  ordinalPosition: number;
+}
+
+/**
+ * @typedef {object} ChangeStreamMod
+ * @property {object} keys The primary key values of the modified row.
+ * @property {object} newValues The new values of the modified columns.
+ * @property {object} oldValues The old values of the modified columns.
+ */
+export interface ChangeStreamMod {
+  keys: {[column: string]: unknown};
+  newValues: {[column: string]: unknown};
+  oldValues: {[column: string]: unknown};
+}
+
+/**
+ * @typedef {object} DataChangeRecord
+ * @property {string} type `dataChange`.
+ * @property {?string} partitionToken The partition that the record was read
+ *     from, or null for the initial query.
+ * @property {PreciseDate} commitTimestamp The commit timestamp of the
+ *     transaction.
+ * @property {string} recordSequence The order of the record within the
+ *     transaction and partition.
+ * @property {string} serverTransactionId The id of the transaction.
+ * @property {boolean} isLastRecordInTransactionInPartition Whether this is
+ *     the last record of the transaction in the partition.
+ * @property {string} tableName The name of the modified table.
+ * @property {ChangeStreamColumnType[]} columnTypes The columns of the mods.
+ * @property {ChangeStreamMod[]} mods The modified rows.
+ * @property {string} modType `INSERT`, `UPDATE` or `DELETE`.
+ * @property {string} valueCaptureType The value capture type of the change
+ *     stream.
+ * @property {number} numberOfRecordsInTransaction The number of data change
+ *     records of the transaction in all partitions.
+ * @property {number} numberOfPartitionsInTransaction The number of partitions
+ *     that contain records of the transaction.
+ * @property {string} transactionTag The tag of the transaction.
+ * @property {boolean} isSystemTransaction Whether the transaction is a system
+ *     transaction.
+ */
+export interface DataChangeRecord {
+  type: 'dataChange';
+  partitionToken: string | null;
+  commitTimestamp: PreciseDate;
+  recordSequence: string;
+  serverTransactionId: string;
+  isLastRecordInTransactionInPartition: boolean;
+  tableName: string;
+  columnTypes: ChangeStreamColumnType[];
+  mods: ChangeStreamMod[];
+  modType: string;
+  valueCaptureType: string;
+  numberOfRecordsInTransaction: number;
+  numberOfPartitionsInTransaction: number;
+  transactionTag: string;
+  isSystemTransaction: boolean;
+}
+
+/**
+ * @typedef {object} HeartbeatRecord
+ * @property {string} type `heartbeat`.
+ * @property {?string} partitionToken The partition that the record was read
+ *     from, or null for the initial query.
+ * @property {PreciseDate} timestamp All changes with a commit timestamp before
+ *     this timestamp have been returned.
+ */
+export interface HeartbeatRecord {
+  type: 'heartbeat';
+  partitionToken: string | null;
+  timestamp: PreciseDate;
+}
+
+/**
+ * @typedef {object} ChildPartition
+ * @property {string} token The token of the partition.
+ * @property {string[]} parentPartitionTokens The tokens of the partitions that
+ *     the partition was split or merged from.
+ */
+export interface ChildPartition {
+  token: string;
+  parentPartitionTokens: string[];
+}
+
+/**
+ * @typedef {object} ChildPartitionsRecord
+ * @property {string} type `childPartitions`.
+ * @property {?string} partitionToken The partition that the record was read
+ *     from, or null for the initial query.
+ * @property {PreciseDate} startTimestamp The timestamp that the child
+ *     partitions are read from.
+ * @property {string} recordSequence The order of the record within the
+ *     partition.
+ * @property {ChildPartition[]} childPartitions The child partitions.
+ */
+export interface ChildPartitionsRecord {
+  type: 'childPartitions';
+  partitionToken: string | null;
+  startTimestamp: PreciseDate;
+  recordSequence: string;
+  childPartitions: ChildPartition[];
+}
+
+export type ChangeRecord =
+  | DataChangeRecord
+  | HeartbeatRecord
+  | ChildPartitionsRecord;
+
+/**
+ * The partitions of a change stream that have not been read completely.
+ *
+ * @typedef {object} ChangeStreamCheckpoint
+ * @property {object[]} partitions The partitions, each with a `token` (null
+ *     for the initial query), the `start` timestamp to resume reading at, and
+ *     the `parentPartitionTokens` that must be read before the partition.
+ */
+export interface ChangeStreamCheckpoint {
+  partitions: Array<{
+    token: string | null;
+    start: string;
+    parentPartitionTokens: string[];
+  }>;
+}
+
+/**
+ * @typedef {object} ChangeStreamReadOptions
+ * @property {PreciseDate|Date|string} [start] The timestamp to read changes
+ *     from. Required unless a checkpoint is given.
+ * @property {PreciseDate|Date|string} [end] The timestamp to read changes
+ *     until. Without it, the change stream is read until the reader is
+ *     destroyed.
+ * @property {number} [heartbeatMs=10000] The interval at which partitions
+ *     without changes return a heartbeat record.
+ * @property {ChangeStreamCheckpoint} [checkpoint] A checkpoint that was
+ *     returned by {@link ChangeStreamReader#checkpoint} to resume reading at.
+ */
+export interface ChangeStreamReadOptions {
+  start?: PreciseDate | Date | string;
+  end?: PreciseDate | Date | string;
+  heartbeatMs?: number;
+  checkpoint?: ChangeStreamCheckpoint;
+}
+
+interface PartitionState {
+  token: string | null;
+  watermark: PreciseDate;
+  parentPartitionTokens: string[];
+  state: 'pending' | 'running' | 'finished';
+  // The number of records that have been pushed, but not yet delivered.
+  unread: number;
+  ended: boolean;
+}
+
+type RawRecord = {[field: string]: unknown};
+
+function toDate(value: unknown): PreciseDate {
+  if (value instanceof PreciseDate) {
+    return value;
+  }
+  return value instanceof Date
+    ? new PreciseDate(value)
+    : new PreciseDate(value as string);
+}
+
+function toObject(value: unknown): {[field: string]: unknown} {
+  if (value instanceof PGJsonb) {
+    return value.value as {[field: string]: unknown};
+  }
+  return typeof value === 'string'
+    ? JSON.parse(value)
+    : (value as {[field: string]: unknown}) || {};
+}
+
+/**
+ * Converts a record of a change stream query, with the field names of the
+ * query result, to a typed record.
+ *
+ * @private
+ */
+export function toChangeRecord(
+  kind: string,
+  raw: RawRecord,
+  partitionToken: string | null
+): ChangeRecord | null {
+  switch (kind) {
+    case 'data_change_record':
+      return {
+        type: 'dataChange',
+        partitionToken,
+        commitTimestamp: toDate(raw.commit_timestamp),
+        recordSequence: raw.record_sequence as string,
+        serverTransactionId: raw.server_transaction_id as string,
+        isLastRecordInTransactionInPartition:
+          !!raw.is_last_record_in_transaction_in_partition,
+        tableName: raw.table_name as string,
+        columnTypes: ((raw.column_types as RawRecord[]) || []).map(column => ({
+          name: column.name as string,
+          type: toObject(column.type),
+          isPrimaryKey: !!column.is_primary_key,
+          ordinalPosition: Number(column.ordinal_position),
+        })),
+        mods: ((raw.mods as RawRecord[]) || []).map(mod => ({
+          keys: toObject(mod.keys),
+          newValues: toObject(mod.new_values),
+          oldValues: toObject(mod.old_values),
+        })),
+        modType: raw.mod_type as string,
+        valueCaptureType: raw.value_capture_type as string,
+        numberOfRecordsInTransaction: Number(
+          raw.number_of_records_in_transaction
+        ),
+        numberOfPartitionsInTransaction: Number(
+          raw.number_of_partitions_in_transaction
+        ),
+        transactionTag: (raw.transaction_tag as string) || '',
+        isSystemTransaction: !!raw.is_system_transaction,
+      };
+    case 'heartbeat_record':
+      return {
+        type: 'heartbeat',
+        partitionToken,
+        timestamp: toDate(raw.timestamp),
+      };
+    case 'child_partitions_record':
+      return {
+        type: 'childPartitions',
+        partitionToken,
+        startTimestamp: toDate(raw.start_timestamp),
+        recordSequence: raw.record_sequence as string,
+        childPartitions: ((raw.child_partitions as RawRecord[]) || []).map(
+          child => ({
+            token: child.token as string,
+            parentPartitionTokens:
+              (child.parent_partition_tokens as string[]) || [],
+          })
+        ),
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Decodes the records in a row of a change stream query. A GoogleSQL row
+ * contains an array of `ChangeRecord` structs with an array per kind of
+ * record, and a PostgreSQL row contains one JSONB object with one key per kind
+ * of record.
+ *
+ * @private
+ */
+export function decodeChangeRecords(
+  row: {[column: string]: unknown},
+  partitionToken: string | null
+): ChangeRecord[] {
+  const value = Object.values(row)[0];
+  const containers: RawRecord[] =
+    value instanceof PGJsonb
+      ? [value.value as RawRecord]
+      : (value as RawRecord[]) || [];
+  const records: ChangeRecord[] = [];
+  containers.forEach(container => {
+    Object.keys(container).forEach(kind => {
+      const raws = container[kind];
+      (Array.isArray(raws) ? raws : raws ? [raws] : []).forEach(raw => {
+        const record = toChangeRecord(kind, raw as RawRecord, partitionToken);
+        if (record) {
+          records.push(record);
+        }
+      });
+    });
+  });
+  return records;
+}
+
+/**
+ * A readable object stream of the {@link ChangeRecord}s of a change stream.
+ *
+ * The reader starts with the initial query of the change stream, and follows
+ * the child partitions that it returns. A child partition is only read once
+ * all records of all of its parents have been read from the reader, so that
+ * the changes to a key are returned in order of their commit timestamps. The
+ * reader ends when all partitions have been read until the end timestamp.
+ *
+ * @class
+ */
+export class ChangeStreamReader extends Readable {
+  private changeStream: ChangeStream;
+  private end: PreciseDate | null;
+  private heartbeatMs: number;
+  private partitions: Map<string | null, PartitionState> = new Map<
+    string | null,
+    PartitionState
+  >();
+  private streams: Set<PartialResultStream> = new Set<PartialResultStream>();
+  private dialect?: string;
+  private started = false;
+  private records: WeakMap<ChangeRecord, PartitionState> = new WeakMap<
+    ChangeRecord,
+    PartitionState
+  >();
+
+  constructor(changeStream: ChangeStream, options: ChangeStreamReadOptions) {
+    super({objectMode: true});
+    this.changeStream = changeStream;
+    this.end = options.end ? toDate(options.end) : null;
+    this.heartbeatMs = options.heartbeatMs || DEFAULT_HEARTBEAT_MS;
+    if (options.checkpoint) {
+      options.checkpoint.partitions.forEach(partition =>
+        this.addPartition(
+          partition.token,
+          toDate(partition.start),
+          partition.parentPartitionTokens
+        )
+      );
+    } else if (options.start) {
+      this.addPartition(null, toDate(options.start), []);
+    } else {
+      throw new GoogleError(
+        'A start timestamp or a checkpoint is required to read a change stream.'
+      );
+    }
+  }
+
+  /**
+   * Returns a checkpoint of the partitions that have not been read
+   * completely, with the timestamp of the last record that has been read from
+   * each of them. Reading with the checkpoint resumes at these timestamps, so
+   * records with the same commit timestamp as the last record can be returned
+   * again.
+   *
+   * @returns {ChangeStreamCheckpoint}
+   */
+  checkpoint(): ChangeStreamCheckpoint {
+    return {
+      partitions: Array.from(this.partitions.values())
+        .filter(partition => partition.state !== 'finished')
+        .map(partition => ({
+          token: partition.token,
+          start: partition.watermark.toISOString(),
+          parentPartitionTokens: partition.parentPartitionTokens.slice(),
+        })),
+    };
+  }
+
+  /**
+   * Records are delivered with a 'data' event both when they are read and
+   * when the reader is flowing, so the partitions are updated here.
+   */
+  emit(event: string | symbol, ...args: unknown[]): boolean {
+    const delivered = super.emit(event, ...args);
+    const record = args[0] as ChangeRecord;
+    const partition = event === 'data' && this.records.get(record);
+    if (partition) {
+      this.records.delete(record);
+      partition.watermark = ChangeStreamReader.timestampOf(record);
+      partition.unread--;
+      this.finishIfDone(partition);
+    }
+    return delivered;
+  }
+
+  _read() {
+    if (!this.started) {
+      this.started = true;
+      this.changeStream.database.getDatabaseDialect().then(
+        dialect => {
+          this.dialect = dialect;
+          this.schedule();
+        },
+        err => this.destroy(err)
+      );
+      return;
+    }
+    this.streams.forEach(stream => stream.resume());
+  }
+
+  _destroy(err: Error | null, callback: (err: Error | null) => void) {
+    this.streams.forEach(stream => stream.destroy());
+    this.streams.clear();
+    callback(err);
+  }
+
+  private static timestampOf(record: ChangeRecord): PreciseDate {
+    switch (record.type) {
+      case 'dataChange':
+        return record.commitTimestamp;
+      case 'heartbeat':
+        return record.timestamp;
+      default:
+        return record.startTimestamp;
+    }
+  }
+
+  private addPartition(
+    token: string | null,
+    start: PreciseDate,
+    parentPartitionTokens: string[]
+  ) {
+    if (this.partitions.has(token)) {
+      return;
+    }
+    this.partitions.set(token, {
+      token,
+      watermark: start,
+      parentPartitionTokens,
+      state: 'pending',
+      unread: 0,
+      ended: false,
+    });
+  }
+
+  /**
+   * Starts reading the pending partitions whose parents have been read
+   * completely, and ends the reader when all partitions have been read.
+   */
+  private schedule() {
+    if (this.destroyed) {
+      return;
+    }
+    const partitions = Array.from(this.partitions.values());
+    const ready = partitions.filter(
+      partition =>
+        partition.state === 'pending' &&
+        partition.parentPartitionTokens.every(token => {
+          // Parents that are not known to the reader have been read before
+          // the checkpoint that the reader was resumed from.
+          const parent = this.partitions.get(token);
+          return !parent || parent.state === 'finished';
+        })
+    );
+    ready.forEach(partition => this.query(partition));
+    if (partitions.every(partition => partition.state === 'finished')) {
+      this.push(null);
+    }
+  }
+
+  private query(partition: PartitionState) {
+    partition.state = 'running';
+    const stream = this.changeStream.database.runStream(
+      this.changeStream.createQuery(
+        this.dialect,
+        partition.token,
+        partition.watermark,
+        this.end,
+        this.heartbeatMs
+      )
+    );
+    this.streams.add(stream);
+    stream
+      .on('data', row => {
+        decodeChangeRecords(row, partition.token).forEach(record => {
+          if (record.type === 'childPartitions') {
+            record.childPartitions.forEach(child =>
+              this.addPartition(
+                child.token,
+                record.startTimestamp,
+                child.parentPartitionTokens
+              )
+            );
+          }
+          this.records.set(record, partition);
+          partition.unread++;
+          if (!this.push(record)) {
+            this.streams.forEach(stream => stream.pause());
+          }
+        });
+      })
+      .on('error', err => this.destroy(err))
+      .on('end', () => {
+        this.streams.delete(stream);
+        partition.ended = true;
+        this.finishIfDone(partition);
+      });
+  }
+
+  private finishIfDone(partition: PartitionState) {
+    if (partition.ended && partition.unread === 0) {
+      partition.state = 'finished';
+      this.schedule();
+    }
+  }
+}
+
+/**
+ * Create a ChangeStream object to read the changes that are recorded by a
+ * change stream of a Cloud Spanner database.
+ *
+ * @class
+ *
+ * @param {Database} database {@link Database} instance.
+ * @param {string} name Name of the change stream.
+ *
+ * @example
+ * ```
+ * const {Spanner} = require('@google-cloud/spanner');
+ * const spanner = new Spanner();
+ *
+ * const instance = spanner.instance('my-instance');
+ * const database = instance.database('my-database');
+ * const changeStream = database.changeStream('EverythingStream');
+ * ```
+ */
+export class ChangeStream {
+  database: Database;
+  name: string;
+  constructor(database: Database, name: string) {
+    /**
+     * The {@link Database} instance of this {@link ChangeStream} instance.
+     * @name ChangeStream#database
+     * @type {Database}
+     */
+    this.database = database;
+    /**
+     * The name of this change stream.
+     * @name ChangeStream#name
+     * @type {string}
+     */
+    this.name = name;
+  }
+
+  /**
+   * Reads the changes of the change stream. The returned reader is a readable
+   * object stream of {@link ChangeRecord}s, that follows the child partitions
+   * of the change stream until the end timestamp.
+   *
+   * The reader can be resumed after a restart from a checkpoint that is taken
+   * with {@link ChangeStreamReader#checkpoint}.
+   *
+   * @param {ChangeStreamReadOptions} options The options of the read.
+   * @returns {ChangeStreamReader}
+   *
+   * @example
+   * ```
+   * const {Spanner} = require('@google-cloud/spanner');
+   * const spanner = new Spanner();
+   *
+   * const instance = spanner.instance('my-instance');
+   * const database = instance.database('my-database');
+   * const changeStream = database.changeStream('EverythingStream');
+   *
+   * const reader = changeStream.read({
+   *   start: new Date(Date.now() - 60 * 60 * 1000),
+   *   end: new Date(),
+   *   heartbeatMs: 5000,
+   * });
+   * for await (const record of reader) {
+   *   if (record.type === 'dataChange') {
+   *     console.log(record.tableName, record.modType, record.mods);
+   *   }
+   *   await saveCheckpoint(reader.checkpoint());
+   * }
+   *
+   * // Resume after a restart.
+   * const resumed = changeStream.read({checkpoint: await loadCheckpoint()});
+   * ```
+   */
+  read(options: ChangeStreamReadOptions): ChangeStreamReader {
+    return new ChangeStreamReader(this, options);
+  }
+
+  /**
+   * Creates the query of the table-valued function of the change stream for
+   * a partition.
+   *
+   * @private
+   */
+  createQuery(
+    dialect: string | undefined,
+    partitionToken: string | null,
+    start: PreciseDate,
+    end: PreciseDate | null,
+    heartbeatMs: number
+  ): ExecuteSqlRequest {
+    const query = {json: true, jsonOptions: {wrapNumbers: false}};
+    if (dialect === 'POSTGRESQL') {
+      return Object.assign(query, {
+        sql: `SELECT * FROM "spanner"."read_json_${this.name}"($1, $2, $3, $4, null)`,
+        params: {p1: start, p2: end, p3: partitionToken, p4: heartbeatMs},
+        types: {p1: 'timestamp', p2: 'timestamp', p3: 'string', p4: 'int64'},
+      });
+    }
+    return Object.assign(query, {
+      sql:
+        `SELECT ChangeRecord FROM READ_${this.name}(` +
+        'start_timestamp => @startTimestamp, ' +
+        'end_timestamp => @endTimestamp, ' +
+        'partition_token => @partitionToken, ' +
+        'heartbeat_milliseconds => @heartbeatMilliseconds)',
+      params: {
+        startTimestamp: start,
+        endTimestamp: end,
+        partitionToken,
+        heartbeatMilliseconds: heartbeatMs,
+      },
+      types: {
+        startTimestamp: 'timestamp',
+        endTimestamp: 'timestamp',
+        partitionToken: 'string',
+        heartbeatMilliseconds: 'int64',
+      },
+    });
+  }
+}
@@ -0,0 +1,276 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {google} from '../protos/protos';
+import type {Field, Struct, Value} from './codec';
+import type {Database} from './database';
+import TypeCode = google.spanner.v1.TypeCode;
+import TypeAnnotationCode = google.spanner.v1.TypeAnnotationCode;
+
+/**
+ * The name of a Spanner type code, such as `STRING`, `NUMERIC` or
+ * `TIMESTAMP`.
+ *
+ * @typedef {string} TypeCodeName
+ */
+export type TypeCodeName = Exclude<
+  keyof typeof TypeCode,
+  'TYPE_CODE_UNSPECIFIED' | 'ARRAY' | 'STRUCT'
+>;
+
+/**
+ * The type codes that the PostgreSQL type annotations apply to.
+ */
+const ANNOTATED_TYPE_CODES = {
+  PG_NUMERIC: 'NUMERIC',
+  PG_JSONB: 'JSON',
+  PG_OID: 'INT64',
+} as const;
+
+/**
+ * The name of a PostgreSQL type annotation: `PG_NUMERIC`, `PG_JSONB` or
+ * `PG_OID`.
+ *
+ * @typedef {string} TypeAnnotationName
+ */
+export type TypeAnnotationName = keyof typeof ANNOTATED_TYPE_CODES;
+
+/**
+ * Maps a domain class to a Spanner type.
+ *
+ * A codec applies to the values that are an instance of its `class`, or for
+ * which its `test` returns `true`. `encode` converts them to a value that the
+ * client encodes as the `typeCode` of the codec, such as a string for `STRING`
+ * or a {@link Numeric} for `NUMERIC`.
+ *
+ * When reading, `decode` receives the values of the `typeCode` as decoded by
+ * the client, such as a {@link Numeric} for `NUMERIC` or a `PreciseDate` for
+ * `TIMESTAMP`. The elements of arrays and the fields of structs are decoded as
+ * well. If the codec has `columns`, it only decodes the values of the columns
+ * (or struct fields) with those names. If the codec has a `typeAnnotation` or
+ * a `protoTypeFqn`, it only decodes the values of that exact type.
+ *
+ * @typedef {object} CustomCodec
+ * @property {string} typeCode The {@link TypeCodeName} of the Spanner type.
+ * @property {string} [typeAnnotation] The {@link TypeAnnotationName} of the
+ *     Spanner type, such as `PG_NUMERIC` for the `NUMERIC` type of a
+ *     PostgreSQL database.
+ * @property {string} [protoTypeFqn] **For `PROTO` and `ENUM` only**. The fully
+ *     qualified name of the proto message or enum.
+ * @property {function} [class] The class of the values that the codec encodes.
+ * @property {function(*): boolean} [test] Returns whether the codec encodes a
+ *     value.
+ * @property {string[]} [columns] The columns that the codec decodes. Defaults
+ *     to all columns of the `typeCode`.
+ * @property {function(*): *} encode Converts a value to the Spanner type.
+ * @property {function(*, string): *} decode Converts a value of the Spanner
+ *     type, and the name of its column.
+ */
+export interface CustomCodec<T = unknown> {
+  typeCode: TypeCodeName;
+  typeAnnotation?: TypeAnnotationName;
+  protoTypeFqn?: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  class?: new (...args: any[]) => T;
+  test?: (value: unknown) => boolean;
+  columns?: string[];
+  encode(value: T): Value;
+  decode(value: Value, column: string): T;
+}
+
+/**
+ * The custom codecs of a {@link Spanner} client or a {@link Database}. The
+ * codecs of a database take precedence over those of its client.
+ *
+ * Codecs are consulted when the types of query parameters are inferred, when
+ * parameters, keys and the rows of mutations are encoded, and when the rows of
+ * queries and reads are decoded. They are not consulted by {@link MutationSet}
+ * and {@link MutationGroup}, which are not bound to a database.
+ *
+ * @class
+ *
+ * @example
+ * ```
+ * const {Numeric, Spanner} = require('@google-cloud/spanner');
+ * const spanner = new Spanner();
+ *
+ * const database = spanner.instance('my-instance').database('my-database');
+ * database.codecs.register({
+ *   typeCode: 'NUMERIC',
+ *   class: Money,
+ *   columns: ['Price', 'Balance'],
+ *   encode: money => new Numeric(money.toString()),
+ *   decode: numeric => Money.parse(numeric.value),
+ * });
+ *
+ * await database.run({
+ *   sql: 'SELECT * FROM Products WHERE Price < @price',
+ *   params: {price: Money.parse('9.99')},
+ * });
+ * ```
+ */
+export class CodecRegistry {
+  /**
+   * The registered codecs, in the order in which they are consulted.
+   *
+   * @name CodecRegistry#codecs
+   * @type {CustomCodec[]}
+   */
+  codecs: CustomCodec[] = [];
+
+  /**
+   * Registers a codec. Codecs that are registered later take precedence.
+   *
+   * @throws {Error} If the codec has neither a `class` nor a `test`, an
+   *     unsupported type code, or a type annotation of another type code.
+   *
+   * @param {CustomCodec} codec The codec.
+   * @returns {CodecRegistry} The registry.
+   */
+  register<T>(codec: CustomCodec<T>): this {
+    if (!codec.class && !codec.test) {
+      throw new Error('A codec must have a class or a test.');
+    }
+    if (!(codec.typeCode in TypeCode) || !isScalar(codec.typeCode)) {
+      throw new Error(`Type code ${codec.typeCode} is not supported.`);
+    }
+    if (
+      codec.typeAnnotation &&
+      ANNOTATED_TYPE_CODES[codec.typeAnnotation] !== codec.typeCode
+    ) {
+      throw new Error(
+        `Type annotation ${codec.typeAnnotation} is not supported for type code ${codec.typeCode}.`
+      );
+    }
+    this.codecs.unshift(codec as CustomCodec);
+    return this;
+  }
+
+  /**
+   * Removes all codecs.
+   */
+  clear(): void {
+    this.codecs = [];
+  }
+
+  /**
+   * Returns the codec that encodes a value.
+   *
+   * @private
+   *
+   * @param {*} value The value.
+   * @returns {?CustomCodec}
+   */
+  forValue(value: Value): CustomCodec | null {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    return (
+      this.codecs.find(codec =>
+        codec.class ? value instanceof codec.class : codec.test!(value)
+      ) || null
+    );
+  }
+
+  /**
+   * Applies the codecs to a decoded value of a column.
+   *
+   * @private
+   *
+   * @param {*} value The value, as decoded by the client.
+   * @param {google.spanner.v1.IType} type The type of the value.
+   * @param {string} column The name of the column.
+   * @returns {*}
+   */
+  decode(value: Value, type: google.spanner.v1.IType, column: string): Value {
+    if (value === null || value === undefined) {
+      return value;
+    }
+    const code = typeCodeName(type.code);
+    if (code === 'ARRAY') {
+      return (value as Value[]).map(element =>
+        this.decode(element, type.arrayElementType!, column)
+      );
+    }
+    if (code === 'STRUCT') {
+      const fields = type.structType?.fields || [];
+      (value as Struct).forEach((field: Field, index) => {
+        field.value = this.decode(
+          field.value,
+          fields[index].type!,
+          field.name || ''
+        );
+      });
+      return value;
+    }
+    const annotation = typeAnnotationName(type.typeAnnotation);
+    const codec = this.codecs.find(
+      codec =>
+        codec.typeCode === code &&
+        (!codec.typeAnnotation || codec.typeAnnotation === annotation) &&
+        (!codec.protoTypeFqn || codec.protoTypeFqn === type.protoTypeFqn) &&
+        (!codec.columns || codec.columns.includes(column))
+    );
+    return codec ? codec.decode(value, column) : value;
+  }
+}
+
+/**
+ * Returns the codecs of a database and of its client, or `undefined` if
+ * neither has any codecs.
+ *
+ * @private
+ */
+export function getCodecs(
+  database: Database | undefined
+): CodecRegistry | undefined {
+  const databaseCodecs = database?.codecs?.codecs || [];
+  const clientCodecs = database?.parent?.parent?.codecs?.codecs || [];
+  if (!databaseCodecs.length && !clientCodecs.length) {
+    return undefined;
+  }
+  const codecs = new CodecRegistry();
+  codecs.codecs = [...databaseCodecs, ...clientCodecs];
+  return codecs;
+}
+
+/**
+ * Normalizes a type code that may be returned as either the enum value or its
+ * name.
+ */
+function typeCodeName(
+  code: google.spanner.v1.IType['code']
+): keyof typeof TypeCode {
+  return (
+    typeof code === 'number' ? TypeCode[code] : code || 'TYPE_CODE_UNSPECIFIED'
+  ) as keyof typeof TypeCode;
+}
+
+/**
+ * Normalizes a type annotation that may be returned as either the enum value
+ * or its name.
+ */
+function typeAnnotationName(
+  annotation: google.spanner.v1.IType['typeAnnotation']
+): string | undefined {
+  return typeof annotation === 'number'
+    ? TypeAnnotationCode[annotation]
+    : annotation || undefined;
+}
+
+function isScalar(code: string): boolean {
+  return !['TYPE_CODE_UNSPECIFIED', 'ARRAY', 'STRUCT'].includes(code);
+}
@@ -21,6 +21,11 @@ import * as is from 'is';
 import {common as p} from 'protobufjs';
 import {google as spannerClient} from '../protos/protos';
 import {GoogleError} from 'google-gax';
+import type {
+  CodecRegistry,
+  CustomCodec,
+  TypeAnnotationName,
+} from './codec-registry';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export type Value = any;
@@ -68,10 +73,73 @@ export interface Json {
   [field: string]: Value;
 }
 
+/**
+ * How INT64 values are represented: as a native `bigint`, as a decimal
+ * `string`, as an {@link Int} wrapper, or as a `number` (which throws for
+ * values that are out of the safe integer range).
+ *
+ * @typedef {string} Int64As
+ */
+export type Int64As = 'bigint' | 'string' | 'Int' | 'number';
+
+/**
+ * How DATE values are decoded: as a {@link SpannerDate}, which is a `Date` at
+ * local midnight, or as a time zone independent `Temporal.PlainDate` if the
+ * Temporal API is available, and a {@link PlainDate} otherwise.
+ *
+ * @typedef {string} DateAs
+ */
+export type DateAs = 'SpannerDate' | 'PlainDate';
+
+/**
+ * How TIMESTAMP values are decoded: as a `PreciseDate`, as a
+ * `Temporal.Instant` (which requires the Temporal API), or as an RFC 3339
+ * string in UTC with nanosecond precision.
+ *
+ * @typedef {string} TimestampAs
+ */
+export type TimestampAs = 'PreciseDate' | 'Instant' | 'string';
+
+/**
+ * @typedef {object} DecodeOptions
+ * @property {Int64As} [int64As='Int'] How INT64 values are decoded.
+ * @property {DateAs} [dateAs='SpannerDate'] How DATE values are decoded.
+ * @property {TimestampAs} [timestampAs='PreciseDate'] How TIMESTAMP values are
+ *     decoded.
+ */
+export interface DecodeOptions {
+  int64As?: Int64As;
+  dateAs?: DateAs;
+  timestampAs?: TimestampAs;
+}
+
+/**
+ * The parts of the Temporal API that the client uses.
+ *
+ * @private
+ */
+interface TemporalApi {
+  PlainDate: {from(date: string): object};
+  Instant: {from(timestamp: string): object};
+}
+
+/**
+ * A value of the Temporal API, such as a `Temporal.PlainDate`.
+ *
+ * @private
+ */
+interface TemporalValue {
+  year: number;
+  month: number;
+  day: number;
+  toString(): string;
+}
+
 export interface JSONOptions {
   wrapNumbers?: boolean;
   wrapStructs?: boolean;
   includeNameless?: boolean;
+  int64As?: Int64As;
 }
 
 // https://github.com/Microsoft/TypeScript/issues/27920
@@ -142,6 +210,71 @@ export class SpannerDate extends Date {
   }
 }
 
+/**
+ * A calendar date without a time zone. Unlike a {@link SpannerDate}, it does
+ * not depend on the time zone of the process.
+ *
+ * @class
+ *
+ * @param {number} year The year.
+ * @param {number} month The month (1 = January).
+ * @param {number} day The day of the month.
+ *
+ * @example
+ * ```
+ * const {PlainDate} = require('@google-cloud/spanner');
+ * const date = PlainDate.from('1933-03-03');
+ * console.log(date.year, date.month, date.day);
+ * ```
+ */
+export class PlainDate {
+  year: number;
+  month: number;
+  day: number;
+  constructor(year: number, month: number, day: number) {
+    this.year = year;
+    this.month = month;
+    this.day = day;
+  }
+  /**
+   * Parses a date in ISO date format.
+   *
+   * @throws {Error} If the date is not in `YYYY-MM-DD` format.
+   *
+   * @param {string} date The date.
+   * @returns {PlainDate}
+   */
+  static from(date: string): PlainDate {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+    if (!match) {
+      throw new Error(`Invalid date: ${date}`);
+    }
+    return new PlainDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+  /**
+   * Returns the date in ISO date format.
+   * `YYYY-MM-DD`
+   *
+   * @returns {string}
+   */
+  toString(): string {
+    return [
+      this.year.toString().padStart(4, '0'),
+      this.month.toString().padStart(2, '0'),
+      this.day.toString().padStart(2, '0'),
+    ].join('-');
+  }
+  /**
+   * Returns the date in ISO date format.
+   * `YYYY-MM-DD`
+   *
+   * @returns {string}
+   */
+  toJSON(): string {
+    return this.toString();
+  }
+}
+
 /**
  * Using an abstract class to simplify checking for wrapped numbers.
  *
@@ -188,7 +321,7 @@ export class Float extends WrappedNumber {
  */
 export class Int extends WrappedNumber {
   value: string;
-  constructor(value: string) {
+  constructor(value: string | number | bigint) {
     super();
     this.value = value.toString();
   }
@@ -199,6 +332,14 @@ export class Int extends WrappedNumber {
     }
     return num;
   }
+  /**
+   * Returns the value as a native `bigint`, without loss of precision.
+   *
+   * @returns {bigint}
+   */
+  toBigInt(): bigint {
+    return BigInt(this.value);
+  }
 }
 
 /**
@@ -403,6 +544,9 @@ export class PGOid extends WrappedNumber {
  * @property {boolean} [includeNameless=false] Indicates if nameless columns
  *     should be included in the result. If true, nameless columns will be
  *     assigned the name '_{column_index}'.
+ * @property {Int64As} [int64As] How INT64 values are returned. Overrides
+ *     `wrapNumbers` for INT64 values. Use `bigint` for IDs that do not fit
+ *     in a `number`.
  */
 /**
  * Wherever a row or struct object is returned, it is assigned a "toJSON"
@@ -459,6 +603,12 @@ function convertFieldsToJson(fields: Field[], options?: JSONOptions): Json {
  * @return {*}
  */
 function convertValueToJson(value: Value, options: JSONOptions): Value {
+  if (options.int64As && value instanceof Int) {
+    return options.int64As === 'Int'
+      ? value
+      : convertInt64(value.value, options.int64As);
+  }
+
   if (!options.wrapNumbers && value instanceof WrappedNumber) {
     return value.valueOf();
   }
@@ -485,6 +635,80 @@ function convertValueToJson(value: Value, options: JSONOptions): Value {
   return value;
 }
 
+/**
+ * Converts an INT64 value to the requested representation.
+ *
+ * @private
+ *
+ * @param {string} value The decimal INT64 value.
+ * @param {Int64As} int64As The representation.
+ * @returns {*}
+ */
+function convertInt64(value: string, int64As: Int64As): Value {
+  switch (int64As) {
+    case 'bigint':
+      return BigInt(value);
+    case 'string':
+      return value;
+    case 'number':
+      return new Int(value).valueOf();
+    default:
+      return new Int(value);
+  }
+}
+
+/**
+ * Returns the Temporal API, if it is available.
+ *
+ * @private
+ */
+function getTemporal(): TemporalApi | undefined {
+  return (globalThis as {Temporal?: TemporalApi}).Temporal;
+}
+
+/**
+ * Checks whether a value is an object of a Temporal type, such as `Instant`.
+ *
+ * @private
+ */
+function isTemporal(value: Value, type: 'PlainDate' | 'Instant'): boolean {
+  return Object.prototype.toString.call(value) === `[object Temporal.${type}]`;
+}
+
+/**
+ * Decodes a TIMESTAMP value.
+ *
+ * @private
+ */
+function decodeTimestamp(value: string, timestampAs?: TimestampAs): Value {
+  if (timestampAs === 'string') {
+    return value;
+  }
+  if (timestampAs === 'Instant') {
+    const temporal = getTemporal();
+    if (!temporal) {
+      throw new GoogleError(
+        'The Temporal API is not available. Use timestampAs: "string" instead.'
+      );
+    }
+    return temporal.Instant.from(value);
+  }
+  return new PreciseDate(value);
+}
+
+/**
+ * Decodes a DATE value.
+ *
+ * @private
+ */
+function decodeDate(value: string, dateAs?: DateAs): Value {
+  if (dateAs === 'PlainDate') {
+    const temporal = getTemporal();
+    return temporal ? temporal.PlainDate.from(value) : PlainDate.from(value);
+  }
+  return new SpannerDate(value);
+}
+
 /**
  * Re-decode after the generic gRPC decoding step.
  *
@@ -493,12 +717,14 @@ function convertValueToJson(value: Value, options: JSONOptions): Value {
  * @param {*} value Value to decode
  * @param {object[]} type Value type object.
  * @param columnMetadata Optional parameter to deserialize data
+ * @param {DecodeOptions} [options] How values are decoded.
  * @returns {*}
  */
 function decode(
   value: Value,
   type: spannerClient.spanner.v1.Type,
-  columnMetadata?: object
+  columnMetadata?: object,
+  options: DecodeOptions = {}
 ): Value {
   if (is.null(value)) {
     return null;
@@ -547,7 +773,7 @@ function decode(
         decoded = new PGOid(decoded);
         break;
       }
-      decoded = new Int(decoded);
+      decoded = convertInt64(decoded, options.int64As || 'Int');
       break;
     case spannerClient.spanner.v1.TypeCode.NUMERIC:
     case 'NUMERIC':
@@ -563,11 +789,11 @@ function decode(
       break;
     case spannerClient.spanner.v1.TypeCode.TIMESTAMP:
     case 'TIMESTAMP':
-      decoded = new PreciseDate(decoded);
+      decoded = decodeTimestamp(decoded, options.timestampAs);
       break;
     case spannerClient.spanner.v1.TypeCode.DATE:
     case 'DATE':
-      decoded = new SpannerDate(decoded);
+      decoded = decodeDate(decoded, options.dateAs);
       break;
     case spannerClient.spanner.v1.TypeCode.JSON:
     case 'JSON':
@@ -587,7 +813,8 @@ function decode(
         return decode(
           value,
           type.arrayElementType! as spannerClient.spanner.v1.Type,
-          columnMetadata
+          columnMetadata,
+          options
         );
       });
       break;
@@ -597,7 +824,8 @@ function decode(
         const value = decode(
           (!Array.isArray(decoded) && decoded[name!]) || decoded[index],
           type as spannerClient.spanner.v1.Type,
-          columnMetadata
+          columnMetadata,
+          options
         );
         return {name, value};
       });
@@ -616,10 +844,11 @@ function decode(
  * @private
  *
  * @param {*} value The value to be encoded.
+ * @param {CodecRegistry} [codecs] The custom codecs.
  * @returns {object} google.protobuf.Value
  */
-function encode(value: Value): p.IValue {
-  return GrpcService.encodeValue_(encodeValue(value));
+function encode(value: Value, codecs?: CodecRegistry): p.IValue {
+  return GrpcService.encodeValue_(encodeValue(value, codecs));
 }
 
 /**
@@ -630,17 +859,40 @@ function encode(value: Value): p.IValue {
  * @private
  *
  * @param {*} value The value to be encoded.
+ * @param {CodecRegistry} [codecs] The custom codecs.
  * @returns {*}
  */
-function encodeValue(value: Value): Value {
+function encodeValue(value: Value, codecs?: CodecRegistry): Value {
+  const customCodec = codecs?.forValue(value);
+  if (customCodec) {
+    return encodeValue(customCodec.encode(value));
+  }
+
   if (is.number(value) && !is.decimal(value)) {
     return value.toString();
   }
 
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+
   if (is.date(value)) {
     return value.toJSON();
   }
 
+  if (value instanceof PlainDate) {
+    return value.toString();
+  }
+
+  if (isTemporal(value, 'PlainDate')) {
+    const {year, month, day} = value as TemporalValue;
+    return new PlainDate(year, month, day).toString();
+  }
+
+  if (isTemporal(value, 'Instant')) {
+    return value.toString();
+  }
+
   if (value instanceof WrappedNumber) {
     return value.value;
   }
@@ -666,11 +918,11 @@ function encodeValue(value: Value): Value {
   }
 
   if (value instanceof Struct) {
-    return Array.from(value).map(field => encodeValue(field.value));
+    return Array.from(value).map(field => encodeValue(field.value, codecs));
   }
 
   if (is.array(value)) {
-    return value.map(encodeValue);
+    return value.map(child => encodeValue(child, codecs));
   }
 
   if (value instanceof PGJsonb) {
@@ -730,6 +982,40 @@ interface FieldType extends Type {
   name: string;
 }
 
+/**
+ * The types of the values that have a PostgreSQL type annotation.
+ */
+const ANNOTATED_TYPES: {[annotation in TypeAnnotationName]: string} = {
+  PG_NUMERIC: 'pgNumeric',
+  PG_JSONB: 'jsonb',
+  PG_OID: 'pgOid',
+};
+
+/**
+ * Get the Spanner data type of the values of a custom codec.
+ *
+ * @private
+ *
+ * @param {CustomCodec} customCodec - The codec.
+ * @returns {object}
+ */
+function getCustomType({
+  typeCode,
+  typeAnnotation,
+  protoTypeFqn,
+}: CustomCodec): Type {
+  if (typeAnnotation) {
+    return {type: ANNOTATED_TYPES[typeAnnotation]};
+  }
+  const type: Type = {
+    type: Object.keys(TypeCode).find(type => TypeCode[type] === typeCode)!,
+  };
+  if (protoTypeFqn) {
+    type.fullName = protoTypeFqn;
+  }
+  return type;
+}
+
 /**
  * @typedef {ParamType} StructField
  * @property {string} name The name of the field.
@@ -762,6 +1048,7 @@ interface FieldType extends Type {
  * @private
  *
  * @param {*} value - The value.
+ * @param {CodecRegistry} [codecs] - The custom codecs.
  * @returns {object}
  *
  * @example
@@ -770,7 +1057,12 @@ interface FieldType extends Type {
  * // {type: 'float64'}
  * ```
  */
-function getType(value: Value): Type {
+function getType(value: Value, codecs?: CodecRegistry): Type {
+  const customCodec = codecs?.forValue(value);
+  if (customCodec) {
+    return getCustomType(customCodec);
+  }
+
   const isSpecialNumber =
     is.infinite(value) || (is.number(value) && isNaN(value));
 
@@ -782,7 +1074,7 @@ function getType(value: Value): Type {
     return {type: 'float64'};
   }
 
-  if (is.number(value) || value instanceof Int) {
+  if (is.number(value) || typeof value === 'bigint' || value instanceof Int) {
     return {type: 'int64'};
   }
 
@@ -822,10 +1114,18 @@ function getType(value: Value): Type {
     return {type: 'bytes'};
   }
 
-  if (value instanceof SpannerDate) {
+  if (
+    value instanceof SpannerDate ||
+    value instanceof PlainDate ||
+    isTemporal(value, 'PlainDate')
+  ) {
     return {type: 'date'};
   }
 
+  if (isTemporal(value, 'Instant')) {
+    return {type: 'timestamp'};
+  }
+
   if (is.date(value)) {
     return {type: 'timestamp'};
   }
@@ -834,7 +1134,7 @@ function getType(value: Value): Type {
     return {
       type: 'struct',
       fields: Array.from(value).map(({name, value}) => {
-        return Object.assign({name}, getType(value));
+        return Object.assign({name}, getType(value, codecs));
       }),
     };
   }
@@ -852,7 +1152,7 @@ function getType(value: Value): Type {
 
     return {
       type: 'array',
-      child: getType(child),
+      child: getType(child, codecs),
     };
   }
 
@@ -869,10 +1169,13 @@ function getType(value: Value): Type {
  * @private
  *
  * @param {*} value The value to convert.
+ * @param {CodecRegistry} [codecs] The custom codecs.
  * @returns {object}
  */
-function convertToListValue<T>(value: T): p.IListValue {
-  const values = (arrify(value) as T[]).map(codec.encode);
+function convertToListValue<T>(value: T, codecs?: CodecRegistry): p.IListValue {
+  const values = (arrify(value) as T[]).map(value =>
+    codec.encode(value, codecs)
+  );
   return {values};
 }
 
@@ -969,6 +1272,7 @@ export const codec = {
   convertProtoTimestampToDate,
   createTypeObject,
   SpannerDate,
+  PlainDate,
   Float32,
   Float,
   Int,
@@ -0,0 +1,474 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {ColumnModel, IndexModel, SchemaModel, TableModel} from './schema-model';
+
+/**
+ * @typedef {object} GenerateRowTypesOptions
+ * @property {string} [importFrom='@google-cloud/spanner'] The module that the
+ *     generated code imports the client library from.
+ * @property {string[]} [enums] The fully qualified names of the proto enums in
+ *     the proto bundle. Other proto types are mapped to `ProtoMessage`.
+ * @property {boolean} [helpers=true] Whether to generate typed helpers for
+ *     `Table.insert`, `Table.update`, `Table.upsert` and `Table.read`.
+ */
+export interface GenerateRowTypesOptions {
+  importFrom?: string;
+  enums?: string[];
+  helpers?: boolean;
+}
+
+/**
+ * The TypeScript types of a column: the type of the decoded value and the
+ * types that are accepted when the column is written.
+ */
+interface ColumnType {
+  read: string;
+  write: string;
+}
+
+const JSON_VALUE =
+  'string | number | boolean | null | JsonValue[] | {[key: string]: JsonValue}';
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Maps Spanner column types to TypeScript types, and records the names that
+ * the generated code has to import.
+ *
+ * @private
+ */
+class TypeMapper {
+  imports = new Set<string>();
+  preciseDate = false;
+  json = false;
+  private enums: string[];
+  private postgres: boolean;
+
+  constructor(dialect: SchemaModel['dialect'], enums: string[]) {
+    this.postgres = dialect === 'POSTGRESQL';
+    this.enums = enums;
+  }
+
+  private use(name: string): string {
+    this.imports.add(name);
+    return name;
+  }
+
+  map(spannerType: string): ColumnType {
+    const type = spannerType.trim();
+
+    const array = this.postgres
+      ? /^(.*)\[\]$/.exec(type)
+      : /^ARRAY<(.*)>(\(.*\))?$/i.exec(type);
+    if (array) {
+      const element = this.map(array[1]);
+      return {
+        read: `Array<${element.read} | null>`,
+        write: `Array<${element.write} | null>`,
+      };
+    }
+
+    const proto = /^(PROTO|ENUM)<(.*)>$/i.exec(type);
+    if (proto) {
+      return this.proto(proto[2], proto[1].toUpperCase() === 'ENUM');
+    }
+
+    // Lengths, such as in `STRING(MAX)` or `character varying(100)`, do not
+    // change the TypeScript type.
+    const base = type.replace(/\(.*\)$/, '').toUpperCase();
+    switch (base) {
+      case 'BOOL':
+      case 'BOOLEAN':
+        return {read: 'boolean', write: 'boolean'};
+      case 'INT64':
+      case 'BIGINT':
+        return this.wrapped('Int', 'number | string');
+      case 'FLOAT64':
+      case 'DOUBLE PRECISION':
+        return this.wrapped('Float', 'number');
+      case 'FLOAT32':
+      case 'REAL':
+        return this.wrapped('Float32', 'number');
+      case 'NUMERIC':
+        return this.wrapped(this.postgres ? 'PGNumeric' : 'Numeric', 'string');
+      case 'STRING':
+      case 'CHARACTER VARYING':
+      case 'VARCHAR':
+      case 'TEXT':
+        return {read: 'string', write: 'string'};
+      case 'BYTES':
+      case 'BYTEA':
+      case 'TOKENLIST':
+        return {read: 'Buffer', write: 'Buffer'};
+      case 'DATE':
+        return this.wrapped('SpannerDate', 'string');
+      case 'TIMESTAMP':
+      case 'TIMESTAMPTZ':
+      case 'TIMESTAMP WITH TIME ZONE':
+        this.preciseDate = true;
+        return {read: 'PreciseDate', write: 'PreciseDate | Date | string'};
+      case 'JSON':
+        this.json = true;
+        return {read: 'JsonValue', write: 'JsonValue'};
+      case 'JSONB':
+        return this.wrapped('PGJsonb', 'object');
+      default:
+        // Proto columns are described by the fully qualified name of their
+        // type.
+        if (
+          !this.postgres &&
+          /^[A-Za-z_][\w]*(\.[A-Za-z_][\w]*)+$/.test(type)
+        ) {
+          return this.proto(type, this.enums.includes(type));
+        }
+        return {read: 'unknown', write: 'unknown'};
+    }
+  }
+
+  private wrapped(name: string, primitive: string): ColumnType {
+    return {read: this.use(name), write: `${name} | ${primitive}`};
+  }
+
+  private proto(name: string, isEnum: boolean): ColumnType {
+    return isEnum
+      ? this.wrapped('ProtoEnum', 'number | string')
+      : {read: this.use('ProtoMessage'), write: 'ProtoMessage'};
+  }
+}
+
+/**
+ * Converts a table or index name to a TypeScript type name, for example
+ * `music.album_tracks` to `MusicAlbumTracks`.
+ *
+ * @private
+ */
+function toTypeName(name: string): string {
+  const typeName = name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(part => part.length)
+    .map(part => part[0].toUpperCase() + part.slice(1))
+    .join('');
+  return /^[0-9]/.test(typeName) ? `_${typeName}` : typeName;
+}
+
+function toVariableName(name: string): string {
+  const typeName = toTypeName(name);
+  return typeName[0] === '_'
+    ? typeName
+    : typeName[0].toLowerCase() + typeName.slice(1);
+}
+
+function property(name: string): string {
+  return IDENTIFIER.test(name) ? name : quote(name);
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Writes the TypeScript source of the generated module.
+ *
+ * @private
+ */
+class RowTypeWriter {
+  private lines: string[] = [];
+  private mapper: TypeMapper;
+  private helpers: boolean;
+
+  constructor(
+    private model: SchemaModel,
+    options: GenerateRowTypesOptions
+  ) {
+    this.mapper = new TypeMapper(model.dialect, options.enums || []);
+    this.helpers = options.helpers !== false;
+  }
+
+  write(importFrom: string): string {
+    const tables = new Map(this.model.tables.map(table => [table.name, table]));
+    this.model.tables.forEach(table => this.table(table));
+    this.model.indexes
+      .filter(index => tables.has(index.table))
+      .forEach(index => this.index(index, tables.get(index.table)!));
+    const body = this.lines;
+
+    this.lines = [];
+    this.line(
+      '// Generated by spanner-codegen from the schema of a Cloud Spanner',
+      '// database. Do not edit this file, regenerate it when the schema changes.',
+      ''
+    );
+    const imports = [...this.mapper.imports];
+    if (this.helpers && this.model.tables.length) {
+      imports.push(
+        'Database',
+        'InsertRowsOptions',
+        'ReadRequest',
+        'TimestampBounds',
+        'UpdateRowsOptions',
+        'UpsertRowsOptions'
+      );
+    }
+    if (this.mapper.preciseDate) {
+      this.line("import {PreciseDate} from '@google-cloud/precise-date';");
+    }
+    if (imports.length) {
+      this.line(
+        `import {${imports.sort().join(', ')}} from ${quote(importFrom)};`
+      );
+    }
+    if (this.mapper.preciseDate || imports.length) {
+      this.line('');
+    }
+    if (this.mapper.json) {
+      this.line(
+        '/** The value of a `JSON` column. */',
+        `export type JsonValue = ${JSON_VALUE};`,
+        ''
+      );
+    }
+    if (imports.includes('ReadRequest')) {
+      this.readHelpers();
+    }
+    return [...this.lines, ...body].join('\n').replace(/\n+$/, '\n');
+  }
+
+  private line(...lines: string[]) {
+    this.lines.push(...lines);
+  }
+
+  private readHelpers() {
+    this.line(
+      '/** A read request with typed keys and columns. */',
+      'export interface TypedReadRequest<K, C>',
+      "  extends Omit<ReadRequest, 'table' | 'index' | 'columns' | 'keys' | 'json'> {",
+      '  columns?: C[];',
+      '  keys?: K[];',
+      '}',
+      '',
+      'function toReadRequest(',
+      '  request: {columns?: string[]; keys?: unknown[]},',
+      '  columns: string[],',
+      '  index?: string',
+      '): ReadRequest {',
+      '  const readRequest = Object.assign({}, request, {',
+      '    columns: request.columns || columns,',
+      '    keys: request.keys as string[][] | undefined,',
+      '  });',
+      '  return index ? Object.assign(readRequest, {index}) : readRequest;',
+      '}',
+      '',
+      'function toObject<T>(row: unknown): T {',
+      '  const fields = row as Array<{name: string; value: unknown}>;',
+      '  return fields.reduce(',
+      '    (object, {name, value}) => Object.assign(object, {[name]: value}),',
+      '    {}',
+      '  ) as T;',
+      '}',
+      ''
+    );
+  }
+
+  private fields(columns: ColumnModel[], write = false): string[] {
+    return columns.map(column => {
+      const type = this.mapper.map(column.type);
+      const optional =
+        write && (column.nullable || column.defaultExpression !== null);
+      const nullable = column.nullable ? ' | null' : '';
+      return `  ${property(column.name)}${optional ? '?' : ''}: ${
+        write ? type.write : type.read
+      }${nullable};`;
+    });
+  }
+
+  private keyType(keys: string[], columns: ColumnModel[]): string {
+    const byName = new Map(columns.map(column => [column.name, column]));
+    const types = keys.map(key => {
+      const column = byName.get(key);
+      const type = column ? this.mapper.map(column.type).write : 'unknown';
+      return column?.nullable ? `${type} | null` : type;
+    });
+    return `[${types.join(', ')}]`;
+  }
+
+  private table(table: TableModel) {
+    const typeName = toTypeName(table.name);
+    const writable = table.columns.filter(
+      column => column.generationExpression === null
+    );
+    const keys = table.primaryKey.map(key => key.column);
+    this.line(
+      `/** A row of the \`${table.name}\` table. */`,
+      `export interface ${typeName}Row {`,
+      ...this.fields(table.columns),
+      '}',
+      '',
+      `/** A row that is inserted into the \`${table.name}\` table. */`,
+      `export interface ${typeName}Write {`,
+      ...this.fields(writable, true),
+      '}',
+      '',
+      `/** A row that is updated in the \`${table.name}\` table. */`,
+      `export type ${typeName}Update = Pick<${typeName}Write, ${
+        keys.map(quote).join(' | ') || 'never'
+      }> &`,
+      `  Partial<${typeName}Write>;`,
+      '',
+      `/** The primary key of the \`${table.name}\` table. */`,
+      `export type ${typeName}Key = ${this.keyType(keys, table.columns)};`,
+      ''
+    );
+    if (!this.helpers) {
+      return;
+    }
+    const name = quote(table.name);
+    this.line(
+      `/** Typed helpers for the \`${table.name}\` table. */`,
+      `export const ${toVariableName(table.name)}Table = {`,
+      `  name: ${name},`,
+      `  columns: [${table.columns.map(c => quote(c.name)).join(', ')}] as Array<`,
+      `    keyof ${typeName}Row`,
+      '  >,',
+      '  insert(',
+      '    database: Database,',
+      `    rows: ${typeName}Write | ${typeName}Write[],`,
+      '    options?: InsertRowsOptions',
+      '  ) {',
+      `    return database.table(${name}).insert(rows, options);`,
+      '  },',
+      '  update(',
+      '    database: Database,',
+      `    rows: ${typeName}Update | ${typeName}Update[],`,
+      '    options?: UpdateRowsOptions',
+      '  ) {',
+      `    return database.table(${name}).update(rows, options);`,
+      '  },',
+      '  upsert(',
+      '    database: Database,',
+      `    rows: ${typeName}Write | ${typeName}Write[],`,
+      '    options?: UpsertRowsOptions',
+      '  ) {',
+      `    return database.table(${name}).upsert(rows, options);`,
+      '  },',
+      `  async read<C extends keyof ${typeName}Row = keyof ${typeName}Row>(`,
+      '    database: Database,',
+      `    request: TypedReadRequest<${typeName}Key, C>,`,
+      '    options?: TimestampBounds',
+      `  ): Promise<Array<Pick<${typeName}Row, C>>> {`,
+      '    const [rows] = await database',
+      `      .table(${name})`,
+      '      .read(toReadRequest(request, this.columns), options);',
+      `    return rows.map(row => toObject<Pick<${typeName}Row, C>>(row));`,
+      '  },',
+      '};',
+      ''
+    );
+  }
+
+  private index(index: IndexModel, table: TableModel) {
+    const typeName = `${toTypeName(index.name)}Index`;
+    const byName = new Map(table.columns.map(column => [column.name, column]));
+    // An index contains its keys, its stored columns and the primary key of
+    // the indexed table.
+    const names = [
+      ...index.keys.map(key => key.column),
+      ...index.storing,
+      ...table.primaryKey.map(key => key.column),
+    ].filter((name, i, all) => all.indexOf(name) === i && byName.has(name));
+    const columns = names.map(name => byName.get(name)!);
+    this.line(
+      `/** A row of the \`${index.name}\` index on the \`${table.name}\` table. */`,
+      `export interface ${typeName}Row {`,
+      ...this.fields(columns),
+      '}',
+      '',
+      `/** The key of the \`${index.name}\` index. */`,
+      `export type ${typeName}Key = ${this.keyType(
+        index.keys.map(key => key.column),
+        table.columns
+      )};`,
+      ''
+    );
+    if (!this.helpers) {
+      return;
+    }
+    this.line(
+      `/** Typed helpers for the \`${index.name}\` index. */`,
+      `export const ${toVariableName(index.name)}Index = {`,
+      `  name: ${quote(index.name)},`,
+      `  table: ${quote(table.name)},`,
+      `  columns: [${names.map(quote).join(', ')}] as Array<keyof ${typeName}Row>,`,
+      `  async read<C extends keyof ${typeName}Row = keyof ${typeName}Row>(`,
+      '    database: Database,',
+      `    request: TypedReadRequest<${typeName}Key, C>,`,
+      '    options?: TimestampBounds',
+      `  ): Promise<Array<Pick<${typeName}Row, C>>> {`,
+      '    const [rows] = await database',
+      '      .table(this.table)',
+      '      .read(toReadRequest(request, this.columns, this.name), options);',
+      `    return rows.map(row => toObject<Pick<${typeName}Row, C>>(row));`,
+      '  },',
+      '};',
+      ''
+    );
+  }
+}
+
+/**
+ * Generates the source of a TypeScript module with row types for the tables
+ * and indexes of a schema model.
+ *
+ * For each table, the module contains an interface of the decoded row, in
+ * which every column is typed as the codec class that the client library
+ * decodes it to, such as `Int`, `Float`, `SpannerDate` or `PreciseDate`. It
+ * further contains an interface of the values that are accepted when the row
+ * is written, a type of the primary key, and typed helpers for
+ * `Table.insert`, `Table.update`, `Table.upsert` and `Table.read`.
+ *
+ * The `spanner-codegen` command writes the module for a live database.
+ *
+ * @param {SchemaModel} model The schema model, see
+ *     {@link Database#getSchemaModel}.
+ * @param {GenerateRowTypesOptions} [options] Generation options.
+ * @returns {string} The TypeScript source.
+ *
+ * @example
+ * ```
+ * const {generateRowTypes} = require('@google-cloud/spanner');
+ * const fs = require('fs');
+ *
+ * const model = await database.getSchemaModel();
+ * fs.writeFileSync('schema.ts', generateRowTypes(model));
+ *
+ * // In application code.
+ * import {singersTable} from './schema';
+ *
+ * await singersTable.insert(database, {SingerId: 1, FirstName: 'Marc'});
+ * const rows = await singersTable.read(database, {
+ *   keys: [[1]],
+ *   columns: ['FirstName'],
+ * });
+ * ```
+ */
+export function generateRowTypes(
+  model: SchemaModel,
+  options: GenerateRowTypesOptions = {}
+): string {
+  return new RowTypeWriter(model, options).write(
+    options.importFrom || '@google-cloud/spanner'
+  );
+}
@@ -0,0 +1,689 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {once} from 'events';
+import {
+  Readable,
+  Transform,
+  TransformCallback,
+  Writable,
+  pipeline,
+} from 'stream';
+import {StringDecoder} from 'string_decoder';
+import {promisify} from 'util';
+import {GoogleError} from 'google-gax';
+import {BulkWriter, BulkWriterOptions} from './bulk-writer';
+import {Float, Float32, PGJsonb} from './codec';
+import {Database} from './database';
+import {Row} from './partial-result-stream';
+import {EXPORT_DECODE_OPTIONS, RowEncoder, createEncoder} from './query-export';
+import {TableModel} from './schema-model';
+import {ExecuteSqlRequest, MutationGroup} from './transaction';
+
+const pipelineAsync = promisify(pipeline);
+
+/**
+ * The file format of an import or export: `csv` or `ndjson`.
+ *
+ * @typedef {string} TransferFormat
+ */
+export type TransferFormat = 'csv' | 'ndjson';
+
+/**
+ * @typedef {object} ExportRowsOptions
+ * @property {TransferFormat} [format='ndjson'] The format of the output.
+ * @property {string} [table] The table to export. Either `table` or `query`
+ *     is required.
+ * @property {string[]} [columns] The columns of the table to export. Defaults
+ *     to all columns of the table.
+ * @property {string|ExecuteSqlRequest} [query] The query to export.
+ */
+export interface ExportRowsOptions {
+  format?: TransferFormat;
+  table?: string;
+  columns?: string[];
+  query?: string | ExecuteSqlRequest;
+}
+
+/**
+ * @typedef {object} ImportRowsOptions
+ * @property {TransferFormat} [format='ndjson'] The format of the input.
+ * @property {number} [fromLine=1] Skip the records that start before this
+ *     line of the input. The header of a CSV file is always read.
+ * @property {boolean} [dryRun=false] Only validate the rows, without writing
+ *     them.
+ * @property {BulkWriterOptions} [writerOptions] Options for the
+ *     {@link BulkWriter} that writes the rows.
+ */
+export interface ImportRowsOptions {
+  format?: TransferFormat;
+  fromLine?: number;
+  dryRun?: boolean;
+  writerOptions?: BulkWriterOptions;
+}
+
+/**
+ * @typedef {object} ImportFailure
+ * @property {number} line The line of the input where the failed row starts.
+ * @property {Error} error Why the row was not imported.
+ */
+export interface ImportFailure {
+  line: number;
+  error: Error;
+}
+
+/**
+ * @typedef {object} ImportResult
+ * @property {number} rows The number of rows that were valid.
+ * @property {number} written The number of rows that were written. Always 0
+ *     for a dry run.
+ * @property {ImportFailure[]} failures The rows that were invalid or could not
+ *     be written, ordered by line.
+ */
+export interface ImportResult {
+  rows: number;
+  written: number;
+  failures: ImportFailure[];
+}
+
+/**
+ * A record of the input with the line where it starts.
+ *
+ * @private
+ */
+interface InputRecord {
+  line: number;
+  values?: Array<string | null>;
+  value?: unknown;
+  error?: Error;
+}
+
+/**
+ * Parses CSV text as described in RFC 4180 into records of fields. Unquoted
+ * empty fields are parsed as null, and quoted empty fields as empty strings.
+ * Empty lines are skipped.
+ *
+ * @private
+ */
+export class CsvParser extends Transform {
+  private field = '';
+  private quotedField = false;
+  private quoted = false;
+  private quoteEnd = false;
+  private values: Array<string | null> = [];
+  private line = 1;
+  private recordLine = 1;
+  private decoder = new StringDecoder('utf8');
+  constructor() {
+    super({readableObjectMode: true, decodeStrings: false});
+  }
+
+  _transform(
+    chunk: Buffer | string,
+    _encoding: string,
+    callback: TransformCallback
+  ) {
+    const text = this.decode(chunk);
+    for (const char of text) {
+      if (this.quoted) {
+        if (this.quoteEnd) {
+          this.quoteEnd = false;
+          if (char === '"') {
+            this.field += '"';
+            continue;
+          }
+          this.quoted = false;
+        } else {
+          if (char === '"') {
+            this.quoteEnd = true;
+          } else {
+            if (char === '\n') {
+              this.line++;
+            }
+            this.field += char;
+          }
+          continue;
+        }
+      }
+      if (char === '"' && !this.field && !this.quotedField) {
+        if (!this.values.length) {
+          this.recordLine = this.line;
+        }
+        this.quoted = true;
+        this.quotedField = true;
+      } else if (char === ',') {
+        this.endField();
+      } else if (char === '\n') {
+        this.endRecord();
+        this.line++;
+        this.recordLine = this.line;
+      } else if (char !== '\r') {
+        this.field += char;
+      }
+    }
+    callback();
+  }
+
+  _flush(callback: TransformCallback) {
+    if (this.quoted && !this.quoteEnd) {
+      callback(
+        new GoogleError(
+          `Unterminated quoted field in the record at line ${this.recordLine}.`
+        )
+      );
+      return;
+    }
+    this.endRecord();
+    callback();
+  }
+
+  private decode(chunk: Buffer | string): string {
+    return typeof chunk === 'string' ? chunk : this.decoder.write(chunk);
+  }
+
+  private endField() {
+    this.values.push(this.field || this.quotedField ? this.field : null);
+    this.field = '';
+    this.quotedField = false;
+    this.quoted = false;
+    this.quoteEnd = false;
+  }
+
+  private endRecord() {
+    if (!this.values.length && !this.field && !this.quotedField) {
+      return;
+    }
+    this.endField();
+    const record: InputRecord = {line: this.recordLine, values: this.values};
+    this.push(record);
+    this.values = [];
+  }
+}
+
+/**
+ * Parses newline-delimited JSON into one record per non-empty line. Lines
+ * that are not valid JSON are returned as records with an error.
+ *
+ * @private
+ */
+export class NdjsonParser extends Transform {
+  private rest = '';
+  private line = 0;
+  private decoder = new StringDecoder('utf8');
+  constructor() {
+    super({readableObjectMode: true, decodeStrings: false});
+  }
+
+  _transform(
+    chunk: Buffer | string,
+    _encoding: string,
+    callback: TransformCallback
+  ) {
+    const lines = (this.rest + this.decode(chunk)).split('\n');
+    this.rest = lines.pop()!;
+    lines.forEach(line => this.parse(line));
+    callback();
+  }
+
+  _flush(callback: TransformCallback) {
+    this.parse(this.rest);
+    callback();
+  }
+
+  private decode(chunk: Buffer | string): string {
+    return typeof chunk === 'string' ? chunk : this.decoder.write(chunk);
+  }
+
+  private parse(text: string) {
+    const line = ++this.line;
+    if (!text.trim()) {
+      return;
+    }
+    const record: InputRecord = {line};
+    try {
+      record.value = JSON.parse(text);
+    } catch (err) {
+      record.error = new GoogleError(`Invalid JSON: ${(err as Error).message}`);
+    }
+    this.push(record);
+  }
+}
+
+type Coercer = (value: unknown) => unknown;
+
+const INTEGER = /^[-+]?\d+$/;
+const DECIMAL = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const TIMESTAMP =
+  /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d{1,9})?([Zz]|[+-]\d{2}:\d{2})$/;
+const BASE64 = /^[A-Za-z0-9+/]*={0,2}$/;
+
+function invalid(value: unknown, type: string): GoogleError {
+  return new GoogleError(`Invalid ${type} value: ${JSON.stringify(value)}`);
+}
+
+function toText(value: unknown, type: string): string {
+  if (typeof value === 'string') {
+    return value.trim();
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  throw invalid(value, type);
+}
+
+/**
+ * Returns the text of an INT64 or NUMERIC value. JSON numbers beyond the safe
+ * integer range have lost precision when they were parsed, so they are
+ * rejected and must be quoted instead.
+ */
+function toExactText(value: unknown, type: string): string {
+  if (
+    typeof value === 'number' &&
+    Number.isInteger(value) &&
+    !Number.isSafeInteger(value)
+  ) {
+    throw new GoogleError(
+      `Invalid ${type} value: ${value} is not a safe integer. Quote it as a string to keep its precision.`
+    );
+  }
+  return toText(value, type);
+}
+
+/**
+ * Creates the function that converts the values of the input to values of a
+ * column of the given type. CSV values are strings, and NDJSON values can be
+ * of any JSON type. Arrays are JSON arrays in both formats.
+ *
+ * @private
+ */
+export function createCoercer(spannerType: string, postgres: boolean): Coercer {
+  const type = spannerType.trim();
+  const array = postgres
+    ? /^(.*)\[\]$/.exec(type)
+    : /^ARRAY<(.*)>(\(.*\))?$/i.exec(type);
+  if (array) {
+    const element = createCoercer(array[1], postgres);
+    return value => {
+      const parsed = typeof value === 'string' ? JSON.parse(value) : value;
+      if (!Array.isArray(parsed)) {
+        throw invalid(value, type);
+      }
+      return parsed.map(item => (item === null ? null : element(item)));
+    };
+  }
+
+  const base = type.replace(/\(.*\)$/, '').toUpperCase();
+  switch (base) {
+    case 'BOOL':
+    case 'BOOLEAN':
+      return value => {
+        const text = toText(value, base).toLowerCase();
+        if (['true', 't', '1'].includes(text)) {
+          return true;
+        }
+        if (['false', 'f', '0'].includes(text)) {
+          return false;
+        }
+        throw invalid(value, base);
+      };
+    case 'INT64':
+    case 'BIGINT':
+      return value => {
+        const text = toExactText(value, base);
+        if (!INTEGER.test(text)) {
+          throw invalid(value, base);
+        }
+        return text;
+      };
+    case 'FLOAT64':
+    case 'DOUBLE PRECISION':
+    case 'FLOAT32':
+    case 'REAL':
+      return value => {
+        const text = toText(value, base);
+        const num = Number(text);
+        if (
+          !DECIMAL.test(text) &&
+          !['NaN', 'Infinity', '-Infinity'].includes(text)
+        ) {
+          throw invalid(value, base);
+        }
+        return base === 'FLOAT32' || base === 'REAL'
+          ? new Float32(num)
+          : new Float(num);
+      };
+    case 'NUMERIC':
+      return value => {
+        const text = toExactText(value, base);
+        if (!DECIMAL.test(text) && !(postgres && text === 'NaN')) {
+          throw invalid(value, base);
+        }
+        return text;
+      };
+    case 'BYTES':
+    case 'BYTEA':
+      return value => {
+        const text = toText(value, base);
+        if (!BASE64.test(text)) {
+          throw invalid(value, base);
+        }
+        return Buffer.from(text, 'base64');
+      };
+    case 'DATE':
+      return value => {
+        const text = toText(value, base);
+        if (!DATE.test(text)) {
+          throw invalid(value, base);
+        }
+        return text;
+      };
+    case 'TIMESTAMP':
+    case 'TIMESTAMPTZ':
+    case 'TIMESTAMP WITH TIME ZONE':
+      return value => {
+        const text = toText(value, base);
+        if (!TIMESTAMP.test(text) || isNaN(Date.parse(text))) {
+          throw invalid(value, base);
+        }
+        return text;
+      };
+    case 'JSON':
+      // JSON values are sent as strings.
+      return value =>
+        JSON.stringify(typeof value === 'string' ? JSON.parse(value) : value);
+    case 'JSONB':
+      return value =>
+        new PGJsonb(
+          typeof value === 'string' ? JSON.parse(value) : (value as object)
+        );
+    default:
+      return value => {
+        if (typeof value === 'object') {
+          throw invalid(value, type);
+        }
+        return value;
+      };
+  }
+}
+
+/**
+ * Converts the records of the input to rows of a table.
+ *
+ * @private
+ */
+class RowBuilder {
+  private table: TableModel;
+  private coercers: Map<string, Coercer>;
+  private generated: Set<string>;
+  private header?: string[];
+  constructor(table: TableModel, postgres: boolean) {
+    this.table = table;
+    this.coercers = new Map(
+      table.columns.map(column => [
+        column.name,
+        createCoercer(column.type, postgres),
+      ])
+    );
+    this.generated = new Set(
+      table.columns
+        .filter(column => column.generationExpression)
+        .map(column => column.name)
+    );
+  }
+
+  /**
+   * Sets the column names of a CSV file from its header.
+   */
+  setHeader(values: Array<string | null>) {
+    this.header = values.map(value => value || '');
+    const unknown = this.header.filter(name => !this.coercers.has(name));
+    if (unknown.length) {
+      throw new GoogleError(
+        `Unknown columns of table ${this.table.name}: ${unknown.join(', ')}`
+      );
+    }
+  }
+
+  build(record: InputRecord): {[column: string]: unknown} {
+    if (record.error) {
+      throw record.error;
+    }
+    let input: {[column: string]: unknown};
+    if (record.values) {
+      if (record.values.length !== this.header!.length) {
+        throw new GoogleError(
+          `Expected ${this.header!.length} fields, got ${record.values.length}.`
+        );
+      }
+      input = {};
+      this.header!.forEach((name, i) => (input[name] = record.values![i]));
+    } else if (
+      record.value &&
+      typeof record.value === 'object' &&
+      !Array.isArray(record.value)
+    ) {
+      input = record.value as {[column: string]: unknown};
+    } else {
+      throw new GoogleError('Expected a JSON object.');
+    }
+    const row = {};
+    Object.keys(input).forEach(name => {
+      if (this.generated.has(name)) {
+        return;
+      }
+      const coerce = this.coercers.get(name);
+      if (!coerce) {
+        throw new GoogleError(
+          `Unknown column of table ${this.table.name}: ${name}`
+        );
+      }
+      const value = input[name];
+      try {
+        row[name] =
+          value === null || value === undefined ? null : coerce(value);
+      } catch (err) {
+        throw new GoogleError(`Column ${name}: ${(err as Error).message}`);
+      }
+    });
+    return row;
+  }
+}
+
+/**
+ * Exports the rows of a table or a query to CSV or NDJSON.
+ *
+ * A table is read with {@link Table#createReadStream}, and a query is run with
+ * {@link Database#runStream}. The header of a CSV export of a query is taken
+ * from the first row, so a query without results produces an empty file.
+ *
+ * @param {Database} database The database to read from.
+ * @param {Writable} output The stream to write the output to.
+ * @param {ExportRowsOptions} options Options for the export.
+ * @returns {Promise<number>} The number of rows that were exported.
+ *
+ * @example
+ * ```
+ * const fs = require('fs');
+ * const {Spanner, exportRows} = require('@google-cloud/spanner');
+ * const spanner = new Spanner();
+ *
+ * const instance = spanner.instance('my-instance');
+ * const database = instance.database('my-database');
+ *
+ * const rows = await exportRows(database, fs.createWriteStream('singers.csv'), {
+ *   table: 'Singers',
+ *   format: 'csv',
+ * });
+ * ```
+ */
+export async function exportRows(
+  database: Database,
+  output: Writable,
+  options: ExportRowsOptions
+): Promise<number> {
+  const encoder = createEncoder(options.format || 'ndjson');
+  let columns = options.columns;
+  let source: Readable;
+  if (options.table) {
+    if (!columns) {
+      const model = await database.getSchemaModel();
+      columns = findTable(model.tables, options.table).columns.map(
+        column => column.name
+      );
+    }
+    source = database
+      .table(options.table)
+      .createReadStream(
+        Object.assign({columns, keySet: {all: true}}, EXPORT_DECODE_OPTIONS)
+      );
+  } else if (options.query) {
+    const query =
+      typeof options.query === 'string' ? {sql: options.query} : options.query;
+    source = database.runStream(
+      Object.assign({}, query, EXPORT_DECODE_OPTIONS)
+    );
+  } else {
+    throw new GoogleError('A table or a query is required to export rows.');
+  }
+
+  let count = 0;
+  const rows = new RowEncoder(
+    encoder,
+    true,
+    (rows: Row[]) =>
+      (columns || (rows[0] || []).map(field => field.name)).map(name => ({
+        name,
+      })),
+    n => (count += n)
+  );
+  await pipelineAsync(source, rows, output);
+  return count;
+}
+
+/**
+ * Imports CSV or NDJSON rows into a table.
+ *
+ * The values are converted to the types of the columns of the table, which
+ * are read from `INFORMATION_SCHEMA`. A CSV file must start with a header of
+ * column names. The values of generated columns are ignored, so that an export
+ * of a whole table can be imported again. Rows with invalid values are
+ * reported as failures and do not stop the import, and the valid rows are
+ * written with a {@link BulkWriter}. INT64 and NUMERIC values beyond the safe
+ * integer range must be quoted in NDJSON, like in an export.
+ *
+ * Rows are upserted by default, so an interrupted import can be resumed from
+ * an earlier line with the `fromLine` option.
+ *
+ * @param {Database} database The database to write to.
+ * @param {string} table The name of the table.
+ * @param {Readable} input The stream to read the input from.
+ * @param {ImportRowsOptions} [options] Options for the import.
+ * @returns {Promise<ImportResult>}
+ *
+ * @example
+ * ```
+ * const fs = require('fs');
+ * const {Spanner, importRows} = require('@google-cloud/spanner');
+ * const spanner = new Spanner();
+ *
+ * const instance = spanner.instance('my-instance');
+ * const database = instance.database('my-database');
+ *
+ * const result = await importRows(
+ *   database,
+ *   'Singers',
+ *   fs.createReadStream('singers.csv'),
+ *   {format: 'csv', dryRun: true}
+ * );
+ * result.failures.forEach(({line, error}) => {
+ *   console.error(`Line ${line}: ${error.message}`);
+ * });
+ * ```
+ */
+export async function importRows(
+  database: Database,
+  table: string,
+  input: Readable,
+  options: ImportRowsOptions = {}
+): Promise<ImportResult> {
+  const model = await database.getSchemaModel();
+  const builder = new RowBuilder(
+    findTable(model.tables, table),
+    model.dialect === 'POSTGRESQL'
+  );
+  const format = options.format || 'ndjson';
+  const mode = options.writerOptions?.mode || 'upsert';
+  const failures: ImportFailure[] = [];
+  const lines: number[] = [];
+  let rows = 0;
+
+  let writer: BulkWriter | undefined;
+  if (!options.dryRun) {
+    writer = database.bulkWriter(table, options.writerOptions);
+    writer.on('failure', ({index, error}) =>
+      failures.push({line: lines[index], error})
+    );
+  }
+
+  const parser = format === 'csv' ? new CsvParser() : new NdjsonParser();
+  input.on('error', err => parser.destroy(err));
+  let header = format === 'csv';
+  for await (const record of input.pipe(parser) as AsyncIterable<InputRecord>) {
+    if (header) {
+      builder.setHeader(record.values!);
+      header = false;
+      continue;
+    }
+    if (record.line < (options.fromLine || 1)) {
+      continue;
+    }
+    let row: object;
+    try {
+      row = builder.build(record);
+      // Build the mutation to validate the row.
+      new MutationGroup()[mode](table, row);
+    } catch (err) {
+      failures.push({line: record.line, error: err as Error});
+      continue;
+    }
+    rows++;
+    if (writer) {
+      lines.push(record.line);
+      if (!writer.write(row)) {
+        await once(writer, 'drain');
+      }
+    }
+  }
+
+  if (writer) {
+    writer.end();
+    await once(writer, 'finish');
+  }
+  return {
+    rows,
+    written: writer ? writer.written : 0,
+    failures: failures.sort((a, b) => a.line - b.line),
+  };
+}
+
+function findTable(tables: TableModel[], name: string): TableModel {
+  const table = tables.find(table => table.name === name);
+  if (!table) {
+    throw new GoogleError(`Table ${name} not found.`);
+  }
+  return table;
+}
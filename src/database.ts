@@ -52,13 +52,25 @@ import {
 import {PartialResultStream, Row} from './partial-result-stream';
 import {Session} from './session';
 import {
+  GetSessionCallback,
   isSessionNotFoundError,
   SessionPool,
   SessionPoolCloseCallback,
   SessionPoolInterface,
   SessionPoolOptions,
 } from './session-pool';
+import {MultiplexedSessionManager} from './multiplexed-session';
 import {CreateTableCallback, CreateTableResponse, Table} from './table';
+import {ChangeStream} from './change-stream';
+import {ExportQueryOptions, QueryExport} from './query-export';
+import {BulkWriter, BulkWriterOptions} from './bulk-writer';
+import {TransactionInterceptor} from './interceptors';
+import {ResultCache} from './result-cache';
+import {QueryStatsCollector} from './query-stats';
+import {CodecRegistry, getCodecs} from './codec-registry';
+import {MutationValidator} from './mutation-validator';
+import {TypedTable, TypedTableOptions} from './typed-table';
+import {QueryPlan} from './query-plan';
 import {
   BatchWriteOptions,
   CommitCallback,
@@ -72,7 +84,12 @@ import {
   Snapshot,
   TimestampBounds,
   Transaction,
+  TypedRunCallback,
+  TypedRunResponse,
+  withDecodeDefaults,
 } from './transaction';
+import {RowOf, RowSchema} from './row-type';
+import {readSchemaModel, SchemaModel} from './schema-model';
 import {
   AsyncRunTransactionCallback,
   AsyncTransactionRunner,
@@ -96,6 +113,19 @@ import {Duplex, Readable, Transform} from 'stream';
 import {PreciseDate} from '@google-cloud/precise-date';
 import {EnumKey, RequestConfig, TranslateEnumKeys, Spanner} from '.';
 import arrify = require('arrify');
+import {
+  ATTR_DB_NAME,
+  ATTR_TRANSACTION_ATTEMPT,
+  ObservabilityOptions,
+  TraceConfig,
+  endSpan,
+  setSpanError,
+  startTrace,
+} from './instrument';
+import {
+  METRIC_SESSION_NOT_FOUND_RECOVERIES,
+  getMetricsRecorder,
+} from './metrics';
 import {ServiceError} from 'google-gax';
 import IPolicy = google.iam.v1.IPolicy;
 import Policy = google.iam.v1.Policy;
@@ -142,11 +172,30 @@ export type GetDatabaseDialectCallback = NormalCallback<
   EnumKey<typeof google.spanner.admin.database.v1.DatabaseDialect>
 >;
 
+export type GetSchemaModelCallback = NormalCallback<SchemaModel>;
+
 export interface SetIamPolicyRequest {
   policy: Policy | null;
   updateMask?: FieldMask | null;
 }
 
+/**
+ * @typedef {object} RunOptions
+ * @extends TimestampBounds
+ * @property {RowSchema} [rowType] The expected columns of the result. When
+ *     set, rows are returned as JSON objects of the type that is inferred from
+ *     the schema.
+ */
+export interface RunOptions extends TimestampBounds {
+  rowType?: RowSchema;
+}
+
+export interface ExplainOptions extends TimestampBounds {
+  profile?: boolean;
+}
+
+export type ExplainCallback = NormalCallback<QueryPlan>;
+
 export interface RunPartitionedUpdateOptions extends ExecuteSqlRequest {
   excludeTxnFromChangeStreams?: boolean;
 }
@@ -237,6 +286,7 @@ export type CreateSessionResponse = [
 export interface CreateSessionOptions {
   labels?: {[k: string]: string} | null;
   databaseRole?: string | null;
+  multiplexed?: boolean;
   gaxOptions?: CallOptions;
 }
 
@@ -330,12 +380,50 @@ class Database extends common.GrpcServiceObject {
   formattedName_: string;
   pool_: SessionPoolInterface;
   queryOptions_?: spannerClient.spanner.v1.ExecuteSqlRequest.IQueryOptions;
+  observabilityOptions_?: ObservabilityOptions;
   resourceHeader_: {[k: string]: string};
   request: DatabaseRequest;
   databaseRole?: string | null;
   databaseDialect?: EnumKey<
     typeof databaseAdmin.spanner.admin.database.v1.DatabaseDialect
   > | null;
+  /**
+   * The interceptors of the transactions of this database. They run after the
+   * interceptors of the {@link Spanner} client.
+   * @name Database#transactionInterceptors
+   * @type {TransactionInterceptor[]}
+   */
+  transactionInterceptors: TransactionInterceptor[] = [];
+  /**
+   * The cache of the results of stale reads. Results are only cached when a
+   * cache is set.
+   * @name Database#resultCache
+   * @type {?ResultCache}
+   */
+  resultCache: ResultCache | null = null;
+  /**
+   * The collector of the statistics of the statements of this database.
+   * Statistics are only collected when a collector is set.
+   * @name Database#queryStats
+   * @type {?QueryStatsCollector}
+   */
+  queryStats: QueryStatsCollector | null = null;
+  /**
+   * The custom codecs of this database. They take precedence over the codecs
+   * of the {@link Spanner} client.
+   * @name Database#codecs
+   * @type {CodecRegistry}
+   */
+  codecs = new CodecRegistry();
+  /**
+   * Validates the mutations of the transactions of this database before they
+   * are committed. Commits are not validated by default. Set a validator to
+   * check the limits of a commit, or a validator with a schema to also check
+   * keys and to count secondary indexes.
+   * @name Database#mutationValidator
+   * @type {?MutationValidator}
+   */
+  mutationValidator: MutationValidator | null = null;
   constructor(
     instance: Instance,
     name: string,
@@ -437,10 +525,19 @@ class Database extends common.GrpcServiceObject {
       },
     } as {} as ServiceObjectConfig);
 
-    this.pool_ =
-      typeof poolOptions === 'function'
-        ? new (poolOptions as SessionPoolConstructor)(this, null)
-        : new SessionPool(this, poolOptions);
+    this.observabilityOptions_ = (
+      instance.parent as Spanner | undefined
+    )?.observabilityOptions;
+    if (typeof poolOptions === 'function') {
+      this.pool_ = new (poolOptions as SessionPoolConstructor)(this, null);
+    } else if (
+      poolOptions?.useMultiplexedSession ??
+      (instance.parent as Spanner | undefined)?.useMultiplexedSession
+    ) {
+      this.pool_ = new MultiplexedSessionManager(this, poolOptions);
+    } else {
+      this.pool_ = new SessionPool(this, poolOptions);
+    }
     if (typeof poolOptions === 'object') {
       this.databaseRole = poolOptions.databaseRole || null;
     }
@@ -843,6 +940,8 @@ class Database extends common.GrpcServiceObject {
    *   * Label values must be between 0 and 63 characters long and must conform
    *     to the regular expression `([a-z]([-a-z0-9]*[a-z0-9])?)?`.
    *   * No more than 64 labels can be associated with a given session.
+   * @property {boolean} [multiplexed] Whether to create a multiplexed session,
+   *     which can be used by multiple read-only transactions at the same time.
    * @property {object} [gaxOptions] Request configuration options,
    *     See {@link https://googleapis.dev/nodejs/google-gax/latest/interfaces/CallOptions.html|CallOptions}
    *     for more details.
@@ -935,6 +1034,10 @@ class Database extends common.GrpcServiceObject {
     reqOpts.session.creatorRole =
       options.databaseRole || this.databaseRole || null;
 
+    if (options.multiplexed) {
+      reqOpts.session.multiplexed = true;
+    }
+
     const headers = this.resourceHeader_;
     if (this._getSpanner().routeToLeaderEnabled) {
       addLeaderAwareRoutingHeader(headers);
@@ -1571,6 +1674,75 @@ class Database extends common.GrpcServiceObject {
     }
   }
 
+  /**
+   * @callback GetSchemaModelCallback
+   * @param {?Error} err Request error, if any.
+   * @param {SchemaModel} model The structured schema of the database.
+   */
+  /**
+   * Reads the schema of the database from its `INFORMATION_SCHEMA` as a
+   * structured model of its tables, columns, indexes, foreign keys, views and
+   * change streams. All objects are read in a single read-only snapshot.
+   *
+   * The proto bundle of a GoogleSQL database is not part of the
+   * `INFORMATION_SCHEMA` and is read from {@link Database#getSchema}.
+   *
+   * Two models can be compared with {@link diffSchemaModels}, which returns
+   * the DDL statements that change one schema into the other.
+   *
+   * @param {object} [gaxOptions] Request configuration options,
+   *     See {@link https://googleapis.dev/nodejs/google-gax/latest/interfaces/CallOptions.html|CallOptions}
+   *     for more details.
+   * @param {GetSchemaModelCallback} [callback] Callback function.
+   * @returns {Promise<SchemaModel>}
+   *
+   * @example
+   * ```
+   * const {Spanner} = require('@google-cloud/spanner');
+   * const spanner = new Spanner();
+   *
+   * const instance = spanner.instance('my-instance');
+   * const database = instance.database('my-database');
+   *
+   * const model = await database.getSchemaModel();
+   * for (const table of model.tables) {
+   *   console.log(table.name, table.columns.map(column => column.name));
+   * }
+   * ```
+   */
+  getSchemaModel(options?: CallOptions): Promise<SchemaModel>;
+  getSchemaModel(callback: GetSchemaModelCallback): void;
+  getSchemaModel(options: CallOptions, callback: GetSchemaModelCallback): void;
+  async getSchemaModel(
+    optionsOrCallback?: CallOptions | GetSchemaModelCallback,
+    callback?: GetSchemaModelCallback
+  ): Promise<SchemaModel | void> {
+    const gaxOptions =
+      typeof optionsOrCallback === 'object' ? optionsOrCallback : {};
+    const cb =
+      typeof optionsOrCallback === 'function' ? optionsOrCallback : callback;
+
+    try {
+      const dialect = await this.getDatabaseDialect(gaxOptions);
+      const model = await readSchemaModel(
+        this,
+        dialect === 'POSTGRESQL' ? dialect : 'GOOGLE_STANDARD_SQL',
+        gaxOptions
+      );
+      if (cb) {
+        cb(null, model);
+        return;
+      }
+      return model;
+    } catch (err) {
+      if (cb) {
+        cb(err as grpc.ServiceError);
+        return;
+      }
+      throw err;
+    }
+  }
+
   /**
    * @typedef {array} GetSchemaResponse
    * @property {string[]} 0 An array of database DDL statements.
@@ -2022,7 +2194,7 @@ class Database extends common.GrpcServiceObject {
         ? (optionsOrCallback as TimestampBounds)
         : {};
 
-    this.pool_.getSession((err, session) => {
+    this._getReadOnlySession((err, session) => {
       if (err) {
         callback!(err as ServiceError);
         return;
@@ -2035,6 +2207,7 @@ class Database extends common.GrpcServiceObject {
           if (isSessionNotFoundError(err)) {
             session!.lastError = err;
             this.pool_.release(session!);
+            this._recordSessionNotFoundRecovery('getSnapshot');
             this.getSnapshot(options, callback!);
           } else {
             this.pool_.release(session!);
@@ -2673,6 +2846,21 @@ class Database extends common.GrpcServiceObject {
    *   const rows = data[0];
    * });
    *
+   * //-
+   * // Pass the expected columns as `rowType` to receive the rows as JSON
+   * // objects of the matching type. The query fails with a
+   * // `RowTypeMismatchError` if the columns of the result do not match.
+   * //-
+   * const singer = rowType({
+   *   SingerId: {type: 'int64'},
+   *   Name: {type: 'string', nullable: true},
+   * });
+   *
+   * database.run('SELECT SingerId, Name FROM Singers', {rowType: singer})
+   *   .then(function(data) {
+   *     const rows = data[0]; // {SingerId: number; Name: string | null}[]
+   *   });
+   *
    * ```
    * @example <caption>include:samples/crud.js</caption>
    * region_tag:spanner_query_data
@@ -2682,20 +2870,33 @@ class Database extends common.GrpcServiceObject {
    * region_tag:spanner_query_data_with_index
    * Querying data with an index:
    */
+  run<S extends RowSchema, Q extends string | ExecuteSqlRequest>(
+    query: Q,
+    options: RunOptions & {rowType: S}
+  ): Promise<TypedRunResponse<RowOf<S, Q>>>;
+  run<S extends RowSchema, Q extends ExecuteSqlRequest>(
+    query: Q & {rowType: S},
+    options?: TimestampBounds
+  ): Promise<TypedRunResponse<RowOf<S, Q>>>;
+  run<S extends RowSchema, Q extends string | ExecuteSqlRequest>(
+    query: Q,
+    options: RunOptions & {rowType: S},
+    callback: TypedRunCallback<RowOf<S, Q>>
+  ): void;
   run(query: string | ExecuteSqlRequest): Promise<RunResponse>;
   run(
     query: string | ExecuteSqlRequest,
-    options?: TimestampBounds
+    options?: RunOptions
   ): Promise<RunResponse>;
   run(query: string | ExecuteSqlRequest, callback: RunCallback): void;
   run(
     query: string | ExecuteSqlRequest,
-    options: TimestampBounds,
+    options: RunOptions,
     callback: RunCallback
   ): void;
   run(
     query: string | ExecuteSqlRequest,
-    optionsOrCallback?: TimestampBounds | RunCallback,
+    optionsOrCallback?: RunOptions | RunCallback,
     cb?: RunCallback
   ): void | Promise<RunResponse> {
     let stats: ResultSetStats;
@@ -2707,24 +2908,144 @@ class Database extends common.GrpcServiceObject {
         : cb;
     const options =
       typeof optionsOrCallback === 'object'
-        ? (optionsOrCallback as TimestampBounds)
+        ? (optionsOrCallback as RunOptions)
         : {};
 
-    this.runStream(query, options)
-      .on('error', callback!)
-      .on('response', response => {
-        if (response.metadata) {
-          metadata = response.metadata;
+    const runStream = () => this.runStream(query, options);
+    let request = typeof query === 'string' ? {sql: query} : query;
+    if (options.rowType) {
+      request = Object.assign({}, request, {rowType: options.rowType});
+    }
+
+    startTrace('Database.run', this._traceConfig({sql: query}), span => {
+      (this.resultCache
+        ? this.resultCache.runStream(
+            this.formattedName_,
+            withDecodeDefaults(request, this.parent?.parent),
+            Snapshot.encodeTimestampBounds(options),
+            runStream,
+            getCodecs(this)
+          )
+        : runStream()
+      )
+        .on('error', err => endSpan(span, err))
+        .on('error', callback!)
+        .on('response', response => {
+          if (response.metadata) {
+            metadata = response.metadata;
+          }
+        })
+        .on('stats', _stats => (stats = _stats))
+        .on('data', row => {
+          rows.push(row);
+        })
+        .on('end', () => {
+          span.end();
+          callback!(null, rows, stats, metadata);
+        });
+    });
+  }
+  /**
+   * @typedef {object} ExplainOptions
+   * @property {boolean} [profile=false] Runs the query in `PROFILE` mode,
+   *     which executes the query and adds execution statistics to the plan.
+   *     The rows of the query are discarded. By default, the query runs in
+   *     `PLAN` mode and is not executed.
+   * @property {number} [exactStaleness] Executes all reads at the timestamp
+   *     that is `exactStaleness` old.
+   * @property {number} [maxStaleness] Executes all reads at a timestamp that
+   *     is at most `maxStaleness` old.
+   * @property {date} [readTimestamp] Execute all reads at the given
+   *     timestamp.
+   * @property {boolean} [strong] Read at the timestamp where all previously
+   *     committed transactions are visible.
+   */
+  /**
+   * @callback ExplainCallback
+   * @param {?Error} err Request error, if any.
+   * @param {QueryPlan} plan The plan of the query.
+   */
+  /**
+   * Gets the plan of a query.
+   *
+   * @see {@link QueryPlan}
+   *
+   * @param {string|ExecuteSqlRequest} query A SQL query or
+   *     {@link ExecuteSqlRequest} object.
+   * @param {ExplainOptions} [options] Configuration object.
+   * @param {ExplainCallback} [callback] Callback function.
+   * @returns {Promise<QueryPlan>}
+   *
+   * @example
+   * ```
+   * const {Spanner} = require('@google-cloud/spanner');
+   * const spanner = new Spanner();
+   *
+   * const instance = spanner.instance('my-instance');
+   * const database = instance.database('my-database');
+   *
+   * const plan = await database.explain(
+   *   'SELECT * FROM Singers WHERE LastName = @lastName',
+   *   {profile: true}
+   * );
+   * console.log(plan.toText());
+   * ```
+   */
+  explain(
+    query: string | ExecuteSqlRequest,
+    options?: ExplainOptions
+  ): Promise<QueryPlan>;
+  explain(query: string | ExecuteSqlRequest, callback: ExplainCallback): void;
+  explain(
+    query: string | ExecuteSqlRequest,
+    options: ExplainOptions,
+    callback: ExplainCallback
+  ): void;
+  async explain(
+    query: string | ExecuteSqlRequest,
+    optionsOrCallback?: ExplainOptions | ExplainCallback,
+    callback?: ExplainCallback
+  ): Promise<QueryPlan | void> {
+    const options =
+      typeof optionsOrCallback === 'object' ? optionsOrCallback : {};
+    const cb =
+      typeof optionsOrCallback === 'function' ? optionsOrCallback : callback;
+    const {profile, ...timestampBounds} = options;
+    const request = Object.assign(
+      typeof query === 'string' ? {sql: query} : Object.assign({}, query),
+      {
+        queryMode: profile
+          ? google.spanner.v1.ExecuteSqlRequest.QueryMode.PROFILE
+          : google.spanner.v1.ExecuteSqlRequest.QueryMode.PLAN,
+      }
+    );
+
+    try {
+      const stats = await new Promise<ResultSetStats | undefined>(
+        (resolve, reject) => {
+          let stats: ResultSetStats | undefined;
+          this.runStream(request, timestampBounds)
+            .on('error', reject)
+            .on('stats', _stats => (stats = _stats))
+            .on('data', () => {})
+            .on('end', () => resolve(stats));
         }
-      })
-      .on('stats', _stats => (stats = _stats))
-      .on('data', row => {
-        rows.push(row);
-      })
-      .on('end', () => {
-        callback!(null, rows, stats, metadata);
-      });
+      );
+      const plan = QueryPlan.fromStats(stats);
+      if (cb) {
+        cb(null, plan);
+        return;
+      }
+      return plan;
+    } catch (err) {
+      if (cb) {
+        cb(err as grpc.ServiceError);
+        return;
+      }
+      throw err;
+    }
   }
+
   /**
    * Partitioned DML transactions are used to execute DML statements with a
    * different execution strategy that provides different, and often better,
@@ -2921,53 +3242,83 @@ class Database extends common.GrpcServiceObject {
    */
   runStream(
     query: string | ExecuteSqlRequest,
-    options?: TimestampBounds
+    options?: RunOptions
   ): PartialResultStream {
     const proxyStream: Transform = through.obj();
 
-    this.pool_.getSession((err, session) => {
-      if (err) {
-        proxyStream.destroy(err);
-        return;
-      }
+    if (options?.rowType) {
+      query = Object.assign(
+        typeof query === 'string' ? {sql: query} : Object.assign({}, query),
+        {rowType: options.rowType}
+      );
+      options = Object.assign({}, options);
+      delete options.rowType;
+    }
 
-      const snapshot = session!.snapshot(options, this.queryOptions_);
+    startTrace('Database.runStream', this._traceConfig({sql: query}), span => {
+      let ended = false;
+      const end = (err?: Error) => {
+        if (!ended) {
+          ended = true;
+          endSpan(span, err);
+        }
+      };
+      // The stream closes without an end when it is destroyed early.
+      proxyStream
+        .once('error', end)
+        .once('end', () => end())
+        .once('close', () => end());
 
-      this._releaseOnEnd(session!, snapshot);
+      this._getReadOnlySession((err, session) => {
+        if (err) {
+          proxyStream.destroy(err);
+          return;
+        }
 
-      let dataReceived = false;
-      let dataStream = snapshot.runStream(query);
-      const endListener = () => snapshot.end();
-      dataStream
-        .once('data', () => (dataReceived = true))
-        .once('error', err => {
-          if (
-            !dataReceived &&
-            isSessionNotFoundError(err as grpc.ServiceError)
-          ) {
-            // If it is a 'Session not found' error and we have not yet received
-            // any data, we can safely retry the query on a new session.
-            // Register the error on the session so the pool can discard it.
-            if (session) {
-              session.lastError = err as grpc.ServiceError;
+        const snapshot = session!.snapshot(options, this.queryOptions_);
+
+        this._releaseOnEnd(session!, snapshot);
+
+        let dataReceived = false;
+        let dataStream = snapshot.runStream(query);
+        const endListener = () => snapshot.end();
+        dataStream
+          .once('data', () => (dataReceived = true))
+          .once('error', err => {
+            if (
+              !dataReceived &&
+              isSessionNotFoundError(err as grpc.ServiceError)
+            ) {
+              // If it is a 'Session not found' error and we have not yet received
+              // any data, we can safely retry the query on a new session.
+              // Register the error on the session so the pool can discard it.
+              if (session) {
+                session.lastError = err as grpc.ServiceError;
+              }
+              // Remove the current data stream from the end user stream.
+              dataStream.unpipe(proxyStream);
+              dataStream.removeListener('end', endListener);
+              dataStream.end();
+              snapshot.end();
+              this._recordSessionNotFoundRecovery('runStream');
+              // Create a new data stream and add it to the end user stream.
+              dataStream = this.runStream(query, options);
+              dataStream
+                .on('stats', stats => proxyStream.emit('stats', stats))
+                .on('response', response =>
+                  proxyStream.emit('response', response)
+                )
+                .pipe(proxyStream);
+            } else {
+              proxyStream.destroy(err);
+              snapshot.end();
             }
-            // Remove the current data stream from the end user stream.
-            dataStream.unpipe(proxyStream);
-            dataStream.removeListener('end', endListener);
-            dataStream.end();
-            snapshot.end();
-            // Create a new data stream and add it to the end user stream.
-            dataStream = this.runStream(query, options);
-            dataStream.pipe(proxyStream);
-          } else {
-            proxyStream.destroy(err);
-            snapshot.end();
-          }
-        })
-        .on('stats', stats => proxyStream.emit('stats', stats))
-        .on('response', response => proxyStream.emit('response', response))
-        .once('end', endListener)
-        .pipe(proxyStream);
+          })
+          .on('stats', stats => proxyStream.emit('stats', stats))
+          .on('response', response => proxyStream.emit('response', response))
+          .once('end', endListener)
+          .pipe(proxyStream);
+      });
     });
 
     return proxyStream as PartialResultStream;
@@ -3080,38 +3431,59 @@ class Database extends common.GrpcServiceObject {
         ? (optionsOrRunFn as RunTransactionOptions)
         : {};
 
-    this.pool_.getSession((err, session?, transaction?) => {
-      if (err && isSessionNotFoundError(err as grpc.ServiceError)) {
-        this.runTransaction(options, runFn!);
-        return;
-      }
-      if (err) {
-        runFn!(err as grpc.ServiceError);
-        return;
-      }
-      if (options.optimisticLock) {
-        transaction!.useOptimisticLock();
-      }
-      if (options.excludeTxnFromChangeStreams) {
-        transaction!.excludeTxnFromChangeStreams();
-      }
-
-      const release = this.pool_.release.bind(this.pool_, session!);
-      const runner = new TransactionRunner(
-        session!,
-        transaction!,
-        runFn!,
-        options
-      );
+    const traceConfig = this._traceConfig({
+      transactionTag: options.requestOptions?.transactionTag,
+    });
 
-      runner.run().then(release, err => {
-        if (isSessionNotFoundError(err)) {
-          release();
+    startTrace('Database.runTransaction', traceConfig, span => {
+      this.pool_.getSession((err, session?, transaction?) => {
+        if (err && isSessionNotFoundError(err as grpc.ServiceError)) {
+          span.end();
+          this._recordSessionNotFoundRecovery('runTransaction');
           this.runTransaction(options, runFn!);
-        } else {
-          setImmediate(runFn!, err);
-          release();
+          return;
+        }
+        if (err) {
+          endSpan(span, err);
+          runFn!(err as grpc.ServiceError);
+          return;
+        }
+        if (options.optimisticLock) {
+          transaction!.useOptimisticLock();
+        }
+        if (options.excludeTxnFromChangeStreams) {
+          transaction!.excludeTxnFromChangeStreams();
         }
+
+        const release = this.pool_.release.bind(this.pool_, session!);
+        const runner = new TransactionRunner(
+          session!,
+          transaction!,
+          runFn!,
+          options
+        );
+        runner.span = span;
+
+        runner.run().then(
+          () => {
+            span.setAttribute(ATTR_TRANSACTION_ATTEMPT, runner.attempts);
+            span.end();
+            release();
+          },
+          err => {
+            span.setAttribute(ATTR_TRANSACTION_ATTEMPT, runner.attempts);
+            if (isSessionNotFoundError(err)) {
+              span.end();
+              release();
+              this._recordSessionNotFoundRecovery('runTransaction');
+              this.runTransaction(options, runFn!);
+            } else {
+              endSpan(span, err);
+              setImmediate(runFn!, err);
+              release();
+            }
+          }
+        );
       });
     });
   }
@@ -3196,40 +3568,60 @@ class Database extends common.GrpcServiceObject {
         : {};
 
     const getSession = this.pool_.getSession.bind(this.pool_);
-    // Loop to retry 'Session not found' errors.
-    // (and yes, we like while (true) more than for (;;) here)
-    // eslint-disable-next-line no-constant-condition
-    while (true) {
-      try {
-        const [session, transaction] = await promisify(getSession)();
-        transaction.requestOptions = Object.assign(
-          transaction.requestOptions || {},
-          options.requestOptions
-        );
-        if (options.optimisticLock) {
-          transaction.useOptimisticLock();
-        }
-        if (options.excludeTxnFromChangeStreams) {
-          transaction.excludeTxnFromChangeStreams();
-        }
-        const runner = new AsyncTransactionRunner<T>(
-          session,
-          transaction,
-          runFn,
-          options
-        );
+    const traceConfig = this._traceConfig({
+      transactionTag: options.requestOptions?.transactionTag,
+    });
 
+    return startTrace(
+      'Database.runTransactionAsync',
+      traceConfig,
+      async span => {
         try {
-          return await runner.run();
-        } finally {
-          this.pool_.release(session);
-        }
-      } catch (e) {
-        if (!isSessionNotFoundError(e as ServiceError)) {
+          // Loop to retry 'Session not found' errors.
+          // (and yes, we like while (true) more than for (;;) here)
+          // eslint-disable-next-line no-constant-condition
+          while (true) {
+            try {
+              const [session, transaction] = await promisify(getSession)();
+              transaction.requestOptions = Object.assign(
+                transaction.requestOptions || {},
+                options.requestOptions
+              );
+              if (options.optimisticLock) {
+                transaction.useOptimisticLock();
+              }
+              if (options.excludeTxnFromChangeStreams) {
+                transaction.excludeTxnFromChangeStreams();
+              }
+              const runner = new AsyncTransactionRunner<T>(
+                session,
+                transaction,
+                runFn,
+                options
+              );
+              runner.span = span;
+
+              try {
+                return await runner.run();
+              } finally {
+                span.setAttribute(ATTR_TRANSACTION_ATTEMPT, runner.attempts);
+                this.pool_.release(session);
+              }
+            } catch (e) {
+              if (!isSessionNotFoundError(e as ServiceError)) {
+                throw e;
+              }
+              this._recordSessionNotFoundRecovery('runTransactionAsync');
+            }
+          }
+        } catch (e) {
+          setSpanError(span, e as Error);
           throw e;
+        } finally {
+          span.end();
         }
       }
-    }
+    );
   }
 
   /**
@@ -3335,6 +3727,7 @@ class Database extends common.GrpcServiceObject {
             // Remove the current data stream from the end user stream.
             dataStream.unpipe(proxyStream);
             dataStream.end();
+            this._recordSessionNotFoundRecovery('batchWriteAtLeastOnce');
             // Create a new stream and add it to the end user stream.
             dataStream = this.batchWriteAtLeastOnce(mutationGroups, options);
             dataStream.pipe(proxyStream);
@@ -3425,6 +3818,7 @@ class Database extends common.GrpcServiceObject {
         : {};
     this.pool_.getSession((err, session?, transaction?) => {
       if (err && isSessionNotFoundError(err as grpc.ServiceError)) {
+        this._recordSessionNotFoundRecovery('writeAtLeastOnce');
         this.writeAtLeastOnce(mutations, options, cb!);
         return;
       }
@@ -3457,12 +3851,14 @@ class Database extends common.GrpcServiceObject {
     return new Session(this, name);
   }
   /**
-   * Get a reference to a Table object.
+   * Get a reference to a Table object. If the primary key of the table is
+   * given, a {@link TypedTable} is returned, whose rows and keys are typed.
    *
    * @throws {GoogleError} If a name is not provided.
    *
    * @param {string} name The name of the table.
-   * @return {Table} A Table object.
+   * @param {TypedTableOptions} [options] The primary key of the table.
+   * @return {Table|TypedTable} A Table object.
    *
    * @example
    * ```
@@ -3473,6 +3869,16 @@ class Database extends common.GrpcServiceObject {
    * const database = instance.database('my-database');
    *
    * const table = database.table('Singers');
+   *
+   * //-
+   * // Type the rows and keys of a table, and the columns that are read by
+   * // default.
+   * //-
+   * const singers = database.table<Singer, number, 'SingerId' | 'FirstName'>(
+   *   'Singers',
+   *   {primaryKey: ['SingerId'], columns: ['SingerId', 'FirstName']}
+   * );
+   * const singer = await singers.get(1);
    * ```
    */
 
@@ -3570,11 +3976,132 @@ class Database extends common.GrpcServiceObject {
     );
   }
 
-  table(name: string) {
+  table(name: string): Table;
+  table<R extends object, K = unknown, D extends keyof R & string = never>(
+    name: string,
+    options: TypedTableOptions<R, D>
+  ): TypedTable<R, K, D>;
+  table<R extends object, K = unknown, D extends keyof R & string = never>(
+    name: string,
+    options?: TypedTableOptions<R, D>
+  ): Table | TypedTable<R, K, D> {
     if (!name) {
       throw new GoogleError('A name is required to access a Table object.');
     }
-    return new Table(this, name);
+    const table = new Table(this, name);
+    return options ? new TypedTable<R, K, D>(table, options) : table;
+  }
+
+  /**
+   * Get a reference to a change stream of the database, to read the changes
+   * that it records.
+   *
+   * @throws {GoogleError} If a name is not provided.
+   *
+   * @param {string} name The name of the change stream.
+   * @returns {ChangeStream} A ChangeStream object.
+   *
+   * @example
+   * ```
+   * const {Spanner} = require('@google-cloud/spanner');
+   * const spanner = new Spanner();
+   *
+   * const instance = spanner.instance('my-instance');
+   * const database = instance.database('my-database');
+   *
+   * const reader = database
+   *   .changeStream('EverythingStream')
+   *   .read({start: new Date(Date.now() - 60000), end: new Date()});
+   * for await (const record of reader) {
+   *   console.log(record.type);
+   * }
+   * ```
+   */
+  changeStream(name: string): ChangeStream {
+    if (!name) {
+      throw new GoogleError(
+        'A name is required to access a ChangeStream object.'
+      );
+    }
+    return new ChangeStream(this, name);
+  }
+
+  /**
+   * Export the results of a query to NDJSON, CSV or Avro files.
+   *
+   * The query is partitioned in a batch read-only transaction, and the
+   * partitions are exported in parallel. Partitions that fail with a transient
+   * error are retried. The returned {@link QueryExport} emits `progress`
+   * events while the export runs.
+   *
+   * @param {string|ExecuteSqlRequest} query The root-partitionable query.
+   * @param {ExportQueryOptions} options Options for the export.
+   * @returns {QueryExport}
+   *
+   * @example
+   * ```
+   * const {Spanner} = require('@google-cloud/spanner');
+   * const spanner = new Spanner();
+   *
+   * const instance = spanner.instance('my-instance');
+   * const database = instance.database('my-database');
+   *
+   * const result = await database
+   *   .exportQuery('SELECT * FROM Singers', {
+   *     destination: '/tmp/singers',
+   *     format: 'csv',
+   *     concurrency: 8,
+   *   })
+   *   .on('progress', progress => {
+   *     console.log(`${progress.completedPartitions}/${progress.partitions}`);
+   *   })
+   *   .promise();
+   * console.log(result.files);
+   * ```
+   */
+  exportQuery(
+    query: string | ExecuteSqlRequest,
+    options: ExportQueryOptions
+  ): QueryExport {
+    return new QueryExport(this, query, options);
+  }
+
+  /**
+   * Get a writable object stream that loads row objects into a table.
+   *
+   * The rows are written in batches that stay within the mutation count and
+   * size limits of a commit, and several batches are written at the same
+   * time. Rows that could not be written are reported with `failure` events.
+   *
+   * @throws {GoogleError} If a table name is not provided.
+   *
+   * @param {string} table The name of the table.
+   * @param {BulkWriterOptions} [options] Options for the bulk writer.
+   * @returns {BulkWriter}
+   *
+   * @example
+   * ```
+   * const {Spanner} = require('@google-cloud/spanner');
+   * const {pipeline} = require('stream/promises');
+   * const spanner = new Spanner();
+   *
+   * const instance = spanner.instance('my-instance');
+   * const database = instance.database('my-database');
+   *
+   * const writer = database
+   *   .bulkWriter('Singers', {mode: 'insert', indexCount: 1})
+   *   .on('failure', failure => {
+   *     console.error(`Row ${failure.index} failed: ${failure.error.message}`);
+   *   });
+   * await pipeline(readSingers(), writer);
+   * console.log(`Wrote ${writer.written} rows, ${writer.failed} failed.`);
+   * ```
+   */
+  bulkWriter(table: string, options?: BulkWriterOptions): BulkWriter {
+    if (!table) {
+      throw new GoogleError('A table name is required to write rows in bulk.');
+    }
+    return new BulkWriter(this, table, options);
   }
   /**
    * Update the schema of the database by creating/altering/dropping tables,
@@ -3733,6 +4260,53 @@ class Database extends common.GrpcServiceObject {
   private _getSpanner(): Spanner {
     return this.instance.parent as Spanner;
   }
+
+  /**
+   * Builds the trace configuration for an operation on this database.
+   *
+   * @private
+   *
+   * @param {TraceConfig} [config] Additional span attributes.
+   * @returns {TraceConfig}
+   */
+  _traceConfig(config?: TraceConfig): TraceConfig {
+    return Object.assign(
+      {opts: this.observabilityOptions_, dbName: this.formattedName_},
+      config
+    );
+  }
+
+  /**
+   * Retrieves a session for a read-only operation. This is the multiplexed
+   * session if the database uses one, and a session from the pool otherwise.
+   *
+   * @private
+   *
+   * @param {GetSessionCallback} callback The callback function.
+   */
+  _getReadOnlySession(callback: GetSessionCallback): void {
+    if (this.pool_ instanceof MultiplexedSessionManager) {
+      this.pool_.getMultiplexedSession(callback);
+    } else {
+      this.pool_.getSession(callback);
+    }
+  }
+
+  /**
+   * Records that an operation is retried on a new session after it failed
+   * with a 'Session not found' error.
+   *
+   * @private
+   *
+   * @param {string} method The name of the operation that is retried.
+   */
+  _recordSessionNotFoundRecovery(method: string): void {
+    getMetricsRecorder(this.observabilityOptions_).addCounter(
+      METRIC_SESSION_NOT_FOUND_RECOVERIES,
+      1,
+      {[ATTR_DB_NAME]: this.formattedName_, method}
+    );
+  }
 }
 
 /*! Developer Documentation
@@ -3747,10 +4321,15 @@ promisifyAll(Database, {
     'getRestoreInfo',
     'getState',
     'getDatabaseDialect',
+    'getSchemaModel',
+    'explain',
     'getOperations',
     'runTransaction',
     'runTransactionAsync',
     'table',
+    'changeStream',
+    'exportQuery',
+    'bulkWriter',
     'session',
   ],
 });
@@ -3777,6 +4356,8 @@ callbackifyAll(Database, {
     'getDatabaseDialect',
     'getMetadata',
     'getSchema',
+    'getSchemaModel',
+    'explain',
     'getSessions',
     'getSnapshot',
     'getTransaction',
@@ -3789,6 +4370,9 @@ callbackifyAll(Database, {
     'session',
     'setMetadata',
     'table',
+    'changeStream',
+    'exportQuery',
+    'bulkWriter',
     'updateSchema',
   ],
 });
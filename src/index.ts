@@ -38,6 +38,10 @@ import {
   ProtoEnum,
   IProtoMessageParams,
   IProtoEnumParams,
+  Int64As,
+  DateAs,
+  TimestampAs,
+  PlainDate,
 } from './codec';
 import {Backup} from './backup';
 import {Database} from './database';
@@ -57,6 +61,7 @@ import {
   CallOptions,
   GoogleError,
   ClientOptions,
+  ServiceError,
 } from 'google-gax';
 import {google, google as instanceAdmin} from '../protos/protos';
 import {
@@ -69,14 +74,143 @@ import {
 } from './common';
 import {Session} from './session';
 import {SessionPool} from './session-pool';
-import {Table} from './table';
+import {
+  InsertRowsOptions,
+  Table,
+  UpdateRowsOptions,
+  UpsertRowsOptions,
+} from './table';
+import {ObservabilityOptions} from './instrument';
+import {
+  METRIC_RPC_LATENCY,
+  MetricAttributes,
+  MetricsRecorder,
+  OpenTelemetryMetricsRecorder,
+  getMetricsRecorder,
+} from './metrics';
+import {
+  Migration,
+  MigrationLockError,
+  Migrator,
+  MigratorOptions,
+  loadMigrations,
+} from './migrations';
+import {
+  ComparisonOperator,
+  Dialect,
+  QueryBuilder,
+  QueryParam,
+  SortDirection,
+} from './query-builder';
+import {
+  ChangeStreamModel,
+  ColumnModel,
+  ForeignKeyModel,
+  IndexModel,
+  SchemaModel,
+  TableModel,
+  ViewModel,
+  diffSchemaModels,
+} from './schema-model';
+import {
+  ColumnSchema,
+  RowOf,
+  RowSchema,
+  RowTypeMismatchError,
+  RowTypeOptions,
+  rowType,
+} from './row-type';
 import {
   MutationGroup,
   MutationSet,
   PartitionedDml,
+  ReadRequest,
   Snapshot,
+  TimestampBounds,
   Transaction,
 } from './transaction';
+import {GenerateRowTypesOptions, generateRowTypes} from './codegen';
+import {
+  ChangeRecord,
+  ChangeStream,
+  ChangeStreamCheckpoint,
+  ChangeStreamReader,
+  ChangeStreamReadOptions,
+  ChildPartitionsRecord,
+  DataChangeRecord,
+  HeartbeatRecord,
+} from './change-stream';
+import {
+  ExportFormat,
+  ExportProgress,
+  ExportQueryOptions,
+  ExportResult,
+  QueryExport,
+} from './query-export';
+import {BulkWriteFailure, BulkWriter, BulkWriterOptions} from './bulk-writer';
+import {
+  ExportRowsOptions,
+  ImportFailure,
+  ImportResult,
+  ImportRowsOptions,
+  TransferFormat,
+  exportRows,
+  importRows,
+} from './data-transfer';
+import {RetryEvent, RetryPolicy} from './retry-policy';
+import {
+  CommitResult,
+  InterceptorContext,
+  QueryResult,
+  TransactionInterceptor,
+} from './interceptors';
+import {
+  OperatorStats,
+  QueryPlan,
+  QueryPlanLink,
+  QueryPlanNode,
+} from './query-plan';
+import {
+  CodecRegistry,
+  CustomCodec,
+  TypeAnnotationName,
+  TypeCodeName,
+} from './codec-registry';
+import {
+  fingerprintSql,
+  LatencyStats,
+  QueryStats,
+  QueryStatsCollector,
+  QueryStatsCollectorOptions,
+} from './query-stats';
+import {
+  ReadRouting,
+  ReadRoutingPolicy,
+  ReadRoutingRequest,
+  ReplicaClass,
+} from './read-routing';
+import {
+  KeyPrefix,
+  TypedKeyRange,
+  TypedReadOptions,
+  TypedTable,
+  TypedTableOptions,
+} from './typed-table';
+import {
+  MutationIssue,
+  MutationIssueType,
+  MutationReport,
+  MutationValidationError,
+  MutationValidator,
+  MutationValidatorOptions,
+} from './mutation-validator';
+import {
+  MemoryResultStore,
+  ResultCache,
+  ResultCacheOptions,
+  ResultCacheStats,
+  ResultCacheStore,
+} from './result-cache';
 import grpcGcpModule = require('grpc-gcp');
 const grpcGcp = grpcGcpModule(grpc);
 import * as v1 from './v1';
@@ -130,6 +264,23 @@ export type GetInstanceConfigOperationsCallback = PagedCallback<
  * @property {google.spanner.v1.IDirectedReadOptions} [directedReadOptions] Sets the DirectedReadOptions for all ReadRequests and ExecuteSqlRequests for the Client.
  * Indicates which replicas or regions should be used for non-transactional reads or queries.
  * DirectedReadOptions won't be set for readWrite transactions"
+ * @property {ObservabilityOptions} [observabilityOptions] Sets the OpenTelemetry
+ * tracer provider and tracing options that are used to trace the operations of the client.
+ * @property {boolean} [useMultiplexedSession=false] If set to true, databases use a single
+ * multiplexed session for read-only transactions and queries, unless this is overridden in the
+ * {@link SessionPoolOptions} of the database.
+ * @property {RetryPolicy} [transactionRetryPolicy] Sets how transactions are retried. Can be
+ * overridden per transaction.
+ * @property {RetryPolicy} [streamRetryPolicy] Sets how streaming reads and queries are resumed.
+ * Can be overridden per request.
+ * @property {TransactionInterceptor[]} [transactionInterceptors] Sets the interceptors of the transactions
+ * of all databases of the client.
+ * @property {ReadRoutingPolicy} [readRoutingPolicy] Picks the DirectedReadOptions of every read and query
+ * of read-only transactions, and falls back to the leader when a directed read fails or is too slow.
+ * @property {DateAs} [dateAs='SpannerDate'] Sets how the DATE values of rows are decoded. Can be
+ * overridden per request.
+ * @property {TimestampAs} [timestampAs='PreciseDate'] Sets how the TIMESTAMP values of rows are decoded.
+ * Can be overridden per request.
  */
 export interface SpannerOptions extends GrpcClientOptions {
   apiEndpoint?: string;
@@ -138,6 +289,14 @@ export interface SpannerOptions extends GrpcClientOptions {
   sslCreds?: grpc.ChannelCredentials;
   routeToLeaderEnabled?: boolean;
   directedReadOptions?: google.spanner.v1.IDirectedReadOptions | null;
+  observabilityOptions?: ObservabilityOptions;
+  useMultiplexedSession?: boolean;
+  transactionRetryPolicy?: RetryPolicy;
+  streamRetryPolicy?: RetryPolicy;
+  transactionInterceptors?: TransactionInterceptor[];
+  readRoutingPolicy?: ReadRoutingPolicy;
+  dateAs?: DateAs;
+  timestampAs?: TimestampAs;
 }
 export interface RequestConfig {
   client: string;
@@ -238,7 +397,26 @@ class Spanner extends GrpcService {
   projectFormattedName_: string;
   resourceHeader_: {[k: string]: string};
   routeToLeaderEnabled = true;
+  useMultiplexedSession = false;
   directedReadOptions: google.spanner.v1.IDirectedReadOptions | null;
+  observabilityOptions?: ObservabilityOptions;
+  transactionRetryPolicy?: RetryPolicy;
+  streamRetryPolicy?: RetryPolicy;
+  /**
+   * The interceptors of the transactions of all databases of the client.
+   * @name Spanner#transactionInterceptors
+   * @type {TransactionInterceptor[]}
+   */
+  transactionInterceptors: TransactionInterceptor[];
+  readRoutingPolicy?: ReadRoutingPolicy;
+  dateAs?: DateAs;
+  timestampAs?: TimestampAs;
+  /**
+   * The custom codecs of all databases of the client.
+   * @name Spanner#codecs
+   * @type {CodecRegistry}
+   */
+  codecs = new CodecRegistry();
 
   /**
    * Placeholder used to auto populate a column with the commit timestamp.
@@ -319,6 +497,30 @@ class Spanner extends GrpcService {
       : null;
     delete options.directedReadOptions;
 
+    const observabilityOptions = options.observabilityOptions;
+    delete options.observabilityOptions;
+
+    const transactionRetryPolicy = options.transactionRetryPolicy;
+    delete options.transactionRetryPolicy;
+
+    const streamRetryPolicy = options.streamRetryPolicy;
+    delete options.streamRetryPolicy;
+
+    const transactionInterceptors = options.transactionInterceptors || [];
+    delete options.transactionInterceptors;
+
+    const readRoutingPolicy = options.readRoutingPolicy;
+    delete options.readRoutingPolicy;
+
+    const dateAs = options.dateAs;
+    delete options.dateAs;
+
+    const timestampAs = options.timestampAs;
+    delete options.timestampAs;
+
+    const useMultiplexedSession = !!options.useMultiplexedSession;
+    delete options.useMultiplexedSession;
+
     const emulatorHost = Spanner.getSpannerEmulatorHost();
     if (
       emulatorHost &&
@@ -362,6 +564,14 @@ class Spanner extends GrpcService {
       [CLOUD_RESOURCE_HEADER]: this.projectFormattedName_,
     };
     this.directedReadOptions = directedReadOptions;
+    this.observabilityOptions = observabilityOptions;
+    this.transactionRetryPolicy = transactionRetryPolicy;
+    this.streamRetryPolicy = streamRetryPolicy;
+    this.transactionInterceptors = transactionInterceptors;
+    this.readRoutingPolicy = readRoutingPolicy;
+    this.dateAs = dateAs;
+    this.timestampAs = timestampAs;
+    this.useMultiplexedSession = useMultiplexedSession;
   }
 
   /**
@@ -1551,7 +1761,11 @@ class Spanner extends GrpcService {
         if (err) {
           callback(err);
         } else {
-          requestFn(callback);
+          const recordLatency = this._recordRpcLatency(config);
+          requestFn((err, ...args) => {
+            recordLatency(err);
+            callback(err, ...args);
+          });
         }
       });
     } else {
@@ -1560,7 +1774,13 @@ class Spanner extends GrpcService {
           if (err) {
             reject(err);
           } else {
-            resolve(requestFn());
+            const recordLatency = this._recordRpcLatency(config);
+            const request = requestFn();
+            Promise.resolve(request).then(
+              () => recordLatency(null),
+              err => recordLatency(err)
+            );
+            resolve(request);
           }
         });
       });
@@ -1587,16 +1807,50 @@ class Spanner extends GrpcService {
           stream.destroy(err);
           return;
         }
+        const recordLatency = this._recordRpcLatency(config);
+        // A stream that is destroyed before the RPC has finished is recorded
+        // as cancelled.
+        stream.once('close', () =>
+          recordLatency({code: grpc.status.CANCELLED} as ServiceError)
+        );
         requestFn()
           .on('error', err => {
+            recordLatency(err);
             stream.destroy(err);
           })
+          .on('end', () => recordLatency(null))
           .pipe(stream);
       });
     });
     return stream;
   }
 
+  /**
+   * Starts measuring the latency of an RPC. The returned function records the
+   * latency with the configured metrics recorder once the RPC has finished.
+   * Only the first call of the function is recorded.
+   *
+   * @private
+   *
+   * @param {object} config The request configuration.
+   * @returns {function} Function to call with the result of the RPC.
+   */
+  _recordRpcLatency(config: RequestConfig): (err: ServiceError | null) => void {
+    const recorder = getMetricsRecorder(this.observabilityOptions);
+    const start = Date.now();
+    let recorded = false;
+    return err => {
+      if (recorded) {
+        return;
+      }
+      recorded = true;
+      recorder.recordHistogram(METRIC_RPC_LATENCY, Date.now() - start, {
+        method: config.method,
+        status: grpc.status[err?.code ?? grpc.status.OK],
+      });
+    };
+  }
+
   static date(dateString?: string);
   static date(year: number, month: number, date: number);
   /**
@@ -1717,7 +1971,8 @@ class Spanner extends GrpcService {
   /**
    * Helper function to get a Cloud Spanner Int64 object.
    *
-   * @param {string|number} value The int as a number or string.
+   * @param {string|number|bigint} value The int as a number, string or
+   *     bigint.
    * @returns {Int}
    *
    * @example
@@ -2035,6 +2290,247 @@ export {MutationGroup};
  */
 export {MutationSet};
 
+/**
+ * Options for tracing the operations of the client with OpenTelemetry.
+ *
+ * @name Spanner.ObservabilityOptions
+ * @see ObservabilityOptions
+ */
+export {ObservabilityOptions};
+
+/**
+ * Interface for receiving the client-side metrics of the client.
+ *
+ * @name Spanner.MetricsRecorder
+ * @see MetricsRecorder
+ */
+export {MetricsRecorder, MetricAttributes};
+
+/**
+ * {@link OpenTelemetryMetricsRecorder} class.
+ *
+ * @name Spanner.OpenTelemetryMetricsRecorder
+ * @see OpenTelemetryMetricsRecorder
+ * @type {Constructor}
+ */
+export {OpenTelemetryMetricsRecorder};
+
+/**
+ * Defines the expected columns of a query result.
+ *
+ * @name Spanner.rowType
+ * @see rowType
+ * @type {Function}
+ */
+export {rowType, RowSchema, ColumnSchema, RowOf, RowTypeOptions};
+
+/**
+ * {@link RowTypeMismatchError} class.
+ *
+ * @name Spanner.RowTypeMismatchError
+ * @see RowTypeMismatchError
+ * @type {Constructor}
+ */
+export {RowTypeMismatchError};
+
+/**
+ * {@link QueryBuilder} class.
+ *
+ * @name Spanner.QueryBuilder
+ * @see QueryBuilder
+ * @type {Constructor}
+ */
+export {QueryBuilder, QueryParam, Dialect, ComparisonOperator, SortDirection};
+
+/**
+ * {@link Migrator} class.
+ *
+ * @name Spanner.Migrator
+ * @see Migrator
+ * @type {Constructor}
+ */
+export {Migrator, Migration, MigratorOptions, MigrationLockError};
+
+/**
+ * Loads migrations from the files in a directory.
+ *
+ * @name Spanner.loadMigrations
+ * @see loadMigrations
+ * @type {Function}
+ */
+export {loadMigrations};
+
+/**
+ * Compares two schema models and returns the DDL that changes one into the
+ * other.
+ *
+ * @name Spanner.diffSchemaModels
+ * @see diffSchemaModels
+ * @type {Function}
+ */
+export {
+  diffSchemaModels,
+  SchemaModel,
+  TableModel,
+  ColumnModel,
+  IndexModel,
+  ForeignKeyModel,
+  ViewModel,
+  ChangeStreamModel,
+};
+
+/**
+ * Generates TypeScript row types for the tables and indexes of a schema model.
+ *
+ * @name Spanner.generateRowTypes
+ * @see generateRowTypes
+ * @type {Function}
+ */
+export {generateRowTypes, GenerateRowTypesOptions};
+
+/**
+ * {@link ChangeStream} class.
+ *
+ * @name Spanner.ChangeStream
+ * @see ChangeStream
+ * @type {Constructor}
+ */
+export {
+  ChangeStream,
+  ChangeStreamReader,
+  ChangeStreamReadOptions,
+  ChangeStreamCheckpoint,
+  ChangeRecord,
+  DataChangeRecord,
+  HeartbeatRecord,
+  ChildPartitionsRecord,
+};
+
+/**
+ * {@link QueryExport} class.
+ *
+ * @name Spanner.QueryExport
+ * @see QueryExport
+ * @type {Constructor}
+ */
+export {
+  QueryExport,
+  ExportQueryOptions,
+  ExportFormat,
+  ExportProgress,
+  ExportResult,
+};
+
+/**
+ * {@link BulkWriter} class.
+ *
+ * @name Spanner.BulkWriter
+ * @see BulkWriter
+ * @type {Constructor}
+ */
+export {BulkWriter, BulkWriterOptions, BulkWriteFailure};
+
+/**
+ * Exports rows to CSV or NDJSON, and imports CSV or NDJSON rows into a table.
+ *
+ * @name Spanner.exportRows
+ * @see exportRows
+ * @type {Function}
+ */
+export {
+  exportRows,
+  importRows,
+  ExportRowsOptions,
+  ImportRowsOptions,
+  ImportFailure,
+  ImportResult,
+  TransferFormat,
+};
+
+export {RetryPolicy, RetryEvent};
+
+export {TransactionInterceptor, InterceptorContext, QueryResult, CommitResult};
+
+export {ReadRoutingPolicy, ReadRoutingRequest, ReadRouting, ReplicaClass};
+
+/**
+ * {@link QueryPlan} class.
+ *
+ * @name Spanner.QueryPlan
+ * @see QueryPlan
+ * @type {Constructor}
+ */
+export {QueryPlan, QueryPlanNode, QueryPlanLink, OperatorStats};
+
+/**
+ * {@link QueryStatsCollector} class.
+ *
+ * @name Spanner.QueryStatsCollector
+ * @see QueryStatsCollector
+ * @type {Constructor}
+ */
+export {
+  QueryStatsCollector,
+  QueryStatsCollectorOptions,
+  QueryStats,
+  LatencyStats,
+  fingerprintSql,
+};
+
+/**
+ * {@link ResultCache} class.
+ *
+ * @name Spanner.ResultCache
+ * @see ResultCache
+ * @type {Constructor}
+ */
+export {
+  ResultCache,
+  MemoryResultStore,
+  ResultCacheOptions,
+  ResultCacheStats,
+  ResultCacheStore,
+};
+
+/**
+ * {@link TypedTable} class.
+ *
+ * @name Spanner.TypedTable
+ * @see TypedTable
+ * @type {Constructor}
+ */
+export {
+  TypedTable,
+  TypedTableOptions,
+  TypedKeyRange,
+  TypedReadOptions,
+  KeyPrefix,
+};
+
+/**
+ * {@link MutationValidator} class.
+ *
+ * @name Spanner.MutationValidator
+ * @see MutationValidator
+ * @type {Constructor}
+ */
+export {
+  MutationValidator,
+  MutationValidationError,
+  MutationValidatorOptions,
+  MutationReport,
+  MutationIssue,
+  MutationIssueType,
+};
+
+export {
+  ReadRequest,
+  TimestampBounds,
+  InsertRowsOptions,
+  UpdateRowsOptions,
+  UpsertRowsOptions,
+};
+
 /**
  * @type {object}
  * @property {constructor} DatabaseAdminClient
@@ -2048,4 +2544,23 @@ import * as protos from '../protos/protos';
 import IInstanceConfig = instanceAdmin.spanner.admin.instance.v1.IInstanceConfig;
 export {v1, protos};
 export default {Spanner};
-export {Float32, Float, Int, Struct, Numeric, PGNumeric, SpannerDate};
+export {
+  Float32,
+  Float,
+  Int,
+  Struct,
+  Numeric,
+  PGNumeric,
+  SpannerDate,
+  PlainDate,
+};
+export {PGJsonb, ProtoMessage, ProtoEnum, Int64As, DateAs, TimestampAs};
+
+/**
+ * {@link CodecRegistry} class.
+ *
+ * @name Spanner.CodecRegistry
+ * @see CodecRegistry
+ * @type {Constructor}
+ */
+export {CodecRegistry, CustomCodec, TypeAnnotationName, TypeCodeName};
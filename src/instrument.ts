@@ -0,0 +1,163 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Attributes,
+  Span,
+  SpanKind,
+  SpanStatusCode,
+  Tracer,
+  TracerProvider,
+  trace,
+} from '@opentelemetry/api';
+import {MetricsRecorder} from './metrics';
+
+const TRACER_NAME = 'cloud.google.com/nodejs/spanner';
+const TRACER_VERSION = require('../../package.json').version;
+const SPAN_NAMESPACE_PREFIX = 'CloudSpanner';
+
+export const ATTR_DB_SYSTEM = 'db.system';
+export const ATTR_DB_NAME = 'db.name';
+export const ATTR_DB_STATEMENT = 'db.statement';
+export const ATTR_DB_SQL_TABLE = 'db.sql.table';
+export const ATTR_TRANSACTION_TAG = 'transaction.tag';
+export const ATTR_TRANSACTION_ATTEMPT = 'transaction.attempt';
+
+/**
+ * @typedef {object} ObservabilityOptions
+ * @property {TracerProvider} [tracerProvider] The OpenTelemetry
+ *     TracerProvider to create spans with. When omitted, the globally
+ *     registered provider is used, which is a no-op unless the application
+ *     has registered one.
+ * @property {boolean} [enableExtendedTracing=false] If set to true, the SQL
+ *     text of queries and DML statements is recorded on spans as the
+ *     `db.statement` attribute. SQL is redacted from spans by default, as it
+ *     may contain sensitive data.
+ * @property {MetricsRecorder} [metricsRecorder] Receives the client-side
+ *     metrics of the client, such as the state of the session pool and the
+ *     latency of RPCs. Metrics are not recorded if omitted.
+ */
+export interface ObservabilityOptions {
+  tracerProvider?: TracerProvider;
+  enableExtendedTracing?: boolean;
+  metricsRecorder?: MetricsRecorder;
+}
+
+/**
+ * Common attributes of a span that is started by the client library.
+ *
+ * @private
+ */
+export interface TraceConfig {
+  opts?: ObservabilityOptions;
+  dbName?: string;
+  sql?: string | {sql?: string | null};
+  tableName?: string;
+  transactionTag?: string | null;
+  attempt?: number;
+}
+
+/**
+ * Returns the tracer to create spans with for the given options.
+ *
+ * @private
+ *
+ * @param {ObservabilityOptions} [opts] The observability options.
+ * @returns {Tracer}
+ */
+export function getTracer(opts?: ObservabilityOptions): Tracer {
+  const provider = opts?.tracerProvider;
+  if (provider) {
+    return provider.getTracer(TRACER_NAME, TRACER_VERSION);
+  }
+  return trace.getTracer(TRACER_NAME, TRACER_VERSION);
+}
+
+/**
+ * Starts a new active span named `CloudSpanner.<spanNameSuffix>` and invokes
+ * the given function with it. The caller is responsible for ending the span,
+ * as most of the instrumented operations complete asynchronously.
+ *
+ * @private
+ *
+ * @param {string} spanNameSuffix The name of the span without the namespace
+ *     prefix, e.g. `Database.run`.
+ * @param {TraceConfig} [config] The attributes to add to the span.
+ * @param {function} cb The function to invoke with the started span.
+ * @returns The value returned by `cb`.
+ */
+export function startTrace<T>(
+  spanNameSuffix: string,
+  config: TraceConfig | undefined,
+  cb: (span: Span) => T
+): T {
+  const attributes: Attributes = {[ATTR_DB_SYSTEM]: 'spanner'};
+
+  if (config?.dbName) {
+    attributes[ATTR_DB_NAME] = config.dbName;
+  }
+  if (config?.tableName) {
+    attributes[ATTR_DB_SQL_TABLE] = config.tableName;
+  }
+  if (config?.transactionTag) {
+    attributes[ATTR_TRANSACTION_TAG] = config.transactionTag;
+  }
+  if (typeof config?.attempt === 'number') {
+    attributes[ATTR_TRANSACTION_ATTEMPT] = config.attempt;
+  }
+  if (config?.sql && config.opts?.enableExtendedTracing) {
+    const sql = typeof config.sql === 'string' ? config.sql : config.sql.sql;
+    if (sql) {
+      attributes[ATTR_DB_STATEMENT] = sql;
+    }
+  }
+
+  return getTracer(config?.opts).startActiveSpan(
+    `${SPAN_NAMESPACE_PREFIX}.${spanNameSuffix}`,
+    {kind: SpanKind.CLIENT, attributes},
+    cb
+  );
+}
+
+/**
+ * Marks the span as failed with the given error. Does nothing if no error is
+ * given, so that it can be called unconditionally from callbacks.
+ *
+ * @private
+ *
+ * @param {Span} span The span to update.
+ * @param {Error} [err] The error that caused the operation to fail.
+ */
+export function setSpanError(span: Span, err?: Error | null): void {
+  if (!err) {
+    return;
+  }
+  span.setStatus({code: SpanStatusCode.ERROR, message: err.message});
+  span.recordException(err);
+}
+
+/**
+ * Ends the span, marking it as failed first if an error is given.
+ *
+ * @private
+ *
+ * @param {Span} span The span to end.
+ * @param {Error} [err] The error that the operation finished with, if any.
+ */
+export function endSpan(span: Span, err?: Error | null): void {
+  setSpanError(span, err);
+  span.end();
+}
@@ -0,0 +1,155 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {grpc} from 'google-gax';
+import {google} from '../protos/protos';
+import {Database} from './database';
+import {CommitRequest, ExecuteSqlRequest, Snapshot} from './transaction';
+
+/**
+ * @typedef {object} InterceptorContext
+ * @property {Database} database The database of the transaction.
+ * @property {Snapshot} transaction The transaction that runs the request.
+ */
+export interface InterceptorContext {
+  database: Database;
+  transaction: Snapshot;
+}
+
+/**
+ * @typedef {object} QueryResult
+ * @property {ExecuteSqlRequest} request The query or DML statement.
+ * @property {?google.spanner.v1.IResultSetStats} stats The statistics of the
+ *     result, if the server returned any.
+ * @property {?Error} error The error of the request, if it failed.
+ */
+export interface QueryResult {
+  request: ExecuteSqlRequest;
+  stats: google.spanner.v1.IResultSetStats | null;
+  error: Error | null;
+}
+
+/**
+ * @typedef {object} CommitResult
+ * @property {CommitRequest} request The commit request.
+ * @property {?google.spanner.v1.ICommitResponse} response The response, if
+ *     the commit succeeded.
+ * @property {?Error} error The error of the commit, if it failed.
+ */
+export interface CommitResult {
+  request: CommitRequest;
+  response: google.spanner.v1.ICommitResponse | null;
+  error: Error | null;
+}
+
+/**
+ * Hooks into the requests of transactions. Interceptors are added to
+ * {@link Database#transactionInterceptors}, or to
+ * {@link Spanner#transactionInterceptors} for all databases of a client. The
+ * interceptors of the client run before those of the database, in the order
+ * in which they were added.
+ *
+ * Hooks run synchronously. The `before` hooks can change a request before it
+ * is sent, or throw an error to reject it, in which case the request fails
+ * with that error. Errors that are thrown by `afterQuery`, `afterCommit` and
+ * `onAbort` are ignored, as the request has already completed.
+ *
+ * `beforeQuery` and `afterQuery` are called for queries and DML statements
+ * that are run with {@link Snapshot#run}, {@link Snapshot#runStream},
+ * {@link Transaction#runUpdate} and {@link Transaction#batchUpdate}. For a
+ * batch update, `beforeQuery` is called for every statement, and the
+ * statements share the `requestOptions` of the batch. Hooks get a copy of the
+ * request and its `requestOptions`, so changes do not affect the caller.
+ * Queries that are answered by the {@link ResultCache} of the database send no
+ * request, so the query hooks are not called for them.
+ *
+ * @typedef {object} TransactionInterceptor
+ * @property {function(ExecuteSqlRequest, InterceptorContext)} [beforeQuery]
+ *     Called before a query or DML statement is sent.
+ * @property {function(QueryResult, InterceptorContext)} [afterQuery] Called
+ *     when a query or DML statement has completed or failed.
+ * @property {function(CommitRequest, InterceptorContext)} [beforeCommit]
+ *     Called before a transaction is committed.
+ * @property {function(CommitResult, InterceptorContext)} [afterCommit] Called
+ *     when a commit has completed or failed.
+ * @property {function(number, Error, InterceptorContext)} [onAbort] Called
+ *     with the number of the retry when a transaction that is run with
+ *     {@link Database#runTransaction} or
+ *     {@link Database#runTransactionAsync} is retried.
+ *
+ * @example
+ * ```
+ * const {Spanner} = require('@google-cloud/spanner');
+ * const spanner = new Spanner();
+ *
+ * const instance = spanner.instance('my-instance');
+ * const database = instance.database('my-database');
+ *
+ * database.transactionInterceptors.push({
+ *   beforeQuery: request => {
+ *     request.requestOptions = Object.assign({}, request.requestOptions, {
+ *       requestTag: 'tenant=acme',
+ *     });
+ *   },
+ *   afterCommit: ({response}) => {
+ *     console.log(`Committed at ${response?.commitTimestamp?.seconds}`);
+ *   },
+ * });
+ * ```
+ */
+export interface TransactionInterceptor {
+  beforeQuery?(request: ExecuteSqlRequest, context: InterceptorContext): void;
+  afterQuery?(result: QueryResult, context: InterceptorContext): void;
+  beforeCommit?(request: CommitRequest, context: InterceptorContext): void;
+  afterCommit?(result: CommitResult, context: InterceptorContext): void;
+  onAbort?(
+    attempt: number,
+    error: grpc.ServiceError,
+    context: InterceptorContext
+  ): void;
+}
+
+/**
+ * Returns the interceptors of a database, after those of its client.
+ *
+ * @private
+ */
+export function getInterceptors(
+  database: Database | undefined
+): TransactionInterceptor[] {
+  return [
+    ...(database?.parent?.parent?.transactionInterceptors || []),
+    ...(database?.transactionInterceptors || []),
+  ];
+}
+
+/**
+ * Calls a hook of every interceptor, and ignores the errors of the hooks.
+ *
+ * @private
+ */
+export function notifyInterceptors(
+  interceptors: TransactionInterceptor[],
+  hook: (interceptor: TransactionInterceptor) => void
+): void {
+  interceptors.forEach(interceptor => {
+    try {
+      hook(interceptor);
+    } catch (err) {
+      // The request has already completed.
+    }
+  });
+}
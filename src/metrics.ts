@@ -0,0 +1,237 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Counter,
+  Histogram,
+  Meter,
+  MeterProvider,
+  ObservableGauge,
+  ObservableResult,
+  metrics,
+} from '@opentelemetry/api';
+import {ObservabilityOptions} from './instrument';
+
+const METER_NAME = 'cloud.google.com/nodejs/spanner';
+const METER_VERSION = require('../../package.json').version;
+
+/** Number of sessions that are currently checked out of the pool. */
+export const METRIC_SESSIONS_IN_USE = 'spanner.session_pool.in_use';
+/** Number of sessions that are idle in the pool. */
+export const METRIC_SESSIONS_IDLE = 'spanner.session_pool.idle';
+/** Number of requests that are waiting for a session. */
+export const METRIC_PENDING_ACQUIRES = 'spanner.session_pool.pending_acquires';
+/** Number of sessions that are currently being created. */
+export const METRIC_SESSIONS_CREATING = 'spanner.session_pool.creating';
+/** Time it took to acquire a session from the pool. */
+export const METRIC_ACQUIRE_LATENCY = 'spanner.session_pool.acquire_latency';
+/** Latency of an individual RPC, by method. */
+export const METRIC_RPC_LATENCY = 'spanner.rpc.latency';
+/** Number of rows that were returned by a result stream. */
+export const METRIC_STREAM_ROWS = 'spanner.stream.rows';
+/** Number of times that a result stream was resumed after an error. */
+export const METRIC_STREAM_RESUMES = 'spanner.stream.resumes';
+/** Number of aborted transactions that were retried. */
+export const METRIC_ABORTS_RETRIED = 'spanner.transaction.aborts_retried';
+/** Number of operations that were retried after a 'Session not found' error. */
+export const METRIC_SESSION_NOT_FOUND_RECOVERIES =
+  'spanner.session.not_found_recoveries';
+
+const DESCRIPTORS: {[name: string]: {description: string; unit: string}} = {
+  [METRIC_SESSIONS_IN_USE]: {
+    description: 'Number of sessions that are checked out of the pool.',
+    unit: '{session}',
+  },
+  [METRIC_SESSIONS_IDLE]: {
+    description: 'Number of sessions that are idle in the pool.',
+    unit: '{session}',
+  },
+  [METRIC_PENDING_ACQUIRES]: {
+    description: 'Number of requests that are waiting for a session.',
+    unit: '{request}',
+  },
+  [METRIC_SESSIONS_CREATING]: {
+    description: 'Number of sessions that are being created.',
+    unit: '{session}',
+  },
+  [METRIC_ACQUIRE_LATENCY]: {
+    description: 'Time it took to acquire a session from the pool.',
+    unit: 'ms',
+  },
+  [METRIC_RPC_LATENCY]: {
+    description: 'Latency of RPCs to Cloud Spanner.',
+    unit: 'ms',
+  },
+  [METRIC_STREAM_ROWS]: {
+    description: 'Number of rows returned by a result stream.',
+    unit: '{row}',
+  },
+  [METRIC_STREAM_RESUMES]: {
+    description: 'Number of times a result stream was resumed.',
+    unit: '{resume}',
+  },
+  [METRIC_ABORTS_RETRIED]: {
+    description: 'Number of aborted transactions that were retried.',
+    unit: '{transaction}',
+  },
+  [METRIC_SESSION_NOT_FOUND_RECOVERIES]: {
+    description: "Number of retries after a 'Session not found' error.",
+    unit: '{retry}',
+  },
+};
+
+export interface MetricAttributes {
+  [key: string]: string | number | boolean;
+}
+
+/**
+ * Receives the client-side metrics of the client library. Implement this
+ * interface to export the metrics to a monitoring system of choice, or use
+ * {@link OpenTelemetryMetricsRecorder} to export them through OpenTelemetry.
+ *
+ * @interface MetricsRecorder
+ */
+export interface MetricsRecorder {
+  /**
+   * Adds the given value to a monotonic counter.
+   *
+   * @param {string} name The name of the counter.
+   * @param {number} value The value to add.
+   * @param {object} [attributes] The attributes of the measurement.
+   */
+  addCounter(name: string, value: number, attributes?: MetricAttributes): void;
+  /**
+   * Records a value in a histogram.
+   *
+   * @param {string} name The name of the histogram.
+   * @param {number} value The value to record.
+   * @param {object} [attributes] The attributes of the measurement.
+   */
+  recordHistogram(
+    name: string,
+    value: number,
+    attributes?: MetricAttributes
+  ): void;
+  /**
+   * Registers a callback that returns the current value of a gauge. The
+   * callback is invoked whenever the recorder collects the gauge.
+   *
+   * @param {string} name The name of the gauge.
+   * @param {function} callback Returns the current value of the gauge.
+   * @param {object} [attributes] The attributes of the measurement.
+   * @returns {function} Function that unregisters the callback.
+   */
+  observeGauge(
+    name: string,
+    callback: () => number,
+    attributes?: MetricAttributes
+  ): () => void;
+}
+
+const NOOP_METRICS_RECORDER: MetricsRecorder = {
+  addCounter() {},
+  recordHistogram() {},
+  observeGauge() {
+    return () => {};
+  },
+};
+
+/**
+ * Returns the metrics recorder that is configured in the given options, or a
+ * recorder that discards all measurements.
+ *
+ * @private
+ *
+ * @param {ObservabilityOptions} [opts] The observability options.
+ * @returns {MetricsRecorder}
+ */
+export function getMetricsRecorder(
+  opts?: ObservabilityOptions
+): MetricsRecorder {
+  return opts?.metricsRecorder ?? NOOP_METRICS_RECORDER;
+}
+
+/**
+ * A {@link MetricsRecorder} that records the metrics as OpenTelemetry
+ * instruments.
+ *
+ * @class
+ *
+ * @param {MeterProvider} [meterProvider] The MeterProvider to create the
+ *     instruments with. Defaults to the globally registered provider.
+ *
+ * @example
+ * ```
+ * const {MeterProvider} = require('@opentelemetry/sdk-metrics');
+ * const {Spanner, OpenTelemetryMetricsRecorder} = require('@google-cloud/spanner');
+ *
+ * const meterProvider = new MeterProvider({readers: [reader]});
+ * const spanner = new Spanner({
+ *   observabilityOptions: {
+ *     metricsRecorder: new OpenTelemetryMetricsRecorder(meterProvider),
+ *   },
+ * });
+ * ```
+ */
+export class OpenTelemetryMetricsRecorder implements MetricsRecorder {
+  private _meter: Meter;
+  private _counters: Map<string, Counter>;
+  private _histograms: Map<string, Histogram>;
+  private _gauges: Map<string, ObservableGauge>;
+  constructor(meterProvider?: MeterProvider) {
+    const provider = meterProvider ?? metrics.getMeterProvider();
+    this._meter = provider.getMeter(METER_NAME, METER_VERSION);
+    this._counters = new Map();
+    this._histograms = new Map();
+    this._gauges = new Map();
+  }
+  addCounter(name: string, value: number, attributes?: MetricAttributes): void {
+    let counter = this._counters.get(name);
+    if (!counter) {
+      counter = this._meter.createCounter(name, DESCRIPTORS[name]);
+      this._counters.set(name, counter);
+    }
+    counter.add(value, attributes);
+  }
+  recordHistogram(
+    name: string,
+    value: number,
+    attributes?: MetricAttributes
+  ): void {
+    let histogram = this._histograms.get(name);
+    if (!histogram) {
+      histogram = this._meter.createHistogram(name, DESCRIPTORS[name]);
+      this._histograms.set(name, histogram);
+    }
+    histogram.record(value, attributes);
+  }
+  observeGauge(
+    name: string,
+    callback: () => number,
+    attributes?: MetricAttributes
+  ): () => void {
+    let gauge = this._gauges.get(name);
+    if (!gauge) {
+      gauge = this._meter.createObservableGauge(name, DESCRIPTORS[name]);
+      this._gauges.set(name, gauge);
+    }
+    const observer = (result: ObservableResult) => {
+      result.observe(callback(), attributes);
+    };
+    gauge.addCallback(observer);
+    return () => gauge!.removeCallback(observer);
+  }
+}
@@ -0,0 +1,588 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {GoogleError, grpc} from 'google-gax';
+import {Database, RunPartitionedUpdateOptions} from './database';
+import {Dialect, QueryBuilder} from './query-builder';
+import {ExecuteSqlRequest, Transaction} from './transaction';
+
+const COMMIT_TIMESTAMP = 'spanner.commit_timestamp()';
+const LOCK_ID = 1;
+
+/**
+ * @typedef {object} Migration
+ * @property {number} version The version of the migration. Migrations are
+ *     applied in ascending order of their version, and each version is applied
+ *     at most once.
+ * @property {string} [description] A description of the migration.
+ * @property {string[]} [ddl] DDL statements to apply with
+ *     {@link Database#updateSchema}. The DDL statements of consecutive
+ *     migrations are batched into a single schema update.
+ * @property {Array<string|ExecuteSqlRequest>} [partitionedDml] Data migration
+ *     statements to run with {@link Database#runPartitionedUpdate} after the
+ *     DDL statements have been applied.
+ * @property {function} [transaction] Data migration step to run in a
+ *     read/write transaction after the DDL statements have been applied. The
+ *     function receives the {@link Transaction} and must not commit it. The
+ *     version is recorded in the same transaction. The function is retried if
+ *     the transaction is aborted.
+ */
+export interface Migration {
+  version: number;
+  description?: string;
+  ddl?: string[];
+  partitionedDml?: Array<string | RunPartitionedUpdateOptions>;
+  transaction?: (transaction: Transaction) => Promise<void>;
+}
+
+/**
+ * @typedef {object} MigratorOptions
+ * @property {string} [migrationsTable='SchemaMigrations'] The table that
+ *     records the applied versions.
+ * @property {string} [lockTable='SchemaMigrationsLock'] The table that holds
+ *     the lock row while migrations are being applied.
+ * @property {string} [owner] Identifies this migrator in the lock row.
+ *     Defaults to the host name and process id.
+ * @property {string} [dialect] The dialect of the database. Retrieved with
+ *     {@link Database#getDatabaseDialect} if not set.
+ */
+export interface MigratorOptions {
+  migrationsTable?: string;
+  lockTable?: string;
+  owner?: string;
+  dialect?: Dialect;
+}
+
+/**
+ * @typedef {object} MigrateOptions
+ * @property {boolean} [dryRun=false] Only determine the pending migrations and
+ *     their DDL statements without applying them.
+ */
+export interface MigrateOptions {
+  dryRun?: boolean;
+}
+
+/**
+ * @typedef {object} MigrateResult
+ * @property {number[]} versions The versions that were applied, or that would
+ *     be applied for a dry run.
+ * @property {string[]} statements The DDL statements of these versions.
+ */
+export interface MigrateResult {
+  versions: number[];
+  statements: string[];
+}
+
+/**
+ * Error that is thrown when another migrator holds the migration lock.
+ *
+ * @class
+ *
+ * @param {string} owner The owner of the lock.
+ * @param {Date} [acquiredAt] When the lock was acquired.
+ */
+export class MigrationLockError extends GoogleError {
+  owner: string;
+  acquiredAt?: Date;
+  constructor(owner: string, acquiredAt?: Date) {
+    super(
+      `Migrations are locked by ${owner}` +
+        (acquiredAt ? ` since ${acquiredAt.toISOString()}` : '') +
+        '. Delete the lock row if that migrator is no longer running.'
+    );
+    // Restore error name that was overwritten by the super constructor call.
+    this.name = MigrationLockError.name;
+    this.owner = owner;
+    this.acquiredAt = acquiredAt;
+  }
+}
+
+/**
+ * Applies versioned schema and data migrations to a database.
+ *
+ * The applied versions are recorded in a tracking table that is created on
+ * the first run. While migrations are applied, the migrator holds a lock row
+ * in a separate lock table, and other migrators refuse to run until the lock
+ * is released.
+ *
+ * DDL statements of consecutive migrations are batched into a single call to
+ * {@link Database#updateSchema}. A migration with data migration steps ends a
+ * batch, as its steps run after its DDL statements have been applied. If a
+ * migration fails, the versions before it remain applied. If a data migration
+ * step fails, the DDL statements of its migration remain recorded as applied,
+ * and the next run only runs its data migration steps again.
+ *
+ * @class
+ *
+ * @param {Database} database The database to migrate.
+ * @param {Migration[]} migrations The migrations, in any order.
+ * @param {MigratorOptions} [options] Options for the migrator.
+ *
+ * @example
+ * ```
+ * const {Migrator, Spanner, loadMigrations} = require('@google-cloud/spanner');
+ * const spanner = new Spanner();
+ *
+ * const instance = spanner.instance('my-instance');
+ * const database = instance.database('my-database');
+ *
+ * const migrator = new Migrator(database, [
+ *   {
+ *     version: 1,
+ *     ddl: [
+ *       'CREATE TABLE Singers (SingerId INT64, Name STRING(MAX)) ' +
+ *         'PRIMARY KEY (SingerId)',
+ *     ],
+ *   },
+ *   {
+ *     version: 2,
+ *     ddl: ['ALTER TABLE Singers ADD COLUMN Active BOOL'],
+ *     partitionedDml: ['UPDATE Singers SET Active = true WHERE true'],
+ *   },
+ * ]);
+ *
+ * // Print the DDL statements that would be applied.
+ * const {statements} = await migrator.migrate({dryRun: true});
+ *
+ * // Apply the pending migrations.
+ * const {versions} = await migrator.migrate();
+ *
+ * // Migrations can also be loaded from a directory.
+ * await new Migrator(database, await loadMigrations('./migrations')).migrate();
+ * ```
+ */
+export class Migrator {
+  database: Database;
+  migrations: Migration[];
+  migrationsTable: string;
+  lockTable: string;
+  owner: string;
+  dialect?: Dialect;
+  constructor(
+    database: Database,
+    migrations: Migration[],
+    options?: MigratorOptions
+  ) {
+    this.database = database;
+    this.migrations = sortMigrations(migrations);
+    this.migrationsTable = options?.migrationsTable || 'SchemaMigrations';
+    this.lockTable = options?.lockTable || 'SchemaMigrationsLock';
+    this.owner = options?.owner || `${os.hostname()}:${process.pid}`;
+    this.dialect = options?.dialect;
+  }
+
+  /**
+   * Returns the migrations that have not yet been applied.
+   *
+   * @returns {Promise<Migration[]>}
+   */
+  async pending(): Promise<Migration[]> {
+    const qb = await this._queryBuilder();
+    if (!(await this._tablesExist(qb))) {
+      return this.migrations;
+    }
+    const versions = await this._versions(qb);
+    return this.migrations.filter(({version}) => !versions.get(version));
+  }
+
+  /**
+   * Applies the pending migrations in order of their version.
+   *
+   * @throws {MigrationLockError} If another migrator holds the lock.
+   *
+   * @param {MigrateOptions} [options] Options for this run.
+   * @returns {Promise<MigrateResult>}
+   */
+  async migrate(options?: MigrateOptions): Promise<MigrateResult> {
+    const qb = await this._queryBuilder();
+    const exists = await this._tablesExist(qb);
+    if (options?.dryRun) {
+      const versions = exists ? await this._versions(qb) : new Map();
+      return toResult(this.migrations, versions);
+    }
+
+    if (!exists) {
+      await this._createTables(qb);
+    }
+    await this._lock(qb);
+    let result: MigrateResult;
+    try {
+      const versions = await this._versions(qb);
+      await this._apply(
+        this.migrations.filter(({version}) => !versions.get(version)),
+        versions
+      );
+      result = toResult(this.migrations, versions);
+    } catch (err) {
+      // Keep the error of the migration if the lock cannot be released.
+      await this._unlock().catch(() => {});
+      throw err;
+    }
+    await this._unlock();
+    return result;
+  }
+
+  /**
+   * Applies the given migrations, batching their DDL statements. The DDL
+   * statements of migrations that are recorded in `versions` have already
+   * been applied.
+   *
+   * @private
+   */
+  async _apply(
+    migrations: Migration[],
+    versions: Map<number, boolean>
+  ): Promise<void> {
+    let batch: Migration[] = [];
+    for (const migration of migrations) {
+      const recorded = versions.has(migration.version);
+      if (!recorded) {
+        batch.push(migration);
+      }
+      if (migration.partitionedDml?.length || migration.transaction) {
+        await this._updateSchema(batch);
+        // A migration with DDL statements is recorded before its data steps
+        // run, so that its DDL statements are not applied again if they fail.
+        const ddl = !recorded && !!migration.ddl?.length;
+        await this._record(
+          ddl ? batch : batch.filter(m => m !== migration),
+          ddl ? migration : undefined
+        );
+        await this._runDataSteps(migration, recorded || ddl);
+        batch = [];
+      }
+    }
+    if (batch.length) {
+      await this._updateSchema(batch);
+      await this._record(batch);
+    }
+  }
+
+  /**
+   * Applies the DDL statements of the given migrations in one schema update.
+   *
+   * @private
+   */
+  async _updateSchema(migrations: Migration[]): Promise<void> {
+    const statements = migrations.flatMap(({ddl}) => ddl || []);
+    if (!statements.length) {
+      return;
+    }
+    const [operation] = await this.database.updateSchema(statements);
+    await operation.promise();
+  }
+
+  /**
+   * Runs the data migration steps of a migration and records its version as
+   * completed.
+   *
+   * @private
+   *
+   * @param {Migration} migration The migration.
+   * @param {boolean} recorded Whether the version has already been recorded
+   *     with its DDL statements.
+   */
+  async _runDataSteps(migration: Migration, recorded: boolean): Promise<void> {
+    for (const statement of migration.partitionedDml || []) {
+      await this.database.runPartitionedUpdate(statement);
+    }
+    await this.database.runTransactionAsync(async transaction => {
+      if (migration.transaction) {
+        await migration.transaction(transaction);
+      }
+      const row = this._versionRow(migration, true);
+      if (recorded) {
+        transaction.update(this.migrationsTable, row);
+      } else {
+        transaction.insert(this.migrationsTable, row);
+      }
+      await transaction.commit();
+    });
+  }
+
+  /**
+   * Records the versions of the given migrations as applied. The version of
+   * `started` is recorded without its data migration steps.
+   *
+   * @private
+   */
+  async _record(migrations: Migration[], started?: Migration): Promise<void> {
+    if (!migrations.length) {
+      return;
+    }
+    await this.database.runTransactionAsync(async transaction => {
+      transaction.insert(
+        this.migrationsTable,
+        migrations.map(migration =>
+          this._versionRow(migration, migration !== started)
+        )
+      );
+      await transaction.commit();
+    });
+  }
+
+  /**
+   * Returns the row that records a version as applied.
+   *
+   * @private
+   */
+  _versionRow({version, description}: Migration, completed: boolean) {
+    return {
+      Version: version,
+      Description: description || null,
+      Completed: completed,
+      AppliedAt: COMMIT_TIMESTAMP,
+    };
+  }
+
+  /**
+   * Acquires the migration lock by inserting the lock row.
+   *
+   * @private
+   *
+   * @throws {MigrationLockError} If the lock row already exists.
+   */
+  async _lock(qb: QueryBuilder): Promise<void> {
+    const query = qb
+      .select('Owner', 'AcquiredAt')
+      .from(this.lockTable)
+      .where('Id', '=', LOCK_ID)
+      .build();
+    try {
+      await this.database.runTransactionAsync(async transaction => {
+        const [rows] = await transaction.run({...query, json: true});
+        if (rows.length) {
+          const {Owner, AcquiredAt} = rows[0] as {
+            Owner: string;
+            AcquiredAt: Date | null;
+          };
+          await transaction.rollback();
+          throw new MigrationLockError(Owner, AcquiredAt || undefined);
+        }
+        transaction.insert(this.lockTable, {
+          Id: LOCK_ID,
+          Owner: this.owner,
+          AcquiredAt: COMMIT_TIMESTAMP,
+        });
+        await transaction.commit();
+      });
+    } catch (err) {
+      // Another migrator acquired the lock after the row was read.
+      if ((err as grpc.ServiceError).code === grpc.status.ALREADY_EXISTS) {
+        throw new MigrationLockError('another migrator');
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Releases the migration lock by deleting the lock row.
+   *
+   * @private
+   */
+  async _unlock(): Promise<void> {
+    await this.database.runTransactionAsync(async transaction => {
+      transaction.deleteRows(this.lockTable, [`${LOCK_ID}`]);
+      await transaction.commit();
+    });
+  }
+
+  /**
+   * Returns a query builder for the dialect of the database.
+   *
+   * @private
+   */
+  async _queryBuilder(): Promise<QueryBuilder> {
+    if (!this.dialect) {
+      this.dialect = await this.database.getDatabaseDialect();
+    }
+    return new QueryBuilder(this.dialect);
+  }
+
+  /**
+   * Checks whether the tracking and lock tables exist.
+   *
+   * @private
+   */
+  async _tablesExist(qb: QueryBuilder): Promise<boolean> {
+    const postgres = qb.dialect === 'POSTGRESQL';
+    const query = postgres
+      ? qb
+          .select('table_name')
+          .from('information_schema.tables')
+          .where('table_schema', '=', 'public')
+      : qb
+          .select('TABLE_NAME')
+          .from('INFORMATION_SCHEMA.TABLES')
+          .where('TABLE_SCHEMA', '=', '');
+    const tables = [this.migrationsTable, this.lockTable];
+    const [rows] = await this.database.run(
+      query.where(postgres ? 'table_name' : 'TABLE_NAME', 'IN', tables).build()
+    );
+    return rows.length === tables.length;
+  }
+
+  /**
+   * Creates the tracking and lock tables.
+   *
+   * @private
+   */
+  async _createTables(qb: QueryBuilder): Promise<void> {
+    const statements =
+      qb.dialect === 'POSTGRESQL'
+        ? [
+            `CREATE TABLE IF NOT EXISTS "${this.migrationsTable}" (` +
+              '"Version" bigint NOT NULL PRIMARY KEY, ' +
+              '"Description" varchar, ' +
+              '"Completed" boolean NOT NULL, ' +
+              '"AppliedAt" spanner.commit_timestamp NOT NULL)',
+            `CREATE TABLE IF NOT EXISTS "${this.lockTable}" (` +
+              '"Id" bigint NOT NULL PRIMARY KEY, ' +
+              '"Owner" varchar, ' +
+              '"AcquiredAt" spanner.commit_timestamp NOT NULL)',
+          ]
+        : [
+            `CREATE TABLE IF NOT EXISTS \`${this.migrationsTable}\` (` +
+              '`Version` INT64 NOT NULL, ' +
+              '`Description` STRING(MAX), ' +
+              '`Completed` BOOL NOT NULL, ' +
+              '`AppliedAt` TIMESTAMP NOT NULL ' +
+              'OPTIONS (allow_commit_timestamp=true)' +
+              ') PRIMARY KEY (`Version`)',
+            `CREATE TABLE IF NOT EXISTS \`${this.lockTable}\` (` +
+              '`Id` INT64 NOT NULL, ' +
+              '`Owner` STRING(MAX), ' +
+              '`AcquiredAt` TIMESTAMP NOT NULL ' +
+              'OPTIONS (allow_commit_timestamp=true)' +
+              ') PRIMARY KEY (`Id`)',
+          ];
+    const [operation] = await this.database.updateSchema(statements);
+    await operation.promise();
+  }
+
+  /**
+   * Reads the versions that have been recorded, and whether their data
+   * migration steps have completed.
+   *
+   * @private
+   */
+  async _versions(qb: QueryBuilder): Promise<Map<number, boolean>> {
+    const query: ExecuteSqlRequest = qb
+      .select('Version', 'Completed')
+      .from(this.migrationsTable)
+      .build();
+    const [rows] = await this.database.run({...query, json: true});
+    return new Map(
+      (rows as Array<{Version: number; Completed: boolean}>).map(row => [
+        Number(row.Version),
+        row.Completed,
+      ])
+    );
+  }
+}
+
+/**
+ * Returns the migrations that have not completed, and the DDL statements that
+ * have not been applied.
+ */
+function toResult(
+  migrations: Migration[],
+  versions: Map<number, boolean>
+): MigrateResult {
+  const pending = migrations.filter(({version}) => !versions.get(version));
+  return {
+    versions: pending.map(({version}) => version),
+    statements: pending
+      .filter(({version}) => !versions.has(version))
+      .flatMap(({ddl}) => ddl || []),
+  };
+}
+
+function sortMigrations(migrations: Migration[]): Migration[] {
+  const versions = new Set<number>();
+  migrations.forEach(({version}) => {
+    if (!Number.isSafeInteger(version)) {
+      throw new GoogleError(`Invalid migration version: ${version}`);
+    }
+    if (versions.has(version)) {
+      throw new GoogleError(`Duplicate migration version: ${version}`);
+    }
+    versions.add(version);
+  });
+  return [...migrations].sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Splits the contents of a `.sql` file into statements. Line comments are
+ * removed, and statements are separated by semicolons.
+ *
+ * @private
+ */
+export function splitStatements(sql: string): string[] {
+  return sql
+    .split('\n')
+    .map(line => line.replace(/--.*$/, ''))
+    .join('\n')
+    .split(';')
+    .map(statement => statement.trim())
+    .filter(statement => statement.length);
+}
+
+/**
+ * Loads migrations from the files in a directory. The name of each file must
+ * start with its version, optionally followed by `_` or `-` and a
+ * description, as in `0001_create_singers.sql`.
+ *
+ * - `.sql` files contain DDL statements separated by semicolons.
+ * - `.js` files export the properties of a {@link Migration} other than the
+ *   version and description, such as `partitionedDml` and `transaction`.
+ *
+ * Other files are ignored.
+ *
+ * @param {string} directory The directory to load the migrations from.
+ * @returns {Promise<Migration[]>} The migrations, ordered by version.
+ */
+export async function loadMigrations(directory: string): Promise<Migration[]> {
+  const files = await fs.promises.readdir(directory);
+  const migrations: Migration[] = [];
+  for (const file of files) {
+    const match = /^(\d+)(?:[_-](.*))?\.(sql|js)$/.exec(file);
+    if (!match) {
+      continue;
+    }
+    const [, version, description, extension] = match;
+    const migration: Migration = {
+      version: Number(version),
+      description: description ? description.replace(/_/g, ' ') : undefined,
+    };
+    const filename = path.resolve(directory, file);
+    if (extension === 'sql') {
+      const sql = await fs.promises.readFile(filename, 'utf8');
+      migration.ddl = splitStatements(sql);
+    } else {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const exports = require(filename);
+      Object.assign(migration, exports.default || exports, {
+        version: migration.version,
+      });
+    }
+    migrations.push(migration);
+  }
+  return sortMigrations(migrations);
+}
@@ -0,0 +1,278 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {EventEmitter} from 'events';
+import {GoogleError, grpc} from 'google-gax';
+import {Database} from './database';
+import {Session} from './session';
+import {
+  GetReadSessionCallback,
+  GetSessionCallback,
+  GetWriteSessionCallback,
+  SessionPool,
+  SessionPoolCloseCallback,
+  SessionPoolInterface,
+  SessionPoolOptions,
+  isCreateSessionPermissionError,
+  isDatabaseNotFoundError,
+  isDefaultCredentialsNotSetError,
+  isInstanceNotFoundError,
+  isProjectIdNotSetInEnvironmentError,
+  isSessionNotFoundError,
+} from './session-pool';
+
+/**
+ * The default interval in minutes after which the multiplexed session is
+ * replaced by a new one. Multiplexed sessions are deleted by the backend after
+ * 30 days, so refreshing them every 7 days leaves ample room for retries.
+ */
+const DEFAULT_REFRESH_INTERVAL = 7 * 24 * 60;
+
+/**
+ * How often to check whether the multiplexed session should be refreshed, in
+ * milliseconds.
+ */
+const REFRESH_CHECK_INTERVAL = 10 * 60000;
+
+/**
+ * Manages a single long-lived multiplexed session for a {@link Database}.
+ *
+ * A multiplexed session can be used by any number of concurrent read-only
+ * transactions and queries. Read-write transactions are not yet supported on
+ * multiplexed sessions, so the manager delegates those to a regular
+ * {@link SessionPool} that is created with the same options.
+ *
+ * @private
+ * @class
+ * @implements {SessionPoolInterface}
+ *
+ * @param {Database} database The database to manage sessions for.
+ * @param {SessionPoolOptions} [options] Options of the fallback session pool
+ *     and the multiplexed session.
+ */
+export class MultiplexedSessionManager
+  extends EventEmitter
+  implements SessionPoolInterface
+{
+  database: Database;
+  isOpen: boolean;
+  options: SessionPoolOptions;
+  _pool: SessionPool;
+  _multiplexedSession: Session | null;
+  _createdAt: number;
+  _creating: Promise<Session> | null;
+  _multiplexedSessions: WeakSet<Session>;
+  _refreshHandle?: NodeJS.Timer;
+  constructor(database: Database, options?: SessionPoolOptions) {
+    super();
+
+    this.database = database;
+    this.isOpen = false;
+    this.options = Object.assign(
+      {multiplexedSessionRefreshInterval: DEFAULT_REFRESH_INTERVAL},
+      options
+    );
+    this._pool = new SessionPool(database, options);
+    this._multiplexedSession = null;
+    this._createdAt = 0;
+    this._creating = null;
+    this._multiplexedSessions = new WeakSet();
+  }
+
+  /**
+   * Opens the fallback session pool and starts creating the multiplexed
+   * session.
+   *
+   * @emits MultiplexedSessionManager#open
+   */
+  open(): void {
+    this._pool.on('error', this.emit.bind(this, 'error'));
+    this._pool.open();
+
+    this._refreshHandle = setInterval(
+      () => this._maybeRefresh(),
+      REFRESH_CHECK_INTERVAL
+    );
+    this._refreshHandle.unref();
+
+    this.isOpen = true;
+    this.emit('open');
+
+    this._getMultiplexedSession().catch(err => {
+      // Ignore the same errors that the session pool ignores while it is being
+      // filled. The error is returned to the first request that needs the
+      // multiplexed session instead.
+      if (
+        isDatabaseNotFoundError(err) ||
+        isInstanceNotFoundError(err) ||
+        isCreateSessionPermissionError(err) ||
+        isDefaultCredentialsNotSetError(err) ||
+        isProjectIdNotSetInEnvironmentError(err)
+      ) {
+        return;
+      }
+      this.emit('error', err);
+    });
+  }
+
+  /**
+   * Closes the fallback session pool. The multiplexed session is not deleted,
+   * as the backend does not support deleting multiplexed sessions. It is
+   * garbage collected by the backend when it expires.
+   *
+   * @param {SessionPoolCloseCallback} callback The callback function.
+   */
+  close(callback: SessionPoolCloseCallback): void {
+    this.isOpen = false;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    clearInterval(this._refreshHandle as any);
+    this._multiplexedSession = null;
+    this.emit('close');
+    this._pool.close(callback);
+  }
+
+  /**
+   * Retrieves a session from the fallback session pool. This session is used
+   * for read-write transactions.
+   *
+   * @param {GetSessionCallback} callback The callback function.
+   */
+  getSession(callback: GetSessionCallback): void {
+    this._pool.getSession(callback);
+  }
+
+  /**
+   * Retrieves a read session from the fallback session pool.
+   *
+   * @deprecated Use getSession instead.
+   * @param {GetReadSessionCallback} callback The callback function.
+   */
+  getReadSession(callback: GetReadSessionCallback): void {
+    this._pool.getReadSession(callback);
+  }
+
+  /**
+   * Retrieves a write session from the fallback session pool.
+   *
+   * @deprecated Use getSession instead.
+   * @param {GetWriteSessionCallback} callback The callback function.
+   */
+  getWriteSession(callback: GetWriteSessionCallback): void {
+    this._pool.getWriteSession(callback);
+  }
+
+  /**
+   * Retrieves the multiplexed session, creating it if necessary. The session
+   * can be shared by any number of concurrent read-only transactions and does
+   * not need to be released, but releasing it is harmless.
+   *
+   * @param {GetSessionCallback} callback The callback function.
+   */
+  getMultiplexedSession(callback: GetSessionCallback): void {
+    this._getMultiplexedSession().then(
+      session => callback(null, session),
+      err => callback(err)
+    );
+  }
+
+  /**
+   * Releases a session. Sessions of the fallback session pool are returned to
+   * that pool. Releasing a multiplexed session is a no-op.
+   *
+   * @param {Session} session The session to release.
+   */
+  release(session: Session): void {
+    if (!this._multiplexedSessions.has(session)) {
+      this._pool.release(session);
+    }
+  }
+
+  /**
+   * Returns the current multiplexed session, or creates one if there is none
+   * or if the current one was found to no longer exist. Concurrent callers
+   * share the same CreateSession request.
+   *
+   * @private
+   *
+   * @returns {Promise<Session>}
+   */
+  async _getMultiplexedSession(): Promise<Session> {
+    if (!this.isOpen) {
+      throw new GoogleError('Database is closed.');
+    }
+    const session = this._multiplexedSession;
+    if (
+      session?.lastError &&
+      isSessionNotFoundError(session.lastError as grpc.ServiceError)
+    ) {
+      this._multiplexedSession = null;
+    } else if (session) {
+      return session;
+    }
+    if (!this._creating) {
+      this._creating = this._createMultiplexedSession().finally(() => {
+        this._creating = null;
+      });
+    }
+    return this._creating;
+  }
+
+  /**
+   * Creates a new multiplexed session and makes it the current one.
+   *
+   * @private
+   *
+   * @returns {Promise<Session>}
+   */
+  async _createMultiplexedSession(): Promise<Session> {
+    const [session] = await this.database.createSession({
+      labels: this.options.labels,
+      databaseRole: this.options.databaseRole || this.database.databaseRole,
+      multiplexed: true,
+    });
+    this._multiplexedSessions.add(session);
+    if (this.isOpen) {
+      this._multiplexedSession = session;
+      this._createdAt = Date.now();
+    }
+    return session;
+  }
+
+  /**
+   * Replaces the multiplexed session by a new one if it is older than the
+   * configured refresh interval. The current session continues to be used
+   * until the new one has been created.
+   *
+   * @private
+   */
+  _maybeRefresh(): void {
+    const refreshInterval =
+      this.options.multiplexedSessionRefreshInterval! * 60000;
+    if (
+      !this._multiplexedSession ||
+      this._creating ||
+      Date.now() - this._createdAt < refreshInterval
+    ) {
+      return;
+    }
+    this._creating = this._createMultiplexedSession().finally(() => {
+      this._creating = null;
+    });
+    // Failing to refresh is not fatal, as the current session is still valid.
+    // The refresh is retried the next time that the interval fires.
+    this._creating.catch(() => {});
+  }
+}
@@ -0,0 +1,327 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {GoogleError, Status} from 'google-gax';
+import {google} from '../protos/protos';
+import type {IndexModel, SchemaModel, TableModel} from './schema-model';
+import CommitRequest = google.spanner.v1.CommitRequest;
+import IMutation = google.spanner.v1.IMutation;
+import IListValue = google.protobuf.IListValue;
+
+/**
+ * The maximum number of mutations of a commit.
+ */
+const MAX_MUTATIONS = 80000;
+
+/**
+ * The maximum size (in bytes) of a commit request.
+ */
+const MAX_BYTES = 100 * 1024 * 1024;
+
+/**
+ * The kind of a problem with the mutations of a commit.
+ *
+ * - `TOO_MANY_MUTATIONS`: The commit exceeds the mutation limit.
+ * - `TOO_LARGE`: The commit request exceeds the size limit.
+ * - `DUPLICATE_KEY`: A row is inserted that an earlier mutation of the commit
+ *   already wrote.
+ * - `MISSING_KEY_COLUMN`: A write does not set a primary key column.
+ * - `INVALID_MUTATION`: A mutation is not a write or a delete of a table.
+ *
+ * @typedef {string} MutationIssueType
+ */
+export type MutationIssueType =
+  | 'TOO_MANY_MUTATIONS'
+  | 'TOO_LARGE'
+  | 'DUPLICATE_KEY'
+  | 'MISSING_KEY_COLUMN'
+  | 'INVALID_MUTATION';
+
+/**
+ * @typedef {object} MutationIssue
+ * @property {MutationIssueType} type The kind of the problem.
+ * @property {string} message A description of the problem.
+ * @property {string} [table] The table of the mutation.
+ * @property {number} [mutation] The position of the mutation in the commit.
+ */
+export interface MutationIssue {
+  type: MutationIssueType;
+  message: string;
+  table?: string;
+  mutation?: number;
+}
+
+/**
+ * @typedef {object} MutationReport
+ * @property {boolean} valid Whether the mutations have no issues.
+ * @property {number} mutationCount The estimated number of mutations that
+ *     Spanner counts towards the mutation limit.
+ * @property {Object.<string, number>} tables The estimated number of
+ *     mutations per table, including the mutations of its secondary indexes.
+ * @property {number} bytes The size (in bytes) of the mutations when they are
+ *     serialized in a commit request.
+ * @property {MutationIssue[]} issues The problems with the mutations.
+ */
+export interface MutationReport {
+  valid: boolean;
+  mutationCount: number;
+  tables: {[table: string]: number};
+  bytes: number;
+  issues: MutationIssue[];
+}
+
+/**
+ * @typedef {object} MutationValidatorOptions
+ * @property {SchemaModel} [schema] The schema of the database, as returned by
+ *     {@link Database#getSchemaModel}. Without a schema, secondary indexes are
+ *     not counted, and keys are not checked.
+ * @property {number} [maxMutations=80000] The mutation limit of a commit.
+ * @property {number} [maxBytes=104857600] The size limit (in bytes) of a
+ *     commit request.
+ */
+export interface MutationValidatorOptions {
+  schema?: SchemaModel;
+  maxMutations?: number;
+  maxBytes?: number;
+}
+
+/**
+ * Error that is returned when the mutations of a commit are rejected by a
+ * {@link MutationValidator}, before they are sent to Spanner.
+ *
+ * @class
+ *
+ * @param {MutationReport} report The report of the validation.
+ */
+export class MutationValidationError extends GoogleError {
+  report: MutationReport;
+  constructor(report: MutationReport) {
+    super(
+      `Invalid mutations: ${report.issues.map(issue => issue.message).join('; ')}`
+    );
+    // Restore error name that was overwritten by the super constructor call.
+    this.name = MutationValidationError.name;
+    this.code = Status.INVALID_ARGUMENT;
+    this.report = report;
+  }
+}
+
+/**
+ * Validates the mutations of a commit before they are sent to Spanner, and
+ * estimates how many mutations Spanner counts for them.
+ *
+ * Writes count one mutation per column and row, and deletes count one
+ * mutation per key and range. With a schema, a write also counts the key and
+ * stored columns of every secondary index that it changes, and a delete counts
+ * one mutation per index and key or range.
+ *
+ * A {@link Database} validates the mutations of its transactions with the
+ * validator that is set as {@link Database#mutationValidator}, if any, and
+ * fails the commit with a {@link MutationValidationError} if they are
+ * invalid. The
+ * mutations of a {@link MutationSet} and a {@link MutationGroup} can be
+ * validated with their `validate` method.
+ *
+ * @class
+ *
+ * @param {MutationValidatorOptions} [options] Configuration object.
+ *
+ * @example
+ * ```
+ * const {MutationValidator, Spanner} = require('@google-cloud/spanner');
+ * const spanner = new Spanner();
+ *
+ * const database = spanner.instance('my-instance').database('my-database');
+ * database.mutationValidator = new MutationValidator({
+ *   schema: await database.getSchemaModel(),
+ * });
+ * ```
+ */
+export class MutationValidator {
+  private _options: MutationValidatorOptions;
+
+  constructor(options: MutationValidatorOptions = {}) {
+    this._options = options;
+  }
+
+  /**
+   * Validates mutations.
+   *
+   * @param {google.spanner.v1.IMutation[]} mutations The mutations.
+   * @returns {MutationReport}
+   */
+  validate(mutations: IMutation[]): MutationReport {
+    const {schema} = this._options;
+    const maxMutations = this._options.maxMutations ?? MAX_MUTATIONS;
+    const maxBytes = this._options.maxBytes ?? MAX_BYTES;
+    const issues: MutationIssue[] = [];
+    const tables: {[table: string]: number} = {};
+    const written = new Map<string, Set<string>>();
+
+    mutations.forEach((mutation, index) => {
+      const write =
+        mutation.insert ||
+        mutation.update ||
+        mutation.insertOrUpdate ||
+        mutation.replace;
+      const table = write ? write.table : mutation.delete?.table;
+      if (!table) {
+        issues.push({
+          type: 'INVALID_MUTATION',
+          message: `Mutation ${index} is not a write or a delete of a table.`,
+          mutation: index,
+        });
+        return;
+      }
+      const model = schema && findTable(schema, table);
+      const indexes = schema ? findIndexes(schema, table) : [];
+      const keys = written.get(table.toLowerCase()) || new Set<string>();
+      written.set(table.toLowerCase(), keys);
+      let count: number;
+
+      if (write) {
+        const columns = write.columns || [];
+        const rows = write.values || [];
+        const inserted = !!(mutation.insert || mutation.replace);
+        count = rows.length * columns.length;
+        indexes
+          .filter(idx => inserted || changesIndex(idx, columns))
+          .forEach(idx => {
+            count += rows.length * (idx.keys.length + idx.storing.length);
+          });
+        if (model) {
+          const positions = keyPositions(model, columns);
+          const missing = model.primaryKey
+            .filter((part, i) => positions[i] === -1)
+            .map(part => part.column)
+            .filter(column => !isOptionalKey(model, column, !mutation.update));
+          if (missing.length) {
+            issues.push({
+              type: 'MISSING_KEY_COLUMN',
+              message: `Mutation ${index} on table ${table} does not set the key columns ${missing.join(', ')}.`,
+              table,
+              mutation: index,
+            });
+          } else if (positions.every(position => position > -1)) {
+            rows.forEach(row => {
+              const key = JSON.stringify(
+                positions.map(position => row.values![position])
+              );
+              if (mutation.insert && keys.has(key)) {
+                issues.push({
+                  type: 'DUPLICATE_KEY',
+                  message: `Mutation ${index} inserts the key ${key} into table ${table}, which an earlier mutation already wrote.`,
+                  table,
+                  mutation: index,
+                });
+              }
+              keys.add(key);
+            });
+          }
+        }
+      } else {
+        const keySet = mutation.delete!.keySet || {};
+        const deleted = keySet.all
+          ? 1
+          : (keySet.keys || []).length + (keySet.ranges || []).length;
+        count = deleted * (1 + indexes.length);
+        if (keySet.all || (keySet.ranges || []).length) {
+          keys.clear();
+        } else {
+          (keySet.keys || []).forEach((key: IListValue) =>
+            keys.delete(JSON.stringify(key.values))
+          );
+        }
+      }
+
+      tables[table] = (tables[table] || 0) + count;
+    });
+
+    const mutationCount = Object.keys(tables).reduce(
+      (sum, table) => sum + tables[table],
+      0
+    );
+    const bytes = CommitRequest.encode({mutations}).finish().length;
+
+    if (mutationCount > maxMutations) {
+      issues.push({
+        type: 'TOO_MANY_MUTATIONS',
+        message: `The commit has ${mutationCount} mutations, which exceeds the limit of ${maxMutations}.`,
+      });
+    }
+    if (bytes > maxBytes) {
+      issues.push({
+        type: 'TOO_LARGE',
+        message: `The commit has ${bytes} bytes, which exceeds the limit of ${maxBytes}.`,
+      });
+    }
+
+    return {valid: !issues.length, mutationCount, tables, bytes, issues};
+  }
+}
+
+/**
+ * Finds a table of a schema. Names are not case sensitive.
+ */
+function findTable(schema: SchemaModel, name: string): TableModel | undefined {
+  return schema.tables.find(table => equalNames(table.name, name));
+}
+
+/**
+ * Finds the secondary indexes of a table.
+ */
+function findIndexes(schema: SchemaModel, table: string): IndexModel[] {
+  return schema.indexes.filter(index => equalNames(index.table, table));
+}
+
+/**
+ * Returns the positions of the primary key columns in the columns of a write,
+ * or -1 for the key columns that it does not set.
+ */
+function keyPositions(table: TableModel, columns: string[]): number[] {
+  return table.primaryKey.map(part =>
+    columns.findIndex(column => equalNames(column, part.column))
+  );
+}
+
+/**
+ * Returns whether a write that sets some columns changes an index.
+ */
+function changesIndex(index: IndexModel, columns: string[]): boolean {
+  return [...index.keys.map(part => part.column), ...index.storing].some(
+    indexed => columns.some(column => equalNames(column, indexed))
+  );
+}
+
+/**
+ * Returns whether a write may omit a key column, because it is generated, or
+ * because it has a default value and the write may insert a row.
+ */
+function isOptionalKey(
+  table: TableModel,
+  name: string,
+  inserts: boolean
+): boolean {
+  const column = table.columns.find(column => equalNames(column.name, name));
+  return (
+    !!column &&
+    (!!column.generationExpression || (inserts && !!column.defaultExpression))
+  );
+}
+
+function equalNames(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
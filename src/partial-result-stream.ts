@@ -24,10 +24,32 @@ import {Readable, Transform} from 'stream';
 import * as streamEvents from 'stream-events';
 import {grpc, CallOptions} from 'google-gax';
 import {DeadlineError, isRetryableInternalError} from './transaction-runner';
-
-import {codec, JSONOptions, Json, Field, Value} from './codec';
+import {
+  DEFAULT_STREAM_RETRY_POLICY,
+  RetryPolicy,
+  getBackoff,
+  mergeRetryPolicies,
+} from './retry-policy';
+
+import {
+  codec,
+  DateAs,
+  Int64As,
+  JSONOptions,
+  Json,
+  Field,
+  TimestampAs,
+  Value,
+} from './codec';
+import {CodecRegistry} from './codec-registry';
 import {google} from '../protos/protos';
 import * as stream from 'stream';
+import {RowSchema, validateRow, validateRowType} from './row-type';
+import {
+  METRIC_STREAM_RESUMES,
+  METRIC_STREAM_ROWS,
+  MetricsRecorder,
+} from './metrics';
 
 export type ResumeToken = string | Uint8Array;
 
@@ -45,6 +67,12 @@ interface RequestFunction {
  * @property {boolean} [json=false] Indicates if the Row objects should be
  *     formatted into JSON.
  * @property {JSONOptions} [jsonOptions] JSON options.
+ * @property {Int64As} [int64As='Int'] How the INT64 values of rows, including
+ *     the values in arrays and structs, are decoded.
+ * @property {DateAs} [dateAs='SpannerDate'] How the DATE values of rows are
+ *     decoded.
+ * @property {TimestampAs} [timestampAs='PreciseDate'] How the TIMESTAMP values
+ *     of rows are decoded.
  * @property {number} [maxResumeRetries=20] The maximum number of times that the
  *     stream will retry to push data downstream, when the downstream indicates
  *     that it is not ready for any more data. Increase this value if you
@@ -54,10 +82,21 @@ interface RequestFunction {
  * additional properties for each column type which can help in deserializing
  * the data coming from backend. (Eg: We need to pass Proto Function and Enum
  * map to deserialize proto messages and enums, respectively.)
+ * @property {RowSchema} [rowType] The expected columns of the result. If set,
+ *     rows are formatted into JSON, and the stream is destroyed with a
+ *     {@link RowTypeMismatchError} if the columns or values of the result do
+ *     not match the schema.
+ * @property {RetryPolicy} [retryPolicy] How the stream is resumed after a
+ *     transient error.
+ * @property {CodecRegistry} [codecs] The custom codecs that decode the values
+ *     of the rows.
  */
 export interface RowOptions {
   json?: boolean;
   jsonOptions?: JSONOptions;
+  int64As?: Int64As;
+  dateAs?: DateAs;
+  timestampAs?: TimestampAs;
   maxResumeRetries?: number;
   /**
    * An object where column names as keys and custom objects as corresponding
@@ -97,6 +136,9 @@ export interface RowOptions {
    */
   columnsMetadata?: object;
   gaxOptions?: CallOptions;
+  rowType?: RowSchema;
+  retryPolicy?: RetryPolicy;
+  codecs?: CodecRegistry;
 }
 
 /**
@@ -188,6 +230,7 @@ export class PartialResultStream extends Transform implements ResultEvents {
   private _pendingValueForResume?: p.IValue;
   private _values: p.IValue[];
   private _numPushFailed = 0;
+  _rowCount = 0;
   constructor(options = {}) {
     super({objectMode: true});
 
@@ -238,6 +281,14 @@ export class PartialResultStream extends Transform implements ResultEvents {
     if (!this._fields && chunk.metadata) {
       this._fields = chunk.metadata.rowType!
         .fields as google.spanner.v1.StructType.Field[];
+
+      if (this._options.rowType) {
+        const err = validateRowType(this._options.rowType, this._fields);
+        if (err) {
+          this.destroy(err);
+          return;
+        }
+      }
     }
 
     let res = true;
@@ -356,9 +407,20 @@ export class PartialResultStream extends Transform implements ResultEvents {
     }
 
     this._values = [];
+    this._rowCount++;
 
     const row: Row = this._createRow(values);
 
+    if (this._options.rowType) {
+      const json = row.toJSON(this._options.jsonOptions);
+      const err = validateRow(this._options.rowType, json);
+      if (err) {
+        this.destroy(err);
+        return true;
+      }
+      return this.push(json);
+    }
+
     if (this._options.json) {
       return this.push(row.toJSON(this._options.jsonOptions));
     }
@@ -377,13 +439,17 @@ export class PartialResultStream extends Transform implements ResultEvents {
     const fields = values.map((value, index) => {
       const {name, type} = this._fields[index];
       const columnMetadata = this._options.columnsMetadata?.[name];
+      const decoded = codec.decode(
+        value,
+        type as google.spanner.v1.Type,
+        columnMetadata,
+        this._options
+      );
       return {
         name,
-        value: codec.decode(
-          value,
-          type as google.spanner.v1.Type,
-          columnMetadata
-        ),
+        value: this._options.codecs
+          ? this._options.codecs.decode(decoded, type!, name)
+          : decoded,
       };
     });
 
@@ -482,16 +548,23 @@ export class PartialResultStream extends Transform implements ResultEvents {
  *     will receive one argument, `resumeToken`, which should be used however is
  *     necessary to send to the API for additional requests.
  * @param {RowOptions} [options] Options for formatting rows.
+ * @param {MetricsRecorder} [metricsRecorder] Recorder for the number of rows
+ *     and resumes of the stream.
  * @returns {PartialResultStream}
  */
 export function partialResultStream(
   requestFn: RequestFunction,
-  options?: RowOptions
+  options?: RowOptions,
+  metricsRecorder?: MetricsRecorder
 ): PartialResultStream {
-  const retryableCodes = [grpc.status.UNAVAILABLE];
+  const retryPolicy = mergeRetryPolicies(
+    DEFAULT_STREAM_RETRY_POLICY,
+    options?.retryPolicy
+  );
   const maxQueued = 10;
   let lastResumeToken: ResumeToken;
   let lastRequestStream: Readable;
+  let resumeCount = 0;
   const startTime = Date.now();
   const timeout = options?.gaxOptions?.timeout ?? Infinity;
 
@@ -558,11 +631,13 @@ export function partialResultStream(
     if (
       !(
         err.code &&
-        (retryableCodes!.includes(err.code) || isRetryableInternalError(err))
+        (retryPolicy.retryableCodes.includes(err.code) ||
+          isRetryableInternalError(err))
       ) ||
       // If we have received too many chunks without a resume token, it is not
       // safe to retry.
-      withoutCheckpointCount > maxQueued
+      withoutCheckpointCount > maxQueued ||
+      resumeCount + 1 >= retryPolicy.maxAttempts
     ) {
       // This is not a retryable error so this will flush any rows the
       // checkpoint stream has queued. After that, we will destroy the
@@ -575,19 +650,32 @@ export function partialResultStream(
       lastRequestStream.removeListener('end', endListener);
       lastRequestStream.destroy();
     }
+    const delay = getBackoff(retryPolicy, resumeCount + 1);
+    retryPolicy.onRetry({attempt: resumeCount + 1, delay, error: err});
+    const resume = () => {
+      // Empty queued rows on the checkpoint stream (will not emit them to user).
+      batchAndSplitOnTokenStream.reset();
+      resumeCount++;
+      makeRequest();
+    };
     // Delay the retry until all the values that are already in the stream
     // pipeline have been handled. This ensures that the checkpoint stream is
     // reset to the correct point. Calling .reset() directly here could cause
     // any values that are currently in the pipeline and that have not been
     // handled yet, to be pushed twice into the entire stream.
-    setImmediate(() => {
-      // Empty queued rows on the checkpoint stream (will not emit them to user).
-      batchAndSplitOnTokenStream.reset();
-      makeRequest();
-    });
+    setImmediate(() => (delay ? setTimeout(resume, delay) : resume()));
   };
 
   userStream.once('reading', makeRequest);
+  if (metricsRecorder) {
+    userStream.once('end', () => {
+      metricsRecorder.recordHistogram(
+        METRIC_STREAM_ROWS,
+        partialRSStream._rowCount
+      );
+      metricsRecorder.recordHistogram(METRIC_STREAM_RESUMES, resumeCount);
+    });
+  }
   eventsIntercept.patch(requestsStream);
 
   // need types for events-intercept
@@ -0,0 +1,618 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {GoogleError} from 'google-gax';
+import {codec, Type, Value} from './codec';
+import {ExecuteSqlRequest} from './transaction';
+
+const POSTGRESQL = 'POSTGRESQL';
+
+/**
+ * The SQL dialect to generate statements for. Any value other than
+ * `POSTGRESQL` generates GoogleSQL, so the result of
+ * {@link Database#getDatabaseDialect} can be passed as is.
+ *
+ * @typedef {string} Dialect
+ */
+export type Dialect = string | null | undefined;
+
+export type ComparisonOperator =
+  | '='
+  | '!='
+  | '<>'
+  | '<'
+  | '<='
+  | '>'
+  | '>='
+  | 'LIKE'
+  | 'NOT LIKE'
+  | 'IN'
+  | 'NOT IN';
+
+export type SortDirection = 'ASC' | 'DESC';
+
+export type JoinType = 'INNER' | 'LEFT' | 'RIGHT' | 'FULL' | 'CROSS';
+
+export interface ColumnValues {
+  [column: string]: Value;
+}
+
+const OPERATORS: ComparisonOperator[] = [
+  '=',
+  '!=',
+  '<>',
+  '<',
+  '<=',
+  '>',
+  '>=',
+  'LIKE',
+  'NOT LIKE',
+  'IN',
+  'NOT IN',
+];
+
+/**
+ * A query parameter with an explicit type. Use this for values whose type can
+ * not be inferred, such as `null` or an empty array.
+ *
+ * @class
+ *
+ * @param {*} value The value of the parameter.
+ * @param {ParamType} type The type of the parameter.
+ */
+export class QueryParam {
+  value: Value;
+  type: Type;
+  constructor(value: Value, type: Type) {
+    this.value = value;
+    this.type = type;
+  }
+}
+
+interface Condition {
+  column: string;
+  operator: ComparisonOperator;
+  value: Value;
+}
+
+interface Join {
+  type: JoinType;
+  table: string;
+  left?: string;
+  right?: string;
+}
+
+/**
+ * Accumulates the SQL string and the parameters of a single statement.
+ *
+ * @private
+ */
+class StatementWriter {
+  postgres: boolean;
+  params: {[param: string]: Value} = {};
+  types: {[param: string]: Type} = {};
+  private count = 0;
+  constructor(dialect: Dialect) {
+    this.postgres = dialect === POSTGRESQL;
+  }
+
+  /**
+   * Adds a parameter and returns the placeholder that refers to it. GoogleSQL
+   * uses named parameters (`@p1`), PostgreSQL uses positional ones (`$1`) that
+   * are bound to the parameters named `p1`, `p2`, etc.
+   */
+  param(value: Value): string {
+    const name = `p${++this.count}`;
+    if (value instanceof QueryParam) {
+      this.params[name] = value.value;
+      this.types[name] = value.type;
+    } else {
+      this.params[name] = value;
+      this.types[name] = codec.getType(value);
+    }
+    return this.postgres ? `$${this.count}` : `@${name}`;
+  }
+
+  /**
+   * Quotes a possibly qualified identifier, optionally followed by an alias as
+   * in `Singers AS s`. `*` is passed through as is.
+   */
+  identifier(name: string): string {
+    const match = /^(.+?)\s+AS\s+(.+)$/i.exec(name.trim());
+    if (match) {
+      return `${this.identifier(match[1])} AS ${this.quote(match[2])}`;
+    }
+    return name
+      .trim()
+      .split('.')
+      .map(part => (part === '*' ? part : this.quote(part)))
+      .join('.');
+  }
+
+  private quote(part: string): string {
+    const quote = this.postgres ? '"' : '`';
+    if (!part || part.includes(quote)) {
+      throw new GoogleError(`Invalid identifier: "${part}"`);
+    }
+    return `${quote}${part}${quote}`;
+  }
+
+  condition({column, operator, value}: Condition): string {
+    const lhs = this.identifier(column);
+    const isNull =
+      value === null || (value instanceof QueryParam && value.value === null);
+    if (
+      isNull &&
+      (operator === '=' || operator === '!=' || operator === '<>')
+    ) {
+      return `${lhs} IS ${operator === '=' ? '' : 'NOT '}NULL`;
+    }
+    if (operator === 'IN' || operator === 'NOT IN') {
+      const not = operator === 'NOT IN' ? 'NOT ' : '';
+      return this.postgres
+        ? `${not}${lhs} = ANY(${this.param(value)})`
+        : `${lhs} ${not}IN UNNEST(${this.param(value)})`;
+    }
+    return `${lhs} ${operator} ${this.param(value)}`;
+  }
+
+  where(conditions: Condition[], required = false): string {
+    if (!conditions.length) {
+      // GoogleSQL requires a WHERE clause for UPDATE and DELETE statements.
+      return required ? ' WHERE true' : '';
+    }
+    return ` WHERE ${conditions.map(c => this.condition(c)).join(' AND ')}`;
+  }
+
+  build(sql: string): ExecuteSqlRequest {
+    return {sql, params: this.params, types: this.types};
+  }
+}
+
+/**
+ * Base class of the statement builders. Conditions that are added with
+ * {@link StatementBuilder#where} are combined with `AND`.
+ *
+ * @private
+ */
+abstract class StatementBuilder {
+  protected dialect: Dialect;
+  protected conditions: Condition[] = [];
+  constructor(dialect: Dialect) {
+    this.dialect = dialect;
+  }
+
+  /**
+   * Adds a condition on a column. The value is always sent as a query
+   * parameter. Comparing to `null` with `=` or `!=` generates `IS NULL` and
+   * `IS NOT NULL`. `IN` and `NOT IN` take an array value.
+   *
+   * @param {string} column The column to compare.
+   * @param {string} operator The comparison operator.
+   * @param {*} value The value to compare to.
+   * @returns {this}
+   */
+  where(column: string, operator: ComparisonOperator, value: Value): this {
+    if (!OPERATORS.includes(operator)) {
+      throw new GoogleError(`Unsupported operator: ${operator}`);
+    }
+    if (
+      (operator === 'IN' || operator === 'NOT IN') &&
+      !Array.isArray(value instanceof QueryParam ? value.value : value)
+    ) {
+      throw new GoogleError(
+        `The value of an ${operator} condition must be an array.`
+      );
+    }
+    this.conditions.push({column, operator, value});
+    return this;
+  }
+
+  /**
+   * Generates the statement.
+   *
+   * @returns {ExecuteSqlRequest} The SQL string with its parameters and their
+   *     types.
+   */
+  build(): ExecuteSqlRequest {
+    const writer = new StatementWriter(this.dialect);
+    return writer.build(this.write(writer));
+  }
+
+  protected abstract write(writer: StatementWriter): string;
+}
+
+/**
+ * Base class of the DML statement builders.
+ *
+ * @private
+ */
+abstract class DmlBuilder extends StatementBuilder {
+  protected table: string;
+  protected returnColumns: string[] = [];
+  constructor(dialect: Dialect, table: string) {
+    super(dialect);
+    this.table = table;
+  }
+
+  /**
+   * Returns the given columns of the modified rows. This generates a
+   * `THEN RETURN` clause for GoogleSQL and a `RETURNING` clause for
+   * PostgreSQL. Statements with a returning clause must be executed with
+   * {@link Transaction#run} instead of {@link Transaction#runUpdate}.
+   *
+   * @param {...string} columns The columns to return.
+   * @returns {this}
+   */
+  returning(...columns: string[]): this {
+    this.returnColumns.push(...columns);
+    return this;
+  }
+
+  protected writeReturning(writer: StatementWriter): string {
+    if (!this.returnColumns.length) {
+      return '';
+    }
+    const columns = this.returnColumns.map(c => writer.identifier(c));
+    return `${writer.postgres ? ' RETURNING' : ' THEN RETURN'} ${columns.join(', ')}`;
+  }
+}
+
+/**
+ * Builds a `SELECT` query.
+ *
+ * @class
+ */
+export class SelectBuilder extends StatementBuilder {
+  private columns: string[];
+  private table?: string;
+  private joins: Join[] = [];
+  private orders: Array<[string, SortDirection]> = [];
+  private limitCount?: number;
+  private offsetCount?: number;
+  constructor(dialect: Dialect, columns: string[]) {
+    super(dialect);
+    this.columns = columns;
+  }
+
+  /**
+   * Sets the table to select from.
+   *
+   * @param {string} table The table, optionally followed by an alias as in
+   *     `Singers AS s`.
+   * @returns {this}
+   */
+  from(table: string): this {
+    this.table = table;
+    return this;
+  }
+
+  /**
+   * Joins another table on two columns being equal.
+   *
+   * @param {string} table The table, optionally followed by an alias.
+   * @param {string} left The column of the joined table or of a previous table.
+   * @param {string} right The column to compare `left` to.
+   * @param {string} [type='INNER'] The type of join.
+   * @returns {this}
+   */
+  join(table: string, left: string, right: string, type?: JoinType): this {
+    this.joins.push({type: type || 'INNER', table, left, right});
+    return this;
+  }
+
+  /**
+   * Left outer joins another table on two columns being equal.
+   *
+   * @param {string} table The table, optionally followed by an alias.
+   * @param {string} left The column of the joined table or of a previous table.
+   * @param {string} right The column to compare `left` to.
+   * @returns {this}
+   */
+  leftJoin(table: string, left: string, right: string): this {
+    return this.join(table, left, right, 'LEFT');
+  }
+
+  /**
+   * Adds a column to sort the results by.
+   *
+   * @param {string} column The column to sort by.
+   * @param {string} [direction='ASC'] `ASC` or `DESC`.
+   * @returns {this}
+   */
+  orderBy(column: string, direction: SortDirection = 'ASC'): this {
+    if (direction !== 'ASC' && direction !== 'DESC') {
+      throw new GoogleError(`Unsupported sort direction: ${direction}`);
+    }
+    this.orders.push([column, direction]);
+    return this;
+  }
+
+  /**
+   * Limits the number of rows that are returned.
+   *
+   * @param {number} count The maximum number of rows.
+   * @returns {this}
+   */
+  limit(count: number): this {
+    this.limitCount = checkCount('limit', count);
+    return this;
+  }
+
+  /**
+   * Skips a number of rows.
+   *
+   * @param {number} count The number of rows to skip.
+   * @returns {this}
+   */
+  offset(count: number): this {
+    this.offsetCount = checkCount('offset', count);
+    return this;
+  }
+
+  protected write(writer: StatementWriter): string {
+    if (!this.table) {
+      throw new GoogleError('A table is required to build a SELECT query.');
+    }
+    const columns = this.columns.length
+      ? this.columns.map(c => writer.identifier(c)).join(', ')
+      : '*';
+    let sql = `SELECT ${columns} FROM ${writer.identifier(this.table)}`;
+    this.joins.forEach(({type, table, left, right}) => {
+      sql += ` ${type} JOIN ${writer.identifier(table)}`;
+      if (type !== 'CROSS') {
+        sql += ` ON ${writer.identifier(left!)} = ${writer.identifier(right!)}`;
+      }
+    });
+    sql += writer.where(this.conditions);
+    if (this.orders.length) {
+      const orders = this.orders.map(
+        ([column, direction]) => `${writer.identifier(column)} ${direction}`
+      );
+      sql += ` ORDER BY ${orders.join(', ')}`;
+    }
+    if (this.limitCount !== undefined) {
+      sql += ` LIMIT ${this.limitCount}`;
+    }
+    if (this.offsetCount !== undefined) {
+      sql += ` OFFSET ${this.offsetCount}`;
+    }
+    return sql;
+  }
+}
+
+/**
+ * Builds an `INSERT` statement.
+ *
+ * @class
+ */
+export class InsertBuilder extends DmlBuilder {
+  private rows: ColumnValues[] = [];
+
+  /**
+   * Adds one or more rows to insert. All rows must have the same columns.
+   *
+   * @param {object|object[]} rows The rows to insert.
+   * @returns {this}
+   */
+  values(rows: ColumnValues | ColumnValues[]): this {
+    this.rows.push(...(Array.isArray(rows) ? rows : [rows]));
+    return this;
+  }
+
+  /**
+   * Conditions are not supported for INSERT statements.
+   *
+   * @private
+   */
+  where(): this {
+    throw new GoogleError('INSERT statements do not support a WHERE clause.');
+  }
+
+  protected write(writer: StatementWriter): string {
+    if (!this.rows.length) {
+      throw new GoogleError('At least one row is required to build an INSERT.');
+    }
+    const columns = Object.keys(this.rows[0]);
+    const values = this.rows.map(row => {
+      const keys = Object.keys(row);
+      if (
+        keys.length !== columns.length ||
+        !keys.every(key => columns.includes(key))
+      ) {
+        throw new GoogleError('All inserted rows must have the same columns.');
+      }
+      return `(${columns.map(c => writer.param(row[c])).join(', ')})`;
+    });
+    return (
+      `INSERT INTO ${writer.identifier(this.table)} ` +
+      `(${columns.map(c => writer.identifier(c)).join(', ')}) ` +
+      `VALUES ${values.join(', ')}` +
+      this.writeReturning(writer)
+    );
+  }
+}
+
+/**
+ * Builds an `UPDATE` statement.
+ *
+ * @class
+ */
+export class UpdateBuilder extends DmlBuilder {
+  private assignments: ColumnValues = {};
+
+  /**
+   * Sets the new values of one or more columns.
+   *
+   * @param {object} values The new values keyed by column name.
+   * @returns {this}
+   */
+  set(values: ColumnValues): this {
+    Object.assign(this.assignments, values);
+    return this;
+  }
+
+  protected write(writer: StatementWriter): string {
+    const columns = Object.keys(this.assignments);
+    if (!columns.length) {
+      throw new GoogleError(
+        'At least one column is required to build an UPDATE.'
+      );
+    }
+    const assignments = columns.map(
+      c => `${writer.identifier(c)} = ${writer.param(this.assignments[c])}`
+    );
+    return (
+      `UPDATE ${writer.identifier(this.table)} SET ${assignments.join(', ')}` +
+      writer.where(this.conditions, true) +
+      this.writeReturning(writer)
+    );
+  }
+}
+
+/**
+ * Builds a `DELETE` statement.
+ *
+ * @class
+ */
+export class DeleteBuilder extends DmlBuilder {
+  protected write(writer: StatementWriter): string {
+    return (
+      `DELETE FROM ${writer.identifier(this.table)}` +
+      writer.where(this.conditions, true) +
+      this.writeReturning(writer)
+    );
+  }
+}
+
+function checkCount(name: string, count: number): number {
+  if (!Number.isInteger(count) || count < 0) {
+    throw new GoogleError(`The ${name} must be a non-negative integer.`);
+  }
+  return count;
+}
+
+/**
+ * Creates SQL statements with parameters for either GoogleSQL or PostgreSQL.
+ * Values are never inlined into the SQL string, but are always sent as query
+ * parameters of which the types are inferred with the same rules as for the
+ * `params` of {@link Snapshot#run}. Identifiers are quoted with backticks for
+ * GoogleSQL and with double quotes for PostgreSQL.
+ *
+ * The statements that are built can be passed directly to
+ * {@link Snapshot#run}, {@link Transaction#runUpdate} and
+ * {@link Transaction#batchUpdate}.
+ *
+ * @class
+ *
+ * @param {Dialect} [dialect='GOOGLE_STANDARD_SQL'] The dialect of the database.
+ *
+ * @example
+ * ```
+ * const {QueryBuilder, Spanner} = require('@google-cloud/spanner');
+ * const spanner = new Spanner();
+ *
+ * const instance = spanner.instance('my-instance');
+ * const database = instance.database('my-database');
+ *
+ * const qb = new QueryBuilder(await database.getDatabaseDialect());
+ *
+ * const query = qb
+ *   .select('SingerId', 'FirstName')
+ *   .from('Singers')
+ *   .where('LastName', '=', 'Richards')
+ *   .where('SingerId', 'IN', [1, 2, 3])
+ *   .orderBy('FirstName')
+ *   .limit(10)
+ *   .build();
+ *
+ * const [rows] = await database.run(query);
+ *
+ * await database.runTransactionAsync(async transaction => {
+ *   await transaction.batchUpdate([
+ *     qb.insertInto('Singers').values({SingerId: 4, FirstName: 'Bo'}).build(),
+ *     qb.update('Singers').set({FirstName: 'Bob'}).where('SingerId', '=', 4).build(),
+ *   ]);
+ *   await transaction.commit();
+ * });
+ * ```
+ */
+export class QueryBuilder {
+  dialect: Dialect;
+  constructor(dialect?: Dialect) {
+    this.dialect = dialect;
+  }
+
+  /**
+   * Creates a parameter with an explicit type.
+   *
+   * @param {*} value The value of the parameter.
+   * @param {string|ParamType} type The type of the parameter.
+   * @returns {QueryParam}
+   *
+   * @example
+   * ```
+   * qb.update('Singers')
+   *   .set({BirthDate: QueryBuilder.param(null, 'date')})
+   *   .where('SingerId', '=', 1);
+   * ```
+   */
+  static param(value: Value, type: string | Type): QueryParam {
+    return new QueryParam(value, typeof type === 'string' ? {type} : type);
+  }
+
+  /**
+   * Starts a `SELECT` query. Selects all columns if none are given.
+   *
+   * @param {...string} columns The columns to select, optionally followed by an
+   *     alias as in `FirstName AS name`.
+   * @returns {SelectBuilder}
+   */
+  select(...columns: string[]): SelectBuilder {
+    return new SelectBuilder(this.dialect, columns);
+  }
+
+  /**
+   * Starts an `INSERT` statement.
+   *
+   * @param {string} table The table to insert into.
+   * @returns {InsertBuilder}
+   */
+  insertInto(table: string): InsertBuilder {
+    return new InsertBuilder(this.dialect, table);
+  }
+
+  /**
+   * Starts an `UPDATE` statement. Updates all rows unless a condition is
+   * added.
+   *
+   * @param {string} table The table to update.
+   * @returns {UpdateBuilder}
+   */
+  update(table: string): UpdateBuilder {
+    return new UpdateBuilder(this.dialect, table);
+  }
+
+  /**
+   * Starts a `DELETE` statement. Deletes all rows unless a condition is added.
+   *
+   * @param {string} table The table to delete from.
+   * @returns {DeleteBuilder}
+   */
+  deleteFrom(table: string): DeleteBuilder {
+    return new DeleteBuilder(this.dialect, table);
+  }
+}
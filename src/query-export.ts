@@ -0,0 +1,839 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as crypto from 'crypto';
+import {EventEmitter} from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import {Readable, Transform, TransformCallback, pipeline} from 'stream';
+import {promisify} from 'util';
+import {PreciseDate} from '@google-cloud/precise-date';
+import {Big} from 'big.js';
+import {GoogleError, grpc} from 'google-gax';
+import PQueue from 'p-queue';
+import {google} from '../protos/protos';
+import {BatchTransaction} from './batch-transaction';
+import {
+  Float,
+  Float32,
+  Int,
+  Numeric,
+  PGJsonb,
+  PGNumeric,
+  PGOid,
+  ProtoEnum,
+  ProtoMessage,
+  SpannerDate,
+  Struct,
+} from './codec';
+import {Database} from './database';
+import {Row} from './partial-result-stream';
+import {ExecuteSqlRequest, TimestampBounds} from './transaction';
+import {isRetryableInternalError} from './transaction-runner';
+import IField = google.spanner.v1.StructType.IField;
+import IType = google.spanner.v1.IType;
+
+const pipelineAsync = promisify(pipeline);
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_MAX_RETRIES = 3;
+const RETRY_DELAY_MS = 100;
+const BATCH_SIZE = 500;
+const RETRYABLE: grpc.status[] = [
+  grpc.status.UNAVAILABLE,
+  grpc.status.DEADLINE_EXCEEDED,
+  grpc.status.RESOURCE_EXHAUSTED,
+  grpc.status.ABORTED,
+];
+
+/**
+ * The file format of an export.
+ *
+ * - `ndjson`: One JSON object per row and line.
+ * - `csv`: A header line with the column names followed by one line per row,
+ *   as described in RFC 4180.
+ * - `avro`: An Avro object container file with one record per row.
+ *
+ * @typedef {string} ExportFormat
+ */
+export type ExportFormat = 'ndjson' | 'csv' | 'avro';
+
+/**
+ * @typedef {object} ExportQueryOptions
+ * @property {string} destination The directory that receives one file per
+ *     partition, or the path of the output file if `merge` is set.
+ * @property {ExportFormat} [format='ndjson'] The format of the files.
+ * @property {number} [concurrency=4] The maximum number of partitions that
+ *     are exported at the same time.
+ * @property {boolean} [merge=false] Write all partitions to one file, in the
+ *     order of the partitions.
+ * @property {number} [maxRetries=3] How often a partition is retried after a
+ *     transient error.
+ * @property {TimestampBounds} [timestampBounds] The timestamp bounds of the
+ *     batch read-only transaction.
+ */
+export interface ExportQueryOptions {
+  destination: string;
+  format?: ExportFormat;
+  concurrency?: number;
+  merge?: boolean;
+  maxRetries?: number;
+  timestampBounds?: TimestampBounds;
+}
+
+/**
+ * @typedef {object} ExportProgress
+ * @property {number} partitions The number of partitions of the query.
+ * @property {number} completedPartitions The number of partitions that have
+ *     been written completely.
+ * @property {number} rows The number of rows that have been written.
+ * @property {number} retries The number of partition retries so far.
+ */
+export interface ExportProgress {
+  partitions: number;
+  completedPartitions: number;
+  rows: number;
+  retries: number;
+}
+
+/**
+ * @typedef {object} ExportResult
+ * @property {string[]} files The files that have been written, in the order
+ *     of the partitions.
+ * @property {number} partitions The number of partitions of the query.
+ * @property {number} rows The number of rows that have been written.
+ * @property {number} retries The number of partition retries.
+ */
+export interface ExportResult {
+  files: string[];
+  partitions: number;
+  rows: number;
+  retries: number;
+}
+
+/**
+ * Encodes rows in the format of an export.
+ *
+ * @private
+ */
+export interface FormatEncoder {
+  extension: string;
+  header(fields: IField[]): Buffer;
+  encode(rows: Row[], fields: IField[]): Buffer;
+}
+
+function typeCode(type: IType | null | undefined): string {
+  const code = type?.code;
+  return typeof code === 'number'
+    ? google.spanner.v1.TypeCode[code]
+    : (code as string) || 'TYPE_CODE_UNSPECIFIED';
+}
+
+/**
+ * The representations of DATE and TIMESTAMP values that the encoders expect.
+ * Exports request them explicitly, so that the `dateAs` and `timestampAs`
+ * options of the client do not apply.
+ *
+ * @private
+ */
+export const EXPORT_DECODE_OPTIONS = {
+  dateAs: 'SpannerDate',
+  timestampAs: 'PreciseDate',
+} as const;
+
+/**
+ * Converts a value of a row to a value that can be serialized as JSON.
+ * INT64 and NUMERIC values are converted to strings to keep their precision,
+ * BYTES to base64 strings, and timestamps to RFC 3339 strings with nanosecond
+ * precision.
+ *
+ * @private
+ */
+export function toPlainValue(value: unknown): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (value instanceof Int) {
+    return value.value;
+  }
+  if (value instanceof PGOid) {
+    return value.valueOf();
+  }
+  if (value instanceof Float || value instanceof Float32) {
+    const num = value.valueOf();
+    return isFinite(num) ? num : String(num);
+  }
+  if (value instanceof Numeric || value instanceof PGNumeric) {
+    return value.value;
+  }
+  if (value instanceof PreciseDate) {
+    return value.toISOString();
+  }
+  if (value instanceof SpannerDate) {
+    return value.toJSON();
+  }
+  if (Buffer.isBuffer(value)) {
+    return value.toString('base64');
+  }
+  if (value instanceof ProtoMessage) {
+    return value.value.toString('base64');
+  }
+  if (value instanceof ProtoEnum) {
+    return value.toJSON();
+  }
+  if (value instanceof PGJsonb) {
+    return value.value;
+  }
+  if (value instanceof Struct) {
+    const struct = {};
+    value.forEach(({name, value}) => (struct[name] = toPlainValue(value)));
+    return struct;
+  }
+  if (Array.isArray(value)) {
+    return value.map(toPlainValue);
+  }
+  return value;
+}
+
+function toRowObject(row: Row, fields: IField[]): {[column: string]: unknown} {
+  const object = {};
+  row.forEach(({name, value}, i) => {
+    object[fields[i]?.name ?? name] = toPlainValue(value);
+  });
+  return object;
+}
+
+const ndjson: () => FormatEncoder = () => ({
+  extension: 'ndjson',
+  header: () => Buffer.alloc(0),
+  encode: (rows, fields) =>
+    Buffer.from(
+      rows.map(row => JSON.stringify(toRowObject(row, fields)) + '\n').join('')
+    ),
+});
+
+function toCsvCell(value: unknown): string {
+  const plain = toPlainValue(value);
+  if (plain === null) {
+    return '';
+  }
+  const text =
+    typeof plain === 'object' ? JSON.stringify(plain) : String(plain);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const csv: () => FormatEncoder = () => ({
+  extension: 'csv',
+  header: fields =>
+    Buffer.from(
+      fields.length
+        ? fields.map(field => toCsvCell(field.name)).join(',') + '\r\n'
+        : ''
+    ),
+  encode: rows =>
+    Buffer.from(
+      rows
+        .map(row => row.map(({value}) => toCsvCell(value)).join(',') + '\r\n')
+        .join('')
+    ),
+});
+
+/**
+ * Collects the binary encoding of Avro values.
+ *
+ * @private
+ */
+class AvroWriter {
+  private chunks: Buffer[] = [];
+
+  /**
+   * Writes an int or long as a zig-zag encoded variable-length integer.
+   * Integers that might not fit in a double are encoded with Big.
+   */
+  long(value: number | string) {
+    const bytes: number[] = [];
+    const num = Number(value);
+    if (Math.abs(num) < 2 ** 51) {
+      let zigzag = num >= 0 ? num * 2 : -num * 2 - 1;
+      while (zigzag >= 0x80) {
+        bytes.push(zigzag % 0x80 | 0x80);
+        zigzag = Math.floor(zigzag / 0x80);
+      }
+      bytes.push(zigzag);
+    } else {
+      const big = new Big(value);
+      let zigzag = big.gte(0) ? big.times(2) : big.times(-2).minus(1);
+      while (zigzag.gte(0x80)) {
+        bytes.push(Number(zigzag.mod(0x80)) | 0x80);
+        zigzag = zigzag.div(0x80).round(0, 0);
+      }
+      bytes.push(Number(zigzag));
+    }
+    this.chunks.push(Buffer.from(bytes));
+  }
+
+  boolean(value: boolean) {
+    this.chunks.push(Buffer.from([value ? 1 : 0]));
+  }
+
+  float(value: number) {
+    const buffer = Buffer.alloc(4);
+    buffer.writeFloatLE(value);
+    this.chunks.push(buffer);
+  }
+
+  double(value: number) {
+    const buffer = Buffer.alloc(8);
+    buffer.writeDoubleLE(value);
+    this.chunks.push(buffer);
+  }
+
+  bytes(value: Buffer) {
+    this.long(value.length);
+    this.chunks.push(value);
+  }
+
+  string(value: string) {
+    this.bytes(Buffer.from(value, 'utf8'));
+  }
+
+  raw(value: Buffer) {
+    this.chunks.push(value);
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.concat(this.chunks);
+  }
+}
+
+/**
+ * The Avro schema of a Spanner type together with the function that writes
+ * its values.
+ *
+ * @private
+ */
+interface AvroType {
+  schema: object | string;
+  write(writer: AvroWriter, value: unknown): void;
+}
+
+function toAvroName(name: string | null | undefined, index: number): string {
+  const sanitized = (name || '').replace(/[^A-Za-z0-9_]/g, '_');
+  return /^[A-Za-z_]/.test(sanitized) ? sanitized : `_${sanitized || index}`;
+}
+
+function nullable(type: AvroType): AvroType {
+  return {
+    schema: ['null', type.schema],
+    write: (writer, value) => {
+      if (value === null || value === undefined) {
+        writer.long(0);
+        return;
+      }
+      writer.long(1);
+      type.write(writer, value);
+    },
+  };
+}
+
+function toAvroRecord(
+  name: string,
+  fields: IField[],
+  records: {count: number}
+): AvroType {
+  const names = new Set<string>();
+  const types = fields.map((field, i) => {
+    let fieldName = toAvroName(field.name, i);
+    if (names.has(fieldName)) {
+      fieldName = `${fieldName}_${i}`;
+    }
+    names.add(fieldName);
+    return {name: fieldName, type: nullable(toAvroType(field.type, records))};
+  });
+  return {
+    schema: {
+      type: 'record',
+      name,
+      fields: types.map(({name, type}) => ({name, type: type.schema})),
+    },
+    write: (writer, value) =>
+      (value as Row).forEach((field, i) =>
+        types[i].type.write(writer, field.value)
+      ),
+  };
+}
+
+function toAvroType(
+  type: IType | null | undefined,
+  records: {count: number}
+): AvroType {
+  switch (typeCode(type)) {
+    case 'BOOL':
+      return {
+        schema: 'boolean',
+        write: (writer, value) => writer.boolean(value as boolean),
+      };
+    case 'INT64':
+      return {
+        schema: 'long',
+        write: (writer, value) =>
+          writer.long(
+            value instanceof Int ? value.value : Number(value as number)
+          ),
+      };
+    case 'FLOAT32':
+      return {
+        schema: 'float',
+        write: (writer, value) => writer.float(Number(value)),
+      };
+    case 'FLOAT64':
+      return {
+        schema: 'double',
+        write: (writer, value) => writer.double(Number(value)),
+      };
+    case 'TIMESTAMP':
+      return {
+        schema: {type: 'long', logicalType: 'timestamp-micros'},
+        write: (writer, value) => {
+          const date = value as Date;
+          const micros =
+            date instanceof PreciseDate ? date.getMicroseconds() : 0;
+          writer.long(date.getTime() * 1000 + micros);
+        },
+      };
+    case 'DATE':
+      return {
+        schema: {type: 'int', logicalType: 'date'},
+        write: (writer, value) => {
+          // SpannerDate represents the date in local time.
+          const date = value as Date;
+          const utc = Date.UTC(
+            date.getFullYear(),
+            date.getMonth(),
+            date.getDate()
+          );
+          writer.long(Math.round(utc / 86400000));
+        },
+      };
+    case 'BYTES':
+    case 'PROTO':
+      return {
+        schema: 'bytes',
+        write: (writer, value) =>
+          writer.bytes(
+            value instanceof ProtoMessage ? value.value : (value as Buffer)
+          ),
+      };
+    case 'ARRAY': {
+      const items = nullable(toAvroType(type!.arrayElementType, records));
+      return {
+        schema: {type: 'array', items: items.schema},
+        write: (writer, value) => {
+          const array = value as unknown[];
+          if (array.length) {
+            writer.long(array.length);
+            array.forEach(item => items.write(writer, item));
+          }
+          writer.long(0);
+        },
+      };
+    }
+    case 'STRUCT':
+      return toAvroRecord(
+        `Struct${++records.count}`,
+        type!.structType?.fields || [],
+        records
+      );
+    default: {
+      return {
+        schema: 'string',
+        write: (writer, value) => {
+          const plain = toPlainValue(value);
+          writer.string(
+            typeof plain === 'string' ? plain : JSON.stringify(plain)
+          );
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Creates the encoder of Avro object container files. All files of an export
+ * share the schema and the sync marker, so that the blocks of the partitions
+ * can be concatenated into one file.
+ */
+const avro: () => FormatEncoder = () => {
+  const sync = crypto.randomBytes(16);
+  let record: AvroType | undefined;
+  const compile = (fields: IField[]) =>
+    record || (record = toAvroRecord('Row', fields, {count: 0}));
+  return {
+    extension: 'avro',
+    header: fields => {
+      const writer = new AvroWriter();
+      writer.raw(Buffer.from('Obj\x01', 'latin1'));
+      writer.long(2);
+      writer.string('avro.schema');
+      writer.string(JSON.stringify(compile(fields).schema));
+      writer.string('avro.codec');
+      writer.string('null');
+      writer.long(0);
+      writer.raw(sync);
+      return writer.toBuffer();
+    },
+    encode: (rows, fields) => {
+      if (!rows.length) {
+        return Buffer.alloc(0);
+      }
+      const type = compile(fields);
+      const data = new AvroWriter();
+      rows.forEach(row => type.write(data, row));
+      const block = data.toBuffer();
+      const writer = new AvroWriter();
+      writer.long(rows.length);
+      writer.bytes(block);
+      writer.raw(sync);
+      return writer.toBuffer();
+    },
+  };
+};
+
+const ENCODERS: {[format: string]: () => FormatEncoder} = {ndjson, csv, avro};
+
+/**
+ * Creates the encoder of a format.
+ *
+ * @private
+ */
+export function createEncoder(format: string): FormatEncoder {
+  if (!ENCODERS[format]) {
+    throw new GoogleError(`Unsupported export format: ${format}.`);
+  }
+  return ENCODERS[format]();
+}
+
+/**
+ * Encodes rows in batches. The fields are requested with the rows of the
+ * first batch, so that they can be derived from the rows.
+ *
+ * @private
+ */
+export class RowEncoder extends Transform {
+  private encoder: FormatEncoder;
+  private fields: (rows: Row[]) => IField[];
+  private onRows: (count: number) => void;
+  private needsHeader: boolean;
+  private rows: Row[] = [];
+  constructor(
+    encoder: FormatEncoder,
+    header: boolean,
+    fields: (rows: Row[]) => IField[],
+    onRows: (count: number) => void
+  ) {
+    super({writableObjectMode: true});
+    this.encoder = encoder;
+    this.needsHeader = header;
+    this.fields = fields;
+    this.onRows = onRows;
+  }
+
+  _transform(row: Row, _encoding: string, callback: TransformCallback) {
+    this.rows.push(row);
+    if (this.rows.length >= BATCH_SIZE) {
+      this.writeRows();
+    }
+    callback();
+  }
+
+  _flush(callback: TransformCallback) {
+    this.writeRows();
+    callback();
+  }
+
+  private writeRows() {
+    if (this.needsHeader) {
+      this.needsHeader = false;
+      this.push(this.encoder.header(this.fields(this.rows)));
+    }
+    if (this.rows.length) {
+      this.push(this.encoder.encode(this.rows, this.fields(this.rows)));
+      this.onRows(this.rows.length);
+      this.rows = [];
+    }
+  }
+}
+
+/**
+ * An export of the results of a query to files. The export starts
+ * immediately, and reports its progress with `progress` events.
+ *
+ * The query is partitioned in a batch read-only transaction, and the
+ * partitions are exported in parallel with a bounded number of workers. A
+ * partition that fails with a transient error is exported again from the
+ * start. If a partition fails permanently, the other partitions are cancelled
+ * and the export fails.
+ *
+ * @class
+ * @extends EventEmitter
+ *
+ * @param {Database} database The database to query.
+ * @param {string|ExecuteSqlRequest} query The query to export. The query must
+ *     be root-partitionable.
+ * @param {ExportQueryOptions} options Options for the export.
+ *
+ * @fires QueryExport#progress
+ * @fires QueryExport#complete
+ * @fires QueryExport#error
+ */
+export class QueryExport extends EventEmitter {
+  database: Database;
+  query: ExecuteSqlRequest;
+  destination: string;
+  format: ExportFormat;
+  concurrency: number;
+  merge: boolean;
+  maxRetries: number;
+  timestampBounds?: TimestampBounds;
+  private encoder: FormatEncoder;
+  private fields?: IField[];
+  private streams: Set<Readable> = new Set<Readable>();
+  private failed = false;
+  private progress: ExportProgress = {
+    partitions: 0,
+    completedPartitions: 0,
+    rows: 0,
+    retries: 0,
+  };
+  private result: Promise<ExportResult>;
+  constructor(
+    database: Database,
+    query: string | ExecuteSqlRequest,
+    options: ExportQueryOptions
+  ) {
+    super();
+    if (!options || !options.destination) {
+      throw new GoogleError('A destination is required to export a query.');
+    }
+    this.format = options.format || 'ndjson';
+    this.encoder = createEncoder(this.format);
+    this.database = database;
+    this.query = typeof query === 'string' ? {sql: query} : query;
+    this.destination = options.destination;
+    this.concurrency = options.concurrency || DEFAULT_CONCURRENCY;
+    this.merge = !!options.merge;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.timestampBounds = options.timestampBounds;
+
+    // Start on the next tick, so that listeners can be added first.
+    this.result = new Promise<void>(resolve => process.nextTick(resolve)).then(
+      () => this.run()
+    );
+    this.result.then(
+      result => this.emit('complete', result),
+      err => {
+        if (this.listenerCount('error')) {
+          this.emit('error', err);
+        }
+      }
+    );
+  }
+
+  /**
+   * Returns a promise that resolves with the result of the export.
+   *
+   * @returns {Promise<ExportResult>}
+   */
+  promise(): Promise<ExportResult> {
+    return this.result;
+  }
+
+  private async run(): Promise<ExportResult> {
+    const [transaction] = await this.database.createBatchTransaction(
+      this.timestampBounds
+    );
+    try {
+      const partitions = await new Promise<ExecuteSqlRequest[]>(
+        (resolve, reject) =>
+          transaction.createQueryPartitions(this.query, (err, partitions) =>
+            err ? reject(err) : resolve(partitions)
+          )
+      );
+      this.progress.partitions = partitions.length;
+      this.emit('progress', Object.assign({}, this.progress));
+
+      await fs.promises.mkdir(
+        this.merge ? path.dirname(this.destination) : this.destination,
+        {recursive: true}
+      );
+      const files = partitions.map((_, i) => this.partitionFile(i));
+      const queue = new PQueue({concurrency: this.concurrency});
+      try {
+        await Promise.all(
+          partitions.map((partition, i) =>
+            queue.add(() =>
+              this.exportPartition(transaction, partition, files[i])
+            )
+          )
+        );
+      } catch (err) {
+        this.failed = true;
+        queue.clear();
+        this.streams.forEach(stream => stream.destroy());
+        await queue.onIdle();
+        if (this.merge) {
+          await Promise.all(files.map(file => removeFile(file)));
+        }
+        throw err;
+      }
+
+      if (this.merge) {
+        await this.mergeFiles(files);
+      }
+      return {
+        files: this.merge ? [this.destination] : files,
+        partitions: this.progress.partitions,
+        rows: this.progress.rows,
+        retries: this.progress.retries,
+      };
+    } finally {
+      transaction.close();
+    }
+  }
+
+  /**
+   * Returns the file of a partition. Partitions of a merged export are
+   * written to temporary files next to the destination.
+   */
+  private partitionFile(index: number): string {
+    const part = `part-${String(index).padStart(5, '0')}`;
+    return this.merge
+      ? `${this.destination}.${part}`
+      : path.join(this.destination, `${part}.${this.encoder.extension}`);
+  }
+
+  private async exportPartition(
+    transaction: BatchTransaction,
+    partition: ExecuteSqlRequest,
+    file: string
+  ): Promise<void> {
+    for (let attempt = 0; ; attempt++) {
+      let rows = 0;
+      try {
+        await this.writePartition(transaction, partition, file, count => {
+          rows += count;
+          this.progress.rows += count;
+        });
+        break;
+      } catch (err) {
+        this.progress.rows -= rows;
+        if (
+          this.failed ||
+          attempt >= this.maxRetries ||
+          !isRetryable(err as grpc.ServiceError)
+        ) {
+          throw err;
+        }
+        this.progress.retries++;
+        this.emit('progress', Object.assign({}, this.progress));
+        await new Promise(resolve =>
+          setTimeout(resolve, RETRY_DELAY_MS * 2 ** attempt)
+        );
+      }
+    }
+    this.progress.completedPartitions++;
+    this.emit('progress', Object.assign({}, this.progress));
+  }
+
+  private async writePartition(
+    transaction: BatchTransaction,
+    partition: ExecuteSqlRequest,
+    file: string,
+    onRows: (count: number) => void
+  ): Promise<void> {
+    const rows: Readable = transaction.executeStream(
+      Object.assign({}, partition, EXPORT_DECODE_OPTIONS, {json: false})
+    );
+    rows.on('response', (response: google.spanner.v1.IPartialResultSet) => {
+      if (!this.fields && response.metadata?.rowType) {
+        this.fields = response.metadata.rowType.fields || [];
+      }
+    });
+    const writer = new RowEncoder(
+      this.encoder,
+      !this.merge,
+      () => this.fields || [],
+      onRows
+    );
+    this.streams.add(rows);
+    try {
+      await pipelineAsync(rows, writer, fs.createWriteStream(file));
+    } finally {
+      this.streams.delete(rows);
+    }
+  }
+
+  private async mergeFiles(files: string[]): Promise<void> {
+    const header = this.encoder.header(this.fields || []);
+    async function* chunks() {
+      yield header;
+      for (const file of files) {
+        yield* fs.createReadStream(file);
+      }
+    }
+    await pipelineAsync(
+      Readable.from(chunks()),
+      fs.createWriteStream(this.destination)
+    );
+    await Promise.all(files.map(file => removeFile(file)));
+  }
+}
+
+function isRetryable(err: grpc.ServiceError): boolean {
+  return RETRYABLE.includes(err.code!) || isRetryableInternalError(err);
+}
+
+async function removeFile(file: string): Promise<void> {
+  try {
+    await fs.promises.unlink(file);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw err;
+    }
+  }
+}
+
+/**
+ * Progress of the export. Emitted when the partitions have been created, when
+ * a partition has been written, and when a partition is retried.
+ *
+ * @event QueryExport#progress
+ * @type {ExportProgress}
+ */
+
+/**
+ * Emitted when all partitions have been written.
+ *
+ * @event QueryExport#complete
+ * @type {ExportResult}
+ */
+
+/**
+ * Emitted when the export fails, if there are listeners for this event.
+ *
+ * @event QueryExport#error
+ * @type {Error}
+ */
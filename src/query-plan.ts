@@ -0,0 +1,391 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {google} from '../protos/protos';
+import IPlanNode = google.spanner.v1.IPlanNode;
+import IQueryPlan = google.spanner.v1.IQueryPlan;
+import IResultSetStats = google.spanner.v1.IResultSetStats;
+import IStruct = google.protobuf.IStruct;
+import IValue = google.protobuf.IValue;
+
+/**
+ * The execution statistics of an operator in a profiled query. Times are in
+ * milliseconds. A statistic is `null` if Spanner did not report it.
+ *
+ * @typedef {object} OperatorStats
+ * @property {?number} rows The number of rows that the operator returned.
+ * @property {?number} latency The time that the operator took.
+ * @property {?number} cpuTime The CPU time of the operator.
+ * @property {?number} executions The number of times that the operator ran.
+ * @property {?number} scannedRows The number of rows that a scan read.
+ * @property {?number} filteredRows The number of rows that a scan filtered.
+ */
+export interface OperatorStats {
+  rows: number | null;
+  latency: number | null;
+  cpuTime: number | null;
+  executions: number | null;
+  scannedRows: number | null;
+  filteredRows: number | null;
+}
+
+/**
+ * @typedef {object} QueryPlanLink
+ * @property {QueryPlanNode} node The child node.
+ * @property {?string} type The role of the child, such as `Input` or `Map`.
+ * @property {?string} variable The variable that the child defines.
+ */
+export interface QueryPlanLink {
+  node: QueryPlanNode;
+  type: string | null;
+  variable: string | null;
+}
+
+/**
+ * A node of a {@link QueryPlan}.
+ *
+ * @typedef {object} QueryPlanNode
+ * @property {number} index The index of the node in the plan.
+ * @property {string} kind `RELATIONAL` for operators, `SCALAR` for
+ *     expressions.
+ * @property {string} name The display name of the node.
+ * @property {?string} description The text of a scalar expression.
+ * @property {object} metadata The metadata of the operator, such as the
+ *     `scan_target` of a scan.
+ * @property {?OperatorStats} stats The execution statistics of the operator,
+ *     if the query was profiled.
+ * @property {?object} executionStats The raw execution statistics.
+ * @property {QueryPlanLink[]} links The links to the children of the node.
+ * @property {QueryPlanNode[]} children The children of the node.
+ * @property {?QueryPlanNode} parent The parent of the node.
+ * @property {boolean} fullScan Whether the node scans a whole table or index.
+ * @property {boolean} distributedCrossApply Whether the node is a distributed
+ *     cross apply, which runs its map side for batches of its input rows on
+ *     remote servers.
+ */
+export interface QueryPlanNode {
+  index: number;
+  kind: 'RELATIONAL' | 'SCALAR' | 'KIND_UNSPECIFIED';
+  name: string;
+  description: string | null;
+  metadata: {[key: string]: unknown};
+  stats: OperatorStats | null;
+  executionStats: {[key: string]: unknown} | null;
+  links: QueryPlanLink[];
+  children: QueryPlanNode[];
+  parent: QueryPlanNode | null;
+  fullScan: boolean;
+  distributedCrossApply: boolean;
+}
+
+const KINDS = ['KIND_UNSPECIFIED', 'RELATIONAL', 'SCALAR'] as const;
+
+const TIME_UNITS = {usecs: 0.001, msecs: 1, secs: 1000};
+
+/**
+ * A query plan, as returned in the statistics of queries that run in `PLAN`
+ * or `PROFILE` mode. The nodes of the plan are linked into a tree, and can be
+ * rendered as an indented text tree, as JSON or as a Graphviz graph.
+ *
+ * @class
+ *
+ * @param {google.spanner.v1.IQueryPlan} plan The query plan.
+ *
+ * @example
+ * ```
+ * const {QueryPlan, Spanner} = require('@google-cloud/spanner');
+ * const spanner = new Spanner();
+ *
+ * const instance = spanner.instance('my-instance');
+ * const database = instance.database('my-database');
+ *
+ * const [, stats] = await database.run({
+ *   sql: 'SELECT * FROM Singers',
+ *   queryMode: 'PROFILE',
+ * });
+ * const plan = QueryPlan.fromStats(stats);
+ * console.log(plan.toText());
+ * console.log(plan.fullScans().map(node => node.metadata.scan_target));
+ * ```
+ */
+export class QueryPlan {
+  /**
+   * All nodes of the plan, by their index.
+   *
+   * @name QueryPlan#nodes
+   * @type {QueryPlanNode[]}
+   */
+  nodes: QueryPlanNode[];
+  /**
+   * The root operator of the plan, or `null` if the plan is empty.
+   *
+   * @name QueryPlan#root
+   * @type {?QueryPlanNode}
+   */
+  root: QueryPlanNode | null;
+  constructor(plan: IQueryPlan) {
+    const planNodes = plan.planNodes || [];
+    this.nodes = planNodes.map((node, index) => createNode(node, index));
+    planNodes.forEach((planNode, index) => {
+      const node = this.nodes[index];
+      (planNode.childLinks || []).forEach(link => {
+        const child = this.nodes[link.childIndex || 0];
+        if (!child || child === node) {
+          return;
+        }
+        child.parent = node;
+        node.children.push(child);
+        node.links.push({
+          node: child,
+          type: link.type || null,
+          variable: link.variable || null,
+        });
+      });
+    });
+    this.root = this.nodes[0] || null;
+  }
+
+  /**
+   * Creates the plan of the statistics of a query.
+   *
+   * @throws {Error} If the statistics have no query plan.
+   *
+   * @param {google.spanner.v1.IResultSetStats} stats The statistics.
+   * @returns {QueryPlan}
+   */
+  static fromStats(stats: IResultSetStats | null | undefined): QueryPlan {
+    if (!stats?.queryPlan) {
+      throw new Error(
+        'The statistics have no query plan. Run the query in PLAN or PROFILE mode.'
+      );
+    }
+    return new QueryPlan(stats.queryPlan);
+  }
+
+  /**
+   * Returns the relational operators of the plan, from the root down.
+   *
+   * @returns {QueryPlanNode[]}
+   */
+  operators(): QueryPlanNode[] {
+    const operators: QueryPlanNode[] = [];
+    const visit = (node: QueryPlanNode) => {
+      operators.push(node);
+      node.children.filter(isRelational).forEach(visit);
+    };
+    if (this.root) {
+      visit(this.root);
+    }
+    return operators;
+  }
+
+  /**
+   * Returns the scans of whole tables and indexes.
+   *
+   * @returns {QueryPlanNode[]}
+   */
+  fullScans(): QueryPlanNode[] {
+    return this.operators().filter(node => node.fullScan);
+  }
+
+  /**
+   * Returns the distributed cross applies.
+   *
+   * @returns {QueryPlanNode[]}
+   */
+  distributedCrossApplies(): QueryPlanNode[] {
+    return this.operators().filter(node => node.distributedCrossApply);
+  }
+
+  /**
+   * Renders the operators of the plan as an indented tree, similar to the
+   * output of `EXPLAIN`.
+   *
+   * @returns {string}
+   */
+  toText(): string {
+    const lines: string[] = [];
+    const visit = (node: QueryPlanNode, depth: number, type: string | null) => {
+      const prefix = depth ? '  '.repeat(depth - 1) + '-> ' : '';
+      lines.push(prefix + (type ? `${type}: ` : '') + describe(node));
+      node.links
+        .filter(link => isRelational(link.node))
+        .forEach(link => visit(link.node, depth + 1, link.type));
+    };
+    if (this.root) {
+      visit(this.root, 0, null);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Returns the plan as a tree of plain objects.
+   *
+   * @returns {?object}
+   */
+  toJSON(): object | null {
+    const toObject = (node: QueryPlanNode) => ({
+      index: node.index,
+      kind: node.kind,
+      name: node.name,
+      description: node.description,
+      metadata: node.metadata,
+      stats: node.stats,
+      fullScan: node.fullScan,
+      distributedCrossApply: node.distributedCrossApply,
+      children: node.links.map(link => ({
+        type: link.type,
+        variable: link.variable,
+        node: toObject(link.node),
+      })),
+    });
+    return this.root && toObject(this.root);
+  }
+
+  /**
+   * Renders the operators of the plan in the DOT language of Graphviz. Full
+   * scans and distributed cross applies are highlighted.
+   *
+   * @returns {string}
+   */
+  toDot(): string {
+    const lines = ['digraph QueryPlan {', '  node [shape=box];'];
+    this.operators().forEach(node => {
+      const color = node.fullScan
+        ? ', color=red'
+        : node.distributedCrossApply
+          ? ', color=orange'
+          : '';
+      lines.push(`  n${node.index} [label=${quote(describe(node))}${color}];`);
+      node.links
+        .filter(link => isRelational(link.node))
+        .forEach(link => {
+          const label = link.type ? ` [label=${quote(link.type)}]` : '';
+          lines.push(`  n${node.index} -> n${link.node.index}${label};`);
+        });
+    });
+    lines.push('}');
+    return lines.join('\n');
+  }
+}
+
+function createNode(node: IPlanNode, index: number): QueryPlanNode {
+  const kind =
+    typeof node.kind === 'number'
+      ? KINDS[node.kind]
+      : (node.kind as QueryPlanNode['kind']) || 'KIND_UNSPECIFIED';
+  const name = node.displayName || '';
+  const metadata = node.metadata ? decodeStruct(node.metadata) : {};
+  const executionStats = node.executionStats
+    ? decodeStruct(node.executionStats)
+    : null;
+  return {
+    index: node.index ?? index,
+    kind,
+    name,
+    description: node.shortRepresentation?.description || null,
+    metadata,
+    stats: executionStats && getOperatorStats(executionStats),
+    executionStats,
+    links: [],
+    children: [],
+    parent: null,
+    fullScan: String(metadata['Full scan']) === 'true',
+    distributedCrossApply: name === 'Distributed Cross Apply',
+  };
+}
+
+function getOperatorStats(stats: {[key: string]: unknown}): OperatorStats {
+  const total = (name: string, time = false): number | null => {
+    const stat = stats[name] as {total?: unknown; unit?: string} | undefined;
+    if (stat?.total === undefined) {
+      return null;
+    }
+    const value = Number(stat.total);
+    return time ? value * (TIME_UNITS[stat.unit!] ?? 1) : value;
+  };
+  const summary = stats.execution_summary as
+    | {num_executions?: unknown}
+    | undefined;
+  return {
+    rows: total('rows'),
+    latency: total('latency', true),
+    cpuTime: total('cpu_time', true),
+    executions:
+      summary?.num_executions === undefined
+        ? null
+        : Number(summary.num_executions),
+    scannedRows: total('scanned_rows'),
+    filteredRows: total('filtered_rows'),
+  };
+}
+
+function describe(node: QueryPlanNode): string {
+  let text = node.name;
+  const metadata = Object.keys(node.metadata)
+    .filter(key => key !== 'subquery_cluster_node')
+    .map(key => `${key}: ${node.metadata[key]}`);
+  if (metadata.length) {
+    text += ` (${metadata.join(', ')})`;
+  }
+  if (node.stats) {
+    const {rows, latency, cpuTime} = node.stats;
+    const stats = [
+      rows !== null && `rows: ${rows}`,
+      latency !== null && `latency: ${latency} ms`,
+      cpuTime !== null && `cpu: ${cpuTime} ms`,
+    ].filter(stat => stat);
+    if (stats.length) {
+      text += ` [${stats.join(', ')}]`;
+    }
+  }
+  return text;
+}
+
+function isRelational(node: QueryPlanNode): boolean {
+  return node.kind === 'RELATIONAL';
+}
+
+function quote(text: string): string {
+  return JSON.stringify(text);
+}
+
+function decodeStruct(struct: IStruct): {[key: string]: unknown} {
+  const object = {};
+  Object.keys(struct.fields || {}).forEach(key => {
+    object[key] = decodeValue(struct.fields![key]);
+  });
+  return object;
+}
+
+function decodeValue(value: IValue): unknown {
+  if (value.structValue) {
+    return decodeStruct(value.structValue);
+  }
+  if (value.listValue) {
+    return (value.listValue.values || []).map(decodeValue);
+  }
+  if (value.stringValue !== undefined && value.stringValue !== null) {
+    return value.stringValue;
+  }
+  if (value.numberValue !== undefined && value.numberValue !== null) {
+    return value.numberValue;
+  }
+  if (value.boolValue !== undefined && value.boolValue !== null) {
+    return value.boolValue;
+  }
+  return null;
+}
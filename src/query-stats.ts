@@ -0,0 +1,452 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {google} from '../protos/protos';
+import {PartialResultStream} from './partial-result-stream';
+import {ExecuteSqlRequest} from './transaction';
+import PartialResultSet = google.spanner.v1.PartialResultSet;
+
+/**
+ * @typedef {object} LatencyStats
+ * @property {number} p50 The median latency (in ms).
+ * @property {number} p95 The 95th percentile of the latency (in ms).
+ * @property {number} p99 The 99th percentile of the latency (in ms).
+ * @property {number} max The highest latency (in ms).
+ * @property {number} mean The mean latency (in ms).
+ */
+export interface LatencyStats {
+  p50: number;
+  p95: number;
+  p99: number;
+  max: number;
+  mean: number;
+}
+
+/**
+ * The statistics of the statements that share a fingerprint and a request
+ * tag.
+ *
+ * @typedef {object} QueryStats
+ * @property {string} fingerprint The SQL of the statements, with literals
+ *     replaced by `?`. See {@link fingerprintSql}.
+ * @property {?string} requestTag The request tag of the statements.
+ * @property {number} count The number of executions.
+ * @property {number} errors The number of executions that failed.
+ * @property {number} rows The number of rows that were returned.
+ * @property {number} bytes The size (in bytes) of the results that were
+ *     returned.
+ * @property {LatencyStats} latency The time from the request until the last
+ *     result. The percentiles are estimated from a sample of up to 1,000
+ *     executions.
+ * @property {?number} cpuTime The total CPU time (in ms) of the executions
+ *     that ran in `PROFILE` mode, or `null` if none did.
+ */
+export interface QueryStats {
+  fingerprint: string;
+  requestTag: string | null;
+  count: number;
+  errors: number;
+  rows: number;
+  bytes: number;
+  latency: LatencyStats;
+  cpuTime: number | null;
+}
+
+/**
+ * @typedef {object} QueryStatsCollectorOptions
+ * @property {number} [exportInterval] Calls `onExport` with the statistics
+ *     at this interval (in ms).
+ * @property {function(QueryStats[])} [onExport] Receives the exported
+ *     statistics.
+ * @property {boolean} [resetOnExport=true] Whether the statistics are reset
+ *     after every export, so that every export only covers its interval.
+ * @property {number} [maxStatements=1000] The maximum number of fingerprints
+ *     and request tags that are tracked. Statements with other fingerprints
+ *     are counted in `droppedStatements`.
+ */
+export interface QueryStatsCollectorOptions {
+  exportInterval?: number;
+  onExport?: (stats: QueryStats[]) => void;
+  resetOnExport?: boolean;
+  maxStatements?: number;
+}
+
+interface Entry {
+  fingerprint: string;
+  requestTag: string | null;
+  count: number;
+  errors: number;
+  rows: number;
+  bytes: number;
+  totalLatency: number;
+  maxLatency: number;
+  samples: number[];
+  cpuTime: number | null;
+}
+
+const MAX_SAMPLES = 1000;
+
+const TIME_UNITS = {usecs: 0.001, msecs: 1, secs: 1000};
+
+/**
+ * Collects the statistics of the queries and DML statements of a database,
+ * per fingerprint of their SQL and per request tag.
+ *
+ * Set the collector as {@link Database#queryStats} to collect the statements
+ * that are run with {@link Database#run}, {@link Database#runStream},
+ * {@link Snapshot#run}, {@link Snapshot#runStream} and
+ * {@link Transaction#runUpdate}. The CPU time is only known for statements
+ * that run with `queryMode: 'PROFILE'`.
+ *
+ * @class
+ *
+ * @param {QueryStatsCollectorOptions} [options] Configuration object.
+ *
+ * @example
+ * ```
+ * const {QueryStatsCollector, Spanner} = require('@google-cloud/spanner');
+ * const spanner = new Spanner();
+ *
+ * const instance = spanner.instance('my-instance');
+ * const database = instance.database('my-database');
+ * database.queryStats = new QueryStatsCollector({
+ *   exportInterval: 60000,
+ *   onExport: stats => {
+ *     stats
+ *       .filter(({latency}) => latency.p95 > 100)
+ *       .forEach(({fingerprint, latency}) => console.log(fingerprint, latency));
+ *   },
+ * });
+ * ```
+ */
+export class QueryStatsCollector {
+  /**
+   * The number of statements that were not tracked, because
+   * `maxStatements` fingerprints were already tracked.
+   *
+   * @name QueryStatsCollector#droppedStatements
+   * @type {number}
+   */
+  droppedStatements = 0;
+  resetOnExport: boolean;
+  maxStatements: number;
+  onExport?: (stats: QueryStats[]) => void;
+  private _entries = new Map<string, Entry>();
+  private _timer?: NodeJS.Timeout;
+  constructor(options: QueryStatsCollectorOptions = {}) {
+    this.onExport = options.onExport;
+    this.resetOnExport = options.resetOnExport ?? true;
+    this.maxStatements = options.maxStatements ?? 1000;
+    if (options.exportInterval) {
+      this._timer = setInterval(() => this.export(), options.exportInterval);
+      this._timer.unref();
+    }
+  }
+
+  /**
+   * Returns a snapshot of the statistics.
+   *
+   * @returns {QueryStats[]}
+   */
+  getQueryStats(): QueryStats[] {
+    return Array.from(this._entries.values()).map(entry => {
+      const samples = entry.samples.slice().sort((a, b) => a - b);
+      const percentile = (p: number) =>
+        samples.length ? samples[Math.ceil((p / 100) * samples.length) - 1] : 0;
+      return {
+        fingerprint: entry.fingerprint,
+        requestTag: entry.requestTag,
+        count: entry.count,
+        errors: entry.errors,
+        rows: entry.rows,
+        bytes: entry.bytes,
+        latency: {
+          p50: percentile(50),
+          p95: percentile(95),
+          p99: percentile(99),
+          max: entry.maxLatency,
+          mean: entry.count ? entry.totalLatency / entry.count : 0,
+        },
+        cpuTime: entry.cpuTime,
+      };
+    });
+  }
+
+  /**
+   * Calls `onExport` with a snapshot of the statistics, and resets them if
+   * `resetOnExport` is set.
+   */
+  export(): void {
+    const stats = this.getQueryStats();
+    if (this.resetOnExport) {
+      this.reset();
+    }
+    if (this.onExport) {
+      try {
+        this.onExport(stats);
+      } catch (err) {
+        // The statistics are exported again at the next interval.
+      }
+    }
+  }
+
+  /**
+   * Removes all statistics.
+   */
+  reset(): void {
+    this._entries.clear();
+    this.droppedStatements = 0;
+  }
+
+  /**
+   * Stops the periodic export.
+   */
+  stop(): void {
+    clearInterval(this._timer!);
+    delete this._timer;
+  }
+
+  /**
+   * Tracks the execution of a statement. A statement is recorded when its
+   * stream ends, fails or is closed early. Errors are observed without
+   * handling them, so that a stream without an error listener still fails.
+   *
+   * @private
+   *
+   * @param {ExecuteSqlRequest} request The statement.
+   * @param {PartialResultStream} stream The results of the statement.
+   * @param {?string} [dialect] The dialect of the database.
+   */
+  _track(
+    request: ExecuteSqlRequest,
+    stream: PartialResultStream,
+    dialect?: string | null
+  ): void {
+    const start = Date.now();
+    let bytes = 0;
+    let cpuTime: number | null = null;
+    let recorded = false;
+    const record = (failed: boolean) => {
+      if (recorded) {
+        return;
+      }
+      recorded = true;
+      const entry = this._getEntry(
+        fingerprintSql(request.sql, dialect),
+        request.requestOptions?.requestTag || null
+      );
+      if (!entry) {
+        return;
+      }
+      const latency = Date.now() - start;
+      entry.count++;
+      entry.errors += failed ? 1 : 0;
+      entry.rows += stream._rowCount;
+      entry.bytes += bytes;
+      entry.totalLatency += latency;
+      entry.maxLatency = Math.max(entry.maxLatency, latency);
+      if (cpuTime !== null) {
+        entry.cpuTime = (entry.cpuTime || 0) + cpuTime;
+      }
+      // Reservoir sampling keeps a uniform sample of the latencies.
+      if (entry.samples.length < MAX_SAMPLES) {
+        entry.samples.push(latency);
+      } else {
+        const index = Math.floor(Math.random() * entry.count);
+        if (index < MAX_SAMPLES) {
+          entry.samples[index] = latency;
+        }
+      }
+    };
+
+    const emit = stream.emit;
+    stream.emit = function (
+      this: PartialResultStream,
+      event: string | symbol,
+      ...args: unknown[]
+    ) {
+      if (event === 'error') {
+        record(true);
+      }
+      return emit.call(this, event, ...args);
+    } as typeof stream.emit;
+
+    stream
+      .on('response', (response: google.spanner.v1.IPartialResultSet) => {
+        // Skips the empty chunk that flushes the stream.
+        if (response.metadata || response.stats || response.values?.length) {
+          bytes += PartialResultSet.encode(
+            PartialResultSet.fromObject(response)
+          ).len;
+        }
+      })
+      .on('stats', (stats: google.spanner.v1.IResultSetStats) => {
+        cpuTime = parseTime(stats.queryStats?.fields?.cpu_time?.stringValue);
+      })
+      .once('end', () => record(false))
+      .once('close', () => record(false));
+  }
+
+  /**
+   * Gets or creates the entry of a statement.
+   *
+   * @private
+   */
+  private _getEntry(
+    fingerprint: string,
+    requestTag: string | null
+  ): Entry | null {
+    const key = JSON.stringify([fingerprint, requestTag]);
+    let entry = this._entries.get(key);
+    if (!entry) {
+      if (this._entries.size >= this.maxStatements) {
+        this.droppedStatements++;
+        return null;
+      }
+      entry = {
+        fingerprint,
+        requestTag,
+        count: 0,
+        errors: 0,
+        rows: 0,
+        bytes: 0,
+        totalLatency: 0,
+        maxLatency: 0,
+        samples: [],
+        cpuTime: null,
+      };
+      this._entries.set(key, entry);
+    }
+    return entry;
+  }
+}
+
+/**
+ * Returns the fingerprint of a SQL statement. String, bytes and numeric
+ * literals are replaced by `?`, lists of literals by a single `?`, comments
+ * are removed and whitespace is collapsed. Query parameters and quoted
+ * identifiers are kept.
+ *
+ * @param {string} sql The SQL statement.
+ * @param {?string} [dialect] The dialect of the statement: `POSTGRESQL` or
+ *     `GOOGLE_STANDARD_SQL`. Defaults to GoogleSQL.
+ * @returns {string}
+ *
+ * @example
+ * ```
+ * const {fingerprintSql} = require('@google-cloud/spanner');
+ *
+ * fingerprintSql("SELECT * FROM Singers WHERE Id IN (1, 2) AND Name = 'A'");
+ * // "SELECT * FROM Singers WHERE Id IN (?) AND Name = ?"
+ * ```
+ */
+export function fingerprintSql(sql: string, dialect?: string | null): string {
+  const postgres = dialect === 'POSTGRESQL';
+  let result = '';
+  let i = 0;
+  while (i < sql.length) {
+    const rest = sql.slice(i);
+    const previous = i > 0 ? sql[i - 1] : '';
+    const afterIdentifier = /[\w@$]/.test(previous);
+    let match: RegExpMatchArray | null;
+    if (rest.startsWith('--') || (!postgres && rest.startsWith('#'))) {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end;
+      result += ' ';
+    } else if (rest.startsWith('/*')) {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 2;
+      result += ' ';
+    } else if (rest[0] === '`') {
+      const end = sql.indexOf('`', i + 1);
+      const next = end === -1 ? sql.length : end + 1;
+      result += sql.slice(i, next);
+      i = next;
+    } else if (postgres && rest[0] === '"') {
+      // Double quotes delimit identifiers in PostgreSQL.
+      const next = skipString(sql, i + 1, '"', false);
+      result += sql.slice(i, next);
+      i = next;
+    } else if (
+      postgres &&
+      !afterIdentifier &&
+      (match = rest.match(/^([eE]?)'/))
+    ) {
+      i = skipString(sql, i + match[0].length, "'", !!match[1]);
+      result += '?';
+    } else if (
+      !postgres &&
+      !afterIdentifier &&
+      (match = rest.match(/^([rRbB]{0,2})('''|"""|'|")/))
+    ) {
+      i = skipString(sql, i + match[0].length, match[2], !/r/i.test(match[1]));
+      result += '?';
+    } else if (
+      !afterIdentifier &&
+      (match = rest.match(/^(0[xX][0-9a-fA-F]+|\d+(\.\d*)?([eE][+-]?\d+)?)/))
+    ) {
+      i += match[0].length;
+      result += '?';
+    } else {
+      result += sql[i];
+      i++;
+    }
+  }
+  return result
+    .replace(/\s+/g, ' ')
+    .replace(/([([])\s*\?(\s*,\s*\?)*\s*([)\]])/g, '$1?$3')
+    .trim();
+}
+
+/**
+ * Returns the index after a string literal.
+ *
+ * @private
+ */
+function skipString(
+  sql: string,
+  start: number,
+  quote: string,
+  escapes: boolean
+): number {
+  let i = start;
+  while (i < sql.length) {
+    if (escapes && sql[i] === '\\') {
+      i += 2;
+    } else if (sql.startsWith(quote, i)) {
+      i += quote.length;
+      // A doubled quote is an escaped quote in PostgreSQL.
+      if (quote.length === 1 && sql[i] === quote) {
+        i++;
+      } else {
+        return i;
+      }
+    } else {
+      i++;
+    }
+  }
+  return i;
+}
+
+/**
+ * Parses a time of the query statistics, such as `1.23 msecs`.
+ *
+ * @private
+ */
+function parseTime(time: string | null | undefined): number | null {
+  const match = time?.match(/^\s*([\d.]+)\s*(usecs|msecs|secs)\s*$/);
+  return match ? Number(match[1]) * TIME_UNITS[match[2]] : null;
+}
@@ -0,0 +1,265 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {grpc} from 'google-gax';
+import {Readable, Transform} from 'stream';
+import {google} from '../protos/protos';
+import {addLeaderAwareRoutingHeader} from './common';
+import {ResumeToken} from './partial-result-stream';
+import {Snapshot} from './transaction';
+import IDirectedReadOptions = google.spanner.v1.IDirectedReadOptions;
+import IReadOnly = google.spanner.v1.TransactionOptions.IReadOnly;
+import ITransactionSelector = google.spanner.v1.ITransactionSelector;
+
+/**
+ * @typedef {object} ReadRoutingRequest
+ * @property {string} [sql] The SQL of a query.
+ * @property {string} [table] The table of a read.
+ * @property {Snapshot} transaction The read-only transaction of the request.
+ * @property {boolean} singleUse Whether the request runs in a single-use
+ *     transaction.
+ * @property {google.spanner.v1.TransactionOptions.IReadOnly} timestampBound
+ *     The timestamp bound of the transaction.
+ */
+export interface ReadRoutingRequest {
+  sql?: string;
+  table?: string;
+  transaction: Snapshot;
+  singleUse: boolean;
+  timestampBound: IReadOnly;
+}
+
+/**
+ * The class of the replicas that served a read. `DIRECTED` reads were served
+ * by the replicas of the `directedReadOptions` that the policy chose. `LEADER`
+ * reads fell back to the default routing, with leader aware routing.
+ *
+ * @typedef {string} ReplicaClass
+ */
+export type ReplicaClass = 'DIRECTED' | 'LEADER';
+
+/**
+ * Describes how a read was routed. It is added as `readRouting` to the
+ * metadata of the result of every read or query that a
+ * {@link ReadRoutingPolicy} routed.
+ *
+ * @typedef {object} ReadRouting
+ * @property {ReplicaClass} replicaClass The class of the replicas that served
+ *     the read.
+ * @property {google.spanner.v1.IDirectedReadOptions} directedReadOptions The
+ *     options that the policy chose.
+ * @property {?string} fallbackReason Why the read fell back to the leader:
+ *     `ERROR` if the directed read failed, or `LATENCY_BUDGET` if it did not
+ *     respond in time.
+ * @property {?Error} error The error of the directed read, if it failed.
+ */
+export interface ReadRouting {
+  replicaClass: ReplicaClass;
+  directedReadOptions: IDirectedReadOptions;
+  fallbackReason: 'ERROR' | 'LATENCY_BUDGET' | null;
+  error: grpc.ServiceError | null;
+}
+
+/**
+ * Picks the `directedReadOptions` of the reads and queries of read-only
+ * transactions, instead of the static
+ * {@link SpannerOptions}.directedReadOptions. It is not used for requests that
+ * set their own `directedReadOptions`.
+ *
+ * A directed read falls back to the leader if it fails with one of the
+ * `fallbackCodes`, or if it does not return its first result within the
+ * `latencyBudget`. The fallback removes the `directedReadOptions`, requests
+ * leader aware routing, and turns single-use reads into strong reads. Multi-use
+ * snapshots keep their timestamp bound. A read only falls back before it has
+ * returned any results.
+ *
+ * @typedef {object} ReadRoutingPolicy
+ * @property {function(ReadRoutingRequest): ?google.spanner.v1.IDirectedReadOptions} route
+ *     Returns the options of a request, or `null` to use the default routing.
+ * @property {number} [latencyBudget] The time (in ms) that a directed read may
+ *     take to return its first result.
+ * @property {number[]} [fallbackCodes=[FAILED_PRECONDITION]] The gRPC status
+ *     codes of directed reads that fall back to the leader.
+ *
+ * @example
+ * ```
+ * const {Spanner} = require('@google-cloud/spanner');
+ * const spanner = new Spanner({
+ *   readRoutingPolicy: {
+ *     // Prefer the nearest read-only replicas for stale reads.
+ *     route: ({timestampBound}) =>
+ *       timestampBound.maxStaleness || timestampBound.exactStaleness
+ *         ? {
+ *             includeReplicas: {
+ *               replicaSelections: [
+ *                 {location: 'us-east4', type: 'READ_ONLY'},
+ *                 {location: 'us-central1', type: 'READ_ONLY'},
+ *               ],
+ *             },
+ *           }
+ *         : null,
+ *     latencyBudget: 500,
+ *   },
+ * });
+ *
+ * const database = spanner.instance('my-instance').database('my-database');
+ * const [, , metadata] = await database.run('SELECT 1', {maxStaleness: 10000});
+ * console.log(metadata.readRouting.replicaClass);
+ * ```
+ */
+export interface ReadRoutingPolicy {
+  route(request: ReadRoutingRequest): IDirectedReadOptions | null | undefined;
+  latencyBudget?: number;
+  fallbackCodes?: grpc.status[];
+}
+
+/**
+ * Wraps the request function of a directed read, so that it falls back to the
+ * leader. The request function is called with `true` to make the fallback
+ * request.
+ *
+ * @private
+ *
+ * @param {ReadRoutingPolicy} policy The policy that routed the read.
+ * @param {object} directedReadOptions The options that the policy chose.
+ * @param {function} makeRequest Makes a directed or a fallback request.
+ * @returns {function}
+ */
+export function routeRequests(
+  policy: ReadRoutingPolicy,
+  directedReadOptions: IDirectedReadOptions,
+  makeRequest: (
+    resumeToken: ResumeToken | undefined,
+    fallback: boolean
+  ) => Readable
+): (resumeToken?: ResumeToken) => Readable {
+  const fallbackCodes = policy.fallbackCodes || [
+    grpc.status.FAILED_PRECONDITION,
+  ];
+  const routing: ReadRouting = {
+    replicaClass: 'DIRECTED',
+    directedReadOptions,
+    fallbackReason: null,
+    error: null,
+  };
+  let received = false;
+
+  return (resumeToken?: ResumeToken): Readable => {
+    let requestStream: Readable;
+    let timer: NodeJS.Timeout | undefined;
+    const output = new Transform({
+      objectMode: true,
+      transform(chunk: google.spanner.v1.IPartialResultSet, _, callback) {
+        if (chunk.metadata) {
+          Object.assign(chunk.metadata, {readRouting: routing});
+        }
+        callback(null, chunk);
+      },
+      destroy(err, callback) {
+        clearTimeout(timer!);
+        requestStream.destroy();
+        callback(err);
+      },
+    });
+    const pipe = (fallback: boolean): Readable =>
+      makeRequest(resumeToken, fallback)
+        .on('error', err => output.destroy(err))
+        .once('data', () => (received = true));
+
+    if (routing.replicaClass === 'LEADER' || received) {
+      requestStream = pipe(routing.replicaClass === 'LEADER');
+      requestStream.pipe(output);
+      return output;
+    }
+
+    const fallBack = (
+      reason: ReadRouting['fallbackReason'],
+      err: grpc.ServiceError | null
+    ) => {
+      clearTimeout(timer!);
+      routing.replicaClass = 'LEADER';
+      routing.fallbackReason = reason;
+      routing.error = err;
+      requestStream.unpipe(output);
+      requestStream.removeAllListeners('error').on('error', () => {});
+      requestStream.destroy();
+      requestStream = pipe(true);
+      requestStream.pipe(output);
+    };
+
+    requestStream = makeRequest(resumeToken, false)
+      .on('error', (err: grpc.ServiceError) => {
+        clearTimeout(timer!);
+        if (!received && fallbackCodes.includes(err.code)) {
+          fallBack('ERROR', err);
+        } else {
+          output.destroy(err);
+        }
+      })
+      .once('data', () => {
+        clearTimeout(timer!);
+        received = true;
+      });
+    requestStream.pipe(output);
+
+    if (policy.latencyBudget !== undefined) {
+      timer = setTimeout(
+        () => fallBack('LATENCY_BUDGET', null),
+        policy.latencyBudget
+      );
+    }
+    return output;
+  };
+}
+
+/**
+ * Turns a directed read into a read on the leader.
+ *
+ * @private
+ *
+ * @param {object} reqOpts The directed request.
+ * @param {object} headers The headers of the directed request.
+ * @param {boolean} routeToLeaderEnabled Whether leader aware routing is enabled.
+ * @returns {Array} The request and the headers of the fallback.
+ */
+export function toLeaderRequest<
+  T extends {
+    directedReadOptions?: IDirectedReadOptions | null;
+    transaction?: ITransactionSelector | null;
+  },
+>(
+  reqOpts: T,
+  headers: {[k: string]: string},
+  routeToLeaderEnabled: boolean
+): [T, {[k: string]: string}] {
+  const request = Object.assign({}, reqOpts, {directedReadOptions: null});
+  const readOnly = reqOpts.transaction?.singleUse?.readOnly;
+  if (readOnly) {
+    request.transaction = {
+      singleUse: {
+        readOnly: {
+          strong: true,
+          returnReadTimestamp: readOnly.returnReadTimestamp,
+        },
+      },
+    };
+  }
+  const leaderHeaders = Object.assign({}, headers);
+  if (routeToLeaderEnabled) {
+    addLeaderAwareRoutingHeader(leaderHeaders);
+  }
+  return [request, leaderHeaders];
+}
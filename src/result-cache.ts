@@ -0,0 +1,453 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {createHash} from 'crypto';
+import {Reader} from 'protobufjs';
+import {Transform} from 'stream';
+import * as through from 'through2';
+import {google} from '../protos/protos';
+import {CodecRegistry} from './codec-registry';
+import {PartialResultStream} from './partial-result-stream';
+import {ExecuteSqlRequest, Snapshot} from './transaction';
+import IReadOnly = google.spanner.v1.TransactionOptions.IReadOnly;
+import PartialResultSet = google.spanner.v1.PartialResultSet;
+
+/**
+ * A store of cached results, such as a Redis client. Values are opaque
+ * buffers.
+ *
+ * @typedef {object} ResultCacheStore
+ * @property {function(string): Promise<?Buffer>} get Resolves to the value of
+ *     a key, or `null` if the key is missing or expired.
+ * @property {function(string, Buffer, number): Promise<void>} set Stores a
+ *     value that expires after the given time (in ms).
+ */
+export interface ResultCacheStore {
+  get(key: string): Promise<Buffer | null | undefined>;
+  set(key: string, value: Buffer, ttl: number): Promise<void>;
+}
+
+/**
+ * @typedef {object} ResultCacheOptions
+ * @property {ResultCacheStore} [store] The store of the results. Defaults to a
+ *     {@link MemoryResultStore} of `maxBytes`.
+ * @property {number} [maxBytes=67108864] The maximum size (in bytes) of the
+ *     default in-memory store.
+ * @property {number} [maxEntryBytes=1048576] The maximum size (in bytes) of a
+ *     cached result. Larger results are not cached.
+ */
+export interface ResultCacheOptions {
+  store?: ResultCacheStore;
+  maxBytes?: number;
+  maxEntryBytes?: number;
+}
+
+/**
+ * @typedef {object} ResultCacheStats
+ * @property {number} hits The number of queries that were served from the
+ *     cache.
+ * @property {number} misses The number of cacheable queries that were sent to
+ *     Spanner.
+ * @property {number} errors The number of failed requests to the store.
+ */
+export interface ResultCacheStats {
+  hits: number;
+  misses: number;
+  errors: number;
+}
+
+interface Staleness {
+  exact: boolean;
+  ms: number;
+}
+
+interface MemoryEntry {
+  value: Buffer;
+  expires: number;
+}
+
+const DEFAULT_MAX_BYTES = 64 * 1024 * 1024;
+const DEFAULT_MAX_ENTRY_BYTES = 1024 * 1024;
+
+// The options that gRPC uses to decode responses.
+const CONVERSION_OPTIONS = {
+  longs: String,
+  enums: String,
+  defaults: true,
+  oneofs: true,
+};
+
+/**
+ * An in-memory store that evicts the least recently used results when it
+ * exceeds its size.
+ *
+ * @class
+ *
+ * @param {number} [maxBytes=67108864] The maximum size of the store in bytes.
+ */
+export class MemoryResultStore implements ResultCacheStore {
+  private _entries = new Map<string, MemoryEntry>();
+  /**
+   * The size of the stored results in bytes.
+   *
+   * @name MemoryResultStore#bytes
+   * @type {number}
+   */
+  bytes = 0;
+  maxBytes: number;
+  constructor(maxBytes = DEFAULT_MAX_BYTES) {
+    this.maxBytes = maxBytes;
+  }
+  /**
+   * The number of stored results.
+   *
+   * @name MemoryResultStore#size
+   * @type {number}
+   */
+  get size(): number {
+    return this._entries.size;
+  }
+  async get(key: string): Promise<Buffer | null> {
+    const entry = this._entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    this._delete(key);
+    if (entry.expires <= Date.now()) {
+      return null;
+    }
+    this._entries.set(key, entry);
+    this.bytes += entry.value.length;
+    return entry.value;
+  }
+  async set(key: string, value: Buffer, ttl: number): Promise<void> {
+    this._delete(key);
+    if (value.length > this.maxBytes) {
+      return;
+    }
+    this._entries.set(key, {value, expires: Date.now() + ttl});
+    this.bytes += value.length;
+    for (const oldest of this._entries.keys()) {
+      if (this.bytes <= this.maxBytes) {
+        break;
+      }
+      this._delete(oldest);
+    }
+  }
+  /**
+   * Removes all results.
+   */
+  clear(): void {
+    this._entries.clear();
+    this.bytes = 0;
+  }
+  private _delete(key: string): void {
+    const entry = this._entries.get(key);
+    if (entry) {
+      this._entries.delete(key);
+      this.bytes -= entry.value.length;
+    }
+  }
+}
+
+/**
+ * Caches the results of queries that read with a stale timestamp bound.
+ *
+ * The cache is opt-in: set it as {@link Database#resultCache} to use it for
+ * {@link Database#run}, and for {@link Snapshot#run} on single-use snapshots.
+ * A query is only cached if it reads with `maxStaleness` or `exactStaleness`.
+ * Strong reads, reads at a timestamp and multi-use snapshots always query
+ * Spanner.
+ *
+ * Results are keyed by their database, SQL, parameters, parameter types,
+ * query mode and staleness bound. A result that was read with `maxStaleness`
+ * expires when its read timestamp becomes older than the bound. A result that
+ * was read with `exactStaleness` expires after the staleness, so that it is
+ * never more than twice as stale as requested.
+ *
+ * Cached results are served without a request, so they are not passed to the
+ * {@link TransactionInterceptor}s of the database. When the store fails, the
+ * query is sent to Spanner.
+ *
+ * @class
+ *
+ * @param {ResultCacheOptions} [options] Configuration object.
+ *
+ * @example
+ * ```
+ * const {ResultCache, Spanner} = require('@google-cloud/spanner');
+ * const spanner = new Spanner();
+ *
+ * const instance = spanner.instance('my-instance');
+ * const database = instance.database('my-database');
+ * database.resultCache = new ResultCache({maxBytes: 16 * 1024 * 1024});
+ *
+ * // Served from the cache for up to 10 seconds.
+ * const [rows] = await database.run('SELECT * FROM Singers', {
+ *   maxStaleness: 10000,
+ * });
+ * console.log(database.resultCache.stats);
+ * ```
+ */
+export class ResultCache {
+  store: ResultCacheStore;
+  maxEntryBytes: number;
+  /**
+   * The hits and misses of the cache.
+   *
+   * @name ResultCache#stats
+   * @type {ResultCacheStats}
+   */
+  stats: ResultCacheStats = {hits: 0, misses: 0, errors: 0};
+  constructor(options: ResultCacheOptions = {}) {
+    this.store = options.store || new MemoryResultStore(options.maxBytes);
+    this.maxEntryBytes = options.maxEntryBytes ?? DEFAULT_MAX_ENTRY_BYTES;
+  }
+
+  /**
+   * Runs a query through the cache, if its timestamp bound is stale.
+   *
+   * @private
+   *
+   * @param {string} database The name of the database.
+   * @param {ExecuteSqlRequest} query The query.
+   * @param {object} readOnly The encoded timestamp bound of the query.
+   * @param {function} runStream Runs the query on a miss.
+   * @param {CodecRegistry} [codecs] The custom codecs of the database.
+   * @returns {PartialResultStream}
+   */
+  runStream(
+    database: string,
+    query: ExecuteSqlRequest,
+    readOnly: IReadOnly | null | undefined,
+    runStream: () => PartialResultStream,
+    codecs?: CodecRegistry
+  ): PartialResultStream {
+    const staleness = getStaleness(readOnly);
+    const key = staleness && getKey(database, query, readOnly!, codecs);
+    if (!key) {
+      return runStream();
+    }
+
+    const proxyStream: Transform = through.obj();
+    this.store.get(key).then(
+      value =>
+        this._pipe(
+          proxyStream,
+          key,
+          staleness!,
+          query,
+          value,
+          runStream,
+          codecs
+        ),
+      () => {
+        this.stats.errors++;
+        this._pipe(
+          proxyStream,
+          key,
+          staleness!,
+          query,
+          null,
+          runStream,
+          codecs
+        );
+      }
+    );
+    return proxyStream as PartialResultStream;
+  }
+
+  /**
+   * Pipes a cached result, or the result of the query, into a stream.
+   *
+   * @private
+   */
+  private _pipe(
+    proxyStream: Transform,
+    key: string,
+    staleness: Staleness,
+    query: ExecuteSqlRequest,
+    value: Buffer | null | undefined,
+    runStream: () => PartialResultStream,
+    codecs: CodecRegistry | undefined
+  ): void {
+    const {
+      json,
+      jsonOptions,
+      int64As,
+      dateAs,
+      timestampAs,
+      columnsMetadata,
+      rowType,
+    } = query;
+    const chunks: Uint8Array[] = [];
+    let readTimestamp: google.protobuf.ITimestamp | null | undefined;
+    let bytes = 0;
+    const dataStream = value
+      ? new PartialResultStream({
+          json,
+          jsonOptions,
+          int64As,
+          dateAs,
+          timestampAs,
+          columnsMetadata,
+          rowType,
+          codecs,
+        })
+      : runStream();
+
+    if (value) {
+      this.stats.hits++;
+    } else {
+      this.stats.misses++;
+      dataStream
+        .on('response', response => {
+          if (response.metadata?.transaction) {
+            readTimestamp = response.metadata.transaction.readTimestamp;
+          }
+          // Skips the empty chunk that flushes the stream.
+          const empty =
+            !response.metadata && !response.stats && !response.values?.length;
+          if (!empty && bytes <= this.maxEntryBytes) {
+            const chunk = PartialResultSet.encodeDelimited(
+              PartialResultSet.fromObject(response)
+            ).finish();
+            chunks.push(chunk);
+            bytes += chunk.length;
+          }
+        })
+        .once('end', () => {
+          if (bytes <= this.maxEntryBytes) {
+            this._set(key, staleness, readTimestamp, Buffer.concat(chunks));
+          }
+        });
+    }
+
+    dataStream
+      .on('error', err => proxyStream.destroy(err))
+      .on('stats', stats => proxyStream.emit('stats', stats))
+      .on('response', response => proxyStream.emit('response', response))
+      .pipe(proxyStream);
+
+    if (value) {
+      decodeResult(value).forEach(chunk => dataStream.write(chunk));
+      dataStream.end();
+    }
+  }
+
+  /**
+   * Stores the result of a query.
+   *
+   * @private
+   */
+  private _set(
+    key: string,
+    staleness: Staleness,
+    readTimestamp: google.protobuf.ITimestamp | null | undefined,
+    value: Buffer
+  ): void {
+    let ttl = staleness.ms;
+    if (!staleness.exact && readTimestamp) {
+      ttl -= Date.now() - durationToMs(readTimestamp);
+    }
+    if (ttl <= 0) {
+      return;
+    }
+    this.store.set(key, value, ttl).catch(() => {
+      this.stats.errors++;
+    });
+  }
+}
+
+/**
+ * Returns the staleness of a timestamp bound, or `null` if the bound is not
+ * stale.
+ *
+ * @private
+ */
+function getStaleness(
+  readOnly: IReadOnly | null | undefined
+): Staleness | null {
+  const duration = readOnly?.exactStaleness || readOnly?.maxStaleness;
+  const ms = duration ? durationToMs(duration) : 0;
+  return ms > 0 ? {exact: !!readOnly!.exactStaleness, ms} : null;
+}
+
+/**
+ * Returns the cache key of a query, or `null` if its parameters are invalid.
+ *
+ * @private
+ */
+function getKey(
+  database: string,
+  query: ExecuteSqlRequest,
+  readOnly: IReadOnly,
+  codecs: CodecRegistry | undefined
+): string | null {
+  let encoded: ReturnType<typeof Snapshot.encodeParams>;
+  try {
+    encoded = Snapshot.encodeParams(
+      Object.assign({}, query, {types: Object.assign({}, query.types)}),
+      codecs
+    );
+  } catch (e) {
+    // The error is reported by the query.
+    return null;
+  }
+  const key = stableStringify([
+    database,
+    query.sql,
+    encoded.params,
+    encoded.paramTypes,
+    query.queryMode || null,
+    readOnly.exactStaleness ? 'exact' : 'max',
+    durationToMs(readOnly.exactStaleness || readOnly.maxStaleness!),
+  ]);
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function durationToMs(
+  duration: google.protobuf.IDuration | google.protobuf.ITimestamp
+): number {
+  return Number(duration.seconds || 0) * 1000 + (duration.nanos || 0) / 1e6;
+}
+
+function decodeResult(value: Buffer): google.spanner.v1.IPartialResultSet[] {
+  const reader = Reader.create(value);
+  const chunks: google.spanner.v1.IPartialResultSet[] = [];
+  while (reader.pos < reader.len) {
+    chunks.push(
+      PartialResultSet.toObject(
+        PartialResultSet.decodeDelimited(reader),
+        CONVERSION_OPTIONS
+      )
+    );
+  }
+  return chunks;
+}
+
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (key, nested) =>
+    nested && typeof nested === 'object' && !Array.isArray(nested)
+      ? Object.keys(nested)
+          .sort()
+          .reduce((sorted, name) => {
+            sorted[name] = nested[name];
+            return sorted;
+          }, {})
+      : nested
+  );
+}
@@ -0,0 +1,142 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {grpc} from 'google-gax';
+
+/**
+ * @typedef {object} RetryEvent
+ * @property {number} attempt The number of the retry, starting at 1.
+ * @property {number} delay The time (in ms) that is waited before the retry.
+ * @property {Error} error The error that caused the retry.
+ */
+export interface RetryEvent {
+  attempt: number;
+  delay: number;
+  error: grpc.ServiceError;
+}
+
+/**
+ * Controls how transactions and streaming reads and queries are retried.
+ *
+ * Every property that is not set falls back to the policy of the
+ * {@link Spanner} client for the kind of operation (`transactionRetryPolicy`
+ * or `streamRetryPolicy`), and then to the default of the operation:
+ *
+ * - Transactions are retried on `ABORTED` with an exponential backoff that
+ *   starts at 2 seconds and is capped at 32 seconds, plus up to 1 second of
+ *   jitter, until the timeout of the transaction is reached.
+ * - Streaming reads and queries are resumed on `UNAVAILABLE` without a delay,
+ *   until the timeout of the request is reached.
+ *
+ * The delay of retry `n` is `min(baseDelay * 2^n, maxDelay)` plus a random
+ * jitter between 0 and `jitter`. A delay that the server requests with the
+ * error is used instead of the backoff. Retries on `Session not found` errors
+ * and on transient `INTERNAL` errors are independent of `retryableCodes`.
+ *
+ * @typedef {object} RetryPolicy
+ * @property {number} [maxAttempts=Infinity] The maximum number of attempts,
+ *     including the first one. The timeout of the operation still applies.
+ * @property {number} [baseDelay] The base of the exponential backoff (in ms).
+ * @property {number} [maxDelay] The maximum backoff (in ms), without jitter.
+ * @property {number} [jitter] The maximum random time (in ms) that is added to
+ *     the backoff.
+ * @property {number[]} [retryableCodes] The gRPC status codes that are
+ *     retried. Replaces the default codes of the operation.
+ * @property {function(RetryEvent)} [onRetry] Called before every retry.
+ */
+export interface RetryPolicy {
+  maxAttempts?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+  jitter?: number;
+  retryableCodes?: grpc.status[];
+  onRetry?: (event: RetryEvent) => void;
+}
+
+/**
+ * The default policy of transactions.
+ *
+ * @private
+ */
+export const DEFAULT_TRANSACTION_RETRY_POLICY: Readonly<Required<RetryPolicy>> =
+  {
+    maxAttempts: Infinity,
+    baseDelay: 1000,
+    maxDelay: 32000,
+    jitter: 1000,
+    retryableCodes: [grpc.status.ABORTED],
+    onRetry: () => {},
+  };
+
+/**
+ * The default policy of streaming reads and queries.
+ *
+ * @private
+ */
+export const DEFAULT_STREAM_RETRY_POLICY: Readonly<Required<RetryPolicy>> = {
+  maxAttempts: Infinity,
+  baseDelay: 0,
+  maxDelay: 0,
+  jitter: 0,
+  retryableCodes: [grpc.status.UNAVAILABLE],
+  onRetry: () => {},
+};
+
+/**
+ * Merges retry policies. The properties of later policies take precedence,
+ * unless they are undefined.
+ *
+ * @private
+ */
+export function mergeRetryPolicies(
+  base: Readonly<Required<RetryPolicy>>,
+  ...policies: Array<RetryPolicy | undefined>
+): Required<RetryPolicy>;
+export function mergeRetryPolicies(
+  ...policies: Array<RetryPolicy | undefined>
+): RetryPolicy;
+export function mergeRetryPolicies(
+  ...policies: Array<RetryPolicy | undefined>
+): RetryPolicy {
+  const merged: RetryPolicy = {};
+  policies.forEach(policy => {
+    Object.keys(policy || {}).forEach(key => {
+      if (policy![key] !== undefined) {
+        merged[key] = policy![key];
+      }
+    });
+  });
+  return merged;
+}
+
+/**
+ * Returns the backoff of a retry.
+ *
+ * @private
+ *
+ * @param {RetryPolicy} policy The resolved policy.
+ * @param {number} attempt The number of the retry, starting at 1.
+ * @returns {number} Delay in milliseconds.
+ */
+export function getBackoff(
+  policy: Required<RetryPolicy>,
+  attempt: number
+): number {
+  return (
+    Math.min(policy.baseDelay * Math.pow(2, attempt), policy.maxDelay) +
+    Math.floor(Math.random() * policy.jitter)
+  );
+}
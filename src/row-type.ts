@@ -0,0 +1,424 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {PreciseDate} from '@google-cloud/precise-date';
+import {GoogleError} from 'google-gax';
+import {
+  DateAs,
+  Float,
+  Float32,
+  Int,
+  Int64As,
+  JSONOptions,
+  Numeric,
+  PGJsonb,
+  PGNumeric,
+  PGOid,
+  PlainDate,
+  SpannerDate,
+  TimestampAs,
+  Value,
+} from './codec';
+import {google as spannerClient} from '../protos/protos';
+
+import TypeCode = spannerClient.spanner.v1.TypeCode;
+import TypeAnnotationCode = spannerClient.spanner.v1.TypeAnnotationCode;
+
+/**
+ * The options of a query that change the types of the values of its rows.
+ * The `dateAs` and `timestampAs` options of the {@link Spanner} client do not
+ * apply to queries with a {@link RowSchema}, so that the rows always have the
+ * inferred type.
+ *
+ * @typedef {object} RowTypeOptions
+ * @property {Int64As} [int64As] How INT64 values are decoded.
+ * @property {DateAs} [dateAs] How DATE values are decoded.
+ * @property {TimestampAs} [timestampAs] How TIMESTAMP values are decoded.
+ * @property {JSONOptions} [jsonOptions] How rows are converted to JSON.
+ */
+export interface RowTypeOptions {
+  int64As?: Int64As;
+  dateAs?: DateAs;
+  timestampAs?: TimestampAs;
+  jsonOptions?: JSONOptions;
+}
+
+/**
+ * Maps an {@link Int64As} option to the type of the INT64 values.
+ *
+ * @private
+ */
+interface Int64Types {
+  bigint: bigint;
+  string: string;
+  number: number;
+  Int: Int;
+}
+
+/**
+ * The type of a number that is wrapped in `W` if the `wrapNumbers` JSON option
+ * is set.
+ *
+ * @private
+ */
+type NumberValue<O, W> = O extends {jsonOptions: {wrapNumbers: true}}
+  ? W
+  : number;
+
+/**
+ * The type of an INT64 value. The `int64As` option converts the values when
+ * they are decoded, and the `int64As` JSON option converts the values that are
+ * still decoded as {@link Int}.
+ *
+ * @private
+ */
+type Int64Value<O> = O extends {
+  int64As: infer A extends Exclude<Int64As, 'Int'>;
+}
+  ? Int64Types[A]
+  : O extends {jsonOptions: {int64As: infer A extends Int64As}}
+    ? Int64Types[A]
+    : NumberValue<O, Int>;
+
+/**
+ * Maps the name of a Spanner type in a {@link RowSchema} to the TypeScript type
+ * of its values in a row that is returned as JSON with the options `O`.
+ *
+ * A `Temporal.PlainDate` has the same fields as a {@link PlainDate}.
+ *
+ * @private
+ */
+interface ColumnValueTypes<O> {
+  bool: boolean;
+  int64: Int64Value<O>;
+  pgOid: NumberValue<O, PGOid>;
+  float32: NumberValue<O, Float32>;
+  float64: NumberValue<O, Float>;
+  numeric: Numeric;
+  pgNumeric: PGNumeric;
+  string: string;
+  bytes: Buffer;
+  json: unknown;
+  jsonb: PGJsonb;
+  timestamp: O extends {timestampAs: 'string'}
+    ? string
+    : O extends {timestampAs: 'Instant'}
+      ? object
+      : PreciseDate;
+  date: O extends {dateAs: 'PlainDate'} ? PlainDate : SpannerDate;
+  proto: unknown;
+  enum: unknown;
+}
+
+export type ColumnTypeName =
+  | keyof ColumnValueTypes<RowTypeOptions>
+  | 'array'
+  | 'struct';
+
+/**
+ * @typedef {object} ColumnSchema
+ * @property {string} type The Spanner type of the column. One of `bool`,
+ *     `int64`, `pgOid`, `float32`, `float64`, `numeric`, `pgNumeric`,
+ *     `string`, `bytes`, `json`, `jsonb`, `timestamp`, `date`, `proto`,
+ *     `enum`, `array` or `struct`.
+ * @property {boolean} [nullable=false] Whether the column may contain NULL.
+ * @property {ColumnSchema} [child] **For array types only**. The schema of the
+ *     array elements.
+ * @property {RowSchema} [fields] **For struct types only**. The schema of the
+ *     struct fields.
+ */
+export interface ColumnSchema {
+  readonly type: ColumnTypeName;
+  readonly nullable?: boolean;
+  readonly child?: ColumnSchema;
+  readonly fields?: RowSchema;
+}
+
+/**
+ * The expected columns of a query result, keyed by column name.
+ *
+ * @typedef {Object.<string, ColumnSchema>} RowSchema
+ */
+export interface RowSchema {
+  readonly [column: string]: ColumnSchema;
+}
+
+type ColumnValue<C extends ColumnSchema, O> = C extends {nullable: true}
+  ? NonNullColumnValue<C, O> | null
+  : NonNullColumnValue<C, O>;
+
+type NonNullColumnValue<C extends ColumnSchema, O> = C extends {
+  type: 'array';
+  child: infer E extends ColumnSchema;
+}
+  ? ColumnValue<E, O>[]
+  : C extends {type: 'struct'; fields: infer F extends RowSchema}
+    ? RowOf<F, O>
+    : C['type'] extends keyof ColumnValueTypes<O>
+      ? ColumnValueTypes<O>[C['type']]
+      : unknown;
+
+/**
+ * The type of the rows that are returned for a {@link RowSchema}, by a query
+ * with the {@link RowTypeOptions} `O`.
+ */
+export type RowOf<S extends RowSchema, O = RowTypeOptions> = {
+  -readonly [K in keyof S]: ColumnValue<S[K], O>;
+};
+
+/**
+ * Defines a {@link RowSchema} while preserving the literal types of the
+ * schema, so that the type of the returned rows can be inferred from it.
+ *
+ * @param {RowSchema} schema The expected columns.
+ * @returns {RowSchema} The given schema.
+ *
+ * @example
+ * ```
+ * const {Spanner, rowType} = require('@google-cloud/spanner');
+ *
+ * const singer = rowType({
+ *   SingerId: {type: 'int64'},
+ *   FirstName: {type: 'string', nullable: true},
+ *   Albums: {type: 'array', child: {type: 'string'}},
+ * });
+ *
+ * // `rows` is of type `{SingerId: number; FirstName: string | null;
+ * // Albums: string[]}[]`.
+ * const [rows] = await database.run('SELECT ...', {rowType: singer});
+ *
+ * // `ids` is of type `{SingerId: bigint; ...}[]`.
+ * const [ids] = await database.run({
+ *   sql: 'SELECT ...',
+ *   int64As: 'bigint',
+ *   rowType: singer,
+ * });
+ * ```
+ */
+export function rowType<const S extends RowSchema>(schema: S): S {
+  return schema;
+}
+
+/**
+ * Error that is returned when the columns or values of a query result do not
+ * match the {@link RowSchema} of the query.
+ *
+ * @class
+ *
+ * @param {string[]} mismatches The descriptions of the mismatches.
+ */
+export class RowTypeMismatchError extends GoogleError {
+  mismatches: string[];
+  constructor(mismatches: string[]) {
+    super(
+      `Result does not match the expected row type: ${mismatches.join('; ')}`
+    );
+    // Restore error name that was overwritten by the super constructor call.
+    this.name = RowTypeMismatchError.name;
+    this.mismatches = mismatches;
+  }
+}
+
+/**
+ * The type code and annotation that Spanner returns for each type name.
+ */
+const SPANNER_TYPES: {
+  [name in ColumnTypeName]: [TypeCode, TypeAnnotationCode?];
+} = {
+  bool: [TypeCode.BOOL],
+  int64: [TypeCode.INT64],
+  pgOid: [TypeCode.INT64, TypeAnnotationCode.PG_OID],
+  float32: [TypeCode.FLOAT32],
+  float64: [TypeCode.FLOAT64],
+  numeric: [TypeCode.NUMERIC],
+  pgNumeric: [TypeCode.NUMERIC, TypeAnnotationCode.PG_NUMERIC],
+  string: [TypeCode.STRING],
+  bytes: [TypeCode.BYTES],
+  json: [TypeCode.JSON],
+  jsonb: [TypeCode.JSON, TypeAnnotationCode.PG_JSONB],
+  timestamp: [TypeCode.TIMESTAMP],
+  date: [TypeCode.DATE],
+  proto: [TypeCode.PROTO],
+  enum: [TypeCode.ENUM],
+  array: [TypeCode.ARRAY],
+  struct: [TypeCode.STRUCT],
+};
+
+const PG_ANNOTATIONS: number[] = [
+  TypeAnnotationCode.PG_NUMERIC,
+  TypeAnnotationCode.PG_JSONB,
+  TypeAnnotationCode.PG_OID,
+];
+
+/**
+ * Normalizes a type or annotation code that may be returned as either the enum
+ * value or its name.
+ */
+function toCode(
+  code: number | string | null | undefined,
+  codes: object
+): number {
+  if (typeof code === 'string') {
+    return (codes as {[name: string]: number})[code] ?? 0;
+  }
+  return code ?? 0;
+}
+
+function describeType(type: spannerClient.spanner.v1.IType): string {
+  const code = toCode(type.code, TypeCode);
+  const annotation = toCode(type.typeAnnotation, TypeAnnotationCode);
+  let name = TypeCode[code] as string;
+  if (annotation) {
+    name = `${name}<${TypeAnnotationCode[annotation]}>`;
+  }
+  if (code === TypeCode.ARRAY && type.arrayElementType) {
+    name = `ARRAY<${describeType(type.arrayElementType)}>`;
+  }
+  return name;
+}
+
+function validateType(
+  path: string,
+  schema: ColumnSchema,
+  type: spannerClient.spanner.v1.IType,
+  mismatches: string[]
+): void {
+  const [expectedCode, expectedAnnotation] = SPANNER_TYPES[schema.type] ?? [];
+  if (expectedCode === undefined) {
+    mismatches.push(`column "${path}" has unknown type "${schema.type}"`);
+    return;
+  }
+  const code = toCode(type.code, TypeCode);
+  const annotation = toCode(type.typeAnnotation, TypeAnnotationCode);
+  // PostgreSQL annotations change how values are decoded, so they must match
+  // as well. Other annotations do not affect decoding.
+  const pgAnnotation = PG_ANNOTATIONS.includes(annotation) ? annotation : 0;
+  if (code !== expectedCode || pgAnnotation !== (expectedAnnotation ?? 0)) {
+    mismatches.push(
+      `column "${path}" is of type ${describeType(type)}, expected ${schema.type}`
+    );
+    return;
+  }
+  if (schema.type === 'array' && schema.child) {
+    validateType(`${path}[]`, schema.child, type.arrayElementType!, mismatches);
+  }
+  if (schema.type === 'struct' && schema.fields) {
+    validateFields(
+      schema.fields,
+      type.structType?.fields ?? [],
+      mismatches,
+      `${path}.`
+    );
+  }
+}
+
+function validateFields(
+  schema: RowSchema,
+  fields: spannerClient.spanner.v1.StructType.IField[],
+  mismatches: string[],
+  prefix = ''
+): void {
+  const names = new Set<string>();
+  for (const {name, type} of fields) {
+    // Nameless columns are not included in rows that are returned as JSON.
+    if (!name) {
+      continue;
+    }
+    names.add(name);
+    if (!Object.prototype.hasOwnProperty.call(schema, name)) {
+      mismatches.push(`unexpected column "${prefix}${name}"`);
+      continue;
+    }
+    validateType(`${prefix}${name}`, schema[name], type!, mismatches);
+  }
+  for (const name of Object.keys(schema)) {
+    if (!names.has(name)) {
+      mismatches.push(`missing column "${prefix}${name}"`);
+    }
+  }
+}
+
+/**
+ * Checks that the columns of a query result match the given schema.
+ *
+ * @private
+ *
+ * @param {RowSchema} schema The expected columns.
+ * @param {object[]} fields The fields of the `rowType` of the result metadata.
+ * @returns {RowTypeMismatchError|null} The error describing all mismatches, or
+ *     null if the columns match.
+ */
+export function validateRowType(
+  schema: RowSchema,
+  fields: spannerClient.spanner.v1.StructType.IField[]
+): RowTypeMismatchError | null {
+  const mismatches: string[] = [];
+  validateFields(schema, fields, mismatches);
+  return mismatches.length ? new RowTypeMismatchError(mismatches) : null;
+}
+
+function validateValue(
+  path: string,
+  schema: ColumnSchema,
+  value: Value,
+  mismatches: string[]
+): void {
+  if (value === null || value === undefined) {
+    if (!schema.nullable) {
+      mismatches.push(`column "${path}" is NULL, but is not nullable`);
+    }
+    return;
+  }
+  if (schema.type === 'array' && schema.child && Array.isArray(value)) {
+    value.forEach(element =>
+      validateValue(`${path}[]`, schema.child!, element, mismatches)
+    );
+  }
+  if (schema.type === 'struct' && schema.fields) {
+    validateValues(schema.fields, value, mismatches, `${path}.`);
+  }
+}
+
+function validateValues(
+  schema: RowSchema,
+  row: Value,
+  mismatches: string[],
+  prefix = ''
+): void {
+  for (const name of Object.keys(schema)) {
+    validateValue(`${prefix}${name}`, schema[name], row[name], mismatches);
+  }
+}
+
+/**
+ * Checks that a row that was converted to JSON does not contain NULL values
+ * for columns that are not nullable according to the given schema.
+ *
+ * @private
+ *
+ * @param {RowSchema} schema The expected columns.
+ * @param {object} row The row as JSON.
+ * @returns {RowTypeMismatchError|null} The error describing all mismatches, or
+ *     null if the row matches.
+ */
+export function validateRow(
+  schema: RowSchema,
+  row: Value
+): RowTypeMismatchError | null {
+  const mismatches: string[] = [];
+  validateValues(schema, row, mismatches);
+  return mismatches.length ? new RowTypeMismatchError(mismatches) : null;
+}
@@ -0,0 +1,909 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {CallOptions, GoogleError} from 'google-gax';
+import {Database} from './database';
+import {Snapshot} from './transaction';
+
+export type SchemaDialect = 'GOOGLE_STANDARD_SQL' | 'POSTGRESQL';
+
+/**
+ * @typedef {object} ColumnModel
+ * @property {string} name The name of the column.
+ * @property {string} type The type of the column as it is written in DDL, for
+ *     example `STRING(MAX)` or `character varying(100)`.
+ * @property {boolean} nullable Whether the column may contain NULL.
+ * @property {?string} defaultExpression The default value expression.
+ * @property {?string} generationExpression The expression of a generated
+ *     column.
+ * @property {boolean} stored Whether a generated column is stored.
+ */
+export interface ColumnModel {
+  name: string;
+  type: string;
+  nullable: boolean;
+  defaultExpression: string | null;
+  generationExpression: string | null;
+  stored: boolean;
+}
+
+/**
+ * @typedef {object} KeyPart
+ * @property {string} column The name of the column.
+ * @property {boolean} descending Whether the column is sorted descending.
+ */
+export interface KeyPart {
+  column: string;
+  descending: boolean;
+}
+
+/**
+ * @typedef {object} TableModel
+ * @property {string} name The name of the table. Tables in a named schema are
+ *     qualified with the name of the schema.
+ * @property {ColumnModel[]} columns The columns in order of their position.
+ * @property {KeyPart[]} primaryKey The primary key columns.
+ * @property {?string} parent The table that this table is interleaved in.
+ * @property {?string} onDelete The `ON DELETE` action of an interleaved table,
+ *     `CASCADE` or `NO ACTION`.
+ */
+export interface TableModel {
+  name: string;
+  columns: ColumnModel[];
+  primaryKey: KeyPart[];
+  parent: string | null;
+  onDelete: string | null;
+}
+
+/**
+ * @typedef {object} IndexModel
+ * @property {string} name The name of the index.
+ * @property {string} table The indexed table.
+ * @property {boolean} unique Whether the index is unique.
+ * @property {boolean} nullFiltered Whether rows with NULL keys are excluded.
+ * @property {KeyPart[]} keys The key columns.
+ * @property {string[]} storing The stored columns.
+ * @property {?string} interleaveIn The table that the index is interleaved in.
+ */
+export interface IndexModel {
+  name: string;
+  table: string;
+  unique: boolean;
+  nullFiltered: boolean;
+  keys: KeyPart[];
+  storing: string[];
+  interleaveIn: string | null;
+}
+
+/**
+ * @typedef {object} ForeignKeyModel
+ * @property {string} name The name of the constraint.
+ * @property {string} table The referencing table.
+ * @property {string[]} columns The referencing columns.
+ * @property {string} referencedTable The referenced table.
+ * @property {string[]} referencedColumns The referenced columns.
+ * @property {?string} onDelete The delete rule, `CASCADE` or `NO ACTION`.
+ */
+export interface ForeignKeyModel {
+  name: string;
+  table: string;
+  columns: string[];
+  referencedTable: string;
+  referencedColumns: string[];
+  onDelete: string | null;
+}
+
+/**
+ * @typedef {object} ViewModel
+ * @property {string} name The name of the view.
+ * @property {string} definition The query of the view.
+ * @property {string} securityType `INVOKER` or `DEFINER`.
+ */
+export interface ViewModel {
+  name: string;
+  definition: string;
+  securityType: string;
+}
+
+/**
+ * @typedef {object} ChangeStreamTableModel
+ * @property {string} table The watched table.
+ * @property {?string[]} columns The watched columns, or null if all columns
+ *     are watched.
+ */
+export interface ChangeStreamTableModel {
+  table: string;
+  columns: string[] | null;
+}
+
+/**
+ * @typedef {object} ChangeStreamModel
+ * @property {string} name The name of the change stream.
+ * @property {boolean} all Whether the change stream watches all tables.
+ * @property {ChangeStreamTableModel[]} tables The watched tables.
+ * @property {Object.<string, string|boolean>} options The options of the
+ *     change stream.
+ */
+export interface ChangeStreamModel {
+  name: string;
+  all: boolean;
+  tables: ChangeStreamTableModel[];
+  options: {[name: string]: string | boolean};
+}
+
+/**
+ * @typedef {object} SchemaModel
+ * @property {string} dialect The dialect of the database.
+ * @property {TableModel[]} tables The tables, ordered by name.
+ * @property {IndexModel[]} indexes The indexes, ordered by name.
+ * @property {ForeignKeyModel[]} foreignKeys The foreign keys, ordered by name.
+ * @property {ViewModel[]} views The views, ordered by name.
+ * @property {ChangeStreamModel[]} changeStreams The change streams, ordered by
+ *     name.
+ * @property {string[]} protoBundle The fully qualified names of the proto
+ *     types in the proto bundle.
+ */
+export interface SchemaModel {
+  dialect: SchemaDialect;
+  tables: TableModel[];
+  indexes: IndexModel[];
+  foreignKeys: ForeignKeyModel[];
+  views: ViewModel[];
+  changeStreams: ChangeStreamModel[];
+  protoBundle: string[];
+}
+
+interface InfoRow {
+  [column: string]: string | number | boolean | null;
+}
+
+const SYSTEM_SCHEMAS = ['INFORMATION_SCHEMA', 'SPANNER_SYS', 'PG_CATALOG'];
+
+// The queries use unquoted identifiers, which PostgreSQL folds to lower case,
+// so that the same queries work for both dialects.
+const QUERIES = {
+  tables:
+    'SELECT TABLE_SCHEMA, TABLE_NAME, TABLE_TYPE, PARENT_TABLE_NAME, ' +
+    'ON_DELETE_ACTION FROM INFORMATION_SCHEMA.TABLES',
+  columns:
+    'SELECT TABLE_SCHEMA, TABLE_NAME, COLUMN_NAME, ORDINAL_POSITION, ' +
+    'IS_NULLABLE, SPANNER_TYPE, COLUMN_DEFAULT, IS_GENERATED, ' +
+    'GENERATION_EXPRESSION, IS_STORED FROM INFORMATION_SCHEMA.COLUMNS',
+  indexes:
+    'SELECT TABLE_SCHEMA, TABLE_NAME, INDEX_NAME, INDEX_TYPE, ' +
+    'PARENT_TABLE_NAME, IS_UNIQUE, IS_NULL_FILTERED, SPANNER_IS_MANAGED ' +
+    'FROM INFORMATION_SCHEMA.INDEXES',
+  indexColumns:
+    'SELECT TABLE_SCHEMA, TABLE_NAME, INDEX_NAME, INDEX_TYPE, COLUMN_NAME, ' +
+    'ORDINAL_POSITION, COLUMN_ORDERING FROM INFORMATION_SCHEMA.INDEX_COLUMNS',
+  referentialConstraints:
+    'SELECT CONSTRAINT_SCHEMA, CONSTRAINT_NAME, UNIQUE_CONSTRAINT_SCHEMA, ' +
+    'UNIQUE_CONSTRAINT_NAME, DELETE_RULE ' +
+    'FROM INFORMATION_SCHEMA.REFERENTIAL_CONSTRAINTS',
+  keyColumnUsage:
+    'SELECT CONSTRAINT_SCHEMA, CONSTRAINT_NAME, TABLE_SCHEMA, TABLE_NAME, ' +
+    'COLUMN_NAME, ORDINAL_POSITION, POSITION_IN_UNIQUE_CONSTRAINT ' +
+    'FROM INFORMATION_SCHEMA.KEY_COLUMN_USAGE',
+  changeStreamTables:
+    'SELECT CHANGE_STREAM_NAME, TABLE_NAME, ALL_COLUMNS ' +
+    'FROM INFORMATION_SCHEMA.CHANGE_STREAM_TABLES',
+  changeStreamColumns:
+    'SELECT CHANGE_STREAM_NAME, TABLE_NAME, COLUMN_NAME ' +
+    'FROM INFORMATION_SCHEMA.CHANGE_STREAM_COLUMNS',
+  changeStreamOptions:
+    'SELECT CHANGE_STREAM_NAME, OPTION_NAME, OPTION_TYPE, OPTION_VALUE ' +
+    'FROM INFORMATION_SCHEMA.CHANGE_STREAM_OPTIONS',
+};
+
+/**
+ * Returns the queries that differ between the dialects.
+ *
+ * @private
+ */
+function dialectQueries(postgres: boolean) {
+  return {
+    // `ALL` is a reserved word in both dialects.
+    changeStreams: postgres
+      ? 'SELECT CHANGE_STREAM_NAME, "all" FROM INFORMATION_SCHEMA.CHANGE_STREAMS'
+      : 'SELECT CHANGE_STREAM_NAME, `ALL` FROM INFORMATION_SCHEMA.CHANGE_STREAMS',
+    // PostgreSQL views always use invoker's rights.
+    views: postgres
+      ? 'SELECT TABLE_SCHEMA, TABLE_NAME, VIEW_DEFINITION ' +
+        'FROM INFORMATION_SCHEMA.VIEWS'
+      : 'SELECT TABLE_SCHEMA, TABLE_NAME, VIEW_DEFINITION, SECURITY_TYPE ' +
+        'FROM INFORMATION_SCHEMA.VIEWS',
+  };
+}
+
+async function query(snapshot: Snapshot, sql: string): Promise<InfoRow[]> {
+  const [rows] = await snapshot.run({sql, json: true});
+  // PostgreSQL returns the column names in lower case.
+  return (rows as InfoRow[]).map(row => {
+    const normalized: InfoRow = {};
+    Object.keys(row).forEach(key => {
+      normalized[key.toUpperCase()] = row[key];
+    });
+    return normalized;
+  });
+}
+
+function toBool(value: InfoRow[string]): boolean {
+  return value === true || value === 'YES' || value === 'true';
+}
+
+function isSystemSchema(schema: InfoRow[string]): boolean {
+  return SYSTEM_SCHEMAS.includes(String(schema || '').toUpperCase());
+}
+
+function byName<T extends {name: string}>(a: T, b: T): number {
+  return a.name < b.name ? -1 : a.name > b.name ? 1 : 0;
+}
+
+/**
+ * Reads the structured schema of a database from its `INFORMATION_SCHEMA`.
+ * All queries are executed in a single read-only snapshot, so that the model
+ * is consistent.
+ *
+ * @private
+ *
+ * @param {Database} database The database to read the schema of.
+ * @param {SchemaDialect} dialect The dialect of the database.
+ * @param {CallOptions} [gaxOptions] Options for the request to get the DDL of
+ *     the proto bundle.
+ * @returns {Promise<SchemaModel>}
+ */
+export async function readSchemaModel(
+  database: Database,
+  dialect: SchemaDialect,
+  gaxOptions?: CallOptions
+): Promise<SchemaModel> {
+  const postgres = dialect === 'POSTGRESQL';
+  const qualify = (schema: InfoRow[string], name: InfoRow[string]) =>
+    schema && schema !== (postgres ? 'public' : '')
+      ? `${schema}.${name}`
+      : String(name);
+
+  const [snapshot] = await database.getSnapshot();
+  const rows: {[name: string]: InfoRow[]} = {};
+  try {
+    const queries = Object.assign({}, QUERIES, dialectQueries(postgres));
+    for (const [name, sql] of Object.entries(queries)) {
+      rows[name] = await query(snapshot, sql);
+    }
+  } finally {
+    snapshot.end();
+  }
+
+  const tables = new Map<string, TableModel>();
+  rows.tables
+    .filter(
+      row =>
+        !isSystemSchema(row.TABLE_SCHEMA) && row.TABLE_TYPE === 'BASE TABLE'
+    )
+    .forEach(row => {
+      const name = qualify(row.TABLE_SCHEMA, row.TABLE_NAME);
+      tables.set(name, {
+        name,
+        columns: [],
+        primaryKey: [],
+        parent: row.PARENT_TABLE_NAME
+          ? qualify(row.TABLE_SCHEMA, row.PARENT_TABLE_NAME)
+          : null,
+        onDelete: row.PARENT_TABLE_NAME
+          ? (row.ON_DELETE_ACTION as string) || null
+          : null,
+      });
+    });
+
+  [...rows.columns]
+    .sort((a, b) => Number(a.ORDINAL_POSITION) - Number(b.ORDINAL_POSITION))
+    .forEach(row => {
+      const table = tables.get(qualify(row.TABLE_SCHEMA, row.TABLE_NAME));
+      table?.columns.push({
+        name: row.COLUMN_NAME as string,
+        type: row.SPANNER_TYPE as string,
+        nullable: toBool(row.IS_NULLABLE),
+        defaultExpression: (row.COLUMN_DEFAULT as string) ?? null,
+        generationExpression:
+          row.IS_GENERATED === 'ALWAYS'
+            ? (row.GENERATION_EXPRESSION as string)
+            : null,
+        stored: toBool(row.IS_STORED),
+      });
+    });
+
+  const indexes = new Map<string, IndexModel>();
+  rows.indexes
+    .filter(
+      row =>
+        !isSystemSchema(row.TABLE_SCHEMA) &&
+        row.INDEX_TYPE === 'INDEX' &&
+        !toBool(row.SPANNER_IS_MANAGED)
+    )
+    .forEach(row => {
+      const name = qualify(row.TABLE_SCHEMA, row.INDEX_NAME);
+      indexes.set(name, {
+        name,
+        table: qualify(row.TABLE_SCHEMA, row.TABLE_NAME),
+        unique: toBool(row.IS_UNIQUE),
+        nullFiltered: toBool(row.IS_NULL_FILTERED),
+        keys: [],
+        storing: [],
+        interleaveIn: row.PARENT_TABLE_NAME
+          ? qualify(row.TABLE_SCHEMA, row.PARENT_TABLE_NAME)
+          : null,
+      });
+    });
+
+  [...rows.indexColumns]
+    .sort((a, b) => Number(a.ORDINAL_POSITION) - Number(b.ORDINAL_POSITION))
+    .forEach(row => {
+      const column = row.COLUMN_NAME as string;
+      const key = {
+        column,
+        descending: String(row.COLUMN_ORDERING).startsWith('DESC'),
+      };
+      if (row.INDEX_TYPE === 'PRIMARY_KEY') {
+        tables
+          .get(qualify(row.TABLE_SCHEMA, row.TABLE_NAME))
+          ?.primaryKey.push(key);
+        return;
+      }
+      const index = indexes.get(qualify(row.TABLE_SCHEMA, row.INDEX_NAME));
+      if (row.ORDINAL_POSITION === null) {
+        index?.storing.push(column);
+      } else {
+        index?.keys.push(key);
+      }
+    });
+
+  const constraintColumns = new Map<string, InfoRow[]>();
+  [...rows.keyColumnUsage]
+    .sort((a, b) => Number(a.ORDINAL_POSITION) - Number(b.ORDINAL_POSITION))
+    .forEach(row => {
+      const name = qualify(row.CONSTRAINT_SCHEMA, row.CONSTRAINT_NAME);
+      if (!constraintColumns.has(name)) {
+        constraintColumns.set(name, []);
+      }
+      constraintColumns.get(name)!.push(row);
+    });
+  const foreignKeys: ForeignKeyModel[] = rows.referentialConstraints
+    .filter(row => !isSystemSchema(row.CONSTRAINT_SCHEMA))
+    .map(row => {
+      const name = qualify(row.CONSTRAINT_SCHEMA, row.CONSTRAINT_NAME);
+      const columns = constraintColumns.get(name) || [];
+      const referenced =
+        constraintColumns.get(
+          qualify(row.UNIQUE_CONSTRAINT_SCHEMA, row.UNIQUE_CONSTRAINT_NAME)
+        ) || [];
+      return {
+        name,
+        table: columns.length
+          ? qualify(columns[0].TABLE_SCHEMA, columns[0].TABLE_NAME)
+          : '',
+        columns: columns.map(column => column.COLUMN_NAME as string),
+        referencedTable: referenced.length
+          ? qualify(referenced[0].TABLE_SCHEMA, referenced[0].TABLE_NAME)
+          : '',
+        // The referenced columns are listed in the order of the unique
+        // constraint, which may differ from the order of the foreign key.
+        referencedColumns: columns.map(
+          column =>
+            referenced[Number(column.POSITION_IN_UNIQUE_CONSTRAINT) - 1]
+              ?.COLUMN_NAME as string
+        ),
+        onDelete: (row.DELETE_RULE as string) || null,
+      };
+    });
+
+  const views: ViewModel[] = rows.views
+    .filter(row => !isSystemSchema(row.TABLE_SCHEMA))
+    .map(row => ({
+      name: qualify(row.TABLE_SCHEMA, row.TABLE_NAME),
+      definition: row.VIEW_DEFINITION as string,
+      securityType: (row.SECURITY_TYPE as string) || 'INVOKER',
+    }));
+
+  const changeStreams = new Map<string, ChangeStreamModel>();
+  rows.changeStreams.forEach(row => {
+    const name = row.CHANGE_STREAM_NAME as string;
+    changeStreams.set(name, {
+      name,
+      all: toBool(row.ALL),
+      tables: [],
+      options: {},
+    });
+  });
+  rows.changeStreamTables.forEach(row => {
+    changeStreams.get(row.CHANGE_STREAM_NAME as string)?.tables.push({
+      table: row.TABLE_NAME as string,
+      columns: toBool(row.ALL_COLUMNS) ? null : [],
+    });
+  });
+  rows.changeStreamColumns.forEach(row => {
+    changeStreams
+      .get(row.CHANGE_STREAM_NAME as string)
+      ?.tables.find(table => table.table === row.TABLE_NAME)
+      ?.columns?.push(row.COLUMN_NAME as string);
+  });
+  rows.changeStreamOptions.forEach(row => {
+    const stream = changeStreams.get(row.CHANGE_STREAM_NAME as string);
+    if (stream) {
+      stream.options[row.OPTION_NAME as string] =
+        row.OPTION_TYPE === 'BOOL'
+          ? toBool(row.OPTION_VALUE)
+          : (row.OPTION_VALUE as string);
+    }
+  });
+
+  let protoBundle: string[] = [];
+  if (!postgres) {
+    const [statements] = await database.getSchema(gaxOptions || {});
+    protoBundle = parseProtoBundle(statements || []);
+  }
+
+  return {
+    dialect,
+    tables: [...tables.values()].sort(byName),
+    indexes: [...indexes.values()].sort(byName),
+    foreignKeys: foreignKeys.sort(byName),
+    views: views.sort(byName),
+    changeStreams: [...changeStreams.values()].sort(byName),
+    protoBundle,
+  };
+}
+
+/**
+ * Extracts the names of the proto types from a `CREATE PROTO BUNDLE`
+ * statement. The proto bundle is not part of the `INFORMATION_SCHEMA`.
+ *
+ * @private
+ */
+export function parseProtoBundle(statements: string[]): string[] {
+  const statement = statements.find(statement =>
+    /^\s*CREATE\s+PROTO\s+BUNDLE\b/i.test(statement)
+  );
+  const match = statement && /\(([\s\S]*)\)/.exec(statement);
+  if (!match) {
+    return [];
+  }
+  return match[1]
+    .split(',')
+    .map(name => name.replace(/`/g, '').trim())
+    .filter(name => name.length)
+    .sort();
+}
+
+/**
+ * Writes dialect-specific DDL statements.
+ *
+ * @private
+ */
+class DdlWriter {
+  postgres: boolean;
+  constructor(dialect: SchemaDialect) {
+    this.postgres = dialect === 'POSTGRESQL';
+  }
+
+  name(name: string): string {
+    const quote = this.postgres ? '"' : '`';
+    return name
+      .split('.')
+      .map(part => `${quote}${part}${quote}`)
+      .join('.');
+  }
+
+  names(names: string[]): string {
+    return names.map(name => this.name(name)).join(', ');
+  }
+
+  keys(keys: KeyPart[]): string {
+    return keys
+      .map(key => `${this.name(key.column)}${key.descending ? ' DESC' : ''}`)
+      .join(', ');
+  }
+
+  protoTypes(names: string[]): string {
+    // Proto type names are quoted as a whole, including the package.
+    return names.map(name => `\`${name}\``).join(', ');
+  }
+
+  column(column: ColumnModel): string {
+    let ddl = `${this.name(column.name)} ${column.type}`;
+    if (!column.nullable) {
+      ddl += ' NOT NULL';
+    }
+    if (column.defaultExpression !== null) {
+      ddl += ` DEFAULT (${column.defaultExpression})`;
+    }
+    if (column.generationExpression !== null) {
+      ddl += this.postgres ? ' GENERATED ALWAYS AS' : ' AS';
+      ddl += ` (${column.generationExpression})`;
+      if (column.stored) {
+        ddl += ' STORED';
+      }
+    }
+    return ddl;
+  }
+
+  interleave(table: TableModel): string {
+    let ddl = `INTERLEAVE IN PARENT ${this.name(table.parent!)}`;
+    if (table.onDelete) {
+      ddl += ` ON DELETE ${table.onDelete}`;
+    }
+    return ddl;
+  }
+
+  createTable(table: TableModel): string {
+    const columns = table.columns.map(column => this.column(column));
+    if (this.postgres) {
+      columns.push(`PRIMARY KEY (${this.keys(table.primaryKey)})`);
+      return (
+        `CREATE TABLE ${this.name(table.name)} (\n  ${columns.join(',\n  ')}\n)` +
+        (table.parent ? ` ${this.interleave(table)}` : '')
+      );
+    }
+    return (
+      `CREATE TABLE ${this.name(table.name)} (\n  ${columns.join(',\n  ')}\n)` +
+      ` PRIMARY KEY (${this.keys(table.primaryKey)})` +
+      (table.parent ? `,\n  ${this.interleave(table)}` : '')
+    );
+  }
+
+  alterColumn(table: string, from: ColumnModel, to: ColumnModel): string[] {
+    const prefix = `ALTER TABLE ${this.name(table)} ALTER COLUMN`;
+    const column = this.name(to.name);
+    const statements: string[] = [];
+    if (this.postgres) {
+      if (from.type !== to.type) {
+        statements.push(`${prefix} ${column} TYPE ${to.type}`);
+      }
+      if (from.nullable !== to.nullable) {
+        statements.push(
+          `${prefix} ${column} ${to.nullable ? 'DROP' : 'SET'} NOT NULL`
+        );
+      }
+    } else if (from.type !== to.type || from.nullable !== to.nullable) {
+      // Altering the type or nullability of a GoogleSQL column requires the
+      // full column definition, which includes the default value.
+      return [`${prefix} ${this.column(to)}`];
+    }
+    if (from.defaultExpression !== to.defaultExpression) {
+      statements.push(
+        to.defaultExpression === null
+          ? `${prefix} ${column} DROP DEFAULT`
+          : `${prefix} ${column} SET DEFAULT (${to.defaultExpression})`
+      );
+    }
+    return statements;
+  }
+
+  createIndex(index: IndexModel): string {
+    let ddl = 'CREATE';
+    if (index.unique) {
+      ddl += ' UNIQUE';
+    }
+    if (index.nullFiltered && !this.postgres) {
+      ddl += ' NULL_FILTERED';
+    }
+    ddl += ` INDEX ${this.name(index.name)} ON ${this.name(index.table)}`;
+    ddl += ` (${this.keys(index.keys)})`;
+    if (index.storing.length) {
+      ddl += `${this.postgres ? ' INCLUDE' : ' STORING'}`;
+      ddl += ` (${this.names(index.storing)})`;
+    }
+    if (index.interleaveIn) {
+      ddl += `${this.postgres ? '' : ','} INTERLEAVE IN `;
+      ddl += this.name(index.interleaveIn);
+    }
+    return ddl;
+  }
+
+  addForeignKey(foreignKey: ForeignKeyModel): string {
+    let ddl =
+      `ALTER TABLE ${this.name(foreignKey.table)} ` +
+      `ADD CONSTRAINT ${this.name(foreignKey.name)} ` +
+      `FOREIGN KEY (${this.names(foreignKey.columns)}) ` +
+      `REFERENCES ${this.name(foreignKey.referencedTable)} ` +
+      `(${this.names(foreignKey.referencedColumns)})`;
+    if (foreignKey.onDelete && foreignKey.onDelete !== 'NO ACTION') {
+      ddl += ` ON DELETE ${foreignKey.onDelete}`;
+    }
+    return ddl;
+  }
+
+  createView(view: ViewModel, replace: boolean): string {
+    return (
+      `CREATE ${replace ? 'OR REPLACE ' : ''}VIEW ${this.name(view.name)} ` +
+      `SQL SECURITY ${view.securityType} AS ${view.definition}`
+    );
+  }
+
+  forClause(stream: ChangeStreamModel): string {
+    if (stream.all) {
+      return 'FOR ALL';
+    }
+    const tables = stream.tables.map(
+      ({table, columns}) =>
+        this.name(table) + (columns ? `(${this.names(columns)})` : '')
+    );
+    return tables.length ? `FOR ${tables.join(', ')}` : '';
+  }
+
+  options(options: ChangeStreamModel['options'], reset: string[] = []): string {
+    const values = Object.keys(options).map(name => {
+      const value = options[name];
+      if (typeof value === 'boolean') {
+        return `${name} = ${value}`;
+      }
+      const escaped = this.postgres
+        ? value.replace(/'/g, "''")
+        : value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+      return `${name} = '${escaped}'`;
+    });
+    values.push(...reset.map(name => `${name} = NULL`));
+    return `(${values.join(', ')})`;
+  }
+
+  createChangeStream(stream: ChangeStreamModel): string {
+    let ddl = `CREATE CHANGE STREAM ${this.name(stream.name)}`;
+    const forClause = this.forClause(stream);
+    if (forClause) {
+      ddl += ` ${forClause}`;
+    }
+    if (Object.keys(stream.options).length) {
+      ddl += `${this.postgres ? ' WITH' : ' OPTIONS'} ${this.options(stream.options)}`;
+    }
+    return ddl;
+  }
+
+  alterChangeStream(from: ChangeStreamModel, to: ChangeStreamModel): string[] {
+    const prefix = `ALTER CHANGE STREAM ${this.name(to.name)}`;
+    const statements: string[] = [];
+    const forClause = this.forClause(to);
+    if (forClause !== this.forClause(from)) {
+      statements.push(
+        forClause ? `${prefix} SET ${forClause}` : `${prefix} DROP FOR ALL`
+      );
+    }
+    const changed: ChangeStreamModel['options'] = {};
+    Object.keys(to.options).forEach(name => {
+      if (from.options[name] !== to.options[name]) {
+        changed[name] = to.options[name];
+      }
+    });
+    const removed = Object.keys(from.options).filter(
+      name => !(name in to.options)
+    );
+    if (this.postgres) {
+      if (Object.keys(changed).length) {
+        statements.push(`${prefix} SET ${this.options(changed)}`);
+      }
+      if (removed.length) {
+        statements.push(`${prefix} RESET (${removed.join(', ')})`);
+      }
+    } else if (Object.keys(changed).length || removed.length) {
+      statements.push(
+        `${prefix} SET OPTIONS ${this.options(changed, removed)}`
+      );
+    }
+    return statements;
+  }
+}
+
+function toMap<T extends {name: string}>(items: T[]): Map<string, T> {
+  return new Map(items.map(item => [item.name, item]));
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Orders tables so that parents come before the tables interleaved in them.
+ */
+function sortByParent(tables: TableModel[]): TableModel[] {
+  const names = new Set(tables.map(table => table.name));
+  const sorted: TableModel[] = [];
+  const visited = new Set<string>();
+  const byName = toMap(tables);
+  const visit = (table: TableModel) => {
+    if (visited.has(table.name)) {
+      return;
+    }
+    visited.add(table.name);
+    if (table.parent && names.has(table.parent)) {
+      visit(byName.get(table.parent)!);
+    }
+    sorted.push(table);
+  };
+  tables.forEach(visit);
+  return sorted;
+}
+
+/**
+ * Compares two schema models and returns the DDL statements that change the
+ * schema of the first model into the schema of the second.
+ *
+ * Objects are matched by name, so a renamed object is dropped and created.
+ * Changed indexes and foreign keys are dropped and created, changed views are
+ * replaced, and changed change streams are altered. The statements are ordered
+ * so that objects are created before the objects that depend on them, and
+ * dropped after.
+ *
+ * @throws {GoogleError} If the models are of different dialects, or if the
+ *     primary key or parent of a table changes, as these can not be altered.
+ *
+ * @param {SchemaModel} from The current schema.
+ * @param {SchemaModel} to The desired schema.
+ * @returns {string[]} The DDL statements that can be passed to
+ *     {@link Database#updateSchema}.
+ *
+ * @example
+ * ```
+ * const {diffSchemaModels} = require('@google-cloud/spanner');
+ *
+ * const current = await database.getSchemaModel();
+ * const desired = await otherDatabase.getSchemaModel();
+ *
+ * const statements = diffSchemaModels(current, desired);
+ * if (statements.length) {
+ *   const [operation] = await database.updateSchema(statements);
+ *   await operation.promise();
+ * }
+ * ```
+ */
+export function diffSchemaModels(from: SchemaModel, to: SchemaModel): string[] {
+  if (from.dialect !== to.dialect) {
+    throw new GoogleError(
+      `Can not compare a ${from.dialect} schema to a ${to.dialect} schema.`
+    );
+  }
+  const ddl = new DdlWriter(to.dialect);
+  const statements: string[] = [];
+
+  const fromTables = toMap(from.tables);
+  const toTables = toMap(to.tables);
+  const fromIndexes = toMap(from.indexes);
+  const toIndexes = toMap(to.indexes);
+  const fromForeignKeys = toMap(from.foreignKeys);
+  const toForeignKeys = toMap(to.foreignKeys);
+  const fromViews = toMap(from.views);
+  const fromStreams = toMap(from.changeStreams);
+  const toStreams = toMap(to.changeStreams);
+
+  const addedProtos = to.protoBundle.filter(
+    name => !from.protoBundle.includes(name)
+  );
+  const removedProtos = from.protoBundle.filter(
+    name => !to.protoBundle.includes(name)
+  );
+  if (addedProtos.length) {
+    statements.push(
+      from.protoBundle.length
+        ? `ALTER PROTO BUNDLE INSERT (${ddl.protoTypes(addedProtos)})`
+        : `CREATE PROTO BUNDLE (${ddl.protoTypes(addedProtos)})`
+    );
+  }
+
+  from.views
+    .filter(view => !to.views.some(({name}) => name === view.name))
+    .forEach(view => statements.push(`DROP VIEW ${ddl.name(view.name)}`));
+  from.foreignKeys
+    .filter(fk => !isEqual(fk, toForeignKeys.get(fk.name)))
+    .forEach(fk =>
+      statements.push(
+        `ALTER TABLE ${ddl.name(fk.table)} DROP CONSTRAINT ${ddl.name(fk.name)}`
+      )
+    );
+  from.indexes
+    .filter(index => !isEqual(index, toIndexes.get(index.name)))
+    .forEach(index => statements.push(`DROP INDEX ${ddl.name(index.name)}`));
+
+  sortByParent(to.tables)
+    .filter(table => !fromTables.has(table.name))
+    .forEach(table => statements.push(ddl.createTable(table)));
+
+  const droppedColumns: string[] = [];
+  to.tables
+    .filter(table => fromTables.has(table.name))
+    .forEach(table => {
+      const old = fromTables.get(table.name)!;
+      if (
+        !isEqual(old.primaryKey, table.primaryKey) ||
+        old.parent !== table.parent
+      ) {
+        throw new GoogleError(
+          `The primary key or parent of table ${table.name} can not be changed.`
+        );
+      }
+      const name = ddl.name(table.name);
+      if (old.onDelete !== table.onDelete) {
+        statements.push(
+          `ALTER TABLE ${name} SET ON DELETE ${table.onDelete || 'NO ACTION'}`
+        );
+      }
+      const oldColumns = toMap(old.columns);
+      const newColumns = toMap(table.columns);
+      table.columns.forEach(column => {
+        const oldColumn = oldColumns.get(column.name);
+        if (
+          oldColumn &&
+          oldColumn.generationExpression === column.generationExpression &&
+          oldColumn.stored === column.stored
+        ) {
+          statements.push(...ddl.alterColumn(table.name, oldColumn, column));
+          return;
+        }
+        // Generated columns can not be altered, only dropped and added.
+        if (oldColumn) {
+          statements.push(
+            `ALTER TABLE ${name} DROP COLUMN ${ddl.name(column.name)}`
+          );
+        }
+        statements.push(`ALTER TABLE ${name} ADD COLUMN ${ddl.column(column)}`);
+      });
+      old.columns
+        .filter(column => !newColumns.has(column.name))
+        .forEach(column =>
+          droppedColumns.push(
+            `ALTER TABLE ${name} DROP COLUMN ${ddl.name(column.name)}`
+          )
+        );
+    });
+
+  to.views
+    .filter(view => !isEqual(view, fromViews.get(view.name)))
+    .forEach(view =>
+      statements.push(ddl.createView(view, fromViews.has(view.name)))
+    );
+
+  to.changeStreams.forEach(stream => {
+    const old = fromStreams.get(stream.name);
+    if (!old) {
+      statements.push(ddl.createChangeStream(stream));
+    } else if (!isEqual(old, stream)) {
+      statements.push(...ddl.alterChangeStream(old, stream));
+    }
+  });
+  from.changeStreams
+    .filter(stream => !toStreams.has(stream.name))
+    .forEach(stream =>
+      statements.push(`DROP CHANGE STREAM ${ddl.name(stream.name)}`)
+    );
+
+  statements.push(...droppedColumns);
+  sortByParent(from.tables)
+    .reverse()
+    .filter(table => !toTables.has(table.name))
+    .forEach(table => statements.push(`DROP TABLE ${ddl.name(table.name)}`));
+
+  to.indexes
+    .filter(index => !isEqual(index, fromIndexes.get(index.name)))
+    .forEach(index => statements.push(ddl.createIndex(index)));
+  to.foreignKeys
+    .filter(fk => !isEqual(fk, fromForeignKeys.get(fk.name)))
+    .forEach(fk => statements.push(ddl.addForeignKey(fk)));
+
+  if (removedProtos.length) {
+    statements.push(
+      to.protoBundle.length
+        ? `ALTER PROTO BUNDLE DELETE (${ddl.protoTypes(removedProtos)})`
+        : 'DROP PROTO BUNDLE'
+    );
+  }
+  return statements;
+}
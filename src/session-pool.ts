@@ -24,6 +24,15 @@ import {Transaction} from './transaction';
 import {NormalCallback} from './common';
 import {GoogleError, grpc, ServiceError} from 'google-gax';
 import trace = require('stack-trace');
+import {ATTR_DB_NAME, TraceConfig, endSpan, startTrace} from './instrument';
+import {
+  METRIC_ACQUIRE_LATENCY,
+  METRIC_PENDING_ACQUIRES,
+  METRIC_SESSIONS_CREATING,
+  METRIC_SESSIONS_IDLE,
+  METRIC_SESSIONS_IN_USE,
+  getMetricsRecorder,
+} from './metrics';
 
 /**
  * @callback SessionPoolCloseCallback
@@ -145,6 +154,12 @@ export interface SessionPoolInterface extends EventEmitter {
  * @property {number} [writes=0.0]. Deprecated.
  * @property {number} [incStep=25] The number of new sessions to create when at
  *     least one more session is needed.
+ * @property {boolean} [useMultiplexedSession=false] If set to true, read-only
+ *     transactions and queries use a single multiplexed session instead of
+ *     sessions from the pool. Read-write transactions still use the pool.
+ * @property {number} [multiplexedSessionRefreshInterval=10080] How often to
+ *     replace the multiplexed session by a new one, in minutes. Must be less
+ *     than 30 days.
  */
 export interface SessionPoolOptions {
   acquireTimeout?: number;
@@ -163,6 +178,8 @@ export interface SessionPoolOptions {
   writes?: number;
   incStep?: number;
   databaseRole?: string | null;
+  useMultiplexedSession?: boolean;
+  multiplexedSessionRefreshInterval?: number;
 }
 
 const DEFAULTS: SessionPoolOptions = {
@@ -349,6 +366,7 @@ export class SessionPool extends EventEmitter implements SessionPoolInterface {
   _onClose!: Promise<void>;
   _pending = 0;
   _waiters = 0;
+  _unobserveGauges?: () => void;
   _pingHandle!: NodeJS.Timer;
   _requests: PQueue;
   _traces: Map<string, trace.StackFrame[]>;
@@ -501,6 +519,7 @@ export class SessionPool extends EventEmitter implements SessionPoolInterface {
     this.isOpen = false;
 
     this._stopHouseKeeping();
+    this._unobserveGauges?.();
     this.emit('close');
 
     sessions.forEach(session => this._destroy(session));
@@ -564,6 +583,7 @@ export class SessionPool extends EventEmitter implements SessionPoolInterface {
   open(): void {
     this._onClose = new Promise(resolve => this.once('close', resolve));
     this._startHouseKeeping();
+    this._observeGauges();
 
     this.isOpen = true;
     this.emit('open');
@@ -658,10 +678,28 @@ export class SessionPool extends EventEmitter implements SessionPoolInterface {
       return getSession();
     };
 
-    const session = await this._acquires.add(getSession);
-    this._prepareTransaction(session);
-    this._traces.set(session.id, frames);
-    return session;
+    return startTrace(
+      'SessionPool.acquireSession',
+      this._traceConfig(),
+      async span => {
+        try {
+          const session = await this._acquires.add(getSession);
+          this._prepareTransaction(session);
+          this._traces.set(session.id, frames);
+          getMetricsRecorder(
+            this.database.observabilityOptions_
+          ).recordHistogram(METRIC_ACQUIRE_LATENCY, Date.now() - startTime, {
+            [ATTR_DB_NAME]: this.database.formattedName_,
+          });
+          span.addEvent('Acquired session', {'session.id': session.id});
+          span.end();
+          return session;
+        } catch (e) {
+          endSpan(span, e as Error);
+          throw e;
+        }
+      }
+    );
   }
 
   /**
@@ -731,33 +769,43 @@ export class SessionPool extends EventEmitter implements SessionPoolInterface {
     }
     this._pending += amount;
 
-    // while we can request as many sessions be created as we want, the backend
-    // will return at most 100 at a time, hence the need for a while loop.
-    while (amount > 0) {
-      let sessions: Session[] | null = null;
-
-      try {
-        [sessions] = await this.database.batchCreateSessions({
-          count: amount,
-          labels: labels,
-          databaseRole: databaseRole,
-        });
-
-        amount -= sessions.length;
-      } catch (e) {
-        this._pending -= amount;
-        this.emit('createError', e);
-        throw e;
+    return startTrace(
+      'SessionPool.createSessions',
+      this._traceConfig(),
+      async span => {
+        span.setAttribute('session.count', amount);
+
+        // while we can request as many sessions be created as we want, the backend
+        // will return at most 100 at a time, hence the need for a while loop.
+        while (amount > 0) {
+          let sessions: Session[] | null = null;
+
+          try {
+            [sessions] = await this.database.batchCreateSessions({
+              count: amount,
+              labels: labels,
+              databaseRole: databaseRole,
+            });
+
+            amount -= sessions.length;
+          } catch (e) {
+            this._pending -= amount;
+            this.emit('createError', e);
+            endSpan(span, e as Error);
+            throw e;
+          }
+
+          sessions.forEach((session: Session) => {
+            setImmediate(() => {
+              this._inventory.borrowed.add(session);
+              this._pending -= 1;
+              this.release(session);
+            });
+          });
+        }
+        span.end();
       }
-
-      sessions.forEach((session: Session) => {
-        setImmediate(() => {
-          this._inventory.borrowed.add(session);
-          this._pending -= 1;
-          this.release(session);
-        });
-      });
-    }
+    );
   }
 
   /**
@@ -997,13 +1045,17 @@ export class SessionPool extends EventEmitter implements SessionPoolInterface {
       return;
     }
 
-    try {
-      await session.keepAlive();
-      this.release(session);
-    } catch (e) {
-      this._inventory.borrowed.delete(session);
-      this._destroy(session);
-    }
+    return startTrace('SessionPool.ping', this._traceConfig(), async span => {
+      try {
+        await session.keepAlive();
+        this.release(session);
+        span.end();
+      } catch (e) {
+        endSpan(span, e as Error);
+        this._inventory.borrowed.delete(session);
+        this._destroy(session);
+      }
+    });
   }
 
   /**
@@ -1021,6 +1073,43 @@ export class SessionPool extends EventEmitter implements SessionPoolInterface {
     return this._fill();
   }
 
+  /**
+   * Registers the gauges that report the state of the pool with the metrics
+   * recorder. The gauges are unregistered when the pool is closed.
+   *
+   * @private
+   */
+  _observeGauges(): void {
+    const recorder = getMetricsRecorder(this.database.observabilityOptions_);
+    const attributes = {[ATTR_DB_NAME]: this.database.formattedName_};
+    const gauges: Array<[string, () => number]> = [
+      [METRIC_SESSIONS_IN_USE, () => this._inventory.borrowed.size],
+      [METRIC_SESSIONS_IDLE, () => this.available],
+      [METRIC_PENDING_ACQUIRES, () => this.totalWaiters],
+      [METRIC_SESSIONS_CREATING, () => this.totalPending],
+    ];
+    const unobservers = gauges.map(([name, callback]) =>
+      recorder.observeGauge(name, callback, attributes)
+    );
+
+    this._unobserveGauges?.();
+    this._unobserveGauges = () => unobservers.forEach(unobserve => unobserve());
+  }
+
+  /**
+   * Builds the trace configuration for an operation of the pool.
+   *
+   * @private
+   *
+   * @returns {TraceConfig}
+   */
+  _traceConfig(): TraceConfig {
+    return {
+      opts: this.database.observabilityOptions_,
+      dbName: this.database.formattedName_,
+    };
+  }
+
   /**
    * Creates a transaction for a session.
    *
@@ -32,7 +32,7 @@ import {google as databaseAdmin} from '../protos/protos';
 import {Schema, LongRunningCallback} from './common';
 import IRequestOptions = databaseAdmin.spanner.v1.IRequestOptions;
 
-export type Key = string | string[];
+export type Key = string | bigint | Array<string | bigint>;
 
 export type CreateTableResponse = [
   Table,
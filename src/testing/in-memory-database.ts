@@ -0,0 +1,518 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {grpc} from 'google-gax';
+import {google} from '../../protos/protos';
+import protobuf = google.spanner.v1;
+import IValue = google.protobuf.IValue;
+import IListValue = google.protobuf.IListValue;
+
+/**
+ * @typedef {object} InMemoryColumn
+ * @property {string} name The name of the column.
+ * @property {string} type The GoogleSQL type of the column as it is written in
+ *     DDL, for example `INT64`, `STRING(MAX)` or `ARRAY<FLOAT64>`.
+ * @property {boolean} [nullable=true] Whether the column may contain NULL.
+ */
+export interface InMemoryColumn {
+  name: string;
+  type: string;
+  nullable?: boolean;
+}
+
+/**
+ * The definition of a table in an {@link InMemoryDatabase}. A `TableModel`
+ * that is returned by {@link Database#getSchemaModel} is also a valid
+ * definition.
+ *
+ * @typedef {object} InMemoryTable
+ * @property {string} name The name of the table.
+ * @property {InMemoryColumn[]} columns The columns of the table.
+ * @property {object[]} primaryKey The primary key columns, each with a
+ *     `column` name and an optional `descending` flag.
+ */
+export interface InMemoryTable {
+  name: string;
+  columns: InMemoryColumn[];
+  primaryKey: Array<{column: string; descending?: boolean}>;
+}
+
+/**
+ * The key of a row that was written by a commit.
+ *
+ * @private
+ */
+export interface WrittenKey {
+  table: string;
+  key: IValue[];
+}
+
+/**
+ * The changes of a commit that have been validated, but not yet applied.
+ *
+ * @private
+ */
+export interface PreparedCommit {
+  written: WrittenKey[];
+  apply(): void;
+}
+
+/**
+ * A key value in a form that can be compared with the value of the same
+ * column in another key.
+ */
+type Comparable = null | boolean | number | bigint | string;
+
+interface Row {
+  key: Comparable[];
+  values: IValue[];
+}
+
+interface TableData {
+  definition: InMemoryTable;
+  types: protobuf.IType[];
+  keyColumns: number[];
+  rows: Map<string, Row>;
+}
+
+const NULL_VALUE: IValue = {nullValue: 'NULL_VALUE'} as IValue;
+
+function createError(code: grpc.status, message: string): grpc.ServiceError {
+  return Object.assign(new Error(message), {code}) as grpc.ServiceError;
+}
+
+/**
+ * Converts a GoogleSQL DDL type to the type that is returned in the metadata
+ * of a result set.
+ *
+ * @private
+ */
+export function parseType(type: string): protobuf.IType {
+  const trimmed = type.trim();
+  const array = /^ARRAY\s*<(.*)>$/i.exec(trimmed);
+  if (array) {
+    return {
+      code: protobuf.TypeCode.ARRAY,
+      arrayElementType: parseType(array[1]),
+    };
+  }
+  const proto = /^(PROTO|ENUM)\s*<(.*)>$/i.exec(trimmed);
+  if (proto) {
+    return {
+      code:
+        proto[1].toUpperCase() === 'ENUM'
+          ? protobuf.TypeCode.ENUM
+          : protobuf.TypeCode.PROTO,
+      protoTypeFqn: proto[2].trim(),
+    };
+  }
+  // Lengths, such as in `STRING(MAX)`, do not change the type.
+  const base = trimmed.replace(/\(.*\)$/, '').toUpperCase();
+  const code = protobuf.TypeCode[base];
+  if (
+    typeof code !== 'number' ||
+    code === protobuf.TypeCode.TYPE_CODE_UNSPECIFIED ||
+    code === protobuf.TypeCode.STRUCT
+  ) {
+    throw new Error(`Unsupported column type: ${type}`);
+  }
+  return {code};
+}
+
+/**
+ * Converts a value to a form in which it is ordered the same way as Spanner
+ * orders the values of a key column of the given type.
+ */
+function toComparable(value: IValue, type: protobuf.IType): Comparable {
+  if (!value || isNull(value)) {
+    return null;
+  }
+  switch (type.code) {
+    case protobuf.TypeCode.BOOL:
+      return value.boolValue!;
+    case protobuf.TypeCode.INT64:
+    case protobuf.TypeCode.ENUM:
+      return BigInt(value.stringValue ?? value.numberValue!);
+    case protobuf.TypeCode.FLOAT32:
+    case protobuf.TypeCode.FLOAT64:
+    case protobuf.TypeCode.NUMERIC:
+      return Number(value.stringValue ?? value.numberValue);
+    default:
+      return value.stringValue ?? String(value.numberValue ?? value.boolValue);
+  }
+}
+
+function isNull(value: IValue): boolean {
+  return (
+    value.nullValue !== undefined &&
+    value.nullValue !== null &&
+    !('kind' in value && (value as {kind: string}).kind !== 'nullValue')
+  );
+}
+
+function compareValues(a: Comparable, b: Comparable): number {
+  if (a === b) {
+    return 0;
+  }
+  // NULL is ordered before all other values.
+  if (a === null) {
+    return -1;
+  }
+  if (b === null) {
+    return 1;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function encodeKey(key: Comparable[]): string {
+  return JSON.stringify(
+    key.map(part => (part === null ? null : `${typeof part}:${String(part)}`))
+  );
+}
+
+/**
+ * An in-memory key/value store with one ordered map of rows per table. The
+ * store applies the mutations of commits and serves reads by key sets.
+ *
+ * @class
+ *
+ * @example
+ * ```
+ * const database = emulator.mock.database(emulator.database.formattedName_);
+ * database.createTable({
+ *   name: 'Singers',
+ *   columns: [
+ *     {name: 'SingerId', type: 'INT64', nullable: false},
+ *     {name: 'Name', type: 'STRING(MAX)'},
+ *   ],
+ *   primaryKey: [{column: 'SingerId'}],
+ * });
+ * ```
+ */
+export class InMemoryDatabase {
+  private tables: Map<string, TableData> = new Map<string, TableData>();
+
+  /**
+   * Creates an empty table.
+   *
+   * @param {InMemoryTable} table The definition of the table.
+   */
+  createTable(table: InMemoryTable): void {
+    if (this.tables.has(table.name)) {
+      throw new Error(`Table ${table.name} already exists.`);
+    }
+    const names = table.columns.map(column => column.name);
+    const keyColumns = table.primaryKey.map(part => {
+      const index = names.indexOf(part.column);
+      if (index === -1) {
+        throw new Error(
+          `Primary key column ${part.column} is not a column of ${table.name}.`
+        );
+      }
+      return index;
+    });
+    this.tables.set(table.name, {
+      definition: table,
+      types: table.columns.map(column => parseType(column.type)),
+      keyColumns,
+      rows: new Map<string, Row>(),
+    });
+  }
+
+  /**
+   * Drops a table and all of its rows.
+   *
+   * @param {string} name The name of the table.
+   */
+  dropTable(name: string): void {
+    this.tables.delete(name);
+  }
+
+  /**
+   * Deletes the rows of all tables.
+   */
+  clear(): void {
+    this.tables.forEach(table => table.rows.clear());
+  }
+
+  /**
+   * Returns the rows of a table in primary key order, as objects of column
+   * names and `google.protobuf.Value`s.
+   *
+   * @param {string} name The name of the table.
+   * @returns {object[]}
+   */
+  rows(name: string): Array<{[column: string]: IValue}> {
+    const table = this.getTable(name);
+    return this.sorted(table).map(row =>
+      table.definition.columns.reduce(
+        (object, column, i) =>
+          Object.assign(object, {[column.name]: row.values[i]}),
+        {}
+      )
+    );
+  }
+
+  /**
+   * Reads the rows of a table that are in a key set.
+   *
+   * @private
+   */
+  read(request: protobuf.IReadRequest): protobuf.ResultSet {
+    if (request.index) {
+      throw createError(
+        grpc.status.UNIMPLEMENTED,
+        'Reading from an index is not supported by the in-memory database'
+      );
+    }
+    const table = this.getTable(request.table!);
+    const columns = (request.columns || []).map(name =>
+      this.getColumn(table, name)
+    );
+    const limit = Number(request.limit || 0);
+    let rows = this.sorted(table).filter(row =>
+      this.contains(table, row.key, request.keySet)
+    );
+    if (limit > 0) {
+      rows = rows.slice(0, limit);
+    }
+    return protobuf.ResultSet.create({
+      metadata: protobuf.ResultSetMetadata.create({
+        rowType: protobuf.StructType.create({
+          fields: columns.map(i =>
+            protobuf.StructType.Field.create({
+              name: table.definition.columns[i].name,
+              type: table.types[i],
+            })
+          ),
+        }),
+      }),
+      rows: rows.map(row => ({values: columns.map(i => row.values[i])})),
+    });
+  }
+
+  /**
+   * Returns whether a written key is in a key set that was read from the same
+   * table.
+   *
+   * @private
+   */
+  overlaps(
+    written: WrittenKey,
+    table: string,
+    keySet: protobuf.IKeySet | null | undefined
+  ): boolean {
+    if (written.table !== table || !this.tables.has(table)) {
+      return false;
+    }
+    const data = this.tables.get(table)!;
+    return this.contains(data, this.toKey(data, written.key), keySet);
+  }
+
+  /**
+   * Validates the mutations of a commit. The returned commit contains the keys
+   * that the mutations write, and applies the mutations atomically when it is
+   * applied.
+   *
+   * @private
+   */
+  prepare(mutations: protobuf.IMutation[]): PreparedCommit {
+    const pending = new Map<string, Map<string, Row>>();
+    const written: WrittenKey[] = [];
+    const rowsOf = (table: TableData): Map<string, Row> => {
+      const name = table.definition.name;
+      if (!pending.has(name)) {
+        pending.set(name, new Map(table.rows));
+      }
+      return pending.get(name)!;
+    };
+
+    mutations.forEach(mutation => {
+      if (mutation.delete) {
+        const table = this.getTable(mutation.delete.table!);
+        const rows = rowsOf(table);
+        rows.forEach((row, encoded) => {
+          if (this.contains(table, row.key, mutation.delete!.keySet)) {
+            rows.delete(encoded);
+            written.push({
+              table: table.definition.name,
+              key: this.keyOf(table, row),
+            });
+          }
+        });
+        return;
+      }
+      const operation = (
+        ['insert', 'update', 'insertOrUpdate', 'replace'] as const
+      ).find(name => mutation[name]);
+      if (!operation) {
+        throw createError(grpc.status.INVALID_ARGUMENT, 'Empty mutation');
+      }
+      const write = mutation[operation]!;
+      const table = this.getTable(write.table!);
+      const rows = rowsOf(table);
+      const columns = (write.columns || []).map(name =>
+        this.getColumn(table, name)
+      );
+      table.keyColumns.forEach(i => {
+        if (!columns.includes(i)) {
+          throw createError(
+            grpc.status.FAILED_PRECONDITION,
+            `Mutation to table ${table.definition.name} is missing key column ${table.definition.columns[i].name}`
+          );
+        }
+      });
+      (write.values || []).forEach((list: IListValue) => {
+        const values = list.values || [];
+        if (values.length !== columns.length) {
+          throw createError(
+            grpc.status.INVALID_ARGUMENT,
+            `Mutation to table ${table.definition.name} has ${values.length} values for ${columns.length} columns`
+          );
+        }
+        const key = table.keyColumns.map(i =>
+          toComparable(values[columns.indexOf(i)], table.types[i])
+        );
+        const encoded = encodeKey(key);
+        const existing = rows.get(encoded);
+        if (existing && operation === 'insert') {
+          throw createError(
+            grpc.status.ALREADY_EXISTS,
+            `Row ${encoded} in table ${table.definition.name} already exists`
+          );
+        }
+        if (!existing && operation === 'update') {
+          throw createError(
+            grpc.status.NOT_FOUND,
+            `Row ${encoded} in table ${table.definition.name} not found`
+          );
+        }
+        const row: IValue[] =
+          existing && operation !== 'replace'
+            ? existing.values.slice()
+            : table.definition.columns.map(() => NULL_VALUE);
+        columns.forEach((column, i) => (row[column] = values[i]));
+        table.definition.columns.forEach((column, i) => {
+          if (column.nullable === false && isNull(row[i])) {
+            throw createError(
+              grpc.status.FAILED_PRECONDITION,
+              `${table.definition.name}.${column.name} must not be NULL`
+            );
+          }
+        });
+        rows.set(encoded, {key, values: row});
+        written.push({
+          table: table.definition.name,
+          key: table.keyColumns.map(i => row[i]),
+        });
+      });
+    });
+
+    return {
+      written,
+      apply: () => {
+        pending.forEach((rows, name) => {
+          const table = this.tables.get(name);
+          if (table) {
+            table.rows = rows;
+          }
+        });
+      },
+    };
+  }
+
+  private getTable(name: string): TableData {
+    const table = this.tables.get(name);
+    if (!table) {
+      throw createError(grpc.status.NOT_FOUND, `Table not found: ${name}`);
+    }
+    return table;
+  }
+
+  private getColumn(table: TableData, name: string): number {
+    const index = table.definition.columns.findIndex(
+      column => column.name === name
+    );
+    if (index === -1) {
+      throw createError(
+        grpc.status.NOT_FOUND,
+        `Column not found in table ${table.definition.name}: ${name}`
+      );
+    }
+    return index;
+  }
+
+  private keyOf(table: TableData, row: Row): IValue[] {
+    return table.keyColumns.map(i => row.values[i]);
+  }
+
+  private toKey(table: TableData, values: IValue[]): Comparable[] {
+    return values.map((value, i) =>
+      toComparable(value, table.types[table.keyColumns[i]])
+    );
+  }
+
+  private sorted(table: TableData): Row[] {
+    return Array.from(table.rows.values()).sort((a, b) =>
+      this.compare(table, a.key, b.key)
+    );
+  }
+
+  /**
+   * Compares two keys, or the prefix of two keys if one of them is shorter
+   * than the other.
+   */
+  private compare(table: TableData, a: Comparable[], b: Comparable[]): number {
+    const length = Math.min(a.length, b.length);
+    for (let i = 0; i < length; i++) {
+      const result = compareValues(a[i], b[i]);
+      if (result !== 0) {
+        return table.definition.primaryKey[i].descending ? -result : result;
+      }
+    }
+    return 0;
+  }
+
+  private contains(
+    table: TableData,
+    key: Comparable[],
+    keySet: protobuf.IKeySet | null | undefined
+  ): boolean {
+    if (!keySet || keySet.all) {
+      return true;
+    }
+    const bound = (list: IListValue | null | undefined) =>
+      list ? this.toKey(table, list.values || []) : null;
+    const inKeys = (keySet.keys || []).some(
+      list => encodeKey(bound(list)!) === encodeKey(key)
+    );
+    return (
+      inKeys ||
+      (keySet.ranges || []).some(range => {
+        const startClosed = bound(range.startClosed);
+        const startOpen = bound(range.startOpen);
+        const endClosed = bound(range.endClosed);
+        const endOpen = bound(range.endOpen);
+        return (
+          (!startClosed || this.compare(table, key, startClosed) >= 0) &&
+          (!startOpen || this.compare(table, key, startOpen) > 0) &&
+          (!endClosed || this.compare(table, key, endClosed) <= 0) &&
+          (!endOpen || this.compare(table, key, endOpen) < 0)
+        );
+      })
+    );
+  }
+}
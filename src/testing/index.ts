@@ -0,0 +1,145 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {grpc} from 'google-gax';
+import {Spanner} from '../index';
+import {Database} from '../database';
+import {createMockSpanner, MockSpanner} from './mockspanner';
+import {InMemoryDatabase, InMemoryTable} from './in-memory-database';
+
+/**
+ * @typedef {object} EmulatorOptions
+ * @property {string} [projectId='test-project'] The project of the database.
+ * @property {string} [instanceId='test-instance'] The instance of the
+ *     database.
+ * @property {string} [databaseId='test-database'] The database.
+ * @property {InMemoryTable[]} [tables] The tables to create in the database.
+ * @property {number} [port=0] The port to listen on. Defaults to a free port.
+ */
+export interface EmulatorOptions {
+  projectId?: string;
+  instanceId?: string;
+  databaseId?: string;
+  tables?: InMemoryTable[];
+  port?: number;
+}
+
+/**
+ * @typedef {object} Emulator
+ * @property {number} port The port that the emulator listens on.
+ * @property {MockSpanner} mock The mock server.
+ * @property {InMemoryDatabase} store The in-memory store of the database.
+ * @property {Spanner} spanner A client that is connected to the emulator.
+ * @property {Database} database The database.
+ * @property {function} close Closes the client and stops the emulator.
+ */
+export interface Emulator {
+  port: number;
+  mock: MockSpanner;
+  store: InMemoryDatabase;
+  spanner: Spanner;
+  database: Database;
+  close(): Promise<void>;
+}
+
+/**
+ * Starts an in-process Spanner emulator for unit tests, and returns a client
+ * and a database that are connected to it.
+ *
+ * The emulator serves reads from an in-memory store with one table per
+ * {@link InMemoryTable}, applies the mutations of commits to it and aborts
+ * read-write transactions that conflict with each other. Results of SQL
+ * statements must be registered with {@link MockSpanner#putStatementResult}.
+ *
+ * @param {EmulatorOptions} [options] The options of the emulator.
+ * @returns {Promise<Emulator>}
+ *
+ * @example
+ * ```
+ * const {startEmulator} = require('@google-cloud/spanner/testing');
+ *
+ * const emulator = await startEmulator({
+ *   tables: [
+ *     {
+ *       name: 'Singers',
+ *       columns: [
+ *         {name: 'SingerId', type: 'INT64', nullable: false},
+ *         {name: 'Name', type: 'STRING(MAX)'},
+ *       ],
+ *       primaryKey: [{column: 'SingerId'}],
+ *     },
+ *   ],
+ * });
+ *
+ * await emulator.database.table('Singers').insert({SingerId: 1, Name: 'Marc'});
+ * const [rows] = await emulator.database
+ *   .table('Singers')
+ *   .read({keys: ['1'], columns: ['Name'], json: true});
+ *
+ * await emulator.close();
+ * ```
+ */
+export async function startEmulator(
+  options: EmulatorOptions = {}
+): Promise<Emulator> {
+  const server = new grpc.Server();
+  const mock = createMockSpanner(server);
+  const port = await new Promise<number>((resolve, reject) => {
+    server.bindAsync(
+      `0.0.0.0:${options.port || 0}`,
+      grpc.ServerCredentials.createInsecure(),
+      (err, assignedPort) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(assignedPort);
+        }
+      }
+    );
+  });
+
+  const spanner = new Spanner({
+    projectId: options.projectId || 'test-project',
+    servicePath: 'localhost',
+    port,
+    sslCreds: grpc.credentials.createInsecure(),
+  });
+  const database = spanner
+    .instance(options.instanceId || 'test-instance')
+    .database(options.databaseId || 'test-database');
+  const store = mock.database(database.formattedName_);
+  (options.tables || []).forEach(table => store.createTable(table));
+
+  return {
+    port,
+    mock,
+    store,
+    spanner,
+    database,
+    close: async () => {
+      await database.close();
+      spanner.close();
+      await new Promise<void>(resolve => server.tryShutdown(() => resolve()));
+    },
+  };
+}
+
+export * from './mockspanner';
+export {
+  InMemoryDatabase,
+  InMemoryTable,
+  InMemoryColumn,
+} from './in-memory-database';
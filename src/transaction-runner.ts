@@ -25,14 +25,22 @@ import {NormalCallback} from './common';
 import {isSessionNotFoundError} from './session-pool';
 import {Database} from './database';
 import {google} from '../protos/protos';
+import {Span} from '@opentelemetry/api';
+import {ATTR_DB_NAME, ATTR_TRANSACTION_ATTEMPT} from './instrument';
+import {METRIC_ABORTS_RETRIED, getMetricsRecorder} from './metrics';
+import {
+  DEFAULT_TRANSACTION_RETRY_POLICY,
+  RetryPolicy,
+  getBackoff,
+  mergeRetryPolicies,
+} from './retry-policy';
+import {getInterceptors, notifyInterceptors} from './interceptors';
 import IRequestOptions = google.spanner.v1.IRequestOptions;
 
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const jsonProtos = require('../protos/protos.json');
 const RETRY_INFO = 'google.rpc.retryinfo-bin';
 
-const RETRYABLE: grpc.status[] = [grpc.status.ABORTED];
-
 // tslint:disable-next-line variable-name
 const RetryInfo = Root.fromJSON(jsonProtos).lookup('google.rpc.RetryInfo');
 
@@ -40,9 +48,13 @@ const RetryInfo = Root.fromJSON(jsonProtos).lookup('google.rpc.RetryInfo');
  * @typedef {object} RunTransactionOptions
  * @property {number} [timeout] The maximum amount of time (in ms) that a
  *     {@link Transaction} should be ran for.
+ * @property {RetryPolicy} [retryPolicy] How the transaction is retried.
+ *     Overrides the `transactionRetryPolicy` of the {@link Spanner}
+ *     client.
  */
 export interface RunTransactionOptions {
   timeout?: number;
+  retryPolicy?: RetryPolicy;
   requestOptions?: Pick<IRequestOptions, 'transactionTag'>;
   optimisticLock?: boolean;
   excludeTxnFromChangeStreams?: boolean;
@@ -114,6 +126,8 @@ export abstract class Runner<T> {
   session: Session;
   transaction?: Transaction;
   options: RunTransactionOptions;
+  retryPolicy: Required<RetryPolicy>;
+  span?: Span;
   constructor(
     session: Session,
     transaction: Transaction,
@@ -127,6 +141,13 @@ export abstract class Runner<T> {
     const defaults = {timeout: 3600000};
 
     this.options = Object.assign(defaults, options);
+
+    const spanner = (session.parent as Database | undefined)?.parent?.parent;
+    this.retryPolicy = mergeRetryPolicies(
+      DEFAULT_TRANSACTION_RETRY_POLICY,
+      spanner?.transactionRetryPolicy,
+      this.options.retryPolicy
+    );
   }
   /**
    * Runs the user function against the provided transaction. Resolving the
@@ -170,17 +191,13 @@ export abstract class Runner<T> {
       return 0;
     }
 
-    // Max backoff should be 32 seconds.
-    return (
-      Math.pow(2, Math.min(this.attempts, 5)) * 1000 +
-      Math.floor(Math.random() * 1000)
-    );
+    return getBackoff(this.retryPolicy, this.attempts);
   }
 
   /** Returns whether the given error should cause a transaction retry. */
   shouldRetry(err: grpc.ServiceError): boolean {
     return (
-      RETRYABLE.includes(err.code!) ||
+      this.retryPolicy.retryableCodes.includes(err.code!) ||
       isSessionNotFoundError(err) ||
       isRetryableInternalError(err)
     );
@@ -243,15 +260,38 @@ export abstract class Runner<T> {
       // thrown here. We do this to bubble this error up to the caller who is
       // responsible for retrying the transaction on a different session.
       if (
-        !RETRYABLE.includes(lastError.code!) &&
-        !isRetryableInternalError(lastError)
+        (!this.retryPolicy.retryableCodes.includes(lastError.code!) &&
+          !isRetryableInternalError(lastError)) ||
+        this.attempts + 1 >= this.retryPolicy.maxAttempts
       ) {
         throw lastError;
       }
 
       this.attempts += 1;
 
+      const database = this.session.parent as Database | undefined;
+      getMetricsRecorder(database?.observabilityOptions_).addCounter(
+        METRIC_ABORTS_RETRIED,
+        1,
+        {[ATTR_DB_NAME]: database?.formattedName_ ?? ''}
+      );
+
       const delay = this.getNextDelay(lastError);
+      this.span?.addEvent('Retrying Transaction', {
+        [ATTR_TRANSACTION_ATTEMPT]: this.attempts,
+        delay,
+      });
+      this.retryPolicy.onRetry({
+        attempt: this.attempts,
+        delay,
+        error: lastError,
+      });
+      notifyInterceptors(getInterceptors(database), interceptor =>
+        interceptor.onAbort?.(this.attempts, lastError, {
+          database: database!,
+          transaction,
+        })
+      );
       await new Promise(resolve => setTimeout(resolve, delay));
     }
 
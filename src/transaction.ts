@@ -24,7 +24,16 @@ import * as is from 'is';
 import {common as p} from 'protobufjs';
 import {Readable, PassThrough} from 'stream';
 
-import {codec, Json, JSONOptions, Type, Value} from './codec';
+import {
+  codec,
+  DateAs,
+  Int64As,
+  Json,
+  JSONOptions,
+  TimestampAs,
+  Type,
+  Value,
+} from './codec';
 import {
   PartialResultStream,
   partialResultStream,
@@ -44,6 +53,28 @@ import IAny = google.protobuf.IAny;
 import IQueryOptions = google.spanner.v1.ExecuteSqlRequest.IQueryOptions;
 import IRequestOptions = google.spanner.v1.IRequestOptions;
 import {Database, Spanner} from '.';
+import {TraceConfig, endSpan, startTrace} from './instrument';
+import {MetricsRecorder, getMetricsRecorder} from './metrics';
+import {RowOf, RowSchema} from './row-type';
+import {RetryPolicy, mergeRetryPolicies} from './retry-policy';
+import {CodecRegistry, getCodecs} from './codec-registry';
+import {
+  MutationReport,
+  MutationValidationError,
+  MutationValidator,
+  MutationValidatorOptions,
+} from './mutation-validator';
+import {
+  InterceptorContext,
+  TransactionInterceptor,
+  getInterceptors,
+  notifyInterceptors,
+} from './interceptors';
+import {
+  ReadRoutingPolicy,
+  routeRequests,
+  toLeaderRequest,
+} from './read-routing';
 import ReadLockMode = google.spanner.v1.TransactionOptions.ReadWrite.ReadLockMode;
 
 export type Rows = Array<Row | Json>;
@@ -68,6 +99,9 @@ export interface BatchWriteOptions {
 export interface RequestOptions {
   json?: boolean;
   jsonOptions?: JSONOptions;
+  int64As?: Int64As;
+  dateAs?: DateAs;
+  timestampAs?: TimestampAs;
   gaxOptions?: CallOptions;
   maxResumeRetries?: number;
   /**
@@ -107,6 +141,19 @@ export interface RequestOptions {
    *     };
    */
   columnsMetadata?: object;
+  /**
+   * The expected columns of the result. When set, rows are returned as JSON
+   * objects of the type that is inferred from the schema and the
+   * {@link RowTypeOptions} of the request, and the request fails with a
+   * {@link RowTypeMismatchError} if the result does not match. The `dateAs`
+   * and `timestampAs` options of the client do not apply.
+   */
+  rowType?: RowSchema;
+  /**
+   * How the stream is resumed after a transient error. Overrides the
+   * `streamRetryPolicy` of the {@link Spanner} client.
+   */
+  retryPolicy?: RetryPolicy;
 }
 
 export interface CommitOptions {
@@ -144,7 +191,7 @@ export interface ReadRequest extends RequestOptions {
   table?: string;
   index?: string;
   columns?: string[] | null;
-  keys?: string[] | string[][];
+  keys?: Array<string | bigint> | Array<Array<string | bigint>>;
   ranges?: KeyRange[];
   keySet?: spannerClient.spanner.v1.IKeySet | null;
   limit?: number | Long | string | null;
@@ -177,6 +224,11 @@ export type RunResponse = [
   spannerClient.spanner.v1.ResultSetStats,
   spannerClient.spanner.v1.ResultSetMetadata,
 ];
+export type TypedRunResponse<T> = [
+  T[],
+  spannerClient.spanner.v1.ResultSetStats,
+  spannerClient.spanner.v1.ResultSetMetadata,
+];
 export type RunUpdateResponse = [number];
 
 export interface BatchUpdateOptions {
@@ -206,6 +258,15 @@ export interface RunCallback {
   ): void;
 }
 
+export interface TypedRunCallback<T> {
+  (
+    err: null | grpc.ServiceError,
+    rows: T[],
+    stats: spannerClient.spanner.v1.ResultSetStats,
+    metadata?: spannerClient.spanner.v1.ResultSetMetadata
+  ): void;
+}
+
 export interface RunUpdateCallback {
   (err: null | grpc.ServiceError, rowCount: number): void;
 }
@@ -482,7 +543,7 @@ export class Snapshot extends EventEmitter {
    * @property {string} table The name of the table in the database to be read.
    * @property {string[]} columns The columns of the table to be returned for each
    *     row matching this query.
-   * @property {string[]|string[][]} keys The primary or index keys of the rows in this table to be
+   * @property {Array<string|bigint>|Array<Array<string|bigint>>} keys The primary or index keys of the rows in this table to be
    *     yielded. If using a composite key, provide an array within this array.
    *     See the example below.
    * @property {KeyRange[]} [ranges] An alternative to the keys property; this can
@@ -493,6 +554,12 @@ export class Snapshot extends EventEmitter {
    *     is the equivalent of calling `toJSON()` on each row.
    * @property {JSONOptions} [jsonOptions] Configuration options for the serialized
    *     objects.
+   * @property {Int64As} [int64As='Int'] How the INT64 values of the rows are
+   *     decoded.
+   * @property {DateAs} [dateAs] How the DATE values of the rows are decoded.
+   *     Defaults to the `dateAs` option of the client.
+   * @property {TimestampAs} [timestampAs] How the TIMESTAMP values of the rows
+   *     are decoded. Defaults to the `timestampAs` option of the client.
    * @property {object} [keySet] Defines a collection of keys and/or key ranges to
    *     read.
    * @property {number} [limit] The number of rows to yield.
@@ -630,11 +697,17 @@ export class Snapshot extends EventEmitter {
       gaxOptions,
       json,
       jsonOptions,
+      int64As,
+      dateAs,
+      timestampAs,
       maxResumeRetries,
       requestOptions,
       columnsMetadata,
+      rowType,
+      retryPolicy,
     } = request;
-    const keySet = Snapshot.encodeKeySet(request);
+    const codecs = this._getCodecs();
+    const keySet = Snapshot.encodeKeySet(request, codecs);
     const transaction: spannerClient.spanner.v1.ITransactionSelector = {};
 
     if (this.id) {
@@ -645,8 +718,9 @@ export class Snapshot extends EventEmitter {
       transaction.singleUse = this._options;
     }
 
-    const directedReadOptions = this._getDirectedReadOptions(
-      request.directedReadOptions
+    const [directedReadOptions, routingPolicy] = this._routeRead(
+      request.directedReadOptions,
+      {table}
     );
 
     request = Object.assign({}, request);
@@ -654,12 +728,17 @@ export class Snapshot extends EventEmitter {
     delete request.gaxOptions;
     delete request.json;
     delete request.jsonOptions;
+    delete request.int64As;
+    delete request.dateAs;
+    delete request.timestampAs;
     delete request.maxResumeRetries;
     delete request.keys;
     delete request.ranges;
     delete request.requestOptions;
     delete request.directedReadOptions;
     delete request.columnsMetadata;
+    delete request.rowType;
+    delete request.retryPolicy;
 
     const reqOpts: spannerClient.spanner.v1.IReadRequest = Object.assign(
       request,
@@ -686,27 +765,55 @@ export class Snapshot extends EventEmitter {
       addLeaderAwareRoutingHeader(headers);
     }
 
-    const makeRequest = (resumeToken?: ResumeToken): Readable => {
+    const makeRequest = (
+      resumeToken?: ResumeToken,
+      fallback?: boolean
+    ): Readable => {
       if (this.id && transaction.begin) {
         delete transaction.begin;
         transaction.id = this.id;
       }
+      const [routedReqOpts, routedHeaders] = fallback
+        ? toLeaderRequest(
+            reqOpts,
+            headers,
+            this._getSpanner().routeToLeaderEnabled
+          )
+        : [reqOpts, headers];
       return this.requestStream({
         client: 'SpannerClient',
         method: 'streamingRead',
-        reqOpts: Object.assign({}, reqOpts, {resumeToken}),
+        reqOpts: Object.assign({}, routedReqOpts, {resumeToken}),
         gaxOpts: gaxOptions,
-        headers: headers,
+        headers: routedHeaders,
       });
     };
 
-    return partialResultStream(this._wrapWithIdWaiter(makeRequest), {
-      json,
-      jsonOptions,
-      maxResumeRetries,
-      columnsMetadata,
-      gaxOptions,
-    })
+    return partialResultStream(
+      this._wrapWithIdWaiter(
+        routingPolicy
+          ? routeRequests(routingPolicy, directedReadOptions!, makeRequest)
+          : makeRequest
+      ),
+      {
+        json,
+        jsonOptions,
+        int64As,
+        dateAs: dateAs || (rowType ? undefined : this._getSpanner().dateAs),
+        timestampAs:
+          timestampAs || (rowType ? undefined : this._getSpanner().timestampAs),
+        maxResumeRetries,
+        columnsMetadata,
+        gaxOptions,
+        rowType,
+        retryPolicy: mergeRetryPolicies(
+          this._getSpanner().streamRetryPolicy,
+          retryPolicy
+        ),
+        codecs,
+      },
+      this._getMetricsRecorder()
+    )
       ?.on('response', response => {
         if (response.metadata && response.metadata!.transaction && !this.id) {
           this._update(response.metadata!.transaction);
@@ -911,10 +1018,18 @@ export class Snapshot extends EventEmitter {
       callback = cb as ReadCallback;
     }
 
-    this.createReadStream(table, request)
-      .on('error', callback!)
-      .on('data', row => rows.push(row))
-      .on('end', () => callback!(null, rows));
+    const traceConfig = this._traceConfig({tableName: table});
+
+    startTrace('Snapshot.read', traceConfig, span => {
+      this.createReadStream(table, request)
+        .on('error', err => endSpan(span, err))
+        .on('error', callback!)
+        .on('data', row => rows.push(row))
+        .on('end', () => {
+          span.end();
+          callback!(null, rows);
+        });
+    });
   }
 
   /**
@@ -993,7 +1108,30 @@ export class Snapshot extends EventEmitter {
    *   }
    * });
    * ```
+   *
+   * @example If the expected columns are passed as `rowType`, the rows are
+   * returned as JSON objects of the matching type. The query fails if the
+   * columns of the result do not match.
+   * ```
+   * const query = {
+   *   sql: 'SELECT SingerId, Name FROM Singers',
+   *   rowType: rowType({
+   *     SingerId: {type: 'int64'},
+   *     Name: {type: 'string', nullable: true},
+   *   }),
+   * };
+   *
+   * const [rows] = await transaction.run(query);
+   * // rows: {SingerId: number; Name: string | null}[]
+   * ```
    */
+  run<S extends RowSchema, Q extends ExecuteSqlRequest>(
+    query: Q & {rowType: S}
+  ): Promise<TypedRunResponse<RowOf<S, Q>>>;
+  run<S extends RowSchema, Q extends ExecuteSqlRequest>(
+    query: Q & {rowType: S},
+    callback: TypedRunCallback<RowOf<S, Q>>
+  ): void;
   run(query: string | ExecuteSqlRequest): Promise<RunResponse>;
   run(query: string | ExecuteSqlRequest, callback: RunCallback): void;
   run(
@@ -1004,19 +1142,41 @@ export class Snapshot extends EventEmitter {
     let stats: google.spanner.v1.ResultSetStats;
     let metadata: google.spanner.v1.ResultSetMetadata;
 
-    this.runStream(query)
-      .on('error', callback!)
-      .on('response', response => {
-        if (response.metadata) {
-          metadata = response.metadata;
-          if (metadata.transaction && !this.id) {
-            this._update(metadata.transaction);
+    const database = this.session.parent as Database | undefined;
+    const cache = !this.id && database?.resultCache;
+    const runStream = () => this.runStream(query);
+
+    startTrace('Snapshot.run', this._traceConfig({sql: query}), span => {
+      (cache
+        ? cache.runStream(
+            database!.formattedName_,
+            withDecodeDefaults(
+              typeof query === 'string' ? {sql: query} : query,
+              this._getSpanner()
+            ),
+            this._options.readOnly,
+            runStream,
+            this._getCodecs()
+          )
+        : runStream()
+      )
+        .on('error', err => endSpan(span, err))
+        .on('error', callback!)
+        .on('response', response => {
+          if (response.metadata) {
+            metadata = response.metadata;
+            if (metadata.transaction && !this.id) {
+              this._update(metadata.transaction);
+            }
           }
-        }
-      })
-      .on('data', row => rows.push(row))
-      .on('stats', _stats => (stats = _stats))
-      .on('end', () => callback!(null, rows, stats, metadata));
+        })
+        .on('data', row => rows.push(row))
+        .on('stats', _stats => (stats = _stats))
+        .on('end', () => {
+          span.end();
+          callback!(null, rows, stats, metadata);
+        });
+    });
   }
 
   /**
@@ -1048,6 +1208,12 @@ export class Snapshot extends EventEmitter {
    *     is the equivalent of calling `toJSON()` on each row.
    * @property {JSONOptions} [jsonOptions] Configuration options for the
    *     serialized objects.
+   * @property {Int64As} [int64As='Int'] How the INT64 values of the rows are
+   *     decoded.
+   * @property {DateAs} [dateAs] How the DATE values of the rows are decoded.
+   *     Defaults to the `dateAs` option of the client.
+   * @property {TimestampAs} [timestampAs] How the TIMESTAMP values of the rows
+   *     are decoded. Defaults to the `timestampAs` option of the client.
    * @property {object} [gaxOptions] Request configuration options,
    *     See {@link https://googleapis.dev/nodejs/google-gax/latest/interfaces/CallOptions.html|CallOptions}
    *     for more details.
@@ -1128,24 +1294,47 @@ export class Snapshot extends EventEmitter {
       Object.assign({}, this.queryOptions),
       query.queryOptions
     );
+    if (query.requestOptions) {
+      // Interceptors may change the request options of the copy.
+      query.requestOptions = Object.assign({}, query.requestOptions);
+    }
+
+    const [interceptors, context] = this._getInterceptors();
+    let interceptorError: Error | undefined;
+    try {
+      interceptors.forEach(interceptor =>
+        interceptor.beforeQuery?.(query as ExecuteSqlRequest, context)
+      );
+    } catch (e) {
+      // The request is rejected when the stream is read.
+      interceptorError = e as Error;
+    }
+    const request = Object.assign({}, query);
 
     const {
       gaxOptions,
       json,
       jsonOptions,
+      int64As,
+      dateAs,
+      timestampAs,
       maxResumeRetries,
       requestOptions,
       columnsMetadata,
+      rowType,
+      retryPolicy,
     } = query;
     let reqOpts;
 
-    const directedReadOptions = this._getDirectedReadOptions(
-      query.directedReadOptions
+    const [directedReadOptions, routingPolicy] = this._routeRead(
+      query.directedReadOptions,
+      {sql: query.sql}
     );
+    const codecs = this._getCodecs();
 
     const sanitizeRequest = () => {
       query = query as ExecuteSqlRequest;
-      const {params, paramTypes} = Snapshot.encodeParams(query);
+      const {params, paramTypes} = Snapshot.encodeParams(query, codecs);
       const transaction: spannerClient.spanner.v1.ITransactionSelector = {};
       if (this.id) {
         transaction.id = this.id as Uint8Array;
@@ -1157,11 +1346,16 @@ export class Snapshot extends EventEmitter {
       delete query.gaxOptions;
       delete query.json;
       delete query.jsonOptions;
+      delete query.int64As;
+      delete query.dateAs;
+      delete query.timestampAs;
       delete query.maxResumeRetries;
       delete query.requestOptions;
       delete query.types;
       delete query.directedReadOptions;
       delete query.columnsMetadata;
+      delete query.rowType;
+      delete query.retryPolicy;
 
       reqOpts = Object.assign(query, {
         session: this.session.formattedName_!,
@@ -1187,9 +1381,15 @@ export class Snapshot extends EventEmitter {
       addLeaderAwareRoutingHeader(headers);
     }
 
-    const makeRequest = (resumeToken?: ResumeToken): Readable => {
+    const makeRequest = (
+      resumeToken?: ResumeToken,
+      fallback?: boolean
+    ): Readable => {
       if (!reqOpts || (this.id && !reqOpts.transaction.id)) {
         try {
+          if (interceptorError) {
+            throw interceptorError;
+          }
           sanitizeRequest();
         } catch (e) {
           const errorStream = new PassThrough();
@@ -1198,22 +1398,47 @@ export class Snapshot extends EventEmitter {
         }
       }
 
+      const [routedReqOpts, routedHeaders] = fallback
+        ? toLeaderRequest(
+            reqOpts,
+            headers,
+            this._getSpanner().routeToLeaderEnabled
+          )
+        : [reqOpts, headers];
       return this.requestStream({
         client: 'SpannerClient',
         method: 'executeStreamingSql',
-        reqOpts: Object.assign({}, reqOpts, {resumeToken}),
+        reqOpts: Object.assign({}, routedReqOpts, {resumeToken}),
         gaxOpts: gaxOptions,
-        headers: headers,
+        headers: routedHeaders,
       });
     };
 
-    return partialResultStream(this._wrapWithIdWaiter(makeRequest), {
-      json,
-      jsonOptions,
-      maxResumeRetries,
-      columnsMetadata,
-      gaxOptions,
-    })
+    const stream = partialResultStream(
+      this._wrapWithIdWaiter(
+        routingPolicy
+          ? routeRequests(routingPolicy, directedReadOptions!, makeRequest)
+          : makeRequest
+      ),
+      {
+        json,
+        jsonOptions,
+        int64As,
+        dateAs: dateAs || (rowType ? undefined : this._getSpanner().dateAs),
+        timestampAs:
+          timestampAs || (rowType ? undefined : this._getSpanner().timestampAs),
+        maxResumeRetries,
+        columnsMetadata,
+        gaxOptions,
+        rowType,
+        retryPolicy: mergeRetryPolicies(
+          this._getSpanner().streamRetryPolicy,
+          retryPolicy
+        ),
+        codecs,
+      },
+      this._getMetricsRecorder()
+    )
       .on('response', response => {
         if (response.metadata && response.metadata!.transaction && !this.id) {
           this._update(response.metadata!.transaction);
@@ -1224,6 +1449,25 @@ export class Snapshot extends EventEmitter {
           this.begin();
         }
       });
+
+    if (interceptors.length) {
+      let stats: spannerClient.spanner.v1.IResultSetStats | null = null;
+      const afterQuery = (error: Error | null) =>
+        notifyInterceptors(interceptors, interceptor =>
+          interceptor.afterQuery?.({request, stats, error}, context)
+        );
+      stream
+        .on('stats', resultStats => (stats = resultStats))
+        .on('end', () => afterQuery(null))
+        .on('error', afterQuery);
+    }
+    const database = this.session.parent as Database | undefined;
+    database?.queryStats?._track(
+      request as ExecuteSqlRequest,
+      stream,
+      database.databaseDialect
+    );
+    return stream;
   }
 
   /**
@@ -1249,14 +1493,18 @@ export class Snapshot extends EventEmitter {
    * @static
    *
    * @param {ReadRequest} request The read request.
+   * @param {CodecRegistry} [codecs] The custom codecs of the database.
    * @returns {object}
    */
-  static encodeKeySet(request: ReadRequest): spannerClient.spanner.v1.IKeySet {
+  static encodeKeySet(
+    request: ReadRequest,
+    codecs?: CodecRegistry
+  ): spannerClient.spanner.v1.IKeySet {
     const keySet: spannerClient.spanner.v1.IKeySet = request.keySet || {};
 
     if (request.keys) {
-      keySet.keys = arrify(request.keys as string[]).map(
-        codec.convertToListValue
+      keySet.keys = arrify(request.keys as string[]).map(key =>
+        codec.convertToListValue(key, codecs)
       );
     }
 
@@ -1265,7 +1513,7 @@ export class Snapshot extends EventEmitter {
         const encodedRange: spannerClient.spanner.v1.IKeyRange = {};
 
         Object.keys(range).forEach(bound => {
-          encodedRange[bound] = codec.convertToListValue(range[bound]);
+          encodedRange[bound] = codec.convertToListValue(range[bound], codecs);
         });
 
         return encodedRange;
@@ -1335,9 +1583,10 @@ export class Snapshot extends EventEmitter {
    * @static
    *
    * @param {ExecuteSqlRequest} request The SQL request.
+   * @param {CodecRegistry} [codecs] The custom codecs of the database.
    * @returns {object}
    */
-  static encodeParams(request: ExecuteSqlRequest) {
+  static encodeParams(request: ExecuteSqlRequest, codecs?: CodecRegistry) {
     const typeMap = request.types || {};
 
     const params: p.IStruct = {};
@@ -1350,9 +1599,9 @@ export class Snapshot extends EventEmitter {
         const value = request.params![param];
 
         if (!typeMap[param]) {
-          typeMap[param] = codec.getType(value);
+          typeMap[param] = codec.getType(value, codecs);
         }
-        fields[param] = codec.encode(value);
+        fields[param] = codec.encode(value, codecs);
       });
 
       params.fields = fields;
@@ -1390,6 +1639,42 @@ export class Snapshot extends EventEmitter {
     return directedReadOptions;
   }
 
+  /**
+   * Picks the directed read options of a read or query with the read routing
+   * policy of the client.
+   *
+   * @private
+   *
+   * @param {google.spanner.v1.IDirectedReadOptions} directedReadOptions Request directedReadOptions object.
+   * @param {object} request The SQL or the table of the request.
+   * @returns {Array} The options, and the policy if it routed the request.
+   */
+  protected _routeRead(
+    directedReadOptions:
+      | google.spanner.v1.IDirectedReadOptions
+      | null
+      | undefined,
+    request: {sql?: string; table?: string}
+  ): [
+    google.spanner.v1.IDirectedReadOptions | null | undefined,
+    ReadRoutingPolicy | null,
+  ] {
+    const policy = this._getSpanner().readRoutingPolicy;
+    if (!directedReadOptions && policy && this._options.readOnly) {
+      const routed = policy.route(
+        Object.assign({}, request, {
+          transaction: this,
+          singleUse: !this.id,
+          timestampBound: this._options.readOnly,
+        })
+      );
+      if (routed) {
+        return [routed, policy];
+      }
+    }
+    return [this._getDirectedReadOptions(directedReadOptions), null];
+  }
+
   /**
    * Update transaction properties from the response.
    *
@@ -1461,6 +1746,62 @@ export class Snapshot extends EventEmitter {
   protected _getSpanner(): Spanner {
     return this.session.parent.parent.parent as Spanner;
   }
+
+  /**
+   * Gets the transaction interceptors of the database, and the context that is
+   * passed to them.
+   *
+   * @private
+   *
+   * @returns {Array}
+   */
+  protected _getInterceptors(): [TransactionInterceptor[], InterceptorContext] {
+    const database = this.session.parent as Database;
+    return [getInterceptors(database), {database, transaction: this}];
+  }
+
+  /**
+   * Gets the custom codecs of the database and its client.
+   *
+   * @private
+   *
+   * @returns {?CodecRegistry}
+   */
+  protected _getCodecs(): CodecRegistry | undefined {
+    return getCodecs(this.session?.parent as Database | undefined);
+  }
+
+  /**
+   * Gets the metrics recorder of the database.
+   *
+   * @private
+   *
+   * @returns {MetricsRecorder}
+   */
+  protected _getMetricsRecorder(): MetricsRecorder {
+    const database = this.session?.parent as Database | undefined;
+    return getMetricsRecorder(database?.observabilityOptions_);
+  }
+
+  /**
+   * Builds the trace configuration for an operation on this transaction.
+   *
+   * @private
+   *
+   * @param {TraceConfig} [config] Additional span attributes.
+   * @returns {TraceConfig}
+   */
+  protected _traceConfig(config?: TraceConfig): TraceConfig {
+    const database = this.session?.parent as Database | undefined;
+    return Object.assign(
+      {
+        opts: database?.observabilityOptions_,
+        dbName: database?.formattedName_,
+        transactionTag: this.requestOptions?.transactionTag,
+      },
+      config
+    );
+  }
 }
 
 /*! Developer Documentation
@@ -1753,13 +2094,68 @@ export class Transaction extends Dml {
       return;
     }
 
+    let requestOptions = (options as BatchUpdateOptions).requestOptions;
+    const [interceptors, context] = this._getInterceptors();
+    let requests: ExecuteSqlRequest[] = [];
+    if (interceptors.length) {
+      try {
+        requests = queries.map(query => {
+          const request: ExecuteSqlRequest = Object.assign(
+            {},
+            typeof query === 'string' ? {sql: query} : query
+          );
+          if (request.requestOptions) {
+            // Interceptors may change the request options of the copy.
+            request.requestOptions = Object.assign({}, request.requestOptions);
+          }
+          interceptors.forEach(interceptor =>
+            interceptor.beforeQuery?.(request, context)
+          );
+          return request;
+        });
+      } catch (e) {
+        const rowCounts: number[] = [];
+        callback!(
+          Object.assign(e as Error, {rowCounts}) as BatchUpdateError,
+          rowCounts
+        );
+        return;
+      }
+      queries = requests;
+      requestOptions = Object.assign(
+        {},
+        requestOptions,
+        ...requests.map(request => request.requestOptions)
+      );
+    }
+    const afterQuery = (
+      resp: spannerClient.spanner.v1.ExecuteBatchDmlResponse | undefined,
+      error: Error | null
+    ) =>
+      requests.forEach((request, i) => {
+        const resultSet = resp?.resultSets?.[i];
+        notifyInterceptors(interceptors, interceptor =>
+          interceptor.afterQuery?.(
+            {
+              request,
+              stats: resultSet?.stats || null,
+              error: resultSet ? null : error,
+            },
+            context
+          )
+        );
+      });
+
     const statements: spannerClient.spanner.v1.ExecuteBatchDmlRequest.IStatement[] =
       queries.map(query => {
         if (typeof query === 'string') {
           return {sql: query};
         }
         const {sql} = query;
-        const {params, paramTypes} = Snapshot.encodeParams(query);
+        const {params, paramTypes} = Snapshot.encodeParams(
+          query,
+          this._getCodecs()
+        );
         return {sql, params, paramTypes};
       });
 
@@ -1774,7 +2170,7 @@ export class Transaction extends Dml {
       requestOptions: this.configureTagOptions(
         false,
         this.requestOptions?.transactionTag ?? undefined,
-        (options as BatchUpdateOptions).requestOptions
+        requestOptions
       ),
       transaction,
       seqno: this._seqno++,
@@ -1786,57 +2182,67 @@ export class Transaction extends Dml {
       addLeaderAwareRoutingHeader(headers);
     }
 
-    this.request(
-      {
-        client: 'SpannerClient',
-        method: 'executeBatchDml',
-        reqOpts,
-        gaxOpts,
-        headers: headers,
-      },
-      (
-        err: null | grpc.ServiceError,
-        resp: spannerClient.spanner.v1.ExecuteBatchDmlResponse
-      ) => {
-        let batchUpdateError: BatchUpdateError;
+    const traceConfig = this._traceConfig({
+      sql: statements.map(({sql}) => sql).join('; '),
+    });
 
-        if (err) {
-          const rowCounts: number[] = [];
-          batchUpdateError = Object.assign(err, {rowCounts});
-          callback!(batchUpdateError, rowCounts, resp);
-          return;
-        }
+    startTrace('Transaction.batchUpdate', traceConfig, span => {
+      this.request(
+        {
+          client: 'SpannerClient',
+          method: 'executeBatchDml',
+          reqOpts,
+          gaxOpts,
+          headers: headers,
+        },
+        (
+          err: null | grpc.ServiceError,
+          resp: spannerClient.spanner.v1.ExecuteBatchDmlResponse
+        ) => {
+          let batchUpdateError: BatchUpdateError;
+
+          if (err) {
+            const rowCounts: number[] = [];
+            batchUpdateError = Object.assign(err, {rowCounts});
+            afterQuery(resp, batchUpdateError);
+            endSpan(span, batchUpdateError);
+            callback!(batchUpdateError, rowCounts, resp);
+            return;
+          }
 
-        const {resultSets, status} = resp;
-        for (const resultSet of resultSets) {
-          if (!this.id && resultSet.metadata?.transaction) {
-            this._update(resultSet.metadata.transaction);
+          const {resultSets, status} = resp;
+          for (const resultSet of resultSets) {
+            if (!this.id && resultSet.metadata?.transaction) {
+              this._update(resultSet.metadata.transaction);
+            }
+          }
+          const rowCounts: number[] = resultSets.map(({stats}) => {
+            return (
+              (stats &&
+                Number(
+                  stats[
+                    (stats as spannerClient.spanner.v1.ResultSetStats).rowCount!
+                  ]
+                )) ||
+              0
+            );
+          });
+
+          if (status && status.code !== 0) {
+            const error = new Error(status.message!);
+            batchUpdateError = Object.assign(error, {
+              code: status.code,
+              metadata: Transaction.extractKnownMetadata(status.details!),
+              rowCounts,
+            }) as BatchUpdateError;
           }
-        }
-        const rowCounts: number[] = resultSets.map(({stats}) => {
-          return (
-            (stats &&
-              Number(
-                stats[
-                  (stats as spannerClient.spanner.v1.ResultSetStats).rowCount!
-                ]
-              )) ||
-            0
-          );
-        });
 
-        if (status && status.code !== 0) {
-          const error = new Error(status.message!);
-          batchUpdateError = Object.assign(error, {
-            code: status.code,
-            metadata: Transaction.extractKnownMetadata(status.details!),
-            rowCounts,
-          }) as BatchUpdateError;
+          afterQuery(resp, batchUpdateError! || null);
+          endSpan(span, batchUpdateError!);
+          callback!(batchUpdateError!, rowCounts, resp);
         }
-
-        callback!(batchUpdateError!, rowCounts, resp);
-      }
-    );
+      );
+    });
   }
 
   private static extractKnownMetadata(
@@ -1975,33 +2381,66 @@ export class Transaction extends Dml {
       this.requestOptions
     );
 
+    const [interceptors, context] = this._getInterceptors();
+    try {
+      interceptors.forEach(interceptor =>
+        interceptor.beforeCommit?.(reqOpts, context)
+      );
+    } catch (e) {
+      // A rejected commit ends the transaction, like a failed one.
+      this.end();
+      callback!(e as ServiceError);
+      return;
+    }
+
+    // Validated after the interceptors, which may add mutations.
+    const validator = (this.session.parent as Database | undefined)
+      ?.mutationValidator;
+    const report = validator?.validate(reqOpts.mutations || []);
+    if (report && !report.valid) {
+      // Invalid mutations end the transaction, like a failed commit.
+      const err: Error = new MutationValidationError(report);
+      this.end();
+      callback!(err as ServiceError);
+      return;
+    }
+
     const headers = this.resourceHeader_;
     if (this._getSpanner().routeToLeaderEnabled) {
       addLeaderAwareRoutingHeader(headers);
     }
 
-    this.request(
-      {
-        client: 'SpannerClient',
-        method: 'commit',
-        reqOpts,
-        gaxOpts: gaxOpts,
-        headers: headers,
-      },
-      (err: null | Error, resp: spannerClient.spanner.v1.ICommitResponse) => {
-        this.end();
-
-        if (resp && resp.commitTimestamp) {
-          this.commitTimestampProto = resp.commitTimestamp;
-          this.commitTimestamp = new PreciseDate(
-            resp.commitTimestamp as DateStruct
+    startTrace('Transaction.commit', this._traceConfig(), span => {
+      this.request(
+        {
+          client: 'SpannerClient',
+          method: 'commit',
+          reqOpts,
+          gaxOpts: gaxOpts,
+          headers: headers,
+        },
+        (err: null | Error, resp: spannerClient.spanner.v1.ICommitResponse) => {
+          this.end();
+
+          if (resp && resp.commitTimestamp) {
+            this.commitTimestampProto = resp.commitTimestamp;
+            this.commitTimestamp = new PreciseDate(
+              resp.commitTimestamp as DateStruct
+            );
+          }
+          err = Transaction.decorateCommitError(err as ServiceError, mutations);
+          notifyInterceptors(interceptors, interceptor =>
+            interceptor.afterCommit?.(
+              {request: reqOpts, response: resp || null, error: err},
+              context
+            )
           );
-        }
-        err = Transaction.decorateCommitError(err as ServiceError, mutations);
 
-        callback!(err as ServiceError | null, resp);
-      }
-    );
+          endSpan(span, err);
+          callback!(err as ServiceError | null, resp);
+        }
+      );
+    });
   }
 
   /**
@@ -2137,7 +2576,9 @@ export class Transaction extends Dml {
    * ```
    */
   deleteRows(table: string, keys: Key[]): void {
-    this._queuedMutations.push(buildDeleteMutation(table, keys));
+    this._queuedMutations.push(
+      buildDeleteMutation(table, keys, this._getCodecs())
+    );
   }
 
   /**
@@ -2313,19 +2754,22 @@ export class Transaction extends Dml {
       addLeaderAwareRoutingHeader(headers);
     }
 
-    this.request(
-      {
-        client: 'SpannerClient',
-        method: 'rollback',
-        reqOpts,
-        gaxOpts,
-        headers: headers,
-      },
-      (err: null | ServiceError) => {
-        this.end();
-        callback!(err);
-      }
-    );
+    startTrace('Transaction.rollback', this._traceConfig(), span => {
+      this.request(
+        {
+          client: 'SpannerClient',
+          method: 'rollback',
+          reqOpts,
+          gaxOpts,
+          headers: headers,
+        },
+        (err: null | ServiceError) => {
+          this.end();
+          endSpan(span, err);
+          callback!(err);
+        }
+      );
+    });
   }
 
   /**
@@ -2420,7 +2864,9 @@ export class Transaction extends Dml {
     table: string,
     keyVals: object | object[]
   ): void {
-    this._queuedMutations.push(buildMutation(method, table, keyVals));
+    this._queuedMutations.push(
+      buildMutation(method, table, keyVals, this._getCodecs())
+    );
   }
 
   /**
@@ -2481,19 +2927,41 @@ promisifyAll(Transaction, {
   exclude: ['deleteRows', 'insert', 'replace', 'update', 'upsert'],
 });
 
+/**
+ * Applies the `dateAs` and `timestampAs` options of a client to a request that
+ * does not set them. They do not apply to a request with a `rowType`, whose
+ * rows have the type that is inferred from the request itself.
+ *
+ * @private
+ */
+export function withDecodeDefaults<T extends RequestOptions>(
+  request: T,
+  spanner: Spanner | undefined
+): T {
+  if (request.rowType) {
+    return request;
+  }
+  return Object.assign({}, request, {
+    dateAs: request.dateAs || spanner?.dateAs,
+    timestampAs: request.timestampAs || spanner?.timestampAs,
+  });
+}
+
 /**
  * Builds an array of protobuf Mutations from the given row(s).
  *
  * @param {string} method - CRUD method (insert, update, etc.).
  * @param {string} table - Table to perform mutations in.
  * @param {object | object[]} keyVals - Hash of key-value pairs representing the rows.
+ * @param {CodecRegistry} [codecs] - The custom codecs of the database.
  * @returns {spannerClient.spanner.v1.Mutation} - The formatted mutation.
  * @throws {GoogleError} - If a row does not contain the correct number of columns.
  */
 function buildMutation(
   method: string,
   table: string,
-  keyVals: object | object[]
+  keyVals: object | object[],
+  codecs?: CodecRegistry
 ): spannerClient.spanner.v1.Mutation {
   const rows: object[] = arrify(keyVals);
   const columns = Transaction.getUniqueKeys(rows);
@@ -2512,7 +2980,7 @@ function buildMutation(
     }
 
     const values = columns.map(column => row[column]);
-    return codec.convertToListValue(values);
+    return codec.convertToListValue(values, codecs);
   });
 
   const mutation: spannerClient.spanner.v1.IMutation = {
@@ -2526,14 +2994,16 @@ function buildMutation(
  *
  * @param {string} table - The name of the table.
  * @param {Key[]} keys - The keys for the rows to delete.
+ * @param {CodecRegistry} [codecs] - The custom codecs of the database.
  * @returns {spannerClient.spanner.v1.Mutation} - The formatted delete mutation.
  */
 function buildDeleteMutation(
   table: string,
-  keys: Key[]
+  keys: Key[],
+  codecs?: CodecRegistry
 ): spannerClient.spanner.v1.Mutation {
   const keySet: spannerClient.spanner.v1.IKeySet = {
-    keys: arrify(keys).map(codec.convertToListValue),
+    keys: arrify(keys).map(key => codec.convertToListValue(key, codecs)),
   };
   const mutation: spannerClient.spanner.v1.IMutation = {
     delete: {table, keySet},
@@ -2643,6 +3113,16 @@ export class MutationSet {
   proto(): spannerClient.spanner.v1.Mutation[] {
     return this._queuedMutations;
   }
+
+  /**
+   * Validates the queued mutations, and estimates how many mutations Spanner
+   * counts for them.
+   * @param {MutationValidatorOptions} [options] The schema and limits to validate against.
+   * @returns {MutationReport} The report of the validation.
+   */
+  validate(options?: MutationValidatorOptions): MutationReport {
+    return new MutationValidator(options).validate(this._queuedMutations);
+  }
 }
 
 /**
@@ -2707,6 +3187,16 @@ export class MutationGroup {
   proto(): spannerClient.spanner.v1.BatchWriteRequest.IMutationGroup {
     return this._proto;
   }
+
+  /**
+   * Validates the queued mutations, and estimates how many mutations Spanner
+   * counts for them.
+   * @param {MutationValidatorOptions} [options] The schema and limits to validate against.
+   * @returns {MutationReport} The report of the validation.
+   */
+  validate(options?: MutationValidatorOptions): MutationReport {
+    return new MutationValidator(options).validate(this._proto.mutations);
+  }
 }
 
 /**
@@ -0,0 +1,359 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {GoogleError} from 'google-gax';
+import type {
+  DeleteRowsOptions,
+  DeleteRowsResponse,
+  InsertRowsOptions,
+  InsertRowsResponse,
+  ReplaceRowsOptions,
+  ReplaceRowsResponse,
+  Table,
+  UpdateRowsOptions,
+  UpdateRowsResponse,
+  UpsertRowsOptions,
+  UpsertRowsResponse,
+} from './table';
+import type {ReadRequest, TimestampBounds} from './transaction';
+
+/**
+ * @typedef {object} TypedTableOptions
+ * @property {string[]} primaryKey The primary key columns, in order.
+ * @property {string[]} [columns] The columns that are read by default. They
+ *     must be of the type `D`, which is the type argument of the
+ *     {@link TypedTable} that types the rows that are read by default.
+ */
+export interface TypedTableOptions<
+  R extends object,
+  D extends keyof R & string = never,
+> {
+  primaryKey: Array<keyof R & string>;
+  columns?: D[];
+}
+
+/**
+ * The prefixes of a composite key, from the empty prefix to the key itself.
+ *
+ * @private
+ */
+type Prefixes<K extends readonly unknown[]> = K extends readonly [
+  ...infer P,
+  unknown,
+]
+  ? K | Prefixes<P>
+  : K;
+
+/**
+ * A key of a typed table, or a prefix of a composite key.
+ */
+export type KeyPrefix<K> = K extends readonly unknown[] ? Prefixes<K> : K | [];
+
+/**
+ * A range of the keys of a typed table. Every bound is a key or a prefix of
+ * a key. A range without a start starts at the first row of the table, and a
+ * range without an end ends at its last row.
+ *
+ * @typedef {object} TypedKeyRange
+ * @property {Array} [startClosed] The range starts at this key, inclusive.
+ * @property {Array} [startOpen] The range starts after this key.
+ * @property {Array} [endClosed] The range ends at this key, inclusive.
+ * @property {Array} [endOpen] The range ends before this key.
+ */
+export interface TypedKeyRange<K> {
+  startClosed?: KeyPrefix<K>;
+  startOpen?: KeyPrefix<K>;
+  endClosed?: KeyPrefix<K>;
+  endOpen?: KeyPrefix<K>;
+}
+
+/**
+ * The options of the reads of a typed table. All options of a
+ * {@link ReadRequest} are supported, except for the keys and the format of
+ * the rows.
+ *
+ * @typedef {object} TypedReadOptions
+ * @property {string[]} [columns] The columns to read. Defaults to the
+ *     `columns` of the table.
+ * @property {TimestampBounds} [timestampBounds] The timestamp bounds of the
+ *     read.
+ */
+export type TypedReadOptions<
+  R extends object,
+  C extends keyof R & string,
+> = Omit<ReadRequest, 'keys' | 'ranges' | 'keySet' | 'columns' | 'json'> & {
+  columns?: C[];
+  timestampBounds?: TimestampBounds;
+};
+
+/**
+ * A handle to a table whose rows have the type `R` and whose keys have the
+ * type `K`, such as `number` for a key with one column or
+ * `[number, string]` for a composite key. `D` is the union of the columns
+ * that are read by default. Rows are read as JSON and are returned with the
+ * type of the columns that are read.
+ *
+ * The arity of keys is checked before they are sent to Spanner. The handle
+ * does not check the types of the values of rows at runtime.
+ *
+ * This object is created and returned from {@link Database#table} when the
+ * primary key of the table is given.
+ *
+ * @class
+ *
+ * @param {Table} table The untyped table.
+ * @param {TypedTableOptions} options The primary key and the default columns.
+ *
+ * @example
+ * ```
+ * const {Spanner} = require('@google-cloud/spanner');
+ * const spanner = new Spanner();
+ *
+ * const database = spanner.instance('my-instance').database('my-database');
+ *
+ * interface Album {
+ *   SingerId: number;
+ *   AlbumId: number;
+ *   Title: string | null;
+ * }
+ * const albums = database.table<Album, [number, number], keyof Album>(
+ *   'Albums',
+ *   {
+ *     primaryKey: ['SingerId', 'AlbumId'],
+ *     columns: ['SingerId', 'AlbumId', 'Title'],
+ *   }
+ * );
+ *
+ * await albums.insert({SingerId: 1, AlbumId: 1, Title: 'Total Junk'});
+ * const album = await albums.get([1, 1], {columns: ['Title']});
+ * const singerAlbums = await albums.scan({startClosed: [1], endClosed: [1]});
+ * ```
+ */
+export class TypedTable<
+  R extends object,
+  K = unknown,
+  D extends keyof R & string = never,
+> {
+  /**
+   * The untyped table.
+   * @name TypedTable#table
+   * @type {Table}
+   */
+  table: Table;
+  /**
+   * The primary key columns.
+   * @name TypedTable#primaryKey
+   * @type {string[]}
+   */
+  primaryKey: Array<keyof R & string>;
+  /**
+   * The columns that are read by default.
+   * @name TypedTable#columns
+   * @type {?string[]}
+   */
+  columns: D[] | null;
+
+  constructor(table: Table, options: TypedTableOptions<R, D>) {
+    if (!options.primaryKey || !options.primaryKey.length) {
+      throw new GoogleError('A primary key is required to type a Table.');
+    }
+    this.table = table;
+    this.primaryKey = options.primaryKey;
+    this.columns = options.columns || null;
+  }
+
+  /**
+   * Reads a row.
+   *
+   * @param {*} key The key of the row.
+   * @param {TypedReadOptions} [options] Options of the read.
+   * @returns {Promise<?object>} The row, or `null` if it does not exist.
+   */
+  async get<C extends keyof R & string = D>(
+    key: K,
+    options: TypedReadOptions<R, C> = {}
+  ): Promise<Pick<R, C> | null> {
+    const [row] = await this._read<C>({keys: [this._encodeKey(key)]}, options);
+    return row || null;
+  }
+
+  /**
+   * Reads rows. The rows are returned in the order of the table, and rows
+   * that do not exist are left out.
+   *
+   * @param {Array} keys The keys of the rows.
+   * @param {TypedReadOptions} [options] Options of the read.
+   * @returns {Promise<object[]>}
+   */
+  async getMany<C extends keyof R & string = D>(
+    keys: K[],
+    options: TypedReadOptions<R, C> = {}
+  ): Promise<Array<Pick<R, C>>> {
+    if (!keys.length) {
+      // An empty key set would read the whole table.
+      return [];
+    }
+    return this._read<C>(
+      {keys: keys.map(key => this._encodeKey(key))},
+      options
+    );
+  }
+
+  /**
+   * Reads the rows in a range of keys, in the order of the table.
+   *
+   * @param {TypedKeyRange} [range] The range. Defaults to the whole table.
+   * @param {TypedReadOptions} [options] Options of the read.
+   * @returns {Promise<object[]>}
+   */
+  async scan<C extends keyof R & string = D>(
+    range: TypedKeyRange<K> = {},
+    options: TypedReadOptions<R, C> = {}
+  ): Promise<Array<Pick<R, C>>> {
+    const start =
+      range.startOpen !== undefined
+        ? {startOpen: this._encodeKey(range.startOpen, true)}
+        : {startClosed: this._encodeKey(range.startClosed ?? [], true)};
+    const end =
+      range.endOpen !== undefined
+        ? {endOpen: this._encodeKey(range.endOpen, true)}
+        : {endClosed: this._encodeKey(range.endClosed ?? [], true)};
+    return this._read<C>(
+      {ranges: [Object.assign(start, end)] as ReadRequest['ranges']},
+      options
+    );
+  }
+
+  /**
+   * Inserts rows. See {@link Table#insert}.
+   *
+   * @param {object|object[]} rows The rows.
+   * @param {InsertRowsOptions} [options] Options of the commit.
+   * @returns {Promise<InsertRowsResponse>}
+   */
+  insert(
+    rows: R | R[],
+    options?: InsertRowsOptions
+  ): Promise<InsertRowsResponse> {
+    return this.table.insert(rows, options);
+  }
+
+  /**
+   * Updates columns of existing rows. Every row must contain the primary key
+   * columns. See {@link Table#update}.
+   *
+   * @param {object|object[]} rows The rows.
+   * @param {UpdateRowsOptions} [options] Options of the commit.
+   * @returns {Promise<UpdateRowsResponse>}
+   */
+  update(
+    rows: Partial<R> | Array<Partial<R>>,
+    options?: UpdateRowsOptions
+  ): Promise<UpdateRowsResponse> {
+    return this.table.update(rows, options);
+  }
+
+  /**
+   * Inserts rows, or updates the columns of the rows that exist. See
+   * {@link Table#upsert}.
+   *
+   * @param {object|object[]} rows The rows.
+   * @param {UpsertRowsOptions} [options] Options of the commit.
+   * @returns {Promise<UpsertRowsResponse>}
+   */
+  upsert(
+    rows: Partial<R> | Array<Partial<R>>,
+    options?: UpsertRowsOptions
+  ): Promise<UpsertRowsResponse> {
+    return this.table.upsert(rows, options);
+  }
+
+  /**
+   * Replaces rows. See {@link Table#replace}.
+   *
+   * @param {object|object[]} rows The rows.
+   * @param {ReplaceRowsOptions} [options] Options of the commit.
+   * @returns {Promise<ReplaceRowsResponse>}
+   */
+  replace(
+    rows: R | R[],
+    options?: ReplaceRowsOptions
+  ): Promise<ReplaceRowsResponse> {
+    return this.table.replace(rows, options);
+  }
+
+  /**
+   * Deletes rows. Unlike {@link Table#delete}, this does not drop the table.
+   *
+   * @param {Array} keys The keys of the rows.
+   * @param {DeleteRowsOptions} [options] Options of the commit.
+   * @returns {Promise<DeleteRowsResponse>}
+   */
+  async delete(
+    keys: K[],
+    options?: DeleteRowsOptions
+  ): Promise<DeleteRowsResponse> {
+    const encoded = keys.map(key => this._encodeKey(key));
+    return this.table.deleteRows(encoded, options);
+  }
+
+  /**
+   * Reads rows as JSON.
+   *
+   * @private
+   */
+  private async _read<C extends keyof R & string>(
+    keySet: Pick<ReadRequest, 'keys' | 'ranges'>,
+    options: TypedReadOptions<R, C>
+  ): Promise<Array<Pick<R, C>>> {
+    const {columns = this.columns, timestampBounds, ...request} = options;
+    if (!columns || !columns.length) {
+      throw new GoogleError(
+        `The columns to read from table ${this.table.name} are required.`
+      );
+    }
+    const [rows] = await this.table.read(
+      Object.assign(request, keySet, {columns, json: true}),
+      timestampBounds
+    );
+    return rows as {} as Array<Pick<R, C>>;
+  }
+
+  /**
+   * Converts a key to the list of its parts, and checks its arity.
+   *
+   * @private
+   */
+  private _encodeKey(key: unknown, prefix = false): Array<string | bigint> {
+    const parts =
+      this.primaryKey.length === 1 && !Array.isArray(key) ? [key] : key;
+    if (!Array.isArray(parts)) {
+      throw new GoogleError(
+        `The key of table ${this.table.name} must be an array of ${this.primaryKey.length} values.`
+      );
+    }
+    if (
+      prefix
+        ? parts.length > this.primaryKey.length
+        : parts.length !== this.primaryKey.length
+    ) {
+      throw new GoogleError(
+        `Key [${parts.map(String).join(', ')}] has ${parts.length} values, but the primary key of table ${this.table.name} has ${this.primaryKey.length} columns.`
+      );
+    }
+    return parts;
+  }
+}
@@ -92,6 +92,14 @@ class FakeTransaction {
     return SPANNER as Spanner;
   }
 
+  _getCodecs(): undefined {
+    return undefined;
+  }
+
+  _traceConfig(): object {
+    return {};
+  }
+
   run() {}
   read() {}
 }
@@ -0,0 +1,232 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from 'assert';
+import {beforeEach, describe, it} from 'mocha';
+import {PassThrough, Readable, pipeline} from 'stream';
+import {promisify} from 'util';
+import {grpc} from 'google-gax';
+import {google} from '../protos/protos';
+import {BulkWriteFailure, BulkWriter} from '../src/bulk-writer';
+import {Database} from '../src/database';
+import {MutationGroup, MutationSet} from '../src/transaction';
+
+const pipelineAsync = promisify(pipeline);
+
+function singers(count: number) {
+  return Array.from({length: count}, (_, i) => ({
+    SingerId: String(i),
+    Name: `Singer ${i}`,
+  }));
+}
+
+describe('BulkWriter', () => {
+  let commits: google.spanner.v1.IMutation[][];
+  let commitError: Error | null;
+  let active: number;
+  let maxActive: number;
+  let batchWrites: MutationGroup[][];
+  let batchWriteResponses: Array<google.spanner.v1.IBatchWriteResponse | Error>;
+  let database: Database;
+  let failures: BulkWriteFailure[];
+
+  beforeEach(() => {
+    commits = [];
+    commitError = null;
+    active = 0;
+    maxActive = 0;
+    batchWrites = [];
+    batchWriteResponses = [];
+    failures = [];
+    database = {
+      writeAtLeastOnce: async (mutations: MutationSet) => {
+        commits.push(mutations.proto());
+        active++;
+        maxActive = Math.max(active, maxActive);
+        await new Promise(resolve => setImmediate(resolve));
+        active--;
+        if (commitError) {
+          throw commitError;
+        }
+        return [{}];
+      },
+      batchWriteAtLeastOnce: (groups: MutationGroup[]) => {
+        batchWrites.push(groups);
+        const stream = new PassThrough({objectMode: true});
+        setImmediate(() => {
+          for (const response of batchWriteResponses) {
+            if (response instanceof Error) {
+              stream.destroy(response);
+              return;
+            }
+            stream.write(response);
+          }
+          stream.end();
+        });
+        return stream;
+      },
+    } as unknown as Database;
+  });
+
+  function write(rows: object[], writer: BulkWriter): Promise<void> {
+    writer.on('failure', failure => failures.push(failure));
+    return pipelineAsync(Readable.from(rows), writer);
+  }
+
+  it('should split batches at the mutation limit', async () => {
+    const writer = new BulkWriter(database, 'Singers', {maxMutations: 4});
+
+    await write(singers(5), writer);
+
+    assert.deepStrictEqual(
+      commits.map(mutations => mutations.length),
+      [2, 2, 1]
+    );
+    assert.deepStrictEqual(commits[0][0], {
+      insertOrUpdate: {
+        table: 'Singers',
+        columns: ['Name', 'SingerId'],
+        values: [{values: [{stringValue: 'Singer 0'}, {stringValue: '0'}]}],
+      },
+    });
+    assert.strictEqual(writer.written, 5);
+    assert.strictEqual(writer.failed, 0);
+  });
+
+  it('should count the mutations of secondary indexes', async () => {
+    const writer = new BulkWriter(database, 'Singers', {
+      mode: 'insert',
+      maxMutations: 8,
+      indexCount: 1,
+    });
+
+    await write(singers(4), writer);
+
+    assert.deepStrictEqual(
+      commits.map(mutations => mutations.length),
+      [2, 2]
+    );
+    assert.ok(commits[0][0].insert);
+  });
+
+  it('should split batches at the size limit', async () => {
+    const writer = new BulkWriter(database, 'Singers', {maxBytes: 100});
+    const batches: Array<{rows: number; bytes: number}> = [];
+    writer.on('batch', batch => batches.push(batch));
+
+    await write(singers(6), writer);
+
+    assert.ok(batches.length > 1);
+    batches.forEach(batch => assert.ok(batch.bytes <= 100));
+    assert.strictEqual(
+      batches.reduce((rows, batch) => rows + batch.rows, 0),
+      6
+    );
+  });
+
+  it('should report rows that exceed the limits', async () => {
+    const writer = new BulkWriter(database, 'Singers', {maxBytes: 50});
+
+    await write(
+      [{SingerId: '1', Name: 'x'.repeat(100)}, ...singers(1)],
+      writer
+    );
+
+    assert.strictEqual(failures.length, 1);
+    assert.strictEqual(failures[0].index, 0);
+    assert.match(failures[0].error.message, /exceeds the limit/);
+    assert.strictEqual(writer.written, 1);
+    assert.strictEqual(writer.failed, 1);
+  });
+
+  it('should limit the number of concurrent batches', async () => {
+    const writer = new BulkWriter(database, 'Singers', {
+      maxMutations: 2,
+      concurrency: 2,
+    });
+
+    await write(singers(10), writer);
+
+    assert.strictEqual(commits.length, 10);
+    assert.strictEqual(maxActive, 2);
+  });
+
+  it('should report all rows of a failed commit', async () => {
+    commitError = new Error('Commit failed');
+    const writer = new BulkWriter(database, 'Singers');
+
+    await write(singers(3), writer);
+
+    assert.deepStrictEqual(
+      failures.map(({index, error}) => [index, error]),
+      [
+        [0, commitError],
+        [1, commitError],
+        [2, commitError],
+      ]
+    );
+    assert.strictEqual(writer.failed, 3);
+  });
+
+  it('should report the statuses of batch writes per row', async () => {
+    batchWriteResponses = [
+      {indexes: [0, 2], status: {code: grpc.status.OK}},
+      {
+        indexes: [1],
+        status: {code: grpc.status.ALREADY_EXISTS, message: 'Row exists'},
+      },
+    ];
+    const writer = new BulkWriter(database, 'Singers', {
+      method: 'batchWriteAtLeastOnce',
+    });
+
+    await write(singers(4), writer);
+
+    assert.strictEqual(batchWrites.length, 1);
+    assert.strictEqual(batchWrites[0].length, 4);
+    assert.strictEqual(writer.written, 2);
+    assert.deepStrictEqual(
+      failures.map(({index, error}) => [index, error.message]),
+      [
+        [1, 'Row exists'],
+        [3, 'The batch write ended without a response for the row.'],
+      ]
+    );
+    assert.strictEqual(
+      (failures[0].error as grpc.ServiceError).code,
+      grpc.status.ALREADY_EXISTS
+    );
+  });
+
+  it('should report the unwritten rows of a failed batch write', async () => {
+    const error = new Error('Stream failed');
+    batchWriteResponses = [
+      {indexes: [0], status: {code: grpc.status.OK}},
+      error,
+    ];
+    const writer = new BulkWriter(database, 'Singers', {
+      method: 'batchWriteAtLeastOnce',
+    });
+
+    await write(singers(2), writer);
+
+    assert.strictEqual(writer.written, 1);
+    assert.deepStrictEqual(
+      failures.map(({index, error}) => [index, error]),
+      [[1, error]]
+    );
+  });
+});
@@ -0,0 +1,412 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from 'assert';
+import {beforeEach, describe, it} from 'mocha';
+import {PreciseDate} from '@google-cloud/precise-date';
+import {Readable} from 'stream';
+import {
+  ChangeRecord,
+  ChangeStream,
+  decodeChangeRecords,
+} from '../src/change-stream';
+import {PGJsonb} from '../src/codec';
+import {Database} from '../src/database';
+import {ExecuteSqlRequest} from '../src/transaction';
+
+const START = '2026-10-01T00:00:00.000000000Z';
+const END = '2026-10-01T01:00:00.000000000Z';
+
+function dataChange(timestamp: string, table = 'Singers') {
+  return {
+    commit_timestamp: new PreciseDate(timestamp),
+    record_sequence: '00000000',
+    server_transaction_id: 'transaction-1',
+    is_last_record_in_transaction_in_partition: true,
+    table_name: table,
+    column_types: [
+      {
+        name: 'SingerId',
+        type: {code: 'INT64'},
+        is_primary_key: true,
+        ordinal_position: 1,
+      },
+    ],
+    mods: [{keys: {SingerId: '1'}, new_values: {}, old_values: {}}],
+    mod_type: 'INSERT',
+    value_capture_type: 'OLD_AND_NEW_VALUES',
+    number_of_records_in_transaction: 1,
+    number_of_partitions_in_transaction: 1,
+    transaction_tag: '',
+    is_system_transaction: false,
+  };
+}
+
+function heartbeat(timestamp: string) {
+  return {timestamp: new PreciseDate(timestamp)};
+}
+
+function children(timestamp: string, ...tokens: Array<[string, string[]]>) {
+  return {
+    start_timestamp: new PreciseDate(timestamp),
+    record_sequence: '00000001',
+    child_partitions: tokens.map(([token, parents]) => ({
+      token,
+      parent_partition_tokens: parents,
+    })),
+  };
+}
+
+/**
+ * Wraps records in a row as it is returned by a GoogleSQL change stream query.
+ */
+function row(records: {
+  data_change_record?: object[];
+  heartbeat_record?: object[];
+  child_partitions_record?: object[];
+}) {
+  return {
+    ChangeRecord: [
+      Object.assign(
+        {
+          data_change_record: [],
+          heartbeat_record: [],
+          child_partitions_record: [],
+        },
+        records
+      ),
+    ],
+  };
+}
+
+async function readAll(stream: Readable): Promise<ChangeRecord[]> {
+  const records: ChangeRecord[] = [];
+  for await (const record of stream) {
+    records.push(record);
+  }
+  return records;
+}
+
+describe('ChangeStream', () => {
+  let queries: ExecuteSqlRequest[];
+  let partitions: {[token: string]: object[]};
+  let dialect: string;
+  let database: Database;
+  let changeStream: ChangeStream;
+
+  beforeEach(() => {
+    queries = [];
+    partitions = {};
+    dialect = 'GOOGLE_STANDARD_SQL';
+    database = {
+      getDatabaseDialect: async () => dialect,
+      runStream: (query: ExecuteSqlRequest) => {
+        queries.push(query);
+        const params = query.params!;
+        const token =
+          dialect === 'POSTGRESQL' ? params.p3 : params.partitionToken;
+        return Readable.from(partitions[token || 'root'] || []);
+      },
+    } as unknown as Database;
+    changeStream = new ChangeStream(database, 'EverythingStream');
+  });
+
+  describe('createQuery', () => {
+    it('should create a GoogleSQL query', () => {
+      const start = new PreciseDate(START);
+      const query = changeStream.createQuery(
+        'GOOGLE_STANDARD_SQL',
+        'token-1',
+        start,
+        null,
+        1000
+      );
+      assert.strictEqual(
+        query.sql,
+        'SELECT ChangeRecord FROM READ_EverythingStream(' +
+          'start_timestamp => @startTimestamp, ' +
+          'end_timestamp => @endTimestamp, ' +
+          'partition_token => @partitionToken, ' +
+          'heartbeat_milliseconds => @heartbeatMilliseconds)'
+      );
+      assert.deepStrictEqual(query.params, {
+        startTimestamp: start,
+        endTimestamp: null,
+        partitionToken: 'token-1',
+        heartbeatMilliseconds: 1000,
+      });
+      assert.strictEqual(
+        (query.types as {[param: string]: string}).endTimestamp,
+        'timestamp'
+      );
+      assert.strictEqual(query.json, true);
+    });
+
+    it('should create a PostgreSQL query', () => {
+      const start = new PreciseDate(START);
+      const end = new PreciseDate(END);
+      const query = changeStream.createQuery(
+        'POSTGRESQL',
+        null,
+        start,
+        end,
+        10
+      );
+      assert.strictEqual(
+        query.sql,
+        'SELECT * FROM "spanner"."read_json_EverythingStream"($1, $2, $3, $4, null)'
+      );
+      assert.deepStrictEqual(query.params, {
+        p1: start,
+        p2: end,
+        p3: null,
+        p4: 10,
+      });
+    });
+  });
+
+  describe('decodeChangeRecords', () => {
+    it('should decode GoogleSQL records', () => {
+      const records = decodeChangeRecords(
+        row({
+          data_change_record: [dataChange(START)],
+          heartbeat_record: [heartbeat(END)],
+        }),
+        'token-1'
+      );
+      assert.deepStrictEqual(records, [
+        {
+          type: 'dataChange',
+          partitionToken: 'token-1',
+          commitTimestamp: new PreciseDate(START),
+          recordSequence: '00000000',
+          serverTransactionId: 'transaction-1',
+          isLastRecordInTransactionInPartition: true,
+          tableName: 'Singers',
+          columnTypes: [
+            {
+              name: 'SingerId',
+              type: {code: 'INT64'},
+              isPrimaryKey: true,
+              ordinalPosition: 1,
+            },
+          ],
+          mods: [{keys: {SingerId: '1'}, newValues: {}, oldValues: {}}],
+          modType: 'INSERT',
+          valueCaptureType: 'OLD_AND_NEW_VALUES',
+          numberOfRecordsInTransaction: 1,
+          numberOfPartitionsInTransaction: 1,
+          transactionTag: '',
+          isSystemTransaction: false,
+        },
+        {
+          type: 'heartbeat',
+          partitionToken: 'token-1',
+          timestamp: new PreciseDate(END),
+        },
+      ]);
+    });
+
+    it('should decode PostgreSQL records', () => {
+      const records = decodeChangeRecords(
+        {
+          read_json_EverythingStream: new PGJsonb({
+            child_partitions_record: {
+              start_timestamp: START,
+              record_sequence: '00000001',
+              child_partitions: [
+                {token: 'token-2', parent_partition_tokens: ['token-1']},
+              ],
+            },
+          }),
+        },
+        'token-1'
+      );
+      assert.deepStrictEqual(records, [
+        {
+          type: 'childPartitions',
+          partitionToken: 'token-1',
+          startTimestamp: new PreciseDate(START),
+          recordSequence: '00000001',
+          childPartitions: [
+            {token: 'token-2', parentPartitionTokens: ['token-1']},
+          ],
+        },
+      ]);
+    });
+  });
+
+  describe('read', () => {
+    it('should require a start timestamp or a checkpoint', () => {
+      assert.throws(
+        () => changeStream.read({}),
+        /A start timestamp or a checkpoint is required/
+      );
+    });
+
+    it('should follow splits and merges of partitions', async () => {
+      partitions = {
+        root: [
+          row({
+            child_partitions_record: [children(START, ['a', []], ['b', []])],
+          }),
+        ],
+        a: [
+          row({data_change_record: [dataChange('2026-10-01T00:01:00Z')]}),
+          row({
+            child_partitions_record: [
+              children('2026-10-01T00:02:00Z', ['c', ['a', 'b']]),
+            ],
+          }),
+        ],
+        b: [
+          row({heartbeat_record: [heartbeat('2026-10-01T00:01:30Z')]}),
+          row({
+            child_partitions_record: [
+              children('2026-10-01T00:02:00Z', ['c', ['a', 'b']]),
+            ],
+          }),
+        ],
+        c: [row({data_change_record: [dataChange('2026-10-01T00:03:00Z')]})],
+      };
+
+      const records = await readAll(
+        changeStream.read({start: START, end: END, heartbeatMs: 1000})
+      );
+
+      assert.deepStrictEqual(
+        queries.map(query => query.params!.partitionToken),
+        [null, 'a', 'b', 'c']
+      );
+      assert.deepStrictEqual(
+        queries.map(query =>
+          (query.params!.startTimestamp as PreciseDate).toISOString()
+        ),
+        [
+          '2026-10-01T00:00:00.000000000Z',
+          '2026-10-01T00:00:00.000000000Z',
+          '2026-10-01T00:00:00.000000000Z',
+          '2026-10-01T00:02:00.000000000Z',
+        ]
+      );
+      assert.strictEqual(records.length, 6);
+      // The merged partition is read after all records of its parents.
+      const last = records[records.length - 1];
+      assert.strictEqual(last.type, 'dataChange');
+      assert.strictEqual(last.partitionToken, 'c');
+    });
+
+    it('should follow partitions when the reader is flowing', async () => {
+      partitions = {
+        root: [row({child_partitions_record: [children(START, ['a', []])]})],
+        a: [
+          row({data_change_record: [dataChange('2026-10-01T00:01:00Z')]}),
+          row({
+            child_partitions_record: [
+              children('2026-10-01T00:02:00Z', ['b', ['a']]),
+            ],
+          }),
+        ],
+        b: [row({data_change_record: [dataChange('2026-10-01T00:03:00Z')]})],
+      };
+
+      const reader = changeStream.read({start: START, end: END});
+      const records: ChangeRecord[] = [];
+      await new Promise((resolve, reject) => {
+        reader
+          .on('data', record => records.push(record))
+          .on('error', reject)
+          .on('end', resolve);
+      });
+
+      assert.deepStrictEqual(
+        queries.map(query => query.params!.partitionToken),
+        [null, 'a', 'b']
+      );
+      assert.deepStrictEqual(
+        records.map(record => record.partitionToken),
+        [null, 'a', 'a', 'b']
+      );
+      assert.deepStrictEqual(reader.checkpoint(), {partitions: []});
+    });
+
+    it('should use the PostgreSQL query in a PostgreSQL database', async () => {
+      dialect = 'POSTGRESQL';
+      partitions = {
+        root: [
+          {
+            read_json_EverythingStream: new PGJsonb({
+              heartbeat_record: {timestamp: END},
+            }),
+          },
+        ],
+      };
+      const records = await readAll(changeStream.read({start: START}));
+      assert.strictEqual(queries.length, 1);
+      assert.ok(queries[0].sql!.includes('read_json_EverythingStream'));
+      assert.strictEqual(records[0].type, 'heartbeat');
+    });
+
+    it('should resume from a checkpoint', async () => {
+      partitions = {
+        root: [row({child_partitions_record: [children(START, ['a', []])]})],
+        a: [
+          row({data_change_record: [dataChange('2026-10-01T00:01:00Z')]}),
+          row({data_change_record: [dataChange('2026-10-01T00:02:00Z')]}),
+        ],
+      };
+      const reader = changeStream.read({start: START, end: END});
+      const iterator = reader[Symbol.asyncIterator]();
+      await iterator.next();
+      const second = await iterator.next();
+      assert.strictEqual(second.value.partitionToken, 'a');
+      const checkpoint = reader.checkpoint();
+      reader.destroy();
+
+      assert.deepStrictEqual(JSON.parse(JSON.stringify(checkpoint)), {
+        partitions: [
+          {
+            token: 'a',
+            start: '2026-10-01T00:01:00.000000000Z',
+            parentPartitionTokens: [],
+          },
+        ],
+      });
+
+      queries = [];
+      const records = await readAll(changeStream.read({checkpoint, end: END}));
+      assert.deepStrictEqual(
+        queries.map(query => query.params!.partitionToken),
+        ['a']
+      );
+      assert.strictEqual(records.length, 2);
+    });
+
+    it('should emit errors of the queries', async () => {
+      database.runStream = () =>
+        new Readable({
+          objectMode: true,
+          read() {
+            this.destroy(new Error('Query failed'));
+          },
+        }) as ReturnType<Database['runStream']>;
+      await assert.rejects(
+        readAll(changeStream.read({start: START})),
+        /Query failed/
+      );
+    });
+  });
+});
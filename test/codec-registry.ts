@@ -0,0 +1,263 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from 'assert';
+import {after, afterEach, before, describe, it} from 'mocha';
+import {google} from '../protos/protos';
+import {codec, Numeric} from '../src/codec';
+import {CodecRegistry, CustomCodec, getCodecs} from '../src/codec-registry';
+import {Database} from '../src/database';
+import {
+  createSimpleResultSet,
+  Emulator,
+  startEmulator,
+  StatementResult,
+} from '../src/testing';
+import v1 = google.spanner.v1;
+
+const SELECT = 'SELECT * FROM NUMBERS';
+
+class Sku {
+  constructor(readonly id: string) {}
+}
+
+class Money {
+  constructor(readonly cents: number) {}
+}
+
+const SKU: CustomCodec<Sku> = {
+  typeCode: 'STRING',
+  class: Sku,
+  columns: ['ProductId', 'Related'],
+  encode: sku => sku.id,
+  decode: value => new Sku(value),
+};
+
+const MONEY: CustomCodec<Money> = {
+  typeCode: 'NUMERIC',
+  class: Money,
+  encode: money => new Numeric((money.cents / 100).toFixed(2)),
+  decode: (value: Numeric) => new Money(Math.round(Number(value.value) * 100)),
+};
+
+describe('CodecRegistry', () => {
+  let emulator: Emulator;
+
+  before(async () => {
+    emulator = await startEmulator({
+      tables: [
+        {
+          name: 'Products',
+          columns: [
+            {name: 'ProductId', type: 'STRING(MAX)', nullable: false},
+            {name: 'Name', type: 'STRING(MAX)'},
+            {name: 'Price', type: 'NUMERIC'},
+            {name: 'Related', type: 'ARRAY<STRING(MAX)>'},
+          ],
+          primaryKey: [{column: 'ProductId'}],
+        },
+      ],
+    });
+    emulator.mock.putStatementResult(
+      SELECT,
+      StatementResult.resultSet(createSimpleResultSet())
+    );
+  });
+
+  afterEach(() => {
+    emulator.database.codecs.clear();
+    emulator.spanner.codecs.clear();
+    emulator.mock.resetRequests();
+  });
+
+  after(async () => {
+    await emulator.close();
+  });
+
+  it('should encode mutations and keys, and decode rows', async () => {
+    emulator.database.codecs.register(SKU).register(MONEY);
+    const table = emulator.database.table('Products');
+
+    await table.insert({
+      ProductId: new Sku('p1'),
+      Name: 'Pen',
+      Price: new Money(999),
+      Related: [new Sku('p2'), null],
+    });
+    const [rows] = await table.read({
+      keys: [new Sku('p1') as unknown as string],
+      columns: ['ProductId', 'Name', 'Price', 'Related'],
+      json: true,
+    });
+
+    assert.deepStrictEqual(rows, [
+      {
+        ProductId: new Sku('p1'),
+        Name: 'Pen',
+        Price: new Money(999),
+        Related: [new Sku('p2'), null],
+      },
+    ]);
+  });
+
+  it('should infer the types of query parameters', async () => {
+    emulator.spanner.codecs.register(MONEY);
+
+    await emulator.database.run({
+      sql: SELECT,
+      params: {price: new Money(500), prices: [new Money(1)]},
+    });
+
+    const [request] = emulator.mock
+      .getRequests()
+      .filter(request => 'sql' in (request as {})) as v1.IExecuteSqlRequest[];
+    assert.strictEqual(request.paramTypes!.price.code, 'NUMERIC');
+    assert.strictEqual(
+      request.paramTypes!.prices.arrayElementType!.code,
+      'NUMERIC'
+    );
+    assert.strictEqual(request.params!.fields!.price.stringValue, '5.00');
+  });
+
+  it('should infer annotated and proto types of query parameters', async () => {
+    emulator.spanner.codecs
+      .register(Object.assign({}, MONEY, {typeAnnotation: 'PG_NUMERIC'}))
+      .register({
+        typeCode: 'PROTO',
+        protoTypeFqn: 'examples.Sku',
+        class: Sku,
+        encode: sku => Buffer.from(sku.id),
+        decode: value => new Sku(value.toString()),
+      });
+
+    await emulator.database.run({
+      sql: SELECT,
+      params: {price: new Money(500), sku: new Sku('p1')},
+    });
+
+    const [request] = emulator.mock
+      .getRequests()
+      .filter(request => 'sql' in (request as {})) as v1.IExecuteSqlRequest[];
+    assert.strictEqual(request.paramTypes!.price.code, 'NUMERIC');
+    assert.strictEqual(request.paramTypes!.price.typeAnnotation, 'PG_NUMERIC');
+    assert.strictEqual(request.paramTypes!.sku.code, 'PROTO');
+    assert.strictEqual(request.paramTypes!.sku.protoTypeFqn, 'examples.Sku');
+  });
+
+  it('should only decode the values of the type of a codec', () => {
+    const codecs = new CodecRegistry().register(MONEY).register(
+      Object.assign(
+        {},
+        MONEY,
+        {typeAnnotation: 'PG_NUMERIC'},
+        {
+          decode: () => 'pg',
+        }
+      )
+    );
+
+    assert.deepStrictEqual(
+      codecs.decode(new Numeric('1'), {code: v1.TypeCode.NUMERIC}, 'Price'),
+      new Money(100)
+    );
+    assert.strictEqual(
+      codecs.decode(
+        new Numeric('1'),
+        {
+          code: v1.TypeCode.NUMERIC,
+          typeAnnotation: v1.TypeAnnotationCode.PG_NUMERIC,
+        },
+        'Price'
+      ),
+      'pg'
+    );
+  });
+
+  it('should only decode the columns of a codec', async () => {
+    emulator.spanner.codecs.register({
+      typeCode: 'STRING',
+      test: value => typeof value === 'symbol',
+      columns: ['NAME'],
+      encode: value => String(value),
+      decode: value => Symbol.for(value),
+    });
+
+    const [rows] = await emulator.database.run({sql: SELECT, json: true});
+
+    assert.deepStrictEqual(
+      rows.map(row => (row as {NAME: symbol}).NAME),
+      [Symbol.for('One'), Symbol.for('Two'), Symbol.for('Three')]
+    );
+  });
+
+  describe('register', () => {
+    it('should require a class or a test', () => {
+      assert.throws(
+        () =>
+          new CodecRegistry().register({
+            typeCode: 'STRING',
+            encode: value => value,
+            decode: value => value,
+          }),
+        /A codec must have a class or a test\./
+      );
+    });
+
+    it('should reject composite types', () => {
+      assert.throws(
+        () =>
+          new CodecRegistry().register(
+            Object.assign({}, SKU, {typeCode: 'ARRAY'}) as CustomCodec
+          ),
+        /Type code ARRAY is not supported\./
+      );
+    });
+
+    it('should reject annotations of other types', () => {
+      assert.throws(
+        () =>
+          new CodecRegistry().register(
+            Object.assign({}, MONEY, {typeAnnotation: 'PG_JSONB'} as const)
+          ),
+        /Type annotation PG_JSONB is not supported for type code NUMERIC\./
+      );
+    });
+  });
+
+  describe('getCodecs', () => {
+    it('should prefer the codecs of the database', () => {
+      const cents = Object.assign({}, MONEY, {
+        typeCode: 'INT64',
+        encode: (money: Money) => money.cents,
+      });
+      const database = {
+        codecs: new CodecRegistry().register(cents),
+        parent: {parent: {codecs: new CodecRegistry().register(MONEY)}},
+      } as unknown as Database;
+
+      const codecs = getCodecs(database)!;
+
+      assert.deepStrictEqual(codec.getType(new Money(1), codecs), {
+        type: 'int64',
+      });
+      assert.strictEqual(codec.encode(new Money(1), codecs).stringValue, '1');
+    });
+
+    it('should return undefined without codecs', () => {
+      assert.strictEqual(getCodecs(emulator.database), undefined);
+    });
+  });
+});
@@ -29,6 +29,33 @@ const singer = require('./data/singer');
 const music = singer.examples.spanner.music;
 const is = require('is');
 
+// A minimal stand-in for the Temporal API, which Node.js does not ship yet.
+class FakePlainDate {
+  readonly [Symbol.toStringTag] = 'Temporal.PlainDate';
+  constructor(
+    readonly year: number,
+    readonly month: number,
+    readonly day: number
+  ) {}
+  static from(date: string): FakePlainDate {
+    const [year, month, day] = date.split('-').map(Number);
+    return new FakePlainDate(year, month, day);
+  }
+}
+
+class FakeInstant {
+  readonly [Symbol.toStringTag] = 'Temporal.Instant';
+  constructor(readonly value: string) {}
+  static from(value: string): FakeInstant {
+    return new FakeInstant(value);
+  }
+  toString(): string {
+    return this.value;
+  }
+}
+
+const globals = globalThis as {Temporal?: object};
+
 describe('codec', () => {
   let codec;
 
@@ -152,6 +179,23 @@ describe('codec', () => {
     });
   });
 
+  describe('PlainDate', () => {
+    it('should parse ISO dates', () => {
+      const date = codec.PlainDate.from('0985-02-05');
+
+      assert.deepStrictEqual([date.year, date.month, date.day], [985, 2, 5]);
+      assert.strictEqual(date.toString(), '0985-02-05');
+      assert.strictEqual(JSON.stringify(date), '"0985-02-05"');
+    });
+
+    it('should reject invalid dates', () => {
+      assert.throws(
+        () => codec.PlainDate.from('2024-01-01T00:00:00Z'),
+        /Invalid date: 2024-01-01T00:00:00Z/
+      );
+    });
+  });
+
   describe('Float', () => {
     it('should store the value', () => {
       const value = 8;
@@ -213,6 +257,18 @@ describe('codec', () => {
         new RegExp('Integer ' + value + ' is out of bounds.')
       );
     });
+
+    it('should return as a bigint', () => {
+      const int = new codec.Int('9223372036854775807');
+
+      assert.strictEqual(int.toBigInt(), BigInt('9223372036854775807'));
+    });
+
+    it('should accept a bigint', () => {
+      const int = new codec.Int(BigInt('9007199254740993'));
+
+      assert.strictEqual(int.value, '9007199254740993');
+    });
   });
 
   describe('PGOid', () => {
@@ -565,6 +621,42 @@ describe('codec', () => {
           codec.convertFieldsToJson(row);
         }, new RegExp('Serializing column "Number" encountered an error'));
       });
+
+      it('should return INT64 values as requested', () => {
+        const int = new codec.Int('9223372036854775807');
+        const row = [
+          {name: 'Id', value: int},
+          {name: 'Ids', value: [int]},
+          {name: 'Float', value: new codec.Float(1.5)},
+        ];
+
+        assert.deepStrictEqual(
+          codec.convertFieldsToJson(row, {int64As: 'bigint'}),
+          {
+            Id: BigInt('9223372036854775807'),
+            Ids: [BigInt('9223372036854775807')],
+            Float: 1.5,
+          }
+        );
+        assert.strictEqual(
+          codec.convertFieldsToJson(row, {int64As: 'string'}).Id,
+          '9223372036854775807'
+        );
+        assert.strictEqual(
+          codec.convertFieldsToJson(row, {int64As: 'Int'}).Id,
+          int
+        );
+      });
+
+      it('should return INT64 values of structs as requested', () => {
+        const struct = codec.Struct.fromJSON({
+          Id: new codec.Int('9223372036854775807'),
+        });
+
+        assert.deepStrictEqual(struct.toJSON({int64As: 'bigint'}), {
+          Id: BigInt('9223372036854775807'),
+        });
+      });
     });
 
     describe('arrays', () => {
@@ -713,6 +805,55 @@ describe('codec', () => {
       assert.strictEqual(decoded.value, value);
     });
 
+    it('should decode INT64 as requested', () => {
+      const value = '9223372036854775807';
+      const type = {code: google.spanner.v1.TypeCode.INT64};
+
+      assert.strictEqual(
+        codec.decode(value, type, undefined, {int64As: 'bigint'}),
+        BigInt(value)
+      );
+      assert.strictEqual(
+        codec.decode(value, type, undefined, {int64As: 'string'}),
+        value
+      );
+      assert.strictEqual(
+        codec.decode('64', type, undefined, {int64As: 'number'}),
+        64
+      );
+    });
+
+    it('should decode INT64 in arrays and structs as requested', () => {
+      const decoded = codec.decode(
+        [['1', ['2']]],
+        {
+          code: google.spanner.v1.TypeCode.ARRAY,
+          arrayElementType: {
+            code: google.spanner.v1.TypeCode.STRUCT,
+            structType: {
+              fields: [
+                {name: 'Id', type: {code: google.spanner.v1.TypeCode.INT64}},
+                {
+                  name: 'Ids',
+                  type: {
+                    code: google.spanner.v1.TypeCode.ARRAY,
+                    arrayElementType: {code: google.spanner.v1.TypeCode.INT64},
+                  },
+                },
+              ],
+            },
+          },
+        } as google.spanner.v1.Type,
+        undefined,
+        {int64As: 'bigint'}
+      );
+
+      assert.deepStrictEqual(decoded[0].toJSON(), {
+        Id: BigInt(1),
+        Ids: [BigInt(2)],
+      });
+    });
+
     it('should decode NUMERIC', () => {
       const value = '8.01911';
 
@@ -826,6 +967,58 @@ describe('codec', () => {
       assert.deepStrictEqual(decoded, expected);
     });
 
+    describe('with Temporal types', () => {
+      const date = {code: google.spanner.v1.TypeCode.DATE};
+      const timestamp = {code: google.spanner.v1.TypeCode.TIMESTAMP};
+      const value = '2024-02-29T12:34:56.123456789Z';
+
+      afterEach(() => delete globals.Temporal);
+
+      it('should decode DATE as a PlainDate', () => {
+        const decoded = codec.decode('2024-02-29', date, undefined, {
+          dateAs: 'PlainDate',
+        });
+
+        assert.deepStrictEqual(decoded, new codec.PlainDate(2024, 2, 29));
+      });
+
+      it('should decode DATE as a Temporal.PlainDate if available', () => {
+        globals.Temporal = {PlainDate: FakePlainDate, Instant: FakeInstant};
+
+        const decoded = codec.decode('2024-02-29', date, undefined, {
+          dateAs: 'PlainDate',
+        });
+
+        assert.deepStrictEqual(decoded, new FakePlainDate(2024, 2, 29));
+      });
+
+      it('should decode TIMESTAMP as a string', () => {
+        const decoded = codec.decode(value, timestamp, undefined, {
+          timestampAs: 'string',
+        });
+
+        assert.strictEqual(decoded, value);
+      });
+
+      it('should decode TIMESTAMP as a Temporal.Instant', () => {
+        globals.Temporal = {PlainDate: FakePlainDate, Instant: FakeInstant};
+
+        const decoded = codec.decode(value, timestamp, undefined, {
+          timestampAs: 'Instant',
+        });
+
+        assert.deepStrictEqual(decoded, new FakeInstant(value));
+      });
+
+      it('should require the Temporal API to decode Instants', () => {
+        assert.throws(
+          () =>
+            codec.decode(value, timestamp, undefined, {timestampAs: 'Instant'}),
+          /The Temporal API is not available\./
+        );
+      });
+    });
+
     it('should decode ARRAY and inner members', () => {
       const value = ['1'];
 
@@ -1012,6 +1205,23 @@ describe('codec', () => {
       assert.strictEqual(encoded, value.toString());
     });
 
+    it('should stringify bigint', () => {
+      const value = BigInt('9223372036854775807');
+
+      const encoded = codec.encode(value);
+
+      assert.strictEqual(encoded, '9223372036854775807');
+    });
+
+    it('should stringify bigint in arrays and structs', () => {
+      const encoded = codec.encode([
+        BigInt(1),
+        codec.Struct.fromJSON({Id: BigInt(2)}),
+      ]);
+
+      assert.deepStrictEqual(encoded, ['1', ['2']]);
+    });
+
     it('should stringify NUMERIC', () => {
       const value = new codec.Numeric('8.01911');
 
@@ -1054,6 +1264,25 @@ describe('codec', () => {
       assert.strictEqual(encoded, value.toJSON());
     });
 
+    it('should encode PlainDate', () => {
+      const value = new codec.PlainDate(985, 2, 5);
+
+      const encoded = codec.encode(value);
+
+      assert.strictEqual(encoded, '0985-02-05');
+    });
+
+    it('should encode Temporal values', () => {
+      assert.strictEqual(
+        codec.encode(new FakePlainDate(2024, 2, 9)),
+        '2024-02-09'
+      );
+      assert.strictEqual(
+        codec.encode(new FakeInstant('2024-02-09T00:00:00.000000001Z')),
+        '2024-02-09T00:00:00.000000001Z'
+      );
+    });
+
     it('should encode INT64', () => {
       const value = new codec.Int(10);
 
@@ -1174,6 +1403,7 @@ describe('codec', () => {
     it('should determine if the value is an int', () => {
       assert.deepStrictEqual(codec.getType(1234), {type: 'int64'});
       assert.deepStrictEqual(codec.getType(new codec.Int(1)), {type: 'int64'});
+      assert.deepStrictEqual(codec.getType(BigInt(1)), {type: 'int64'});
     });
 
     it('should determine if the value is numeric', () => {
@@ -1210,6 +1440,18 @@ describe('codec', () => {
       });
     });
 
+    it('should determine the types of Temporal values', () => {
+      assert.deepStrictEqual(codec.getType(new codec.PlainDate(2024, 2, 9)), {
+        type: 'date',
+      });
+      assert.deepStrictEqual(codec.getType(new FakePlainDate(2024, 2, 9)), {
+        type: 'date',
+      });
+      assert.deepStrictEqual(codec.getType(new FakeInstant('')), {
+        type: 'timestamp',
+      });
+    });
+
     it('should accept a plain date object as a timestamp', () => {
       assert.deepStrictEqual(codec.getType(new Date()), {type: 'timestamp'});
     });
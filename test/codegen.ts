@@ -0,0 +1,319 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from 'assert';
+import {describe, it} from 'mocha';
+import {generateRowTypes} from '../src/codegen';
+import {ColumnModel, SchemaModel, TableModel} from '../src/schema-model';
+
+function column(
+  name: string,
+  type: string,
+  nullable = true,
+  extra: Partial<ColumnModel> = {}
+): ColumnModel {
+  return Object.assign(
+    {
+      name,
+      type,
+      nullable,
+      defaultExpression: null,
+      generationExpression: null,
+      stored: false,
+    },
+    extra
+  );
+}
+
+function table(name: string, columns: ColumnModel[], keys: string[]) {
+  return {
+    name,
+    columns,
+    primaryKey: keys.map(column => ({column, descending: false})),
+    parent: null,
+    onDelete: null,
+  } as TableModel;
+}
+
+function model(
+  dialect: SchemaModel['dialect'],
+  tables: TableModel[],
+  indexes: SchemaModel['indexes'] = []
+): SchemaModel {
+  return {
+    dialect,
+    tables,
+    indexes,
+    foreignKeys: [],
+    views: [],
+    changeStreams: [],
+    protoBundle: [],
+  };
+}
+
+function block(source: string, start: string): string {
+  const begin = source.indexOf(start);
+  assert.notStrictEqual(begin, -1, `${start} not found`);
+  return source.slice(begin, source.indexOf('\n}\n', begin) + 2);
+}
+
+describe('generateRowTypes', () => {
+  it('should map GoogleSQL types to codec classes', () => {
+    const source = generateRowTypes(
+      model('GOOGLE_STANDARD_SQL', [
+        table(
+          'Singers',
+          [
+            column('SingerId', 'INT64', false),
+            column('Active', 'BOOL', false),
+            column('Score', 'FLOAT64'),
+            column('Ratio', 'FLOAT32'),
+            column('Amount', 'NUMERIC'),
+            column('Name', 'STRING(MAX)'),
+            column('Photo', 'BYTES(1024)'),
+            column('BirthDate', 'DATE'),
+            column('Updated', 'TIMESTAMP'),
+            column('Data', 'JSON'),
+            column('Tags', 'ARRAY<STRING(MAX)>'),
+            column('Embedding', 'ARRAY<FLOAT32>(vector_length=>3)'),
+            column('Info', 'examples.SingerInfo'),
+            column('Genre', 'examples.Genre'),
+          ],
+          ['SingerId']
+        ),
+      ]),
+      {enums: ['examples.Genre']}
+    );
+
+    assert.strictEqual(
+      block(source, 'export interface SingersRow'),
+      [
+        'export interface SingersRow {',
+        '  SingerId: Int;',
+        '  Active: boolean;',
+        '  Score: Float | null;',
+        '  Ratio: Float32 | null;',
+        '  Amount: Numeric | null;',
+        '  Name: string | null;',
+        '  Photo: Buffer | null;',
+        '  BirthDate: SpannerDate | null;',
+        '  Updated: PreciseDate | null;',
+        '  Data: JsonValue | null;',
+        '  Tags: Array<string | null> | null;',
+        '  Embedding: Array<Float32 | null> | null;',
+        '  Info: ProtoMessage | null;',
+        '  Genre: ProtoEnum | null;',
+        '}',
+      ].join('\n')
+    );
+    assert.ok(
+      source.includes(
+        "import {PreciseDate} from '@google-cloud/precise-date';\n" +
+          'import {Database, Float, Float32, InsertRowsOptions, Int, ' +
+          'Numeric, ProtoEnum, ProtoMessage, ReadRequest, SpannerDate, ' +
+          "TimestampBounds, UpdateRowsOptions, UpsertRowsOptions} from '@google-cloud/spanner';"
+      )
+    );
+    assert.ok(source.includes('export type JsonValue ='));
+  });
+
+  it('should map PostgreSQL types to codec classes', () => {
+    const source = generateRowTypes(
+      model('POSTGRESQL', [
+        table(
+          'singers',
+          [
+            column('id', 'bigint', false),
+            column('score', 'double precision'),
+            column('ratio', 'real'),
+            column('amount', 'numeric'),
+            column('name', 'character varying(100)'),
+            column('photo', 'bytea'),
+            column('updated', 'timestamp with time zone'),
+            column('data', 'jsonb'),
+            column('tags', 'character varying[]'),
+            column('birth', 'date'),
+            column('active', 'boolean', false),
+          ],
+          ['id']
+        ),
+      ]),
+      {helpers: false}
+    );
+
+    assert.strictEqual(
+      block(source, 'export interface SingersRow'),
+      [
+        'export interface SingersRow {',
+        '  id: Int;',
+        '  score: Float | null;',
+        '  ratio: Float32 | null;',
+        '  amount: PGNumeric | null;',
+        '  name: string | null;',
+        '  photo: Buffer | null;',
+        '  updated: PreciseDate | null;',
+        '  data: PGJsonb | null;',
+        '  tags: Array<string | null> | null;',
+        '  birth: SpannerDate | null;',
+        '  active: boolean;',
+        '}',
+      ].join('\n')
+    );
+    assert.ok(!source.includes('singersTable'));
+    assert.ok(!source.includes('Database'));
+  });
+
+  it('should generate write, update and key types', () => {
+    const source = generateRowTypes(
+      model('GOOGLE_STANDARD_SQL', [
+        table(
+          'music.album_tracks',
+          [
+            column('AlbumId', 'INT64', false),
+            column('Track No', 'INT64', false),
+            column('Title', 'STRING(MAX)', false, {
+              defaultExpression: "'Untitled'",
+            }),
+            column('Upper', 'STRING(MAX)', true, {
+              generationExpression: 'UPPER(Title)',
+              stored: true,
+            }),
+          ],
+          ['AlbumId', 'Track No']
+        ),
+      ])
+    );
+
+    assert.strictEqual(
+      block(source, 'export interface MusicAlbumTracksWrite'),
+      [
+        'export interface MusicAlbumTracksWrite {',
+        '  AlbumId: Int | number | string;',
+        "  'Track No': Int | number | string;",
+        '  Title?: string;',
+        '}',
+      ].join('\n')
+    );
+    assert.ok(
+      source.includes(
+        'export type MusicAlbumTracksUpdate = ' +
+          "Pick<MusicAlbumTracksWrite, 'AlbumId' | 'Track No'> &\n" +
+          '  Partial<MusicAlbumTracksWrite>;'
+      )
+    );
+    assert.ok(
+      source.includes(
+        'export type MusicAlbumTracksKey = [Int | number | string, Int | number | string];'
+      )
+    );
+    assert.ok(source.includes('export const musicAlbumTracksTable = {'));
+    assert.ok(source.includes("  name: 'music.album_tracks',"));
+    assert.ok(
+      source.includes(
+        "return database.table('music.album_tracks').insert(rows, options);"
+      )
+    );
+  });
+
+  it('should generate index row types', () => {
+    const source = generateRowTypes(
+      model(
+        'GOOGLE_STANDARD_SQL',
+        [
+          table(
+            'Albums',
+            [
+              column('SingerId', 'INT64', false),
+              column('AlbumId', 'INT64', false),
+              column('Title', 'STRING(MAX)'),
+              column('Year', 'INT64'),
+              column('Notes', 'STRING(MAX)'),
+            ],
+            ['SingerId', 'AlbumId']
+          ),
+        ],
+        [
+          {
+            name: 'AlbumsByTitle',
+            table: 'Albums',
+            unique: false,
+            nullFiltered: false,
+            keys: [{column: 'Title', descending: false}],
+            storing: ['Year'],
+            interleaveIn: null,
+          },
+        ]
+      )
+    );
+
+    assert.strictEqual(
+      block(source, 'export interface AlbumsByTitleIndexRow'),
+      [
+        'export interface AlbumsByTitleIndexRow {',
+        '  Title: string | null;',
+        '  Year: Int | null;',
+        '  SingerId: Int;',
+        '  AlbumId: Int;',
+        '}',
+      ].join('\n')
+    );
+    assert.ok(
+      source.includes('export type AlbumsByTitleIndexKey = [string | null];')
+    );
+    assert.ok(source.includes('export const albumsByTitleIndex = {'));
+    assert.ok(
+      source.includes(
+        '.read(toReadRequest(request, this.columns, this.name), options);'
+      )
+    );
+  });
+
+  it('should import from a custom module', () => {
+    const source = generateRowTypes(
+      model('GOOGLE_STANDARD_SQL', [
+        table('T', [column('Id', 'INT64', false)], ['Id']),
+      ]),
+      {importFrom: '../spanner', helpers: false}
+    );
+    assert.strictEqual(
+      source,
+      [
+        '// Generated by spanner-codegen from the schema of a Cloud Spanner',
+        '// database. Do not edit this file, regenerate it when the schema changes.',
+        '',
+        "import {Int} from '../spanner';",
+        '',
+        '/** A row of the `T` table. */',
+        'export interface TRow {',
+        '  Id: Int;',
+        '}',
+        '',
+        '/** A row that is inserted into the `T` table. */',
+        'export interface TWrite {',
+        '  Id: Int | number | string;',
+        '}',
+        '',
+        '/** A row that is updated in the `T` table. */',
+        "export type TUpdate = Pick<TWrite, 'Id'> &",
+        '  Partial<TWrite>;',
+        '',
+        '/** The primary key of the `T` table. */',
+        'export type TKey = [Int | number | string];',
+        '',
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,424 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from 'assert';
+import {beforeEach, describe, it} from 'mocha';
+import {PassThrough, Readable} from 'stream';
+import {google} from '../protos/protos';
+import {BulkWriter, BulkWriterOptions} from '../src/bulk-writer';
+import {Float, Int, PGJsonb} from '../src/codec';
+import {
+  CsvParser,
+  createCoercer,
+  exportRows,
+  importRows,
+} from '../src/data-transfer';
+import {Database} from '../src/database';
+import {Row} from '../src/partial-result-stream';
+import {ColumnModel, SchemaModel} from '../src/schema-model';
+import {MutationSet} from '../src/transaction';
+
+function column(
+  name: string,
+  type: string,
+  generationExpression: string | null = null
+): ColumnModel {
+  return {
+    name,
+    type,
+    nullable: true,
+    defaultExpression: null,
+    generationExpression,
+    stored: !!generationExpression,
+  } as ColumnModel;
+}
+
+const MODEL = {
+  dialect: 'GOOGLE_STANDARD_SQL',
+  tables: [
+    {
+      name: 'Singers',
+      columns: [
+        column('SingerId', 'INT64'),
+        column('Name', 'STRING(MAX)'),
+        column('Rating', 'FLOAT64'),
+        column('Tags', 'ARRAY<STRING(MAX)>'),
+        column('NameLength', 'INT64', 'LENGTH(Name)'),
+      ],
+      primaryKey: [{name: 'SingerId', descending: false}],
+      parent: null,
+      onDelete: null,
+    },
+  ],
+} as unknown as SchemaModel;
+
+function row(singerId: string, name: string | null): Row {
+  return [
+    {name: 'SingerId', value: new Int(singerId)},
+    {name: 'Name', value: name},
+  ] as Row;
+}
+
+function collect(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  stream.on('data', chunk => chunks.push(chunk));
+  return new Promise(resolve =>
+    stream.on('end', () => resolve(Buffer.concat(chunks).toString()))
+  );
+}
+
+function parseCsv(text: string): Promise<unknown[]> {
+  const records: unknown[] = [];
+  const parser = new CsvParser();
+  parser.on('data', record => records.push(record));
+  return new Promise((resolve, reject) => {
+    parser.on('error', reject).on('end', () => resolve(records));
+    parser.end(text);
+  });
+}
+
+describe('data transfer', () => {
+  let reads: Array<{table: string; request: object}>;
+  let queries: unknown[];
+  let commits: google.spanner.v1.IMutation[][];
+  let database: Database;
+
+  beforeEach(() => {
+    reads = [];
+    queries = [];
+    commits = [];
+    database = {
+      getSchemaModel: async () => MODEL,
+      table: (table: string) => ({
+        createReadStream: (request: object) => {
+          reads.push({table, request});
+          return Readable.from([row('1', 'Alice'), row('2', null)]);
+        },
+      }),
+      runStream: (query: unknown) => {
+        queries.push(query);
+        return Readable.from([row('3', 'Carol, "C"')]);
+      },
+      writeAtLeastOnce: async (mutations: MutationSet) => {
+        commits.push(mutations.proto());
+        return [{}];
+      },
+      bulkWriter: (table: string, options?: BulkWriterOptions) =>
+        new BulkWriter(database, table, options),
+    } as unknown as Database;
+  });
+
+  describe('exportRows', () => {
+    it('should export the columns of a table to NDJSON', async () => {
+      const output = new PassThrough();
+      const text = collect(output);
+
+      const count = await exportRows(database, output, {
+        table: 'Singers',
+        columns: ['SingerId', 'Name'],
+      });
+
+      assert.strictEqual(count, 2);
+      assert.deepStrictEqual(reads, [
+        {
+          table: 'Singers',
+          request: {
+            columns: ['SingerId', 'Name'],
+            keySet: {all: true},
+            dateAs: 'SpannerDate',
+            timestampAs: 'PreciseDate',
+          },
+        },
+      ]);
+      assert.strictEqual(
+        await text,
+        '{"SingerId":"1","Name":"Alice"}\n{"SingerId":"2","Name":null}\n'
+      );
+    });
+
+    it('should read all columns of a table by default', async () => {
+      await exportRows(database, new PassThrough(), {table: 'Singers'});
+
+      assert.deepStrictEqual(
+        (reads[0].request as {columns: string[]}).columns,
+        ['SingerId', 'Name', 'Rating', 'Tags', 'NameLength']
+      );
+    });
+
+    it('should export a query to CSV', async () => {
+      const output = new PassThrough();
+      const text = collect(output);
+
+      const count = await exportRows(database, output, {
+        query: 'SELECT SingerId, Name FROM Singers',
+        format: 'csv',
+      });
+
+      assert.strictEqual(count, 1);
+      assert.deepStrictEqual(queries, [
+        {
+          sql: 'SELECT SingerId, Name FROM Singers',
+          dateAs: 'SpannerDate',
+          timestampAs: 'PreciseDate',
+        },
+      ]);
+      assert.strictEqual(await text, 'SingerId,Name\r\n3,"Carol, ""C"""\r\n');
+    });
+
+    it('should require a table or a query', async () => {
+      await assert.rejects(
+        exportRows(database, new PassThrough(), {}),
+        /A table or a query is required to export rows\./
+      );
+    });
+  });
+
+  describe('importRows', () => {
+    it('should import CSV rows with the types of the columns', async () => {
+      const input = Readable.from([
+        'SingerId,Name,Rating,Tags,NameLength\r\n',
+        '1,"Alice ""Al""",4.5,"[""a"",""b""]",8\r\n',
+        '2,,,,\r\n',
+        '3,"",1e2,[],0\r\n',
+      ]);
+
+      const result = await importRows(database, 'Singers', input, {
+        format: 'csv',
+      });
+
+      assert.deepStrictEqual(result, {rows: 3, written: 3, failures: []});
+      assert.strictEqual(commits.length, 1);
+      assert.deepStrictEqual(commits[0][0], {
+        insertOrUpdate: {
+          table: 'Singers',
+          columns: ['Name', 'Rating', 'SingerId', 'Tags'],
+          values: [
+            {
+              values: [
+                {stringValue: 'Alice "Al"'},
+                {numberValue: 4.5},
+                {stringValue: '1'},
+                {
+                  listValue: {
+                    values: [{stringValue: 'a'}, {stringValue: 'b'}],
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      });
+      assert.deepStrictEqual(
+        commits[0][1].insertOrUpdate!.values![0].values![0],
+        {nullValue: 0}
+      );
+      assert.deepStrictEqual(
+        commits[0][2].insertOrUpdate!.values![0].values![0],
+        {stringValue: ''}
+      );
+    });
+
+    it('should report invalid rows with their lines', async () => {
+      const input = Readable.from([
+        '{"SingerId": 1, "Name": "Alice"}\n',
+        '{"SingerId": "one"}\n',
+        '\n',
+        'not json\n',
+        '{"SingerId": 2, "Age": 30}\n',
+        '{"SingerId": 3, "Tags": "a"}',
+      ]);
+
+      const result = await importRows(database, 'Singers', input);
+
+      assert.strictEqual(result.rows, 1);
+      assert.strictEqual(result.written, 1);
+      assert.deepStrictEqual(
+        result.failures.map(({line}) => line),
+        [2, 4, 5, 6]
+      );
+      const [invalidValue, invalidJson, unknownColumn, invalidArray] =
+        result.failures.map(({error}) => error.message);
+      assert.strictEqual(
+        invalidValue,
+        'Column SingerId: Invalid INT64 value: "one"'
+      );
+      assert.match(invalidJson, /^Invalid JSON: /);
+      assert.strictEqual(unknownColumn, 'Unknown column of table Singers: Age');
+      assert.match(invalidArray, /^Column Tags: /);
+    });
+
+    it('should resume from a line', async () => {
+      const input = Readable.from([
+        'SingerId,Name\n1,Alice\n2,"Bob\nthe Builder"\n3,Carol\n',
+      ]);
+
+      const result = await importRows(database, 'Singers', input, {
+        format: 'csv',
+        fromLine: 3,
+      });
+
+      assert.strictEqual(result.written, 2);
+      assert.deepStrictEqual(
+        commits[0].map(mutation => mutation.insertOrUpdate!.values![0]),
+        [
+          {values: [{stringValue: 'Bob\nthe Builder'}, {stringValue: '2'}]},
+          {values: [{stringValue: 'Carol'}, {stringValue: '3'}]},
+        ]
+      );
+    });
+
+    it('should only validate rows in a dry run', async () => {
+      const input = Readable.from(['{"SingerId": 1}\n{"SingerId": 1.5}\n']);
+
+      const result = await importRows(database, 'Singers', input, {
+        dryRun: true,
+      });
+
+      assert.strictEqual(result.rows, 1);
+      assert.strictEqual(result.written, 0);
+      assert.deepStrictEqual(
+        result.failures.map(({line}) => line),
+        [2]
+      );
+      assert.deepStrictEqual(commits, []);
+    });
+
+    it('should pass the writer options to the bulk writer', async () => {
+      const input = Readable.from(['{"SingerId": 1}\n']);
+
+      await importRows(database, 'Singers', input, {
+        writerOptions: {mode: 'insert'},
+      });
+
+      assert.ok(commits[0][0].insert);
+    });
+
+    it('should reject an unknown column in the CSV header', async () => {
+      const input = Readable.from(['SingerId,Age\n1,30\n']);
+
+      await assert.rejects(
+        importRows(database, 'Singers', input, {format: 'csv'}),
+        /Unknown columns of table Singers: Age/
+      );
+    });
+
+    it('should reject an unknown table', async () => {
+      await assert.rejects(
+        importRows(database, 'Albums', Readable.from([])),
+        /Table Albums not found\./
+      );
+    });
+  });
+
+  describe('CsvParser', () => {
+    it('should parse quoted fields and track the lines of records', async () => {
+      assert.deepStrictEqual(await parseCsv('a,"b\r\nc"\r\n\r\n"",\nd'), [
+        {line: 1, values: ['a', 'b\r\nc']},
+        {line: 4, values: ['', null]},
+        {line: 5, values: ['d']},
+      ]);
+    });
+
+    it('should fail on an unterminated quoted field', async () => {
+      await assert.rejects(
+        parseCsv('a\n"b,c\n'),
+        /Unterminated quoted field in the record at line 2\./
+      );
+    });
+  });
+
+  describe('createCoercer', () => {
+    it('should convert values of GoogleSQL types', () => {
+      assert.strictEqual(createCoercer('BOOL', false)('t'), true);
+      assert.strictEqual(createCoercer('BOOL', false)(false), false);
+      assert.strictEqual(createCoercer('INT64', false)(' 42 '), '42');
+      assert.deepStrictEqual(
+        createCoercer('FLOAT64', false)('NaN'),
+        new Float(NaN)
+      );
+      assert.strictEqual(createCoercer('NUMERIC', false)('-1.25'), '-1.25');
+      assert.deepStrictEqual(
+        createCoercer('BYTES(MAX)', false)('YWJj'),
+        Buffer.from('abc')
+      );
+      assert.strictEqual(
+        createCoercer('DATE', false)('2026-10-19'),
+        '2026-10-19'
+      );
+      assert.strictEqual(
+        createCoercer('TIMESTAMP', false)('2026-10-19T01:02:03.123456789Z'),
+        '2026-10-19T01:02:03.123456789Z'
+      );
+      assert.strictEqual(createCoercer('JSON', false)({a: 1}), '{"a":1}');
+      assert.deepStrictEqual(createCoercer('ARRAY<INT64>', false)('[1,null]'), [
+        '1',
+        null,
+      ]);
+    });
+
+    it('should convert values of PostgreSQL types', () => {
+      assert.strictEqual(createCoercer('boolean', true)('false'), false);
+      assert.strictEqual(createCoercer('bigint', true)(7), '7');
+      assert.deepStrictEqual(
+        createCoercer('jsonb', true)('{"a":1}'),
+        new PGJsonb({a: 1})
+      );
+      assert.deepStrictEqual(
+        createCoercer('character varying[]', true)(['a']),
+        ['a']
+      );
+    });
+
+    it('should reject invalid values', () => {
+      assert.throws(
+        () => createCoercer('BOOL', false)('yes'),
+        /Invalid BOOL value: "yes"/
+      );
+      assert.throws(
+        () => createCoercer('DATE', false)('19/10/2026'),
+        /Invalid DATE value/
+      );
+      assert.throws(
+        () => createCoercer('TIMESTAMP', false)('2026-10-19'),
+        /Invalid TIMESTAMP value/
+      );
+      assert.throws(
+        () => createCoercer('STRING(MAX)', false)({a: 1}),
+        /Invalid STRING\(MAX\) value/
+      );
+    });
+
+    it('should reject numbers that lost the precision of INT64 values', () => {
+      const [row] = JSON.parse('[9007199254740993]');
+      assert.throws(
+        () => createCoercer('INT64', false)(row),
+        /Invalid INT64 value: 9007199254740992 is not a safe integer/
+      );
+      assert.throws(
+        () => createCoercer('ARRAY<NUMERIC>', false)([1e20]),
+        /Invalid NUMERIC value/
+      );
+      assert.strictEqual(
+        createCoercer('INT64', false)('9007199254740993'),
+        '9007199254740993'
+      );
+      assert.strictEqual(
+        createCoercer('INT64', false)(Number.MAX_SAFE_INTEGER),
+        '9007199254740991'
+      );
+    });
+  });
+});
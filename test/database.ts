@@ -38,6 +38,9 @@ import {
 import {google} from '../protos/protos';
 import {protos} from '../src';
 import * as inst from '../src/instance';
+import {ChangeStream} from '../src/change-stream';
+import {QueryExport} from '../src/query-export';
+import {BulkWriter} from '../src/bulk-writer';
 import RequestOptions = google.spanner.v1.RequestOptions;
 import EncryptionType = google.spanner.admin.database.v1.RestoreDatabaseEncryptionConfig.EncryptionType;
 import {
@@ -61,10 +64,15 @@ const fakePfy = extend({}, pfy, {
       'getRestoreInfo',
       'getState',
       'getDatabaseDialect',
+      'getSchemaModel',
+      'explain',
       'getOperations',
       'runTransaction',
       'runTransactionAsync',
       'table',
+      'changeStream',
+      'exportQuery',
+      'bulkWriter',
       'session',
     ]);
   },
@@ -121,6 +129,10 @@ class FakeSessionPool extends EventEmitter {
   release() {}
 }
 
+class FakeMultiplexedSessionManager extends FakeSessionPool {
+  getMultiplexedSession() {}
+}
+
 class FakeTable {
   calledWith_: IArguments;
   constructor() {
@@ -205,6 +217,11 @@ const fakeRetry = fn => {
 
 fakeRetry.AbortError = FakeAbortError;
 
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const fakeSchemaModel: any = {
+  readSchemaModel: util.noop,
+};
+
 describe('Database', () => {
   const sandbox = sinon.createSandbox();
 
@@ -244,6 +261,12 @@ describe('Database', () => {
       './codec': {codec: fakeCodec},
       './partial-result-stream': {partialResultStream: fakePartialResultStream},
       './session-pool': {SessionPool: FakeSessionPool},
+      './multiplexed-session': {
+        MultiplexedSessionManager: FakeMultiplexedSessionManager,
+      },
+      './schema-model': {
+        readSchemaModel: (...args) => fakeSchemaModel.readSchemaModel(...args),
+      },
       './session': {Session: FakeSession},
       './table': {Table: FakeTable},
       './transaction-runner': {
@@ -302,6 +325,28 @@ describe('Database', () => {
       assert.strictEqual(database.pool_.calledWith_[1], POOL_OPTIONS);
     });
 
+    it('should create a MultiplexedSessionManager if requested', () => {
+      const poolOptions = {useMultiplexedSession: true};
+      const database = new Database(INSTANCE, NAME, poolOptions);
+      assert(database.pool_ instanceof FakeMultiplexedSessionManager);
+      assert.strictEqual(database.pool_.calledWith_[0], database);
+      assert.strictEqual(database.pool_.calledWith_[1], poolOptions);
+    });
+
+    it('should use the multiplexed session setting of the client', () => {
+      const instance = Object.assign({}, INSTANCE, {
+        parent: Object.assign({}, SPANNER, {useMultiplexedSession: true}),
+      });
+      assert(
+        new Database(instance, NAME).pool_ instanceof
+          FakeMultiplexedSessionManager
+      );
+      assert(
+        new Database(instance, NAME, {useMultiplexedSession: false})
+          .pool_ instanceof FakeSessionPool
+      );
+    });
+
     it('should accept a custom Pool class', () => {
       function FakePool() {}
       FakePool.prototype.on = util.noop;
@@ -1928,6 +1973,27 @@ describe('Database', () => {
       assert.strictEqual(options, fakeOptions);
     });
 
+    it('should move the row type into the query', () => {
+      const rowType = {NUM: {type: 'int64'}} as const;
+      database.runStream(QUERY, {strong: false, rowType});
+
+      assert.deepStrictEqual(snapshotStub.lastCall.args[0], {strong: false});
+      assert.deepStrictEqual(
+        runStreamStub.lastCall.args[0],
+        Object.assign({}, QUERY, {rowType})
+      );
+    });
+
+    it('should accept a row type for a plain SQL string', () => {
+      const rowType = {NUM: {type: 'int64'}} as const;
+      database.runStream(QUERY.sql, {rowType});
+
+      assert.deepStrictEqual(runStreamStub.lastCall.args[0], {
+        sql: QUERY.sql,
+        rowType,
+      });
+    });
+
     it('should call through to `snapshot.runStream`', () => {
       const pipeStub = sandbox.stub(fakeStream, 'pipe');
       const proxyStream = database.runStream(QUERY);
@@ -2022,6 +2088,63 @@ describe('Database', () => {
     });
   });
 
+  describe('changeStream', () => {
+    it('should throw if a name is not provided', () => {
+      assert.throws(() => {
+        database.changeStream();
+      }, /A name is required to access a ChangeStream object\./);
+    });
+
+    it('should return an instance of ChangeStream', () => {
+      const changeStream = database.changeStream('EverythingStream');
+
+      assert(changeStream instanceof ChangeStream);
+      assert.strictEqual(changeStream.database, database);
+      assert.strictEqual(changeStream.name, 'EverythingStream');
+    });
+  });
+
+  describe('exportQuery', () => {
+    it('should throw if a destination is not provided', () => {
+      assert.throws(() => {
+        database.exportQuery('SELECT 1', {});
+      }, /A destination is required to export a query\./);
+    });
+
+    it('should return an instance of QueryExport', async () => {
+      const fakeError = new Error('err');
+      database.createBatchTransaction = () => Promise.reject(fakeError);
+
+      const queryExport = database.exportQuery('SELECT 1', {
+        destination: 'out',
+      });
+
+      assert(queryExport instanceof QueryExport);
+      assert.strictEqual(queryExport.database, database);
+      assert.deepStrictEqual(queryExport.query, {sql: 'SELECT 1'});
+      await assert.rejects(queryExport.promise(), fakeError);
+    });
+  });
+
+  describe('bulkWriter', () => {
+    it('should throw if a table name is not provided', () => {
+      assert.throws(() => {
+        database.bulkWriter();
+      }, /A table name is required to write rows in bulk\./);
+    });
+
+    it('should return an instance of BulkWriter', () => {
+      const options = {mode: 'insert' as const, concurrency: 2};
+      const bulkWriter = database.bulkWriter('Singers', options);
+
+      assert(bulkWriter instanceof BulkWriter);
+      assert.strictEqual(bulkWriter.database, database);
+      assert.strictEqual(bulkWriter.table, 'Singers');
+      assert.strictEqual(bulkWriter.mode, 'insert');
+      assert.strictEqual(bulkWriter.concurrency, 2);
+    });
+  });
+
   describe('updateSchema', () => {
     const STATEMENTS = ['statement-1', 'statement-2'];
 
@@ -2141,6 +2264,15 @@ describe('Database', () => {
       database.createSession({labels}, assert.ifError);
     });
 
+    it('should request a multiplexed session', done => {
+      database.request = config => {
+        assert.strictEqual(config.reqOpts.session.multiplexed, true);
+        done();
+      };
+
+      database.createSession({multiplexed: true}, assert.ifError);
+    });
+
     it('should send databaseRole correctly', done => {
       const databaseRole = {databaseRole: 'child_role'};
       const options = {a: 'b', databaseRole: databaseRole};
@@ -2266,6 +2398,21 @@ describe('Database', () => {
       assert.strictEqual(getSessionStub.callCount, 1);
     });
 
+    it('should use the multiplexed session if available', done => {
+      const pool = new FakeMultiplexedSessionManager();
+      const getMultiplexedSessionStub = (
+        sandbox.stub(pool, 'getMultiplexedSession') as sinon.SinonStub
+      ).callsFake(callback => callback(null, fakeSession));
+      database.pool_ = pool;
+
+      database.getSnapshot((err, snapshot) => {
+        assert.ifError(err);
+        assert.strictEqual(snapshot, fakeSnapshot);
+        assert.strictEqual(getMultiplexedSessionStub.callCount, 1);
+        done();
+      });
+    });
+
     it('should return any pool errors', done => {
       const fakeError = new Error('err');
 
@@ -3136,6 +3283,118 @@ describe('Database', () => {
     });
   });
 
+  describe('getSchemaModel', () => {
+    it('should read the schema model in the database dialect', async () => {
+      const options = {};
+      const model = {};
+      database.getDatabaseDialect = async gaxOptions => {
+        assert.strictEqual(gaxOptions, options);
+        return 'POSTGRESQL';
+      };
+      fakeSchemaModel.readSchemaModel = async (db, dialect, gaxOptions) => {
+        assert.strictEqual(db, database);
+        assert.strictEqual(dialect, 'POSTGRESQL');
+        assert.strictEqual(gaxOptions, options);
+        return model;
+      };
+      const result = await database.getSchemaModel(options);
+      assert.strictEqual(result, model);
+    });
+
+    it('should default to GoogleSQL when the dialect is unspecified', async () => {
+      database.getDatabaseDialect = async () => 'DATABASE_DIALECT_UNSPECIFIED';
+      fakeSchemaModel.readSchemaModel = async (db, dialect) => {
+        assert.strictEqual(dialect, 'GOOGLE_STANDARD_SQL');
+        return {};
+      };
+      await database.getSchemaModel();
+    });
+
+    it('should return errors to the callback', done => {
+      const error = new Error('err');
+      database.getDatabaseDialect = async () => {
+        throw error;
+      };
+      database.getSchemaModel((err, model) => {
+        assert.strictEqual(err, error);
+        assert.strictEqual(model, undefined);
+        done();
+      });
+    });
+  });
+
+  describe('explain', () => {
+    const QUERY = 'SELECT * FROM Singers';
+    const STATS = {
+      queryPlan: {
+        planNodes: [{index: 0, kind: 'RELATIONAL', displayName: 'Scan'}],
+      },
+    };
+
+    function fakeRunStream(stats?: object) {
+      const calls: Array<[object, object]> = [];
+      database.runStream = (query, options) => {
+        calls.push([query, options]);
+        const stream = through.obj();
+        setImmediate(() => {
+          stream.push({});
+          if (stats) {
+            stream.emit('stats', stats);
+          }
+          stream.end();
+        });
+        return stream;
+      };
+      return calls;
+    }
+
+    it('should return the plan of the query', async () => {
+      const calls = fakeRunStream(STATS);
+
+      const plan = await database.explain(QUERY);
+
+      assert.strictEqual(plan.root!.name, 'Scan');
+      assert.deepStrictEqual(calls, [
+        [
+          {
+            sql: QUERY,
+            queryMode: google.spanner.v1.ExecuteSqlRequest.QueryMode.PLAN,
+          },
+          {},
+        ],
+      ]);
+    });
+
+    it('should profile the query with the timestamp bounds', async () => {
+      const calls = fakeRunStream(STATS);
+
+      await database.explain(
+        {sql: QUERY, params: {id: 1}},
+        {profile: true, maxStaleness: 10}
+      );
+
+      assert.deepStrictEqual(calls, [
+        [
+          {
+            sql: QUERY,
+            params: {id: 1},
+            queryMode: google.spanner.v1.ExecuteSqlRequest.QueryMode.PROFILE,
+          },
+          {maxStaleness: 10},
+        ],
+      ]);
+    });
+
+    it('should return an error if there is no plan', done => {
+      fakeRunStream();
+
+      database.explain(QUERY, err => {
+        assert.match(err!.message, /The statistics have no query plan\./);
+        done();
+      });
+    });
+  });
+
   describe('getRestoreInfo', () => {
     it('should get restore info from database metadata', async () => {
       const restoreInfo = {sourceType: 'BACKUP'};
@@ -0,0 +1,527 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {after, before, beforeEach, describe, it} from 'mocha';
+import * as assert from 'assert';
+import {grpc} from 'google-gax';
+import {google} from '../protos/protos';
+import {
+  createSimpleResultSet,
+  Emulator,
+  MockError,
+  MockSpanner,
+  startEmulator,
+  StatementResult,
+} from '../src/testing';
+import {
+  InMemoryDatabase,
+  InMemoryTable,
+  parseType,
+} from '../src/testing/in-memory-database';
+import v1 = google.spanner.v1;
+import TypeCode = google.spanner.v1.TypeCode;
+
+const SINGERS: InMemoryTable = {
+  name: 'Singers',
+  columns: [
+    {name: 'SingerId', type: 'INT64', nullable: false},
+    {name: 'FirstName', type: 'STRING(MAX)'},
+    {name: 'LastName', type: 'STRING(MAX)', nullable: false},
+  ],
+  primaryKey: [{column: 'SingerId'}],
+};
+
+const ALBUMS: InMemoryTable = {
+  name: 'Albums',
+  columns: [
+    {name: 'SingerId', type: 'INT64', nullable: false},
+    {name: 'AlbumId', type: 'INT64', nullable: false},
+    {name: 'Title', type: 'STRING(MAX)'},
+  ],
+  primaryKey: [{column: 'SingerId'}, {column: 'AlbumId', descending: true}],
+};
+
+function insert(table: string, columns: string[], rows: string[][]) {
+  return {
+    insert: {
+      table,
+      columns,
+      values: rows.map(row => ({
+        values: row.map(stringValue => ({stringValue})),
+      })),
+    },
+  };
+}
+
+function keys(...values: string[][]): v1.IKeySet {
+  return {
+    keys: values.map(key => ({
+      values: key.map(stringValue => ({stringValue})),
+    })),
+  };
+}
+
+function list(...values: string[]) {
+  return {values: values.map(stringValue => ({stringValue}))};
+}
+
+function readIds(
+  database: InMemoryDatabase,
+  table: string,
+  columns: string[],
+  keySet: v1.IKeySet
+): string[] {
+  return database
+    .read({table, columns, keySet})
+    .rows.map(row => row.values!.map(value => value.stringValue).join('/'));
+}
+
+describe('testing', () => {
+  it('should be exported as @google-cloud/spanner/testing', () => {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const testing = require('../../testing');
+    assert.strictEqual(testing.startEmulator, startEmulator);
+  });
+
+  describe('parseType', () => {
+    it('should parse GoogleSQL column types', () => {
+      assert.deepStrictEqual(parseType('INT64'), {code: TypeCode.INT64});
+      assert.deepStrictEqual(parseType('STRING(MAX)'), {code: TypeCode.STRING});
+      assert.deepStrictEqual(parseType('ARRAY<BYTES(10)>'), {
+        code: TypeCode.ARRAY,
+        arrayElementType: {code: TypeCode.BYTES},
+      });
+      assert.deepStrictEqual(parseType('PROTO<examples.Singer>'), {
+        code: TypeCode.PROTO,
+        protoTypeFqn: 'examples.Singer',
+      });
+    });
+
+    it('should throw for unsupported types', () => {
+      assert.throws(() => parseType('INTERVAL'), /Unsupported column type/);
+    });
+  });
+
+  describe('InMemoryDatabase', () => {
+    let database: InMemoryDatabase;
+
+    beforeEach(() => {
+      database = new InMemoryDatabase();
+      database.createTable(SINGERS);
+      database.createTable(ALBUMS);
+      database
+        .prepare([
+          insert(
+            'Albums',
+            ['SingerId', 'AlbumId', 'Title'],
+            [
+              ['1', '1', 'Total Junk'],
+              ['1', '2', 'Go, Go, Go'],
+              ['2', '1', 'Green'],
+              ['10', '1', 'Blue'],
+            ]
+          ),
+        ])
+        .apply();
+    });
+
+    it('should order rows by their primary key', () => {
+      assert.deepStrictEqual(
+        readIds(database, 'Albums', ['SingerId', 'AlbumId'], {all: true}),
+        ['1/2', '1/1', '2/1', '10/1']
+      );
+    });
+
+    it('should read rows by keys', () => {
+      assert.deepStrictEqual(
+        readIds(database, 'Albums', ['Title'], keys(['2', '1'], ['3', '1'])),
+        ['Green']
+      );
+    });
+
+    it('should read rows by key ranges', () => {
+      assert.deepStrictEqual(
+        readIds(database, 'Albums', ['Title'], {
+          ranges: [{startClosed: list('1'), endOpen: list('10')}],
+        }),
+        ['Go, Go, Go', 'Total Junk', 'Green']
+      );
+      assert.deepStrictEqual(
+        readIds(database, 'Albums', ['Title'], {
+          ranges: [{startOpen: list('1'), endClosed: list('10', '1')}],
+        }),
+        ['Green', 'Blue']
+      );
+    });
+
+    it('should apply the limit of a read', () => {
+      const resultSet = database.read({
+        table: 'Albums',
+        columns: ['Title'],
+        keySet: {all: true},
+        limit: 1,
+      });
+      assert.strictEqual(resultSet.rows.length, 1);
+      assert.deepStrictEqual(resultSet.metadata!.rowType!.fields, [
+        v1.StructType.Field.create({
+          name: 'Title',
+          type: {code: TypeCode.STRING},
+        }),
+      ]);
+    });
+
+    it('should apply updates, replaces and deletes', () => {
+      database
+        .prepare([
+          insert(
+            'Singers',
+            ['SingerId', 'FirstName', 'LastName'],
+            [['1', 'Marc', 'Richards']]
+          ),
+          {
+            update: {
+              table: 'Singers',
+              columns: ['SingerId', 'LastName'],
+              values: [list('1', 'Smith')],
+            },
+          },
+          {
+            replace: {
+              table: 'Albums',
+              columns: ['SingerId', 'AlbumId'],
+              values: [list('2', '1')],
+            },
+          },
+          {delete: {table: 'Albums', keySet: keys(['1', '1'])}},
+        ])
+        .apply();
+      assert.deepStrictEqual(database.rows('Singers'), [
+        {
+          SingerId: {stringValue: '1'},
+          FirstName: {stringValue: 'Marc'},
+          LastName: {stringValue: 'Smith'},
+        },
+      ]);
+      assert.deepStrictEqual(
+        readIds(database, 'Albums', ['SingerId', 'AlbumId'], {all: true}),
+        ['1/2', '2/1', '10/1']
+      );
+      assert.deepStrictEqual(database.rows('Albums')[1].Title, {
+        nullValue: 'NULL_VALUE',
+      });
+    });
+
+    it('should reject an insert of an existing row', () => {
+      assert.throws(
+        () =>
+          database.prepare([
+            insert('Albums', ['SingerId', 'AlbumId'], [['2', '1']]),
+          ]),
+        (err: grpc.ServiceError) => err.code === grpc.status.ALREADY_EXISTS
+      );
+    });
+
+    it('should reject an update of a missing row', () => {
+      assert.throws(
+        () =>
+          database.prepare([
+            {
+              update: {
+                table: 'Albums',
+                columns: ['SingerId', 'AlbumId'],
+                values: [list('3', '1')],
+              },
+            },
+          ]),
+        (err: grpc.ServiceError) => err.code === grpc.status.NOT_FOUND
+      );
+    });
+
+    it('should reject NULL in a column that is not nullable', () => {
+      assert.throws(
+        () =>
+          database.prepare([
+            insert('Singers', ['SingerId', 'FirstName'], [['1', 'Marc']]),
+          ]),
+        (err: grpc.ServiceError) =>
+          err.code === grpc.status.FAILED_PRECONDITION &&
+          /Singers.LastName/.test(err.message)
+      );
+    });
+
+    it('should reject unknown tables and columns', () => {
+      assert.throws(
+        () => database.read({table: 'Songs', columns: [], keySet: {all: true}}),
+        /Table not found: Songs/
+      );
+      assert.throws(
+        () =>
+          database.read({
+            table: 'Albums',
+            columns: ['Foo'],
+            keySet: {all: true},
+          }),
+        /Column not found in table Albums: Foo/
+      );
+    });
+
+    it('should not apply any mutation of a commit that fails', () => {
+      assert.throws(() =>
+        database.prepare([
+          {delete: {table: 'Albums', keySet: {all: true}}},
+          insert('Singers', ['SingerId'], [['1']]),
+        ])
+      );
+      assert.strictEqual(database.rows('Albums').length, 4);
+    });
+
+    it('should return the written keys of a commit', () => {
+      const prepared = database.prepare([
+        insert('Singers', ['SingerId', 'LastName'], [['5', 'Smith']]),
+        {delete: {table: 'Albums', keySet: keys(['1', '2'])}},
+      ]);
+      assert.deepStrictEqual(prepared.written, [
+        {table: 'Singers', key: [{stringValue: '5'}]},
+        {table: 'Albums', key: [{stringValue: '1'}, {stringValue: '2'}]},
+      ]);
+      assert.strictEqual(database.rows('Singers').length, 0);
+      assert.ok(
+        database.overlaps(prepared.written[1], 'Albums', {
+          ranges: [{startClosed: list('1'), endClosed: list('1')}],
+        })
+      );
+      assert.ok(!database.overlaps(prepared.written[1], 'Albums', keys(['2'])));
+    });
+  });
+
+  describe('startEmulator', () => {
+    let emulator: Emulator;
+
+    before(async () => {
+      emulator = await startEmulator({tables: [SINGERS, ALBUMS]});
+    });
+
+    after(async () => {
+      await emulator.close();
+    });
+
+    beforeEach(() => {
+      emulator.store.clear();
+      emulator.mock.resetRequests();
+    });
+
+    it('should apply mutations and serve reads', async () => {
+      const singers = emulator.database.table('Singers');
+      await singers.insert([
+        {SingerId: 1, FirstName: 'Marc', LastName: 'Richards'},
+        {SingerId: 2, FirstName: 'Catalina', LastName: 'Smith'},
+        {SingerId: 3, FirstName: 'Alice', LastName: 'Trentor'},
+      ]);
+      await singers.update({SingerId: 2, FirstName: 'Cat'});
+      await singers.deleteRows(['3']);
+
+      const [rows] = await singers.read({
+        keys: ['1', '2', '3'],
+        columns: ['SingerId', 'FirstName'],
+        json: true,
+      });
+      assert.deepStrictEqual(rows, [
+        {SingerId: 1, FirstName: 'Marc'},
+        {SingerId: 2, FirstName: 'Cat'},
+      ]);
+
+      const [range] = await singers.read({
+        ranges: [{startOpen: ['1'], endClosed: ['5']}],
+        columns: ['LastName'],
+        json: true,
+      });
+      assert.deepStrictEqual(range, [{LastName: 'Smith'}]);
+    });
+
+    it('should return the error of a mutation', async () => {
+      await assert.rejects(
+        emulator.database.table('Songs').insert({SongId: 1}),
+        (err: grpc.ServiceError) => err.code === grpc.status.NOT_FOUND
+      );
+    });
+
+    it('should abort a transaction that writes a key that an older transaction read', async () => {
+      const singers = emulator.database.table('Singers');
+      await singers.insert({SingerId: 1, LastName: 'Richards'});
+      const [older] = await emulator.database.getTransaction();
+      const [younger] = await emulator.database.getTransaction();
+      try {
+        await older.read('Singers', {keys: ['1'], columns: ['LastName']});
+        await younger.read('Singers', {keys: ['2'], columns: ['LastName']});
+        younger.update('Singers', {SingerId: 1, LastName: 'Smith'});
+        await assert.rejects(
+          younger.commit(),
+          (err: grpc.ServiceError) => err.code === grpc.status.ABORTED
+        );
+        older.update('Singers', {SingerId: 1, LastName: 'Jones'});
+        await older.commit();
+      } finally {
+        older.end();
+        younger.end();
+      }
+      const [rows] = await singers.read({
+        keys: ['1'],
+        columns: ['LastName'],
+        json: true,
+      });
+      assert.deepStrictEqual(rows, [{LastName: 'Jones'}]);
+    });
+
+    it('should abort a younger transaction that read a key that is written', async () => {
+      const [older] = await emulator.database.getTransaction();
+      const [younger] = await emulator.database.getTransaction();
+      try {
+        await older.read('Singers', {keys: ['1'], columns: ['LastName']});
+        await younger.read('Singers', {
+          ranges: [{startClosed: ['1'], endClosed: ['9']}],
+          columns: ['LastName'],
+        });
+        older.insert('Singers', {SingerId: 5, LastName: 'Smith'});
+        await older.commit();
+        await assert.rejects(
+          younger.read('Singers', {keys: ['5'], columns: ['LastName']}),
+          (err: grpc.ServiceError) => err.code === grpc.status.ABORTED
+        );
+      } finally {
+        older.end();
+        younger.end();
+      }
+    });
+  });
+
+  describe('faults', () => {
+    const sql = 'SELECT * FROM NUMBERS';
+    let emulator: Emulator;
+
+    function error(code: grpc.status): MockError {
+      return Object.assign(new Error(grpc.status[code]), {code}) as MockError;
+    }
+
+    before(async () => {
+      emulator = await startEmulator({tables: [SINGERS]});
+      emulator.mock.putStatementResult(
+        sql,
+        StatementResult.resultSet(createSimpleResultSet())
+      );
+    });
+
+    after(async () => {
+      await emulator.close();
+    });
+
+    beforeEach(() => {
+      emulator.mock.removeFaults();
+      emulator.mock.resetRequests();
+    });
+
+    function requests<T>(field: keyof T): T[] {
+      return emulator.mock
+        .getRequests()
+        .filter(request => field in (request as {})) as T[];
+    }
+
+    it('should fail the nth call of a method', async () => {
+      emulator.mock.injectFault(emulator.mock.commit, {
+        error: error(grpc.status.FAILED_PRECONDITION),
+        call: 2,
+      });
+      const singers = emulator.database.table('Singers');
+      await singers.upsert({SingerId: 1, LastName: 'Richards'});
+      await assert.rejects(
+        singers.upsert({SingerId: 2, LastName: 'Smith'}),
+        (err: grpc.ServiceError) => err.code === grpc.status.FAILED_PRECONDITION
+      );
+      await singers.upsert({SingerId: 3, LastName: 'Jones'});
+      assert.strictEqual(emulator.store.rows('Singers').length, 2);
+    });
+
+    it('should add the retry delay to the metadata of an error', async () => {
+      emulator.mock.injectFault(emulator.mock.commit, {
+        error: error(grpc.status.ABORTED),
+        retryDelay: 1500,
+      });
+      let attempts = 0;
+      await emulator.database.runTransactionAsync(async transaction => {
+        attempts++;
+        transaction.upsert('Singers', {SingerId: 1, LastName: 'Richards'});
+        await transaction.commit();
+      });
+      assert.strictEqual(attempts, 2);
+
+      const metadata = MockSpanner.createRetryDelayMetadata(1500);
+      const retryInfo = google.rpc.RetryInfo.decode(
+        metadata.get('google.rpc.retryinfo-bin')[0] as Buffer
+      );
+      assert.strictEqual(Number(retryInfo.retryDelay!.seconds), 1);
+      assert.strictEqual(retryInfo.retryDelay!.nanos, 5e8);
+    });
+
+    it('should fail a stream after a number of partial result sets', async () => {
+      emulator.mock.injectFault(emulator.mock.executeStreamingSql, {
+        error: error(grpc.status.UNAVAILABLE),
+        afterPartialResultSets: 2,
+      });
+      const [rows] = await emulator.database.run({sql, json: true});
+      assert.deepStrictEqual(
+        rows.map(row => (row as {NAME: string}).NAME),
+        ['One', 'Two', 'Three']
+      );
+      const executes = requests<v1.ExecuteSqlRequest>('sql');
+      assert.strictEqual(executes.length, 2);
+      assert.strictEqual(executes[1].resumeToken.toString(), '00000001');
+    });
+
+    it('should stream partial result sets without resume tokens', async () => {
+      emulator.mock.injectFault(emulator.mock.executeStreamingSql, {
+        error: error(grpc.status.UNAVAILABLE),
+        afterPartialResultSets: 2,
+        resumeTokens: false,
+      });
+      const [rows] = await emulator.database.run({sql, json: true});
+      assert.strictEqual(rows.length, 3);
+      const executes = requests<v1.ExecuteSqlRequest>('sql');
+      assert.strictEqual(executes.length, 2);
+      assert.strictEqual(executes[1].resumeToken.length, 0);
+    });
+
+    it('should fail requests on dropped sessions', async () => {
+      await emulator.database.run(sql);
+      emulator.mock.dropAllSessions();
+      const [rows] = await emulator.database.run(sql);
+      assert.strictEqual(rows.length, 3);
+      assert.ok(
+        requests<v1.BatchCreateSessionsRequest>('sessionCount').length > 0
+      );
+    });
+
+    it('should abort commits at random', async () => {
+      const random = [0.2, 0.8];
+      emulator.mock.setCommitAbortProbability(0.5, () => random.shift()!);
+      let attempts = 0;
+      await emulator.database.runTransactionAsync(async transaction => {
+        attempts++;
+        transaction.upsert('Singers', {SingerId: 1, LastName: 'Richards'});
+        await transaction.commit();
+      });
+      assert.strictEqual(attempts, 2);
+    });
+  });
+});
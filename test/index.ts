@@ -287,6 +287,13 @@ describe('Spanner', () => {
       assert.strictEqual(spanner.routeToLeaderEnabled, false);
     });
 
+    it('should optionally accept useMultiplexedSession', () => {
+      assert.strictEqual(new Spanner().useMultiplexedSession, false);
+      const spanner = new Spanner({useMultiplexedSession: true});
+      assert.strictEqual(spanner.useMultiplexedSession, true);
+      assert.ok(!('useMultiplexedSession' in spanner.options));
+    });
+
     it('should optionally accept directedReadOptions', () => {
       const fakeDirectedReadOptions = {
         includeReplicas: {
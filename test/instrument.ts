@@ -0,0 +1,425 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {after, afterEach, before, beforeEach, describe, it} from 'mocha';
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import {Readable} from 'stream';
+import {grpc} from 'google-gax';
+import {context, SpanKind, SpanStatusCode} from '@opentelemetry/api';
+import {AsyncHooksContextManager} from '@opentelemetry/context-async-hooks';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  ReadableSpan,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import {Database, Instance, Spanner} from '../src';
+import {PartialResultStream} from '../src/partial-result-stream';
+import {
+  ATTR_DB_NAME,
+  ATTR_DB_STATEMENT,
+  ATTR_DB_SQL_TABLE,
+  ATTR_DB_SYSTEM,
+  ATTR_TRANSACTION_ATTEMPT,
+  ATTR_TRANSACTION_TAG,
+  endSpan,
+  getTracer,
+  startTrace,
+} from '../src/instrument';
+import * as mock from './mockserver/mockspanner';
+import {MockError, SimulatedExecutionTime} from './mockserver/mockspanner';
+import * as mockInstanceAdmin from './mockserver/mockinstanceadmin';
+import * as mockDatabaseAdmin from './mockserver/mockdatabaseadmin';
+
+describe('instrument', () => {
+  const exporter = new InMemorySpanExporter();
+  const provider = new BasicTracerProvider();
+  provider.addSpanProcessor(new SimpleSpanProcessor(exporter));
+
+  function spanNames(): string[] {
+    return exporter.getFinishedSpans().map(span => span.name);
+  }
+
+  function findSpan(name: string): ReadableSpan {
+    const span = exporter.getFinishedSpans().find(span => span.name === name);
+    assert.ok(span, `span ${name} not found in ${spanNames()}`);
+    return span!;
+  }
+
+  afterEach(() => exporter.reset());
+
+  describe('startTrace', () => {
+    it('should prefix the span name and set the common attributes', () => {
+      startTrace(
+        'Database.run',
+        {
+          opts: {tracerProvider: provider},
+          dbName: 'projects/p/instances/i/databases/d',
+          transactionTag: 'tag',
+          attempt: 2,
+        },
+        span => span.end()
+      );
+
+      const span = findSpan('CloudSpanner.Database.run');
+      assert.strictEqual(span.kind, SpanKind.CLIENT);
+      assert.deepStrictEqual(span.attributes, {
+        [ATTR_DB_SYSTEM]: 'spanner',
+        [ATTR_DB_NAME]: 'projects/p/instances/i/databases/d',
+        [ATTR_TRANSACTION_TAG]: 'tag',
+        [ATTR_TRANSACTION_ATTEMPT]: 2,
+      });
+    });
+
+    it('should redact the SQL unless extended tracing is enabled', () => {
+      const sql = 'SELECT 1';
+      startTrace(
+        'Snapshot.run',
+        {opts: {tracerProvider: provider}, sql},
+        span => span.end()
+      );
+      startTrace(
+        'Transaction.run',
+        {
+          opts: {tracerProvider: provider, enableExtendedTracing: true},
+          sql: {sql},
+        },
+        span => span.end()
+      );
+
+      const [redacted, extended] = exporter.getFinishedSpans();
+      assert.strictEqual(redacted.attributes[ATTR_DB_STATEMENT], undefined);
+      assert.strictEqual(extended.attributes[ATTR_DB_STATEMENT], sql);
+    });
+
+    it('should return the value of the callback', () => {
+      const value = startTrace('Test', undefined, span => {
+        span.end();
+        return 'value';
+      });
+      assert.strictEqual(value, 'value');
+    });
+
+    it('should fall back to the global tracer provider', () => {
+      assert.ok(getTracer());
+      startTrace('Test', undefined, span => span.end());
+      assert.deepStrictEqual(exporter.getFinishedSpans(), []);
+    });
+  });
+
+  describe('endSpan', () => {
+    it('should end the span without setting an error status', () => {
+      startTrace('Test', {opts: {tracerProvider: provider}}, span =>
+        endSpan(span, null)
+      );
+
+      const span = findSpan('CloudSpanner.Test');
+      assert.strictEqual(span.status.code, SpanStatusCode.UNSET);
+      assert.deepStrictEqual(span.events, []);
+    });
+
+    it('should record the error', () => {
+      const error = new Error('boom');
+      startTrace('Test', {opts: {tracerProvider: provider}}, span =>
+        endSpan(span, error)
+      );
+
+      const span = findSpan('CloudSpanner.Test');
+      assert.strictEqual(span.status.code, SpanStatusCode.ERROR);
+      assert.strictEqual(span.status.message, 'boom');
+      assert.strictEqual(span.events[0].name, 'exception');
+    });
+  });
+
+  describe('with mock server', () => {
+    const selectSql = 'SELECT NUM, NAME FROM NUMBERS';
+    const invalidSql = 'SELECT * FROM FOO';
+    const insertSql = "INSERT INTO NUMBER (NUM, NAME) VALUES (4, 'Four')";
+    const server = new grpc.Server();
+    const spannerMock = mock.createMockSpanner(server);
+    mockInstanceAdmin.createMockInstanceAdmin(server);
+    mockDatabaseAdmin.createMockDatabaseAdmin(server);
+    const contextManager = new AsyncHooksContextManager();
+    let spanner: Spanner;
+    let instance: Instance;
+    let dbCounter = 1;
+
+    function newTestDatabase(): Database {
+      return instance.database(`database-${dbCounter++}`);
+    }
+
+    before(async () => {
+      context.setGlobalContextManager(contextManager.enable());
+      const port: number = await new Promise((resolve, reject) => {
+        server.bindAsync(
+          '0.0.0.0:0',
+          grpc.ServerCredentials.createInsecure(),
+          (err, assignedPort) => {
+            if (err) {
+              reject(err);
+            } else {
+              resolve(assignedPort);
+            }
+          }
+        );
+      });
+      spannerMock.putStatementResult(
+        selectSql,
+        mock.StatementResult.resultSet(mock.createSimpleResultSet())
+      );
+      spannerMock.putStatementResult(
+        invalidSql,
+        mock.StatementResult.error(
+          Object.assign(new Error('Table FOO not found'), {
+            code: grpc.status.NOT_FOUND,
+          })
+        )
+      );
+      spannerMock.putStatementResult(
+        insertSql,
+        mock.StatementResult.updateCount(1)
+      );
+      spanner = new Spanner({
+        projectId: 'test-project',
+        servicePath: 'localhost',
+        port,
+        sslCreds: grpc.credentials.createInsecure(),
+        observabilityOptions: {
+          tracerProvider: provider,
+          enableExtendedTracing: true,
+        },
+      });
+      instance = spanner.instance('instance');
+    });
+
+    after(() => {
+      spanner.close();
+      server.tryShutdown(() => {});
+      contextManager.disable();
+      context.disable();
+    });
+
+    beforeEach(() => {
+      spannerMock.resetRequests();
+      spannerMock.removeExecutionTimes();
+    });
+
+    it('should trace Database.run', async () => {
+      const database = newTestDatabase();
+      await database.run(selectSql);
+      await database.close();
+
+      const run = findSpan('CloudSpanner.Database.run');
+      const runStream = findSpan('CloudSpanner.Database.runStream');
+      assert.strictEqual(run.attributes[ATTR_DB_NAME], database.formattedName_);
+      assert.strictEqual(run.attributes[ATTR_DB_STATEMENT], selectSql);
+      assert.strictEqual(run.status.code, SpanStatusCode.UNSET);
+      assert.strictEqual(
+        runStream.parentSpanId,
+        run.spanContext().spanId,
+        'runStream should be a child of run'
+      );
+      assert.strictEqual(
+        findSpan('CloudSpanner.SessionPool.acquireSession').parentSpanId,
+        runStream.spanContext().spanId,
+        'acquireSession should be a child of runStream'
+      );
+      assert.ok(
+        spanNames().includes('CloudSpanner.SessionPool.createSessions')
+      );
+    });
+
+    it('should record errors on the span', async () => {
+      const database = newTestDatabase();
+      await assert.rejects(database.run(invalidSql), /Table FOO not found/);
+      await database.close();
+
+      const run = findSpan('CloudSpanner.Database.run');
+      assert.strictEqual(run.status.code, SpanStatusCode.ERROR);
+      assert.strictEqual(
+        findSpan('CloudSpanner.Database.runStream').status.code,
+        SpanStatusCode.ERROR
+      );
+    });
+
+    it('should end the span of a stream that is destroyed early', async () => {
+      const database = newTestDatabase();
+      // The stream is destroyed while it waits for a session.
+      sinon.stub(database, '_getReadOnlySession');
+      await new Promise<void>((resolve, reject) => {
+        database
+          .runStream(selectSql)
+          .on('error', reject)
+          .on('close', resolve)
+          .destroy();
+      });
+      await database.close();
+
+      const runStream = exporter
+        .getFinishedSpans()
+        .filter(span => span.name === 'CloudSpanner.Database.runStream');
+      assert.strictEqual(runStream.length, 1);
+      assert.strictEqual(runStream[0].status.code, SpanStatusCode.UNSET);
+    });
+
+    it('should trace Snapshot.run', async () => {
+      const database = newTestDatabase();
+      const [snapshot] = await database.getSnapshot();
+      await snapshot.run(selectSql);
+      snapshot.end();
+      await database.close();
+
+      const run = findSpan('CloudSpanner.Snapshot.run');
+      assert.strictEqual(run.attributes[ATTR_DB_NAME], database.formattedName_);
+      assert.strictEqual(run.attributes[ATTR_DB_STATEMENT], selectSql);
+    });
+
+    it('should trace Snapshot.read', async () => {
+      const database = newTestDatabase();
+      const [snapshot] = await database.getSnapshot();
+      // The mock server does not implement StreamingRead.
+      sinon
+        .stub(snapshot, 'createReadStream')
+        .returns(Readable.from([]) as PartialResultStream);
+      const [rows] = await snapshot.read('FOO', {keys: ['1'], columns: ['ID']});
+      snapshot.end();
+      await database.close();
+
+      assert.deepStrictEqual(rows, []);
+      const read = findSpan('CloudSpanner.Snapshot.read');
+      assert.strictEqual(
+        read.attributes[ATTR_DB_NAME],
+        database.formattedName_
+      );
+      assert.strictEqual(read.attributes[ATTR_DB_SQL_TABLE], 'FOO');
+    });
+
+    it('should trace read/write transactions', async () => {
+      const database = newTestDatabase();
+      await database.runTransactionAsync(
+        {requestOptions: {transactionTag: 'my-tag'}},
+        async transaction => {
+          await transaction.batchUpdate([insertSql]);
+          await transaction.commit();
+        }
+      );
+      await database.close();
+
+      const runTransaction = findSpan(
+        'CloudSpanner.Database.runTransactionAsync'
+      );
+      assert.strictEqual(
+        runTransaction.attributes[ATTR_TRANSACTION_TAG],
+        'my-tag'
+      );
+      assert.strictEqual(
+        runTransaction.attributes[ATTR_TRANSACTION_ATTEMPT],
+        0
+      );
+      const batchUpdate = findSpan('CloudSpanner.Transaction.batchUpdate');
+      assert.strictEqual(batchUpdate.attributes[ATTR_DB_STATEMENT], insertSql);
+      assert.strictEqual(
+        batchUpdate.attributes[ATTR_TRANSACTION_TAG],
+        'my-tag'
+      );
+      const commit = findSpan('CloudSpanner.Transaction.commit');
+      assert.strictEqual(
+        commit.parentSpanId,
+        runTransaction.spanContext().spanId
+      );
+    });
+
+    it('should record the retry attempts of a transaction', done => {
+      let attempts = 0;
+      const database = newTestDatabase();
+      database.runTransaction((err, transaction) => {
+        assert.ifError(err);
+        if (!attempts) {
+          spannerMock.abortTransaction(transaction!);
+        }
+        attempts++;
+        transaction!.runUpdate(insertSql, err => {
+          assert.ifError(err);
+          transaction!.commit(err => {
+            assert.ifError(err);
+            setImmediate(() => {
+              const span = findSpan('CloudSpanner.Database.runTransaction');
+              assert.strictEqual(span.attributes[ATTR_TRANSACTION_ATTEMPT], 1);
+              assert.deepStrictEqual(
+                span.events.map(event => event.name),
+                ['Retrying Transaction']
+              );
+              database
+                .close()
+                .catch(done)
+                .then(() => done());
+            });
+          });
+        });
+      });
+    });
+
+    it('should trace Transaction.rollback', async () => {
+      const database = newTestDatabase();
+      await database.runTransactionAsync(async transaction => {
+        await transaction.begin();
+        await transaction.rollback();
+      });
+      await database.close();
+
+      const rollback = findSpan('CloudSpanner.Transaction.rollback');
+      assert.strictEqual(rollback.status.code, SpanStatusCode.UNSET);
+    });
+
+    it('should trace BatchTransaction.execute', async () => {
+      const database = newTestDatabase();
+      const [transaction] = await database.createBatchTransaction();
+      await new Promise<void>((resolve, reject) => {
+        transaction.execute({sql: selectSql}, err =>
+          err ? reject(err) : resolve()
+        );
+      });
+      transaction.close();
+      await database.close();
+
+      const execute = findSpan('CloudSpanner.BatchTransaction.execute');
+      assert.strictEqual(execute.attributes[ATTR_DB_STATEMENT], selectSql);
+      assert.strictEqual(
+        findSpan('CloudSpanner.Snapshot.run').parentSpanId,
+        execute.spanContext().spanId
+      );
+    });
+
+    it('should trace failed session creation', async () => {
+      const error = {
+        code: grpc.status.PERMISSION_DENIED,
+        message: 'Permission denied',
+      } as MockError;
+      // One error for the initial fill of the pool, and one for the query.
+      spannerMock.setExecutionTime(
+        spannerMock.batchCreateSessions,
+        SimulatedExecutionTime.ofErrors([error, error])
+      );
+      const database = newTestDatabase();
+      await assert.rejects(database.run(selectSql), /Permission denied/);
+      await database.close();
+
+      const create = findSpan('CloudSpanner.SessionPool.createSessions');
+      assert.strictEqual(create.status.code, SpanStatusCode.ERROR);
+    });
+  });
+});
@@ -0,0 +1,306 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from 'assert';
+import {after, before, beforeEach, describe, it} from 'mocha';
+import {grpc} from 'google-gax';
+import {google} from '../protos/protos';
+import {
+  CommitResult,
+  QueryResult,
+  TransactionInterceptor,
+} from '../src/interceptors';
+import {ResultCache} from '../src/result-cache';
+import {
+  createSimpleResultSet,
+  Emulator,
+  MockError,
+  startEmulator,
+  StatementResult,
+} from '../src/testing';
+import v1 = google.spanner.v1;
+
+const SELECT = 'SELECT * FROM NUMBERS';
+const UPDATE = "UPDATE Singers SET LastName = 'Smith' WHERE TRUE";
+
+describe('TransactionInterceptor', () => {
+  let emulator: Emulator;
+
+  before(async () => {
+    emulator = await startEmulator({
+      tables: [
+        {
+          name: 'Singers',
+          columns: [
+            {name: 'SingerId', type: 'INT64', nullable: false},
+            {name: 'LastName', type: 'STRING(MAX)'},
+          ],
+          primaryKey: [{column: 'SingerId'}],
+        },
+      ],
+    });
+    emulator.mock.putStatementResult(
+      SELECT,
+      StatementResult.resultSet(createSimpleResultSet())
+    );
+    emulator.mock.putStatementResult(UPDATE, StatementResult.updateCount(2));
+  });
+
+  after(async () => {
+    await emulator.close();
+  });
+
+  beforeEach(() => {
+    emulator.mock.removeFaults();
+    emulator.mock.resetRequests();
+    emulator.database.transactionInterceptors = [];
+    emulator.spanner.transactionInterceptors = [];
+  });
+
+  function requests<T>(field: keyof T): T[] {
+    return emulator.mock
+      .getRequests()
+      .filter(request => field in (request as {})) as T[];
+  }
+
+  it('should let interceptors change queries', async () => {
+    const results: QueryResult[] = [];
+    emulator.database.transactionInterceptors.push({
+      beforeQuery: request => {
+        request.requestOptions = {requestTag: 'tenant=acme'};
+      },
+      afterQuery: result => results.push(result),
+    });
+
+    const [rows] = await emulator.database.run(SELECT);
+
+    assert.strictEqual(rows.length, 3);
+    const [request] = requests<v1.IExecuteSqlRequest>('sql');
+    assert.strictEqual(request.requestOptions!.requestTag, 'tenant=acme');
+    assert.strictEqual(results.length, 1);
+    assert.strictEqual(results[0].request.sql, SELECT);
+    assert.strictEqual(results[0].error, null);
+  });
+
+  it('should not change the request options of the caller', async () => {
+    emulator.database.transactionInterceptors.push({
+      beforeQuery: request => {
+        request.requestOptions!.requestTag = 'tenant=acme';
+      },
+    });
+    const query = {sql: SELECT, requestOptions: {requestTag: 'app'}};
+
+    await emulator.database.run(query);
+
+    const [request] = requests<v1.IExecuteSqlRequest>('sql');
+    assert.strictEqual(request.requestOptions!.requestTag, 'tenant=acme');
+    assert.deepStrictEqual(query.requestOptions, {requestTag: 'app'});
+  });
+
+  it('should not call the query hooks for cached results', async () => {
+    const sqls: string[] = [];
+    emulator.database.transactionInterceptors.push({
+      beforeQuery: request => sqls.push(request.sql),
+      afterQuery: result => sqls.push(result.request.sql),
+    });
+    emulator.database.resultCache = new ResultCache();
+    try {
+      await emulator.database.run(SELECT, {maxStaleness: 10000});
+      await emulator.database.run(SELECT, {maxStaleness: 10000});
+    } finally {
+      emulator.database.resultCache = null;
+    }
+
+    assert.deepStrictEqual(sqls, [SELECT, SELECT]);
+    assert.strictEqual(requests<v1.IExecuteSqlRequest>('sql').length, 1);
+  });
+
+  it('should reject a query when an interceptor throws', async () => {
+    const error = new Error('DML is not allowed on this replica.');
+    const results: QueryResult[] = [];
+    emulator.database.transactionInterceptors.push({
+      beforeQuery: request => {
+        if (request.sql.startsWith('UPDATE')) {
+          throw error;
+        }
+      },
+      afterQuery: result => results.push(result),
+    });
+
+    await assert.rejects(
+      emulator.database.runTransactionAsync(async transaction => {
+        try {
+          await transaction.runUpdate(UPDATE);
+        } finally {
+          transaction.end();
+        }
+      }),
+      error
+    );
+
+    assert.deepStrictEqual(requests<v1.IExecuteSqlRequest>('sql'), []);
+    assert.strictEqual(results[0].error, error);
+  });
+
+  it('should pass the statistics of DML statements', async () => {
+    const results: QueryResult[] = [];
+    emulator.database.transactionInterceptors.push({
+      afterQuery: result => results.push(result),
+    });
+
+    await emulator.database.runTransactionAsync(async transaction => {
+      await transaction.runUpdate(UPDATE);
+      await transaction.commit();
+    });
+
+    assert.strictEqual(results.length, 1);
+    assert.strictEqual(Number(results[0].stats!.rowCountExact), 2);
+  });
+
+  it('should call the query hooks for every statement of a batch', async () => {
+    const sqls: string[] = [];
+    const results: QueryResult[] = [];
+    emulator.database.transactionInterceptors.push({
+      beforeQuery: request => {
+        sqls.push(request.sql);
+        request.requestOptions = {requestTag: 'batch'};
+      },
+      afterQuery: result => results.push(result),
+    });
+
+    await emulator.database.runTransactionAsync(async transaction => {
+      await transaction.batchUpdate([UPDATE, {sql: UPDATE}]);
+      await transaction.commit();
+    });
+
+    assert.deepStrictEqual(sqls, [UPDATE, UPDATE]);
+    const [request] = requests<v1.IExecuteBatchDmlRequest>('statements');
+    assert.strictEqual(request.requestOptions!.requestTag, 'batch');
+    assert.deepStrictEqual(
+      results.map(({stats}) => Number(stats!.rowCountExact)),
+      [2, 2]
+    );
+  });
+
+  it('should not change the request options of the statements of a batch', async () => {
+    emulator.database.transactionInterceptors.push({
+      beforeQuery: request => {
+        request.requestOptions!.requestTag = 'tenant=acme';
+      },
+    });
+    const statement = {sql: UPDATE, requestOptions: {requestTag: 'app'}};
+
+    await emulator.database.runTransactionAsync(async transaction => {
+      await transaction.batchUpdate([statement]);
+      await transaction.commit();
+    });
+
+    const [request] = requests<v1.IExecuteBatchDmlRequest>('statements');
+    assert.strictEqual(request.requestOptions!.requestTag, 'tenant=acme');
+    assert.deepStrictEqual(statement.requestOptions, {requestTag: 'app'});
+  });
+
+  it('should let interceptors change and observe commits', async () => {
+    const results: CommitResult[] = [];
+    emulator.database.transactionInterceptors.push({
+      beforeCommit: request => {
+        assert.strictEqual(request.mutations!.length, 1);
+        request.requestOptions!.priority = 'PRIORITY_LOW';
+      },
+      afterCommit: result => results.push(result),
+    });
+
+    await emulator.database
+      .table('Singers')
+      .upsert({SingerId: 1, LastName: 'Richards'});
+
+    const [request] = requests<v1.ICommitRequest>('mutations');
+    assert.strictEqual(request.requestOptions!.priority, 'PRIORITY_LOW');
+    assert.strictEqual(results.length, 1);
+    assert.ok(results[0].response!.commitTimestamp);
+    assert.strictEqual(results[0].error, null);
+  });
+
+  it('should reject a commit when an interceptor throws', async () => {
+    const error = new Error('Read-only replica.');
+    emulator.database.transactionInterceptors.push({
+      beforeCommit: () => {
+        throw error;
+      },
+    });
+
+    await assert.rejects(
+      emulator.database
+        .table('Singers')
+        .upsert({SingerId: 2, LastName: 'Smith'}),
+      error
+    );
+    assert.deepStrictEqual(requests<v1.ICommitRequest>('mutations'), []);
+  });
+
+  it('should report the retries of aborted transactions', async () => {
+    emulator.mock.injectFault(emulator.mock.commit, {
+      error: Object.assign(new Error('Aborted'), {
+        code: grpc.status.ABORTED,
+      }) as MockError,
+      retryDelay: 1,
+    });
+    const aborts: Array<[number, grpc.status]> = [];
+    emulator.database.transactionInterceptors.push({
+      onAbort: (attempt, error) => aborts.push([attempt, error.code]),
+    });
+
+    await emulator.database.runTransactionAsync(async transaction => {
+      transaction.upsert('Singers', {SingerId: 3, LastName: 'Jones'});
+      await transaction.commit();
+    });
+
+    assert.deepStrictEqual(aborts, [[1, grpc.status.ABORTED]]);
+  });
+
+  it('should run the interceptors of the client first', async () => {
+    const calls: string[] = [];
+    const interceptor = (name: string): TransactionInterceptor => ({
+      beforeQuery: () => {
+        calls.push(name);
+      },
+    });
+    emulator.database.transactionInterceptors.push(interceptor('database'));
+    emulator.spanner.transactionInterceptors.push(interceptor('spanner'));
+
+    await emulator.database.run(SELECT);
+
+    assert.deepStrictEqual(calls, ['spanner', 'database']);
+  });
+
+  it('should ignore the errors of the after hooks', async () => {
+    emulator.database.transactionInterceptors.push({
+      afterQuery: () => {
+        throw new Error('Audit log unavailable.');
+      },
+      afterCommit: () => {
+        throw new Error('Audit log unavailable.');
+      },
+    });
+
+    const [rows] = await emulator.database.run(SELECT);
+    await emulator.database
+      .table('Singers')
+      .upsert({SingerId: 4, LastName: 'Brown'});
+
+    assert.strictEqual(rows.length, 3);
+  });
+});
@@ -0,0 +1,383 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {after, before, beforeEach, describe, it} from 'mocha';
+import * as assert from 'assert';
+import {grpc} from 'google-gax';
+import {PassThrough} from 'stream';
+import {
+  DataPointType,
+  MeterProvider,
+  MetricData,
+  MetricReader,
+} from '@opentelemetry/sdk-metrics';
+import {Database, Instance, Spanner} from '../src';
+import {ATTR_DB_NAME} from '../src/instrument';
+import {
+  METRIC_ABORTS_RETRIED,
+  METRIC_ACQUIRE_LATENCY,
+  METRIC_PENDING_ACQUIRES,
+  METRIC_RPC_LATENCY,
+  METRIC_SESSIONS_CREATING,
+  METRIC_SESSIONS_IDLE,
+  METRIC_SESSIONS_IN_USE,
+  METRIC_SESSION_NOT_FOUND_RECOVERIES,
+  METRIC_STREAM_RESUMES,
+  METRIC_STREAM_ROWS,
+  MetricAttributes,
+  MetricsRecorder,
+  OpenTelemetryMetricsRecorder,
+  getMetricsRecorder,
+} from '../src/metrics';
+import * as mock from './mockserver/mockspanner';
+import {MockError, SimulatedExecutionTime} from './mockserver/mockspanner';
+import * as mockInstanceAdmin from './mockserver/mockinstanceadmin';
+import * as mockDatabaseAdmin from './mockserver/mockdatabaseadmin';
+
+class TestMetricReader extends MetricReader {
+  protected onForceFlush(): Promise<void> {
+    return Promise.resolve();
+  }
+  protected onShutdown(): Promise<void> {
+    return Promise.resolve();
+  }
+}
+
+interface Measurement {
+  name: string;
+  value: number;
+  attributes?: MetricAttributes;
+}
+
+class FakeMetricsRecorder implements MetricsRecorder {
+  counters: Measurement[] = [];
+  histograms: Measurement[] = [];
+  gauges = new Map<string, () => number>();
+  addCounter(name: string, value: number, attributes?: MetricAttributes) {
+    this.counters.push({name, value, attributes});
+  }
+  recordHistogram(name: string, value: number, attributes?: MetricAttributes) {
+    this.histograms.push({name, value, attributes});
+  }
+  observeGauge(name: string, callback: () => number) {
+    this.gauges.set(name, callback);
+    return () => this.gauges.delete(name);
+  }
+  reset() {
+    this.counters = [];
+    this.histograms = [];
+  }
+}
+
+describe('metrics', () => {
+  describe('getMetricsRecorder', () => {
+    it('should return the configured recorder', () => {
+      const recorder = new FakeMetricsRecorder();
+      assert.strictEqual(
+        getMetricsRecorder({metricsRecorder: recorder}),
+        recorder
+      );
+    });
+
+    it('should return a no-op recorder by default', () => {
+      const recorder = getMetricsRecorder();
+      recorder.addCounter(METRIC_ABORTS_RETRIED, 1);
+      recorder.recordHistogram(METRIC_RPC_LATENCY, 1);
+      const unregister = recorder.observeGauge(METRIC_SESSIONS_IDLE, () => 1);
+      assert.strictEqual(typeof unregister, 'function');
+      unregister();
+    });
+  });
+
+  describe('OpenTelemetryMetricsRecorder', () => {
+    let reader: TestMetricReader;
+    let recorder: OpenTelemetryMetricsRecorder;
+
+    beforeEach(() => {
+      reader = new TestMetricReader();
+      recorder = new OpenTelemetryMetricsRecorder(
+        new MeterProvider({readers: [reader]})
+      );
+    });
+
+    async function collect(name: string): Promise<MetricData | undefined> {
+      const {resourceMetrics} = await reader.collect();
+      return resourceMetrics.scopeMetrics
+        .flatMap(scope => scope.metrics)
+        .find(metric => metric.descriptor.name === name);
+    }
+
+    it('should record counters', async () => {
+      recorder.addCounter(METRIC_ABORTS_RETRIED, 1, {[ATTR_DB_NAME]: 'db'});
+      recorder.addCounter(METRIC_ABORTS_RETRIED, 2, {[ATTR_DB_NAME]: 'db'});
+
+      const metric = await collect(METRIC_ABORTS_RETRIED);
+      assert.strictEqual(metric!.dataPointType, DataPointType.SUM);
+      assert.strictEqual(metric!.dataPoints.length, 1);
+      assert.strictEqual(metric!.dataPoints[0].value, 3);
+      assert.deepStrictEqual(metric!.dataPoints[0].attributes, {
+        [ATTR_DB_NAME]: 'db',
+      });
+      assert.strictEqual(metric!.descriptor.unit, '{transaction}');
+    });
+
+    it('should record histograms', async () => {
+      recorder.recordHistogram(METRIC_RPC_LATENCY, 10, {method: 'commit'});
+      recorder.recordHistogram(METRIC_RPC_LATENCY, 20, {method: 'commit'});
+
+      const metric = await collect(METRIC_RPC_LATENCY);
+      assert.strictEqual(metric!.dataPointType, DataPointType.HISTOGRAM);
+      const value = metric!.dataPoints[0].value as {
+        count: number;
+        sum: number;
+      };
+      assert.strictEqual(value.count, 2);
+      assert.strictEqual(value.sum, 30);
+      assert.strictEqual(metric!.descriptor.unit, 'ms');
+    });
+
+    it('should observe gauges until they are unregistered', async () => {
+      let idle = 4;
+      let observed = 0;
+      const unregister = recorder.observeGauge(
+        METRIC_SESSIONS_IDLE,
+        () => {
+          observed++;
+          return idle;
+        },
+        {[ATTR_DB_NAME]: 'db'}
+      );
+
+      let metric = await collect(METRIC_SESSIONS_IDLE);
+      assert.strictEqual(metric!.dataPoints[0].value, 4);
+
+      idle = 2;
+      metric = await collect(METRIC_SESSIONS_IDLE);
+      assert.strictEqual(metric!.dataPoints[0].value, 2);
+      assert.strictEqual(observed, 2);
+
+      unregister();
+      await collect(METRIC_SESSIONS_IDLE);
+      assert.strictEqual(observed, 2);
+    });
+  });
+
+  describe('with mock server', () => {
+    const selectSql = 'SELECT NUM, NAME FROM NUMBERS';
+    const insertSql = "INSERT INTO NUMBER (NUM, NAME) VALUES (4, 'Four')";
+    const server = new grpc.Server();
+    const spannerMock = mock.createMockSpanner(server);
+    mockInstanceAdmin.createMockInstanceAdmin(server);
+    mockDatabaseAdmin.createMockDatabaseAdmin(server);
+    const recorder = new FakeMetricsRecorder();
+    let spanner: Spanner;
+    let instance: Instance;
+    let dbCounter = 1;
+
+    function newTestDatabase(): Database {
+      return instance.database(`database-${dbCounter++}`);
+    }
+
+    function histograms(name: string): Measurement[] {
+      return recorder.histograms.filter(m => m.name === name);
+    }
+
+    function counters(name: string): Measurement[] {
+      return recorder.counters.filter(m => m.name === name);
+    }
+
+    before(async () => {
+      const port: number = await new Promise((resolve, reject) => {
+        server.bindAsync(
+          '0.0.0.0:0',
+          grpc.ServerCredentials.createInsecure(),
+          (err, assignedPort) => {
+            if (err) {
+              reject(err);
+            } else {
+              resolve(assignedPort);
+            }
+          }
+        );
+      });
+      spannerMock.putStatementResult(
+        selectSql,
+        mock.StatementResult.resultSet(mock.createSimpleResultSet())
+      );
+      spannerMock.putStatementResult(
+        insertSql,
+        mock.StatementResult.updateCount(1)
+      );
+      spanner = new Spanner({
+        projectId: 'test-project',
+        servicePath: 'localhost',
+        port,
+        sslCreds: grpc.credentials.createInsecure(),
+        observabilityOptions: {metricsRecorder: recorder},
+      });
+      instance = spanner.instance('instance');
+    });
+
+    after(() => {
+      spanner.close();
+      server.tryShutdown(() => {});
+    });
+
+    beforeEach(() => {
+      recorder.reset();
+      spannerMock.resetRequests();
+      spannerMock.removeExecutionTimes();
+    });
+
+    it('should observe the state of the session pool', async () => {
+      const database = newTestDatabase();
+      assert.deepStrictEqual(
+        [...recorder.gauges.keys()].sort(),
+        [
+          METRIC_PENDING_ACQUIRES,
+          METRIC_SESSIONS_CREATING,
+          METRIC_SESSIONS_IDLE,
+          METRIC_SESSIONS_IN_USE,
+        ].sort()
+      );
+      await database.run(selectSql);
+      assert.strictEqual(recorder.gauges.get(METRIC_SESSIONS_IN_USE)!(), 0);
+      assert.strictEqual(recorder.gauges.get(METRIC_PENDING_ACQUIRES)!(), 0);
+      assert.ok(recorder.gauges.get(METRIC_SESSIONS_IDLE)!() > 0);
+
+      await database.close();
+      assert.strictEqual(recorder.gauges.size, 0);
+    });
+
+    it('should record the session acquire latency', async () => {
+      const database = newTestDatabase();
+      await database.run(selectSql);
+      await database.close();
+
+      const [latency] = histograms(METRIC_ACQUIRE_LATENCY);
+      assert.ok(latency.value >= 0);
+      assert.deepStrictEqual(latency.attributes, {
+        [ATTR_DB_NAME]: database.formattedName_,
+      });
+    });
+
+    it('should record the latency of RPCs by method', async () => {
+      const database = newTestDatabase();
+      await database.runTransactionAsync(async transaction => {
+        await transaction.runUpdate(insertSql);
+        await transaction.commit();
+      });
+      await database.close();
+
+      const methods = histograms(METRIC_RPC_LATENCY).map(
+        m => m.attributes!.method
+      );
+      assert.ok(methods.includes('batchCreateSessions'), `${methods}`);
+      assert.ok(methods.includes('executeStreamingSql'), `${methods}`);
+      assert.ok(methods.includes('commit'), `${methods}`);
+      histograms(METRIC_RPC_LATENCY).forEach(m =>
+        assert.strictEqual(m.attributes!.status, 'OK')
+      );
+    });
+
+    it('should record streams that are closed early as cancelled', async () => {
+      const rpc = new PassThrough({objectMode: true});
+      const prepare = spanner.prepareGapicRequest_;
+      spanner.prepareGapicRequest_ = (config, callback) =>
+        callback(null, () => rpc);
+      try {
+        const stream = spanner.requestStream({
+          client: 'SpannerClient',
+          method: 'executeStreamingSql',
+          reqOpts: {},
+        });
+        await new Promise(resolve => {
+          stream.on('close', resolve).resume();
+          setImmediate(() => stream.destroy());
+        });
+      } finally {
+        spanner.prepareGapicRequest_ = prepare;
+      }
+
+      assert.deepStrictEqual(
+        histograms(METRIC_RPC_LATENCY).map(m => m.attributes),
+        [{method: 'executeStreamingSql', status: 'CANCELLED'}]
+      );
+    });
+
+    it('should record the number of rows and resumes of a stream', async () => {
+      const database = newTestDatabase();
+      await database.run(selectSql);
+      await database.close();
+
+      assert.deepStrictEqual(
+        histograms(METRIC_STREAM_ROWS).map(m => m.value),
+        [3]
+      );
+      assert.deepStrictEqual(
+        histograms(METRIC_STREAM_RESUMES).map(m => m.value),
+        [0]
+      );
+    });
+
+    it('should count retried aborted transactions', async () => {
+      let attempts = 0;
+      const database = newTestDatabase();
+      await database.runTransactionAsync(async transaction => {
+        if (!attempts) {
+          spannerMock.abortTransaction(transaction);
+        }
+        attempts++;
+        await transaction.runUpdate(insertSql);
+        await transaction.commit();
+      });
+      await database.close();
+
+      assert.deepStrictEqual(counters(METRIC_ABORTS_RETRIED), [
+        {
+          name: METRIC_ABORTS_RETRIED,
+          value: 1,
+          attributes: {[ATTR_DB_NAME]: database.formattedName_},
+        },
+      ]);
+    });
+
+    it('should count "Session not found" recoveries', async () => {
+      spannerMock.setExecutionTime(
+        spannerMock.executeStreamingSql,
+        SimulatedExecutionTime.ofError({
+          code: grpc.status.NOT_FOUND,
+          message: 'Session not found',
+        } as MockError)
+      );
+      const database = newTestDatabase();
+      const [rows] = await database.run(selectSql);
+      await database.close();
+
+      assert.strictEqual(rows.length, 3);
+      assert.deepStrictEqual(counters(METRIC_SESSION_NOT_FOUND_RECOVERIES), [
+        {
+          name: METRIC_SESSION_NOT_FOUND_RECOVERIES,
+          value: 1,
+          attributes: {
+            [ATTR_DB_NAME]: database.formattedName_,
+            method: 'runStream',
+          },
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,553 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {after, afterEach, before, beforeEach, describe, it} from 'mocha';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {grpc} from 'google-gax';
+import {Database, Instance, Spanner} from '../src';
+import {
+  Migration,
+  MigrationLockError,
+  Migrator,
+  loadMigrations,
+  splitStatements,
+} from '../src/migrations';
+import {google} from '../protos/protos';
+import * as mock from './mockserver/mockspanner';
+import * as mockInstanceAdmin from './mockserver/mockinstanceadmin';
+import * as mockDatabaseAdmin from './mockserver/mockdatabaseadmin';
+import v1 = google.spanner.v1;
+import TypeCode = google.spanner.v1.TypeCode;
+
+function createResultSet(
+  columns: Array<[string, TypeCode]>,
+  rows: Array<Array<string | boolean>>
+): v1.ResultSet {
+  return v1.ResultSet.create({
+    metadata: new v1.ResultSetMetadata({
+      rowType: new v1.StructType({
+        fields: columns.map(([name, code]) =>
+          v1.StructType.Field.create({name, type: v1.Type.create({code})})
+        ),
+      }),
+    }),
+    rows: rows.map(values => ({
+      values: values.map(value =>
+        typeof value === 'boolean' ? {boolValue: value} : {stringValue: value}
+      ),
+    })),
+  });
+}
+
+describe('migrations', () => {
+  describe('splitStatements', () => {
+    it('should split statements and remove comments', () => {
+      const sql = [
+        '-- Create the singers table.',
+        'CREATE TABLE Singers (',
+        '  SingerId INT64, -- The id.',
+        ') PRIMARY KEY (SingerId);',
+        '',
+        'CREATE INDEX SingersById ON Singers (SingerId);',
+      ].join('\n');
+      assert.deepStrictEqual(splitStatements(sql), [
+        'CREATE TABLE Singers (\n  SingerId INT64, \n) PRIMARY KEY (SingerId)',
+        'CREATE INDEX SingersById ON Singers (SingerId)',
+      ]);
+    });
+  });
+
+  describe('loadMigrations', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'migrations-'));
+    });
+
+    afterEach(() => {
+      fs.readdirSync(directory).forEach(file =>
+        fs.unlinkSync(path.join(directory, file))
+      );
+      fs.rmdirSync(directory);
+    });
+
+    it('should load .sql and .js files ordered by version', async () => {
+      fs.writeFileSync(
+        path.join(directory, '0002_backfill_names.js'),
+        'module.exports = {partitionedDml: [\'UPDATE Singers SET Name = "" WHERE Name IS NULL\']};'
+      );
+      fs.writeFileSync(
+        path.join(directory, '0001_create_singers.sql'),
+        'CREATE TABLE Singers (SingerId INT64) PRIMARY KEY (SingerId);'
+      );
+      fs.writeFileSync(path.join(directory, 'README.md'), '# Migrations');
+
+      const migrations = await loadMigrations(directory);
+      assert.deepStrictEqual(migrations, [
+        {
+          version: 1,
+          description: 'create singers',
+          ddl: ['CREATE TABLE Singers (SingerId INT64) PRIMARY KEY (SingerId)'],
+        },
+        {
+          version: 2,
+          description: 'backfill names',
+          partitionedDml: ['UPDATE Singers SET Name = "" WHERE Name IS NULL'],
+        },
+      ]);
+    });
+
+    it('should reject duplicate versions', async () => {
+      fs.writeFileSync(path.join(directory, '1_a.sql'), '');
+      fs.writeFileSync(path.join(directory, '01_b.sql'), '');
+      await assert.rejects(
+        loadMigrations(directory),
+        /Duplicate migration version: 1/
+      );
+    });
+  });
+
+  describe('MigrationLockError', () => {
+    it('should describe the owner of the lock', () => {
+      const acquiredAt = new Date('2026-01-01T00:00:00Z');
+      const error = new MigrationLockError('host:1', acquiredAt);
+      assert.strictEqual(error.name, 'MigrationLockError');
+      assert.strictEqual(error.owner, 'host:1');
+      assert.strictEqual(
+        error.message,
+        'Migrations are locked by host:1 since 2026-01-01T00:00:00.000Z. ' +
+          'Delete the lock row if that migrator is no longer running.'
+      );
+    });
+  });
+
+  describe('Migrator', () => {
+    const tablesSql =
+      'SELECT `TABLE_NAME` FROM `INFORMATION_SCHEMA`.`TABLES` ' +
+      'WHERE `TABLE_SCHEMA` = @p1 AND `TABLE_NAME` IN UNNEST(@p2)';
+    const lockSql =
+      'SELECT `Owner`, `AcquiredAt` FROM `SchemaMigrationsLock` ' +
+      'WHERE `Id` = @p1';
+    const versionsSql = 'SELECT `Version`, `Completed` FROM `SchemaMigrations`';
+    const backfillSql = "UPDATE Singers SET Name = '' WHERE Name IS NULL";
+    const insertSql = "INSERT INTO Singers (SingerId, Name) VALUES (1, 'One')";
+
+    const server = new grpc.Server();
+    const spannerMock = mock.createMockSpanner(server);
+    mockInstanceAdmin.createMockInstanceAdmin(server);
+    const adminMock = mockDatabaseAdmin.createMockDatabaseAdmin(server);
+    let spanner: Spanner;
+    let instance: Instance;
+    let dbCounter = 1;
+
+    const MIGRATIONS: Migration[] = [
+      {version: 5, ddl: ['CREATE INDEX SingersByName ON Singers (Name)']},
+      {
+        version: 4,
+        transaction: async transaction => {
+          await transaction.runUpdate(insertSql);
+        },
+      },
+      {
+        version: 3,
+        ddl: ['ALTER TABLE Singers ADD COLUMN Name STRING(MAX)'],
+        partitionedDml: [backfillSql],
+      },
+      {
+        version: 2,
+        ddl: ['CREATE TABLE Albums (AlbumId INT64) PRIMARY KEY (AlbumId)'],
+      },
+      {
+        version: 1,
+        description: 'create singers',
+        ddl: ['CREATE TABLE Singers (SingerId INT64) PRIMARY KEY (SingerId)'],
+      },
+    ];
+
+    function newTestDatabase(): Database {
+      return instance.database(`database-${dbCounter++}`);
+    }
+
+    function putTables(count: number) {
+      const rows = ['SchemaMigrations', 'SchemaMigrationsLock']
+        .slice(0, count)
+        .map(name => [name]);
+      spannerMock.putStatementResult(
+        tablesSql,
+        mock.StatementResult.resultSet(
+          createResultSet([['TABLE_NAME', TypeCode.STRING]], rows)
+        )
+      );
+    }
+
+    function putVersions(versions: number[], started: number[] = []) {
+      spannerMock.putStatementResult(
+        versionsSql,
+        mock.StatementResult.resultSet(
+          createResultSet(
+            [
+              ['Version', TypeCode.INT64],
+              ['Completed', TypeCode.BOOL],
+            ],
+            [
+              ...versions.map(version => [`${version}`, true]),
+              ...started.map(version => [`${version}`, false]),
+            ]
+          )
+        )
+      );
+    }
+
+    function putLock(owner?: string) {
+      spannerMock.putStatementResult(
+        lockSql,
+        mock.StatementResult.resultSet(
+          createResultSet(
+            [
+              ['Owner', TypeCode.STRING],
+              ['AcquiredAt', TypeCode.TIMESTAMP],
+            ],
+            owner ? [[owner, '2026-01-01T00:00:00Z']] : []
+          )
+        )
+      );
+    }
+
+    function ddlRequests(): string[][] {
+      return adminMock.getRequests().map(request => request.statements);
+    }
+
+    function mutations(): string[] {
+      return spannerMock
+        .getRequests()
+        .filter(val => (val as v1.CommitRequest).mutations)
+        .flatMap(val =>
+          (val as v1.CommitRequest).mutations.map(mutation => {
+            if (mutation.delete) {
+              return `delete ${mutation.delete.table}`;
+            }
+            const kind = mutation.insert ? 'insert' : 'update';
+            const {table, columns, values} = (mutation.insert ||
+              mutation.update)!;
+            const key = columns!.indexOf(
+              table === 'SchemaMigrations' ? 'Version' : 'Id'
+            );
+            return `${kind} ${table} ${values!.map(
+              row => row.values![key].stringValue
+            )}`;
+          })
+        );
+    }
+
+    before(async () => {
+      const port: number = await new Promise((resolve, reject) => {
+        server.bindAsync(
+          '0.0.0.0:0',
+          grpc.ServerCredentials.createInsecure(),
+          (err, assignedPort) => {
+            if (err) {
+              reject(err);
+            } else {
+              resolve(assignedPort);
+            }
+          }
+        );
+      });
+      spannerMock.putStatementResult(
+        backfillSql,
+        mock.StatementResult.updateCount(10)
+      );
+      spannerMock.putStatementResult(
+        insertSql,
+        mock.StatementResult.updateCount(1)
+      );
+      spanner = new Spanner({
+        projectId: 'test-project',
+        servicePath: 'localhost',
+        port,
+        sslCreds: grpc.credentials.createInsecure(),
+      });
+      instance = spanner.instance('instance');
+    });
+
+    after(() => {
+      spanner.close();
+      server.tryShutdown(() => {});
+    });
+
+    beforeEach(() => {
+      spannerMock.resetRequests();
+      adminMock.resetRequests();
+      putTables(2);
+      putVersions([]);
+      putLock();
+    });
+
+    it('should reject duplicate versions', () => {
+      assert.throws(
+        () =>
+          new Migrator(newTestDatabase(), [{version: 1}, {version: 1}], {
+            dialect: 'GOOGLE_STANDARD_SQL',
+          }),
+        /Duplicate migration version: 1/
+      );
+    });
+
+    it('should apply all migrations to a new database', async () => {
+      putTables(0);
+      const database = newTestDatabase();
+      const migrator = new Migrator(database, MIGRATIONS, {
+        dialect: 'GOOGLE_STANDARD_SQL',
+        owner: 'test',
+      });
+      try {
+        const result = await migrator.migrate();
+        assert.deepStrictEqual(result.versions, [1, 2, 3, 4, 5]);
+
+        const ddl = ddlRequests();
+        assert.strictEqual(ddl.length, 3);
+        assert.ok(
+          ddl[0][0].startsWith(
+            'CREATE TABLE IF NOT EXISTS `SchemaMigrations` ('
+          ),
+          ddl[0][0]
+        );
+        assert.ok(
+          ddl[0][1].startsWith(
+            'CREATE TABLE IF NOT EXISTS `SchemaMigrationsLock` ('
+          ),
+          ddl[0][1]
+        );
+        assert.deepStrictEqual(ddl.slice(1), [
+          [
+            'CREATE TABLE Singers (SingerId INT64) PRIMARY KEY (SingerId)',
+            'CREATE TABLE Albums (AlbumId INT64) PRIMARY KEY (AlbumId)',
+            'ALTER TABLE Singers ADD COLUMN Name STRING(MAX)',
+          ],
+          ['CREATE INDEX SingersByName ON Singers (Name)'],
+        ]);
+        assert.deepStrictEqual(mutations(), [
+          'insert SchemaMigrationsLock 1',
+          'insert SchemaMigrations 1,2,3',
+          'update SchemaMigrations 3',
+          'insert SchemaMigrations 4',
+          'insert SchemaMigrations 5',
+          'delete SchemaMigrationsLock',
+        ]);
+
+        const sqls = spannerMock
+          .getRequests()
+          .map(val => (val as v1.ExecuteSqlRequest).sql)
+          .filter(sql => sql);
+        assert.ok(sqls.includes(backfillSql), `${sqls}`);
+        assert.ok(sqls.includes(insertSql), `${sqls}`);
+      } finally {
+        await database.close();
+      }
+    });
+
+    it('should only apply pending migrations', async () => {
+      putVersions([1, 2, 3]);
+      const database = newTestDatabase();
+      const migrator = new Migrator(database, MIGRATIONS, {
+        dialect: 'GOOGLE_STANDARD_SQL',
+      });
+      try {
+        const result = await migrator.migrate();
+        assert.deepStrictEqual(result, {
+          versions: [4, 5],
+          statements: ['CREATE INDEX SingersByName ON Singers (Name)'],
+        });
+        assert.deepStrictEqual(ddlRequests(), [
+          ['CREATE INDEX SingersByName ON Singers (Name)'],
+        ]);
+      } finally {
+        await database.close();
+      }
+    });
+
+    it('should only run the data steps of a migration whose DDL was applied', async () => {
+      putVersions([1, 2], [3]);
+      const database = newTestDatabase();
+      const migrator = new Migrator(database, MIGRATIONS, {
+        dialect: 'GOOGLE_STANDARD_SQL',
+        owner: 'test',
+      });
+      try {
+        const result = await migrator.migrate();
+        assert.deepStrictEqual(result, {
+          versions: [3, 4, 5],
+          statements: ['CREATE INDEX SingersByName ON Singers (Name)'],
+        });
+        assert.deepStrictEqual(ddlRequests(), [
+          ['CREATE INDEX SingersByName ON Singers (Name)'],
+        ]);
+        assert.deepStrictEqual(mutations(), [
+          'insert SchemaMigrationsLock 1',
+          'update SchemaMigrations 3',
+          'insert SchemaMigrations 4',
+          'insert SchemaMigrations 5',
+          'delete SchemaMigrationsLock',
+        ]);
+      } finally {
+        await database.close();
+      }
+    });
+
+    it('should record the migrations before a migration whose DDL was applied', async () => {
+      putVersions([1], [3]);
+      const database = newTestDatabase();
+      const migrator = new Migrator(database, MIGRATIONS, {
+        dialect: 'GOOGLE_STANDARD_SQL',
+        owner: 'test',
+      });
+      try {
+        await migrator.migrate();
+        assert.deepStrictEqual(ddlRequests(), [
+          ['CREATE TABLE Albums (AlbumId INT64) PRIMARY KEY (AlbumId)'],
+          ['CREATE INDEX SingersByName ON Singers (Name)'],
+        ]);
+        assert.deepStrictEqual(mutations(), [
+          'insert SchemaMigrationsLock 1',
+          'insert SchemaMigrations 2',
+          'update SchemaMigrations 3',
+          'insert SchemaMigrations 4',
+          'insert SchemaMigrations 5',
+          'delete SchemaMigrationsLock',
+        ]);
+      } finally {
+        await database.close();
+      }
+    });
+
+    it('should return the pending DDL for a dry run', async () => {
+      putVersions([1]);
+      const database = newTestDatabase();
+      const migrator = new Migrator(database, MIGRATIONS, {
+        dialect: 'GOOGLE_STANDARD_SQL',
+      });
+      try {
+        const result = await migrator.migrate({dryRun: true});
+        assert.deepStrictEqual(result, {
+          versions: [2, 3, 4, 5],
+          statements: [
+            'CREATE TABLE Albums (AlbumId INT64) PRIMARY KEY (AlbumId)',
+            'ALTER TABLE Singers ADD COLUMN Name STRING(MAX)',
+            'CREATE INDEX SingersByName ON Singers (Name)',
+          ],
+        });
+        assert.deepStrictEqual(ddlRequests(), []);
+        assert.deepStrictEqual(mutations(), []);
+      } finally {
+        await database.close();
+      }
+    });
+
+    it('should not create the tables for a dry run', async () => {
+      putTables(1);
+      const database = newTestDatabase();
+      const migrator = new Migrator(database, MIGRATIONS, {
+        dialect: 'GOOGLE_STANDARD_SQL',
+      });
+      try {
+        const pending = await migrator.pending();
+        assert.strictEqual(pending.length, MIGRATIONS.length);
+        assert.deepStrictEqual(ddlRequests(), []);
+      } finally {
+        await database.close();
+      }
+    });
+
+    it('should refuse to run if another migrator holds the lock', async () => {
+      putLock('other-host:42');
+      const database = newTestDatabase();
+      const migrator = new Migrator(database, MIGRATIONS, {
+        dialect: 'GOOGLE_STANDARD_SQL',
+      });
+      try {
+        await assert.rejects(migrator.migrate(), (err: MigrationLockError) => {
+          assert.ok(err instanceof MigrationLockError);
+          assert.strictEqual(err.owner, 'other-host:42');
+          assert.strictEqual(
+            err.acquiredAt!.getTime(),
+            Date.parse('2026-01-01T00:00:00Z')
+          );
+          return true;
+        });
+        assert.deepStrictEqual(ddlRequests(), []);
+        assert.deepStrictEqual(mutations(), []);
+      } finally {
+        await database.close();
+      }
+    });
+
+    it('should release the lock if a migration fails', async () => {
+      const error = new Error('migration failed');
+      const database = newTestDatabase();
+      const migrator = new Migrator(
+        database,
+        [
+          {version: 1, ddl: ['CREATE TABLE A (Id INT64) PRIMARY KEY (Id)']},
+          {
+            version: 2,
+            transaction: async () => {
+              throw error;
+            },
+          },
+        ],
+        {dialect: 'GOOGLE_STANDARD_SQL', owner: 'test'}
+      );
+      try {
+        await assert.rejects(migrator.migrate(), error);
+        assert.deepStrictEqual(mutations(), [
+          'insert SchemaMigrationsLock 1',
+          'insert SchemaMigrations 1',
+          'delete SchemaMigrationsLock',
+        ]);
+      } finally {
+        await database.close();
+      }
+    });
+
+    it('should keep the error of a migration if the lock is not released', async () => {
+      const error = new Error('migration failed');
+      const database = newTestDatabase();
+      const migrator = new Migrator(
+        database,
+        [
+          {
+            version: 1,
+            transaction: async () => {
+              throw error;
+            },
+          },
+        ],
+        {dialect: 'GOOGLE_STANDARD_SQL'}
+      );
+      migrator._unlock = async () => {
+        throw new Error('unlock failed');
+      };
+      try {
+        await assert.rejects(migrator.migrate(), error);
+      } finally {
+        await database.close();
+      }
+    });
+  });
+});
@@ -94,7 +94,11 @@ export class MockDatabaseAdmin {
     }),
   });
 
-  private constructor() {}
+  private requests: Array<v1.UpdateDatabaseDdlRequest> = [];
+
+  private constructor() {
+    this.updateDatabaseDdl = this.updateDatabaseDdl.bind(this);
+  }
 
   /**
    * Creates a MockDatabaseAdmin.
@@ -103,6 +107,17 @@ export class MockDatabaseAdmin {
     return new MockDatabaseAdmin();
   }
 
+  resetRequests(): void {
+    this.requests = [];
+  }
+
+  /**
+   * @return the DDL requests that have been received by this mock server.
+   */
+  getRequests(): Array<v1.UpdateDatabaseDdlRequest> {
+    return this.requests;
+  }
+
   private static createNotFoundError(msg: string): grpc.ServiceError {
     const error = new Error(msg);
     return Object.assign(error, {
@@ -195,8 +210,25 @@ export class MockDatabaseAdmin {
     call: grpc.ServerUnaryCall<v1.UpdateDatabaseDdlRequest, {}>,
     callback: v1.DatabaseAdmin.UpdateDatabaseDdlCallback
   ) {
+    this.requests.push(call.request!);
+    const metadataBuffer = v1.UpdateDatabaseDdlMetadata.encode(
+      v1.UpdateDatabaseDdlMetadata.create({
+        database: call.request!.database,
+        statements: call.request!.statements,
+      })
+    ).finish();
     callback(
-      createUnimplementedError('UpdateDatabaseDdl is not yet implemented')
+      null,
+      longrunning.Operation.create({
+        name: `${call.request!.database}/operations/ddl-${this.requests.length}`,
+        done: true,
+        metadata: Any.create({
+          value: metadataBuffer,
+        }),
+        response: Any.create({
+          value: google.protobuf.Empty.encode({}).finish(),
+        }),
+      })
     );
   }
 
@@ -0,0 +1,254 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from 'assert';
+import {afterEach, before, beforeEach, describe, it} from 'mocha';
+import {EventEmitter} from 'events';
+import * as proxyquire from 'proxyquire';
+import * as sinon from 'sinon';
+import {grpc} from 'google-gax';
+
+import {Database} from '../src/database';
+import {Session} from '../src/session';
+import * as mux from '../src/multiplexed-session';
+
+class FakeSessionPool extends EventEmitter {
+  calledWith_: unknown[];
+  constructor(...args: unknown[]) {
+    super();
+    this.calledWith_ = args;
+  }
+  open() {}
+  close() {}
+  getSession() {}
+  getReadSession() {}
+  getWriteSession() {}
+  release() {}
+}
+
+describe('MultiplexedSessionManager', () => {
+  // tslint:disable-next-line variable-name
+  let MultiplexedSessionManager: typeof mux.MultiplexedSessionManager;
+  let manager: mux.MultiplexedSessionManager;
+  let createSessionStub: sinon.SinonStub;
+  let sessionCounter: number;
+
+  const sandbox = sinon.createSandbox();
+  const DATABASE = {
+    databaseRole: 'parent_role',
+    createSession: () => {},
+  } as unknown as Database;
+
+  function createSession(): Session {
+    return {id: `session-${sessionCounter++}`} as unknown as Session;
+  }
+
+  before(() => {
+    MultiplexedSessionManager = proxyquire('../src/multiplexed-session.js', {
+      './session-pool': {SessionPool: FakeSessionPool},
+    }).MultiplexedSessionManager;
+  });
+
+  beforeEach(() => {
+    sessionCounter = 0;
+    createSessionStub = sandbox
+      .stub(DATABASE, 'createSession')
+      .callsFake(async () => [createSession()]);
+    manager = new MultiplexedSessionManager(DATABASE, {labels: {a: 'b'}});
+  });
+
+  afterEach(() => {
+    manager.close(() => {});
+    sandbox.restore();
+  });
+
+  describe('instantiation', () => {
+    it('should create a session pool with the same options', () => {
+      const pool = manager._pool as unknown as FakeSessionPool;
+      assert(pool instanceof FakeSessionPool);
+      assert.strictEqual(pool.calledWith_[0], DATABASE);
+      assert.deepStrictEqual(pool.calledWith_[1], {labels: {a: 'b'}});
+    });
+
+    it('should default the refresh interval to 7 days', () => {
+      assert.strictEqual(
+        manager.options.multiplexedSessionRefreshInterval,
+        7 * 24 * 60
+      );
+    });
+  });
+
+  describe('open', () => {
+    it('should open the session pool', () => {
+      const stub = sandbox.stub(manager._pool, 'open');
+      manager.open();
+      assert.strictEqual(stub.callCount, 1);
+    });
+
+    it('should create a multiplexed session', async () => {
+      manager.open();
+      const session = await manager._getMultiplexedSession();
+
+      assert.strictEqual(createSessionStub.callCount, 1);
+      assert.deepStrictEqual(createSessionStub.lastCall.args[0], {
+        labels: {a: 'b'},
+        databaseRole: 'parent_role',
+        multiplexed: true,
+      });
+      assert.strictEqual(manager._multiplexedSession, session);
+    });
+
+    it('should emit errors of the session pool', done => {
+      const error = new Error('err');
+      manager.on('error', err => {
+        assert.strictEqual(err, error);
+        done();
+      });
+      manager.open();
+      manager._pool.emit('error', error);
+    });
+
+    it('should emit unexpected errors while creating the session', done => {
+      const error = Object.assign(new Error('err'), {
+        code: grpc.status.INTERNAL,
+      });
+      createSessionStub.rejects(error);
+      manager.on('error', err => {
+        assert.strictEqual(err, error);
+        done();
+      });
+      manager.open();
+    });
+  });
+
+  describe('close', () => {
+    it('should close the session pool', () => {
+      const stub = sandbox.stub(manager._pool, 'close');
+      const callback = () => {};
+      manager.open();
+      manager.close(callback);
+      assert.strictEqual(stub.lastCall.args[0], callback);
+    });
+
+    it('should not hand out the multiplexed session once closed', done => {
+      manager.open();
+      manager.close(() => {});
+      manager.getMultiplexedSession(err => {
+        assert.strictEqual(err!.message, 'Database is closed.');
+        done();
+      });
+    });
+  });
+
+  describe('getSession', () => {
+    it('should get a session from the session pool', () => {
+      const callback = () => {};
+      const stub = sandbox.stub(manager._pool, 'getSession');
+      manager.getSession(callback);
+      assert.strictEqual(stub.lastCall.args[0], callback);
+    });
+  });
+
+  describe('getMultiplexedSession', () => {
+    beforeEach(() => manager.open());
+
+    it('should share the multiplexed session', done => {
+      manager.getMultiplexedSession((err, session1) => {
+        assert.ifError(err);
+        manager.getMultiplexedSession((err, session2) => {
+          assert.ifError(err);
+          assert.strictEqual(session1, session2);
+          assert.strictEqual(createSessionStub.callCount, 1);
+          done();
+        });
+      });
+    });
+
+    it('should replace a session that no longer exists', async () => {
+      const session = await manager._getMultiplexedSession();
+      session.lastError = Object.assign(new Error('Session not found'), {
+        code: grpc.status.NOT_FOUND,
+      }) as grpc.ServiceError;
+
+      const newSession = await manager._getMultiplexedSession();
+      assert.notStrictEqual(newSession, session);
+      assert.strictEqual(createSessionStub.callCount, 2);
+    });
+
+    it('should retry creating the session after an error', async () => {
+      await manager._getMultiplexedSession();
+      manager._multiplexedSession = null;
+      const error = new Error('err');
+      createSessionStub.rejects(error);
+      await assert.rejects(manager._getMultiplexedSession(), error);
+
+      createSessionStub.callsFake(async () => [createSession()]);
+      assert.ok(await manager._getMultiplexedSession());
+    });
+  });
+
+  describe('release', () => {
+    beforeEach(() => manager.open());
+
+    it('should not release the multiplexed session to the pool', async () => {
+      const stub = sandbox.stub(manager._pool, 'release');
+      const session = await manager._getMultiplexedSession();
+      manager.release(session);
+      assert.strictEqual(stub.callCount, 0);
+    });
+
+    it('should release other sessions to the pool', () => {
+      const stub = sandbox.stub(manager._pool, 'release');
+      const session = createSession();
+      manager.release(session);
+      assert.strictEqual(stub.lastCall.args[0], session);
+    });
+  });
+
+  describe('_maybeRefresh', () => {
+    let clock: sinon.SinonFakeTimers;
+
+    beforeEach(async () => {
+      clock = sandbox.useFakeTimers();
+      manager.open();
+      await manager._getMultiplexedSession();
+    });
+
+    it('should not refresh a session that is not yet due', () => {
+      clock.tick(60 * 60000);
+      manager._maybeRefresh();
+      assert.strictEqual(createSessionStub.callCount, 1);
+    });
+
+    it('should refresh the session periodically', async () => {
+      const session = manager._multiplexedSession;
+      await clock.tickAsync(7 * 24 * 60 * 60000);
+
+      assert.strictEqual(createSessionStub.callCount, 2);
+      assert.notStrictEqual(manager._multiplexedSession, session);
+    });
+
+    it('should keep the current session if refreshing fails', async () => {
+      const session = manager._multiplexedSession;
+      createSessionStub.rejects(new Error('err'));
+      clock.tick(7 * 24 * 60 * 60000);
+      manager._maybeRefresh();
+      await manager._creating?.catch(() => {});
+
+      assert.strictEqual(manager._multiplexedSession, session);
+    });
+  });
+});
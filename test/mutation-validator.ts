@@ -0,0 +1,305 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from 'assert';
+import {after, afterEach, before, describe, it} from 'mocha';
+import {google} from '../protos/protos';
+import {
+  MutationValidationError,
+  MutationValidator,
+} from '../src/mutation-validator';
+import {ColumnModel, SchemaModel} from '../src/schema-model';
+import {Emulator, startEmulator} from '../src/testing';
+import {MutationGroup, MutationSet} from '../src/transaction';
+
+function column(name: string, options: Partial<ColumnModel> = {}) {
+  return Object.assign(
+    {
+      name,
+      type: 'STRING(MAX)',
+      nullable: true,
+      defaultExpression: null,
+      generationExpression: null,
+      stored: false,
+    },
+    options
+  );
+}
+
+const SCHEMA: SchemaModel = {
+  dialect: 'GOOGLE_STANDARD_SQL',
+  tables: [
+    {
+      name: 'Products',
+      columns: [
+        column('ProductId', {nullable: false}),
+        column('Name'),
+        column('Price', {type: 'NUMERIC'}),
+        column('CreatedAt', {
+          type: 'TIMESTAMP',
+          defaultExpression: 'CURRENT_TIMESTAMP()',
+        }),
+      ],
+      primaryKey: [
+        {column: 'ProductId', descending: false},
+        {column: 'CreatedAt', descending: false},
+      ],
+      parent: null,
+      onDelete: null,
+    },
+  ],
+  indexes: [
+    {
+      name: 'ProductsByName',
+      table: 'Products',
+      unique: false,
+      nullFiltered: false,
+      keys: [{column: 'Name', descending: false}],
+      storing: ['Price'],
+      interleaveIn: null,
+    },
+  ],
+  foreignKeys: [],
+  views: [],
+  changeStreams: [],
+  protoBundle: [],
+};
+
+describe('MutationValidator', () => {
+  it('should count the cells of writes and the keys of deletes', () => {
+    const mutations = new MutationSet();
+    mutations.insert('Products', [
+      {ProductId: 'p1', Name: 'Pen', Price: null},
+      {ProductId: 'p2', Name: 'Ink', Price: null},
+    ]);
+    mutations.deleteRows('Products', ['p3', 'p4']);
+
+    const report = mutations.validate();
+
+    assert.strictEqual(report.valid, true);
+    assert.strictEqual(report.mutationCount, 8);
+    assert.deepStrictEqual(report.tables, {Products: 8});
+    assert.strictEqual(
+      report.bytes,
+      google.spanner.v1.CommitRequest.encode({
+        mutations: mutations.proto(),
+      }).finish().length
+    );
+    assert.deepStrictEqual(report.issues, []);
+  });
+
+  it('should count the secondary indexes of a schema', () => {
+    const mutations = new MutationSet();
+    // 2 columns + 1 key and 1 stored column of the index.
+    mutations.insert('Products', {ProductId: 'p1', Name: 'Pen'});
+    // Does not change the index.
+    mutations.update('Products', {ProductId: 'p1', CreatedAt: 'now'});
+    // Changes the stored column of the index.
+    mutations.upsert('Products', {
+      ProductId: 'p1',
+      CreatedAt: 'now',
+      Price: '1',
+    });
+    // 1 key in the table and in the index.
+    mutations.deleteRows('Products', [['p1', 'now']]);
+
+    const report = mutations.validate({schema: SCHEMA});
+
+    assert.strictEqual(report.mutationCount, 4 + 2 + 5 + 2);
+  });
+
+  it('should report missing key columns', () => {
+    const mutations = new MutationSet();
+    // CreatedAt has a default value.
+    mutations.insert('Products', {ProductId: 'p1'});
+    mutations.update('products', {ProductId: 'p1', Name: 'Pen'});
+
+    const report = mutations.validate({schema: SCHEMA});
+
+    assert.strictEqual(report.valid, false);
+    assert.deepStrictEqual(report.issues, [
+      {
+        type: 'MISSING_KEY_COLUMN',
+        message:
+          'Mutation 1 on table products does not set the key columns CreatedAt.',
+        table: 'products',
+        mutation: 1,
+      },
+    ]);
+  });
+
+  it('should report keys that are inserted twice', () => {
+    const key = {ProductId: 'p1', CreatedAt: 'now'};
+    const mutations = new MutationSet();
+    mutations.upsert('Products', key);
+    mutations.upsert('Products', key);
+    mutations.deleteRows('Products', [['p1', 'now']]);
+    mutations.insert('Products', key);
+    mutations.insert('Products', key);
+
+    const report = mutations.validate({schema: SCHEMA});
+
+    assert.deepStrictEqual(
+      report.issues.map(issue => [issue.type, issue.mutation]),
+      [['DUPLICATE_KEY', 4]]
+    );
+  });
+
+  it('should report commits that exceed the limits', () => {
+    const group = new MutationGroup();
+    group.insert('Products', {ProductId: 'p1', Name: 'Pen'});
+
+    const report = group.validate({maxMutations: 1, maxBytes: 10});
+
+    assert.deepStrictEqual(
+      report.issues.map(issue => issue.type),
+      ['TOO_MANY_MUTATIONS', 'TOO_LARGE']
+    );
+    assert.match(
+      report.issues[0].message,
+      /The commit has 2 mutations, which exceeds the limit of 1\./
+    );
+  });
+
+  it('should report mutations that are not writes or deletes', () => {
+    const report = new MutationValidator().validate([
+      {insert: {table: 'Products', columns: ['ProductId'], values: []}},
+      {},
+      {delete: {}},
+    ]);
+
+    assert.strictEqual(report.valid, false);
+    assert.deepStrictEqual(report.issues, [
+      {
+        type: 'INVALID_MUTATION',
+        message: 'Mutation 1 is not a write or a delete of a table.',
+        mutation: 1,
+      },
+      {
+        type: 'INVALID_MUTATION',
+        message: 'Mutation 2 is not a write or a delete of a table.',
+        mutation: 2,
+      },
+    ]);
+  });
+
+  describe('commit', () => {
+    let emulator: Emulator;
+
+    before(async () => {
+      emulator = await startEmulator({
+        tables: [
+          {
+            name: 'Products',
+            columns: [
+              {name: 'ProductId', type: 'STRING(MAX)', nullable: false},
+              {name: 'Name', type: 'STRING(MAX)'},
+            ],
+            primaryKey: [{column: 'ProductId'}],
+          },
+        ],
+      });
+    });
+
+    afterEach(() => {
+      emulator.database.mutationValidator = null;
+      emulator.database.transactionInterceptors = [];
+      emulator.mock.resetRequests();
+    });
+
+    after(async () => {
+      await emulator.close();
+    });
+
+    it('should not validate commits by default', async () => {
+      const database = emulator.spanner
+        .instance('test-instance')
+        .database('other');
+      try {
+        assert.strictEqual(database.mutationValidator, null);
+      } finally {
+        await database.close();
+      }
+    });
+
+    it('should reject invalid mutations before they are sent', async () => {
+      emulator.database.mutationValidator = new MutationValidator({
+        maxMutations: 2,
+      });
+
+      await assert.rejects(
+        emulator.database.runTransactionAsync(async transaction => {
+          transaction.insert('Products', [
+            {ProductId: 'p1', Name: 'Pen'},
+            {ProductId: 'p2', Name: 'Ink'},
+          ]);
+          await transaction.commit();
+        }),
+        (err: MutationValidationError) => {
+          assert.strictEqual(err.name, 'MutationValidationError');
+          assert.strictEqual(err.code, 3);
+          assert.strictEqual(err.report.mutationCount, 4);
+          return true;
+        }
+      );
+      assert.strictEqual(
+        emulator.mock
+          .getRequests()
+          .filter(request => 'mutations' in (request as {})).length,
+        0
+      );
+    });
+
+    it('should validate the mutations that interceptors add', async () => {
+      let validations = 0;
+      class CountingValidator extends MutationValidator {
+        validate(mutations: google.spanner.v1.IMutation[]) {
+          validations++;
+          return super.validate(mutations);
+        }
+      }
+      emulator.database.mutationValidator = new CountingValidator({
+        maxMutations: 2,
+      });
+      emulator.database.transactionInterceptors.push({
+        beforeCommit: request => {
+          const extra = new MutationSet();
+          extra.insert('Products', {ProductId: 'p2', Name: 'Ink'});
+          request.mutations!.push(...extra.proto());
+        },
+      });
+
+      await assert.rejects(
+        emulator.database.runTransactionAsync(async transaction => {
+          transaction.insert('Products', {ProductId: 'p1'});
+          await transaction.commit();
+        }),
+        /The commit has 3 mutations, which exceeds the limit of 2\./
+      );
+      assert.strictEqual(validations, 1);
+    });
+
+    it('should commit mutations within the limits', async () => {
+      emulator.database.mutationValidator = new MutationValidator();
+      await emulator.database.table('Products').insert({ProductId: 'p1'});
+
+      const [rows] = await emulator.database
+        .table('Products')
+        .read({keys: ['p1'], columns: ['ProductId'], json: true});
+      assert.deepStrictEqual(rows, [{ProductId: 'p1'}]);
+    });
+  });
+});
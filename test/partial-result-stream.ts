@@ -29,6 +29,7 @@ import {codec} from '../src/codec';
 import * as prs from '../src/partial-result-stream';
 import {grpc} from 'google-gax';
 import {Row} from '../src/partial-result-stream';
+import {RowTypeMismatchError} from '../src/row-type';
 
 describe('PartialResultStream', () => {
   const sandbox = sinon.createSandbox();
@@ -183,6 +184,73 @@ describe('PartialResultStream', () => {
       stream.write(RESULT);
     });
 
+    it('should decode INT64 values as requested', done => {
+      const stream = new PartialResultStream({int64As: 'bigint'});
+      const id = '9223372036854775807';
+
+      stream.on('error', done).on('data', row => {
+        assert.deepStrictEqual(row, [{name: 'Id', value: BigInt(id)}]);
+        done();
+      });
+
+      stream.write({
+        metadata: {
+          rowType: {fields: [{name: 'Id', type: {code: 'INT64'}}]},
+        },
+        values: [convertToIValue(id)],
+      });
+    });
+
+    describe('rowType', () => {
+      it('should emit rows as JSON', done => {
+        const stream = new PartialResultStream({
+          rowType: {[NAME]: {type: 'string'}},
+        });
+
+        stream.on('error', done).on('data', json => {
+          assert.deepStrictEqual(json, {[NAME]: VALUE});
+          done();
+        });
+
+        stream.write(RESULT);
+      });
+
+      it('should destroy the stream if the columns do not match', done => {
+        const stream = new PartialResultStream({
+          rowType: {[NAME]: {type: 'int64'}},
+        });
+
+        stream.on('data', () => done(new Error('Should not be called.')));
+        stream.on('error', (err: RowTypeMismatchError) => {
+          assert.ok(err instanceof RowTypeMismatchError);
+          assert.deepStrictEqual(err.mismatches, [
+            `column "${NAME}" is of type STRING, expected int64`,
+          ]);
+          done();
+        });
+
+        stream.write(RESULT);
+      });
+
+      it('should destroy the stream if a value is unexpectedly NULL', done => {
+        const stream = new PartialResultStream({
+          rowType: {[NAME]: {type: 'string'}},
+        });
+
+        stream.on('data', () => done(new Error('Should not be called.')));
+        stream.on('error', (err: RowTypeMismatchError) => {
+          assert.deepStrictEqual(err.mismatches, [
+            `column "${NAME}" is NULL, but is not nullable`,
+          ]);
+          done();
+        });
+
+        stream.write(
+          Object.assign({}, RESULT, {values: [convertToIValue(null)]})
+        );
+      });
+    });
+
     describe('destroy', () => {
       it('should ponyfill the destroy method', done => {
         const fakeError = new Error('err');
@@ -444,6 +512,80 @@ describe('PartialResultStream', () => {
         });
     });
 
+    it('should retry the codes of the retry policy', done => {
+      const fakeCheckpointStream = through.obj();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (fakeCheckpointStream as any).reset = () => {};
+      sandbox.stub(checkpointStream, 'obj').returns(fakeCheckpointStream);
+
+      const firstFakeRequestStream = through.obj();
+      const secondFakeRequestStream = through.obj();
+      const error = {
+        code: grpc.status.RESOURCE_EXHAUSTED,
+        message: 'Error.',
+      } as grpc.ServiceError;
+      const onRetry = sandbox.stub();
+
+      const requestFnStub = sandbox.stub();
+      requestFnStub.onCall(0).callsFake(() => {
+        setTimeout(() => firstFakeRequestStream.emit('error', error), 10);
+        return firstFakeRequestStream;
+      });
+      requestFnStub.onCall(1).callsFake(() => {
+        setTimeout(() => {
+          secondFakeRequestStream.push(RESULT_WITH_TOKEN);
+          fakeCheckpointStream.emit('checkpoint', RESULT_WITH_TOKEN);
+          secondFakeRequestStream.end();
+        }, 10);
+        return secondFakeRequestStream;
+      });
+
+      partialResultStream(requestFnStub, {
+        retryPolicy: {
+          retryableCodes: [grpc.status.RESOURCE_EXHAUSTED],
+          baseDelay: 5,
+          maxDelay: 20,
+          onRetry,
+        },
+      })
+        .on('error', done)
+        .pipe(
+          concat(rows => {
+            assert.strictEqual(rows.length, 1);
+            assert.strictEqual(requestFnStub.callCount, 2);
+            assert.deepStrictEqual(onRetry.lastCall.args, [
+              {attempt: 1, delay: 10, error},
+            ]);
+            done();
+          })
+        );
+    });
+
+    it('should stop after the max attempts of the retry policy', done => {
+      const fakeCheckpointStream = through.obj();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (fakeCheckpointStream as any).reset = () => {};
+      sandbox.stub(checkpointStream, 'obj').returns(fakeCheckpointStream);
+
+      const error = {
+        code: grpc.status.UNAVAILABLE,
+        message: 'Error.',
+      } as grpc.ServiceError;
+      const requestFnStub = sandbox.stub().callsFake(() => {
+        const fakeRequestStream = through.obj();
+        setTimeout(() => fakeRequestStream.emit('error', error), 10);
+        return fakeRequestStream;
+      });
+
+      partialResultStream(requestFnStub, {retryPolicy: {maxAttempts: 2}})
+        .on('data', () => {})
+        .on('error', err => {
+          assert.strictEqual(err, error);
+          assert.strictEqual(requestFnStub.callCount, 2);
+          done();
+        });
+    });
+
     it('should emit rows and error when there is no token', done => {
       const expectedRow = sinon.match(EXPECTED_ROW);
       const error = new Error('Error.');
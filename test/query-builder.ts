@@ -0,0 +1,311 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from 'assert';
+import {describe, it} from 'mocha';
+import {SpannerDate} from '../src/codec';
+import {QueryBuilder, QueryParam} from '../src/query-builder';
+
+describe('QueryBuilder', () => {
+  const googleSql = new QueryBuilder('GOOGLE_STANDARD_SQL');
+  const postgres = new QueryBuilder('POSTGRESQL');
+
+  describe('param', () => {
+    it('should create a typed parameter', () => {
+      const param = QueryBuilder.param(null, 'date');
+      assert(param instanceof QueryParam);
+      assert.strictEqual(param.value, null);
+      assert.deepStrictEqual(param.type, {type: 'date'});
+    });
+  });
+
+  describe('select', () => {
+    it('should build a query with inferred parameter types', () => {
+      const query = googleSql
+        .select('SingerId', 'FirstName')
+        .from('Singers')
+        .where('LastName', '=', 'Richards')
+        .where('SingerId', '>=', 10)
+        .orderBy('FirstName')
+        .orderBy('SingerId', 'DESC')
+        .limit(10)
+        .offset(5)
+        .build();
+
+      assert.deepStrictEqual(query, {
+        sql:
+          'SELECT `SingerId`, `FirstName` FROM `Singers` ' +
+          'WHERE `LastName` = @p1 AND `SingerId` >= @p2 ' +
+          'ORDER BY `FirstName` ASC, `SingerId` DESC LIMIT 10 OFFSET 5',
+        params: {p1: 'Richards', p2: 10},
+        types: {p1: {type: 'string'}, p2: {type: 'int64'}},
+      });
+    });
+
+    it('should use positional parameters for PostgreSQL', () => {
+      const query = postgres
+        .select('SingerId')
+        .from('Singers')
+        .where('LastName', '=', 'Richards')
+        .where('SingerId', '<', 10)
+        .build();
+
+      assert.strictEqual(
+        query.sql,
+        'SELECT "SingerId" FROM "Singers" ' +
+          'WHERE "LastName" = $1 AND "SingerId" < $2'
+      );
+      assert.deepStrictEqual(query.params, {p1: 'Richards', p2: 10});
+    });
+
+    it('should treat an unknown dialect as GoogleSQL', () => {
+      const query = new QueryBuilder(undefined)
+        .select()
+        .from('Singers')
+        .where('SingerId', '=', 1)
+        .build();
+      assert.strictEqual(
+        query.sql,
+        'SELECT * FROM `Singers` WHERE `SingerId` = @p1'
+      );
+    });
+
+    it('should compare with arrays', () => {
+      const values = [1, 2, 3];
+      const build = (qb: QueryBuilder) =>
+        qb
+          .select('*')
+          .from('Singers')
+          .where('SingerId', 'IN', values)
+          .where('AlbumId', 'NOT IN', values)
+          .build();
+
+      const query = build(googleSql);
+      assert.strictEqual(
+        query.sql,
+        'SELECT * FROM `Singers` WHERE `SingerId` IN UNNEST(@p1) ' +
+          'AND `AlbumId` NOT IN UNNEST(@p2)'
+      );
+      assert.deepStrictEqual(query.types, {
+        p1: {type: 'array', child: {type: 'int64'}},
+        p2: {type: 'array', child: {type: 'int64'}},
+      });
+      assert.strictEqual(
+        build(postgres).sql,
+        'SELECT * FROM "Singers" WHERE "SingerId" = ANY($1) ' +
+          'AND NOT "AlbumId" = ANY($2)'
+      );
+    });
+
+    it('should compare with NULL', () => {
+      const query = googleSql
+        .select('*')
+        .from('Singers')
+        .where('FirstName', '=', null)
+        .where('LastName', '!=', null)
+        .build();
+
+      assert.strictEqual(
+        query.sql,
+        'SELECT * FROM `Singers` WHERE `FirstName` IS NULL ' +
+          'AND `LastName` IS NOT NULL'
+      );
+      assert.deepStrictEqual(query.params, {});
+    });
+
+    it('should join tables', () => {
+      const query = googleSql
+        .select('s.FirstName', 'a.AlbumTitle AS title')
+        .from('Singers AS s')
+        .join('Albums AS a', 'a.SingerId', 's.SingerId')
+        .leftJoin('Concerts AS c', 'c.SingerId', 's.SingerId')
+        .build();
+
+      assert.strictEqual(
+        query.sql,
+        'SELECT `s`.`FirstName`, `a`.`AlbumTitle` AS `title` ' +
+          'FROM `Singers` AS `s` ' +
+          'INNER JOIN `Albums` AS `a` ON `a`.`SingerId` = `s`.`SingerId` ' +
+          'LEFT JOIN `Concerts` AS `c` ON `c`.`SingerId` = `s`.`SingerId`'
+      );
+    });
+
+    it('should use explicitly typed parameters', () => {
+      const query = googleSql
+        .select('*')
+        .from('Singers')
+        .where(
+          'SingerId',
+          'IN',
+          QueryBuilder.param([], {
+            type: 'array',
+            child: {type: 'int64'},
+          })
+        )
+        .build();
+
+      assert.deepStrictEqual(query.params, {p1: []});
+      assert.deepStrictEqual(query.types, {
+        p1: {type: 'array', child: {type: 'int64'}},
+      });
+    });
+
+    it('should reject identifiers that can not be quoted', () => {
+      assert.throws(
+        () => googleSql.select('a`; DROP TABLE b').from('Singers').build(),
+        /Invalid identifier: "a`; DROP TABLE b"/
+      );
+      assert.throws(
+        () => postgres.select('*').from('a"b').build(),
+        /Invalid identifier/
+      );
+    });
+
+    it('should require a table', () => {
+      assert.throws(
+        () => googleSql.select('*').build(),
+        /A table is required to build a SELECT query\./
+      );
+    });
+
+    it('should reject invalid arguments', () => {
+      const select = googleSql.select('*').from('Singers');
+      assert.throws(() => select.limit(-1), /non-negative integer/);
+      assert.throws(() => select.offset(1.5), /non-negative integer/);
+      assert.throws(
+        () => select.where('SingerId', 'IN', 1),
+        /The value of an IN condition must be an array\./
+      );
+    });
+  });
+
+  describe('insertInto', () => {
+    it('should insert rows', () => {
+      const date = new SpannerDate('2000-01-01');
+      const query = googleSql
+        .insertInto('Singers')
+        .values([
+          {SingerId: 1, BirthDate: date},
+          {SingerId: 2, BirthDate: QueryBuilder.param(null, 'date')},
+        ])
+        .build();
+
+      assert.deepStrictEqual(query, {
+        sql:
+          'INSERT INTO `Singers` (`SingerId`, `BirthDate`) ' +
+          'VALUES (@p1, @p2), (@p3, @p4)',
+        params: {p1: 1, p2: date, p3: 2, p4: null},
+        types: {
+          p1: {type: 'int64'},
+          p2: {type: 'date'},
+          p3: {type: 'int64'},
+          p4: {type: 'date'},
+        },
+      });
+    });
+
+    it('should return columns', () => {
+      const build = (qb: QueryBuilder) =>
+        qb
+          .insertInto('Singers')
+          .values({SingerId: 1})
+          .returning('SingerId')
+          .build().sql;
+
+      assert.strictEqual(
+        build(googleSql),
+        'INSERT INTO `Singers` (`SingerId`) VALUES (@p1) THEN RETURN `SingerId`'
+      );
+      assert.strictEqual(
+        build(postgres),
+        'INSERT INTO "Singers" ("SingerId") VALUES ($1) RETURNING "SingerId"'
+      );
+    });
+
+    it('should require rows with the same columns', () => {
+      assert.throws(
+        () => googleSql.insertInto('Singers').build(),
+        /At least one row is required to build an INSERT\./
+      );
+      assert.throws(
+        () =>
+          googleSql
+            .insertInto('Singers')
+            .values([{SingerId: 1}, {AlbumId: 1}])
+            .build(),
+        /All inserted rows must have the same columns\./
+      );
+    });
+  });
+
+  describe('update', () => {
+    it('should update rows', () => {
+      const query = postgres
+        .update('Singers')
+        .set({FirstName: 'Bob', LastName: 'Jones'})
+        .where('SingerId', '=', 4)
+        .build();
+
+      assert.deepStrictEqual(query, {
+        sql: 'UPDATE "Singers" SET "FirstName" = $1, "LastName" = $2 WHERE "SingerId" = $3',
+        params: {p1: 'Bob', p2: 'Jones', p3: 4},
+        types: {
+          p1: {type: 'string'},
+          p2: {type: 'string'},
+          p3: {type: 'int64'},
+        },
+      });
+    });
+
+    it('should update all rows without a condition', () => {
+      const query = googleSql.update('Singers').set({Active: false}).build();
+      assert.strictEqual(
+        query.sql,
+        'UPDATE `Singers` SET `Active` = @p1 WHERE true'
+      );
+    });
+
+    it('should require a column to update', () => {
+      assert.throws(
+        () => googleSql.update('Singers').build(),
+        /At least one column is required to build an UPDATE\./
+      );
+    });
+  });
+
+  describe('deleteFrom', () => {
+    it('should delete rows', () => {
+      const query = googleSql
+        .deleteFrom('Singers')
+        .where('SingerId', 'IN', [1, 2])
+        .returning('SingerId')
+        .build();
+
+      assert.strictEqual(
+        query.sql,
+        'DELETE FROM `Singers` WHERE `SingerId` IN UNNEST(@p1) ' +
+          'THEN RETURN `SingerId`'
+      );
+    });
+
+    it('should delete all rows without a condition', () => {
+      assert.strictEqual(
+        postgres.deleteFrom('Singers').build().sql,
+        'DELETE FROM "Singers" WHERE true'
+      );
+    });
+  });
+});
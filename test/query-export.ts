@@ -0,0 +1,355 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from 'assert';
+import {afterEach, beforeEach, describe, it} from 'mocha';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {Readable} from 'stream';
+import {PreciseDate} from '@google-cloud/precise-date';
+import {grpc} from 'google-gax';
+import {Float, Int, Numeric, SpannerDate, Struct} from '../src/codec';
+import {Database} from '../src/database';
+import {Row} from '../src/partial-result-stream';
+import {ExportProgress, QueryExport, toPlainValue} from '../src/query-export';
+import {ExecuteSqlRequest} from '../src/transaction';
+
+const FIELDS = [
+  {name: 'SingerId', type: {code: 'INT64'}},
+  {name: 'Name', type: {code: 'STRING'}},
+];
+
+function row(singerId: string, name: string | null): Row {
+  return [
+    {name: 'SingerId', value: new Int(singerId)},
+    {name: 'Name', value: name},
+  ] as Row;
+}
+
+function serviceError(code: grpc.status): grpc.ServiceError {
+  return Object.assign(new Error(`Error ${code}`), {
+    code,
+  }) as grpc.ServiceError;
+}
+
+function removeDirectory(directory: string) {
+  fs.readdirSync(directory, {withFileTypes: true}).forEach(entry => {
+    const file = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      removeDirectory(file);
+    } else {
+      fs.unlinkSync(file);
+    }
+  });
+  fs.rmdirSync(directory);
+}
+
+describe('QueryExport', () => {
+  let dir: string;
+  let results: {[partitionToken: string]: Array<Row[] | grpc.ServiceError>};
+  let active: number;
+  let maxActive: number;
+  let closed: boolean;
+  let requests: ExecuteSqlRequest[];
+  let database: Database;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'spanner-export-'));
+    results = {};
+    active = 0;
+    maxActive = 0;
+    closed = false;
+    requests = [];
+    const transaction = {
+      createQueryPartitions: (
+        query: ExecuteSqlRequest,
+        callback: (err: Error | null, partitions?: ExecuteSqlRequest[]) => void
+      ) =>
+        callback(
+          null,
+          Object.keys(results).map(partitionToken =>
+            Object.assign({}, query, {partitionToken})
+          )
+        ),
+      executeStream: (partition: ExecuteSqlRequest & {partitionToken}) => {
+        requests.push(partition);
+        const result = results[partition.partitionToken].shift()!;
+        active++;
+        maxActive = Math.max(active, maxActive);
+        let started = false;
+        return new Readable({
+          objectMode: true,
+          read() {
+            if (started) {
+              return;
+            }
+            started = true;
+            this.emit('response', {metadata: {rowType: {fields: FIELDS}}});
+            // End asynchronously, so that partitions overlap.
+            setImmediate(() => {
+              active--;
+              if (result instanceof Error) {
+                this.destroy(result);
+                return;
+              }
+              result.forEach(row => this.push(row));
+              this.push(null);
+            });
+          },
+        });
+      },
+      close: () => (closed = true),
+    };
+    database = {
+      createBatchTransaction: async () => [transaction],
+    } as unknown as Database;
+  });
+
+  afterEach(() => {
+    removeDirectory(dir);
+  });
+
+  it('should throw for an unsupported format', () => {
+    assert.throws(
+      () =>
+        new QueryExport(database, 'SELECT 1', {
+          destination: dir,
+          format: 'xml' as 'csv',
+        }),
+      /Unsupported export format: xml\./
+    );
+  });
+
+  it('should write one NDJSON file per partition', async () => {
+    results = {
+      p0: [[row('1', 'Alice'), row('2', 'Bob')]],
+      p1: [[row('3', null)]],
+    };
+    const progress: ExportProgress[] = [];
+
+    const result = await new QueryExport(database, 'SELECT * FROM Singers', {
+      destination: dir,
+    })
+      .on('progress', p => progress.push(p))
+      .promise();
+
+    assert.deepStrictEqual(result, {
+      files: [
+        path.join(dir, 'part-00000.ndjson'),
+        path.join(dir, 'part-00001.ndjson'),
+      ],
+      partitions: 2,
+      rows: 3,
+      retries: 0,
+    });
+    assert.strictEqual(
+      fs.readFileSync(result.files[0], 'utf8'),
+      '{"SingerId":"1","Name":"Alice"}\n{"SingerId":"2","Name":"Bob"}\n'
+    );
+    assert.strictEqual(
+      fs.readFileSync(result.files[1], 'utf8'),
+      '{"SingerId":"3","Name":null}\n'
+    );
+    assert.deepStrictEqual(progress[0], {
+      partitions: 2,
+      completedPartitions: 0,
+      rows: 0,
+      retries: 0,
+    });
+    assert.deepStrictEqual(progress[progress.length - 1], {
+      partitions: 2,
+      completedPartitions: 2,
+      rows: 3,
+      retries: 0,
+    });
+    assert.strictEqual(closed, true);
+  });
+
+  it('should ignore the DATE and TIMESTAMP options of the client', async () => {
+    results = {p0: [[]]};
+
+    await new QueryExport(database, 'SELECT * FROM Singers', {
+      destination: dir,
+    }).promise();
+
+    assert.strictEqual(requests[0].dateAs, 'SpannerDate');
+    assert.strictEqual(requests[0].timestampAs, 'PreciseDate');
+  });
+
+  it('should limit the number of concurrent partitions', async () => {
+    results = {p0: [[]], p1: [[]], p2: [[]], p3: [[]], p4: [[]]};
+
+    const result = await new QueryExport(database, 'SELECT 1', {
+      destination: dir,
+      concurrency: 2,
+    }).promise();
+
+    assert.strictEqual(result.partitions, 5);
+    assert.strictEqual(maxActive, 2);
+  });
+
+  it('should merge CSV files in the order of the partitions', async () => {
+    results = {
+      p0: [[row('1', 'Alice "Al", Jr.')]],
+      p1: [[row('2', null)]],
+    };
+    const destination = path.join(dir, 'out', 'singers.csv');
+
+    const result = await new QueryExport(database, 'SELECT 1', {
+      destination,
+      format: 'csv',
+      merge: true,
+    }).promise();
+
+    assert.deepStrictEqual(result.files, [destination]);
+    assert.strictEqual(
+      fs.readFileSync(destination, 'utf8'),
+      'SingerId,Name\r\n1,"Alice ""Al"", Jr."\r\n2,\r\n'
+    );
+    assert.deepStrictEqual(fs.readdirSync(path.dirname(destination)), [
+      'singers.csv',
+    ]);
+  });
+
+  it('should merge an empty CSV export into an empty file', async () => {
+    const destination = path.join(dir, 'singers.csv');
+
+    const result = await new QueryExport(database, 'SELECT 1', {
+      destination,
+      format: 'csv',
+      merge: true,
+    }).promise();
+
+    assert.strictEqual(result.partitions, 0);
+    assert.strictEqual(fs.readFileSync(destination, 'utf8'), '');
+  });
+
+  it('should merge Avro files into one object container file', async () => {
+    results = {p0: [[row('1', 'a')]], p1: [[row('-2', null)]]};
+    const destination = path.join(dir, 'singers.avro');
+
+    await new QueryExport(database, 'SELECT 1', {
+      destination,
+      format: 'avro',
+      merge: true,
+    }).promise();
+
+    const file = fs.readFileSync(destination);
+    assert.strictEqual(file.slice(0, 4).toString('latin1'), 'Obj\x01');
+    const schema = {
+      type: 'record',
+      name: 'Row',
+      fields: [
+        {name: 'SingerId', type: ['null', 'long']},
+        {name: 'Name', type: ['null', 'string']},
+      ],
+    };
+    assert.ok(file.includes(JSON.stringify(schema)));
+    const sync = file.slice(file.length - 16);
+    // The header and both blocks end with the same sync marker.
+    const blocks = file.slice(file.indexOf(sync) + 16);
+    assert.deepStrictEqual(
+      blocks,
+      Buffer.concat([
+        // count 1, size 5, SingerId 1, Name 'a'
+        Buffer.from([0x02, 0x0a, 0x02, 0x02, 0x02, 0x02, 0x61]),
+        sync,
+        // count 1, size 3, SingerId -2, Name null
+        Buffer.from([0x02, 0x06, 0x02, 0x03, 0x00]),
+        sync,
+      ])
+    );
+  });
+
+  it('should retry partitions that fail with a transient error', async () => {
+    results = {
+      p0: [[row('1', 'Alice')]],
+      p1: [serviceError(grpc.status.UNAVAILABLE), [row('2', 'Bob')]],
+    };
+
+    const result = await new QueryExport(database, 'SELECT 1', {
+      destination: dir,
+    }).promise();
+
+    assert.strictEqual(result.rows, 2);
+    assert.strictEqual(result.retries, 1);
+    assert.strictEqual(
+      fs.readFileSync(result.files[1], 'utf8'),
+      '{"SingerId":"2","Name":"Bob"}\n'
+    );
+  });
+
+  it('should fail on a permanent error', async () => {
+    const error = serviceError(grpc.status.INVALID_ARGUMENT);
+    results = {p0: [error]};
+    const errors: Error[] = [];
+
+    const queryExport = new QueryExport(database, 'SELECT 1', {
+      destination: dir,
+    }).on('error', err => errors.push(err));
+
+    await assert.rejects(queryExport.promise(), error);
+    assert.deepStrictEqual(errors, [error]);
+    assert.strictEqual(closed, true);
+  });
+
+  it('should give up after the maximum number of retries', async () => {
+    const error = serviceError(grpc.status.UNAVAILABLE);
+    results = {p0: [error, error]};
+
+    await assert.rejects(
+      new QueryExport(database, 'SELECT 1', {
+        destination: path.join(dir, 'merged.ndjson'),
+        merge: true,
+        maxRetries: 1,
+      }).promise(),
+      error
+    );
+    assert.deepStrictEqual(fs.readdirSync(dir), []);
+  });
+
+  describe('toPlainValue', () => {
+    it('should convert values to JSON values', () => {
+      assert.deepStrictEqual(
+        toPlainValue([
+          null,
+          new Int('9007199254740993'),
+          new Float(1.5),
+          new Float(NaN),
+          new Numeric('3.14'),
+          new PreciseDate('2026-10-01T00:00:00.123456789Z'),
+          new SpannerDate('2026-10-01'),
+          Buffer.from('abc'),
+          Struct.fromJSON({a: 1}),
+          {json: true},
+        ]),
+        [
+          null,
+          '9007199254740993',
+          1.5,
+          'NaN',
+          '3.14',
+          '2026-10-01T00:00:00.123456789Z',
+          '2026-10-01',
+          'YWJj',
+          {a: 1},
+          {json: true},
+        ]
+      );
+    });
+  });
+});
@@ -0,0 +1,211 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from 'assert';
+import {describe, it} from 'mocha';
+import {google} from '../protos/protos';
+import {QueryPlan} from '../src/query-plan';
+
+function struct(object: {[key: string]: unknown}): google.protobuf.IStruct {
+  const fields = {};
+  Object.keys(object).forEach(key => {
+    const value = object[key];
+    fields[key] =
+      typeof value === 'object'
+        ? {structValue: struct(value as {[key: string]: unknown})}
+        : {stringValue: value};
+  });
+  return {fields};
+}
+
+const PLAN: google.spanner.v1.IQueryPlan = {
+  planNodes: [
+    {
+      index: 0,
+      kind: 'RELATIONAL',
+      displayName: 'Distributed Union',
+      childLinks: [{childIndex: 1}],
+      metadata: struct({call_type: 'Local', subquery_cluster_node: '1'}),
+      executionStats: struct({
+        rows: {total: '3', unit: 'rows'},
+        latency: {total: '1.5', unit: 'msecs'},
+        cpu_time: {total: '1', unit: 'msecs'},
+        execution_summary: {num_executions: '1'},
+      }),
+    },
+    {
+      index: 1,
+      kind: 'RELATIONAL',
+      displayName: 'Distributed Cross Apply',
+      childLinks: [
+        {childIndex: 2, type: 'Input'},
+        {childIndex: 4, type: 'Map'},
+      ],
+    },
+    {
+      index: 2,
+      kind: 'RELATIONAL',
+      displayName: 'Table Scan',
+      childLinks: [{childIndex: 3, variable: 'SingerId'}],
+      metadata: struct({
+        'Full scan': 'true',
+        scan_target: 'Singers',
+        scan_type: 'TableScan',
+      }),
+      executionStats: struct({
+        rows: {total: '3', unit: 'rows'},
+        latency: {total: '250', unit: 'usecs'},
+        scanned_rows: {total: '3', unit: 'rows'},
+      }),
+    },
+    {
+      index: 3,
+      kind: 'SCALAR',
+      displayName: 'Reference',
+      shortRepresentation: {description: 'SingerId'},
+    },
+    {
+      index: 4,
+      kind: 'RELATIONAL',
+      displayName: 'Index Scan',
+      metadata: struct({scan_target: 'AlbumsBySinger', scan_type: 'IndexScan'}),
+    },
+  ],
+};
+
+describe('QueryPlan', () => {
+  it('should link the nodes into a tree', () => {
+    const plan = new QueryPlan(PLAN);
+
+    assert.strictEqual(plan.root, plan.nodes[0]);
+    assert.deepStrictEqual(
+      plan.nodes[1].children.map(node => node.name),
+      ['Table Scan', 'Index Scan']
+    );
+    assert.deepStrictEqual(
+      plan.nodes[1].links.map(link => link.type),
+      ['Input', 'Map']
+    );
+    assert.strictEqual(plan.nodes[2].parent, plan.nodes[1]);
+    assert.strictEqual(plan.nodes[2].links[0].variable, 'SingerId');
+    assert.strictEqual(plan.nodes[3].description, 'SingerId');
+    assert.deepStrictEqual(
+      plan.operators().map(node => node.index),
+      [0, 1, 2, 4]
+    );
+  });
+
+  it('should extract the execution statistics of operators', () => {
+    const plan = new QueryPlan(PLAN);
+
+    assert.deepStrictEqual(plan.nodes[0].stats, {
+      rows: 3,
+      latency: 1.5,
+      cpuTime: 1,
+      executions: 1,
+      scannedRows: null,
+      filteredRows: null,
+    });
+    assert.strictEqual(plan.nodes[2].stats!.latency, 0.25);
+    assert.strictEqual(plan.nodes[2].stats!.scannedRows, 3);
+    assert.strictEqual(plan.nodes[1].stats, null);
+  });
+
+  it('should find full scans and distributed cross applies', () => {
+    const plan = new QueryPlan(PLAN);
+
+    assert.deepStrictEqual(
+      plan.fullScans().map(node => node.metadata.scan_target),
+      ['Singers']
+    );
+    assert.deepStrictEqual(
+      plan.distributedCrossApplies().map(node => node.index),
+      [1]
+    );
+  });
+
+  it('should accept numeric node kinds', () => {
+    const plan = new QueryPlan({
+      planNodes: [
+        {displayName: 'Scan', kind: google.spanner.v1.PlanNode.Kind.RELATIONAL},
+      ],
+    });
+
+    assert.strictEqual(plan.root!.kind, 'RELATIONAL');
+    assert.strictEqual(plan.root!.index, 0);
+  });
+
+  it('should render the operators as text', () => {
+    assert.strictEqual(
+      new QueryPlan(PLAN).toText(),
+      [
+        'Distributed Union (call_type: Local) [rows: 3, latency: 1.5 ms, cpu: 1 ms]',
+        '-> Distributed Cross Apply',
+        '  -> Input: Table Scan (Full scan: true, scan_target: Singers, scan_type: TableScan) [rows: 3, latency: 0.25 ms]',
+        '  -> Map: Index Scan (scan_target: AlbumsBySinger, scan_type: IndexScan)',
+      ].join('\n')
+    );
+  });
+
+  it('should render the operators as a Graphviz graph', () => {
+    const dot = new QueryPlan(PLAN).toDot();
+
+    assert.match(dot, /^digraph QueryPlan \{\n {2}node \[shape=box\];\n/);
+    assert.match(
+      dot,
+      /\n {2}n1 \[label="Distributed Cross Apply", color=orange\];\n/
+    );
+    assert.match(
+      dot,
+      /\n {2}n2 \[label="Table Scan \(Full scan: true, .*\]", color=red\];\n/
+    );
+    assert.match(dot, /\n {2}n1 -> n2 \[label="Input"\];\n/);
+    assert.doesNotMatch(dot, /n3/);
+    assert.match(dot, /\n\}$/);
+  });
+
+  it('should convert the plan to JSON', () => {
+    const json = JSON.parse(JSON.stringify(new QueryPlan(PLAN)));
+
+    assert.strictEqual(json.name, 'Distributed Union');
+    const [input, map] = json.children[0].node.children;
+    assert.strictEqual(input.type, 'Input');
+    assert.strictEqual(input.node.fullScan, true);
+    assert.deepStrictEqual(input.node.children[0], {
+      type: null,
+      variable: 'SingerId',
+      node: {
+        index: 3,
+        kind: 'SCALAR',
+        name: 'Reference',
+        description: 'SingerId',
+        metadata: {},
+        stats: null,
+        fullScan: false,
+        distributedCrossApply: false,
+        children: [],
+      },
+    });
+    assert.strictEqual(map.node.name, 'Index Scan');
+  });
+
+  it('should throw if the statistics have no plan', () => {
+    assert.throws(
+      () => QueryPlan.fromStats({queryStats: {}}),
+      /The statistics have no query plan\./
+    );
+  });
+});
@@ -0,0 +1,254 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from 'assert';
+import {after, before, beforeEach, describe, it} from 'mocha';
+import * as sinon from 'sinon';
+import {grpc} from 'google-gax';
+import {PassThrough} from 'stream';
+import {google} from '../protos/protos';
+import {PartialResultStream} from '../src/partial-result-stream';
+import {
+  fingerprintSql,
+  QueryStats,
+  QueryStatsCollector,
+} from '../src/query-stats';
+import {
+  createSimpleResultSet,
+  Emulator,
+  MockError,
+  startEmulator,
+  StatementResult,
+} from '../src/testing';
+
+const SELECT = 'SELECT * FROM NUMBERS';
+const SELECT_ONE = 'SELECT * FROM NUMBERS WHERE NUM = 1';
+const SELECT_TWO = 'SELECT * FROM NUMBERS WHERE NUM = 2';
+const UPDATE = "UPDATE NUMBERS SET NAME = 'One' WHERE NUM = 1";
+
+describe('QueryStatsCollector', () => {
+  let emulator: Emulator;
+
+  before(async () => {
+    emulator = await startEmulator();
+    [SELECT, SELECT_ONE, SELECT_TWO].forEach(sql =>
+      emulator.mock.putStatementResult(
+        sql,
+        StatementResult.resultSet(createSimpleResultSet())
+      )
+    );
+    emulator.mock.putStatementResult(UPDATE, StatementResult.updateCount(1));
+  });
+
+  after(async () => {
+    emulator.database.queryStats = null;
+    await emulator.close();
+  });
+
+  beforeEach(() => {
+    emulator.mock.removeFaults();
+    emulator.database.queryStats = new QueryStatsCollector();
+  });
+
+  function getStats(fingerprint: string): QueryStats | undefined {
+    return emulator.database
+      .queryStats!.getQueryStats()
+      .find(stats => stats.fingerprint === fingerprint);
+  }
+
+  it('should aggregate statements by fingerprint', async () => {
+    await emulator.database.run(SELECT_ONE);
+    await emulator.database.run(SELECT_TWO);
+    await emulator.database.run(SELECT);
+
+    const stats = getStats('SELECT * FROM NUMBERS WHERE NUM = ?')!;
+    assert.strictEqual(stats.count, 2);
+    assert.strictEqual(stats.errors, 0);
+    assert.strictEqual(stats.rows, 6);
+    assert.ok(stats.bytes > 0);
+    assert.strictEqual(stats.requestTag, null);
+    assert.strictEqual(stats.cpuTime, null);
+    assert.ok(stats.latency.p50 <= stats.latency.p99);
+    assert.ok(stats.latency.p99 <= stats.latency.max);
+    assert.strictEqual(getStats(SELECT)!.count, 1);
+  });
+
+  it('should aggregate statements by request tag', async () => {
+    await emulator.database.run({
+      sql: SELECT,
+      requestOptions: {requestTag: 'numbers'},
+    });
+    await emulator.database.run(SELECT);
+
+    const tags = emulator.database
+      .queryStats!.getQueryStats()
+      .map(stats => stats.requestTag);
+    assert.deepStrictEqual(tags, ['numbers', null]);
+  });
+
+  it('should collect DML statements and errors', async () => {
+    emulator.mock.injectFault(emulator.mock.executeStreamingSql, {
+      error: Object.assign(new Error('Invalid statement.'), {
+        code: grpc.status.INVALID_ARGUMENT,
+      }) as MockError,
+    });
+
+    await assert.rejects(emulator.database.run(SELECT));
+    await emulator.database.runTransactionAsync(async transaction => {
+      await transaction.runUpdate(UPDATE);
+      await transaction.commit();
+    });
+
+    assert.strictEqual(getStats(SELECT)!.errors, 1);
+    const stats = getStats('UPDATE NUMBERS SET NAME = ? WHERE NUM = ?')!;
+    assert.strictEqual(stats.count, 1);
+    assert.strictEqual(stats.errors, 0);
+  });
+
+  it('should drop statements beyond the maximum', async () => {
+    emulator.database.queryStats = new QueryStatsCollector({maxStatements: 1});
+
+    await emulator.database.run(SELECT);
+    await emulator.database.run(SELECT_ONE);
+
+    assert.strictEqual(emulator.database.queryStats.getQueryStats().length, 1);
+    assert.strictEqual(emulator.database.queryStats.droppedStatements, 1);
+  });
+
+  it('should collect the CPU time of profiled statements', () => {
+    const collector = new QueryStatsCollector();
+    const stream = Object.assign(new PassThrough({objectMode: true}), {
+      _rowCount: 2,
+    });
+
+    collector._track(
+      {
+        sql: SELECT,
+        queryMode: google.spanner.v1.ExecuteSqlRequest.QueryMode.PROFILE,
+      },
+      stream as unknown as PartialResultStream
+    );
+    stream.emit('stats', {
+      queryStats: {fields: {cpu_time: {stringValue: '1.5 msecs'}}},
+    });
+    stream.emit('end');
+
+    const [stats] = collector.getQueryStats();
+    assert.strictEqual(stats.cpuTime, 1.5);
+    assert.strictEqual(stats.rows, 2);
+  });
+
+  it('should not handle the errors of the statements', () => {
+    const collector = new QueryStatsCollector();
+    const stream = Object.assign(new PassThrough({objectMode: true}), {
+      _rowCount: 0,
+    });
+    collector._track({sql: SELECT}, stream as unknown as PartialResultStream);
+
+    assert.strictEqual(stream.listenerCount('error'), 0);
+    assert.throws(() => stream.emit('error', new Error('boom')), /boom/);
+
+    const [stats] = collector.getQueryStats();
+    assert.strictEqual(stats.count, 1);
+    assert.strictEqual(stats.errors, 1);
+  });
+
+  it('should collect statements that are closed early', async () => {
+    const collector = new QueryStatsCollector();
+    const stream = Object.assign(new PassThrough({objectMode: true}), {
+      _rowCount: 1,
+    });
+    collector._track({sql: SELECT}, stream as unknown as PartialResultStream);
+
+    await new Promise(resolve => stream.on('close', resolve).destroy());
+
+    const [stats] = collector.getQueryStats();
+    assert.strictEqual(stats.count, 1);
+    assert.strictEqual(stats.errors, 0);
+    assert.strictEqual(stats.rows, 1);
+  });
+
+  it('should export the statistics periodically', () => {
+    const clock = sinon.useFakeTimers();
+    const exports: QueryStats[][] = [];
+    const collector = new QueryStatsCollector({
+      exportInterval: 1000,
+      onExport: stats => exports.push(stats),
+    });
+    try {
+      const stream = Object.assign(new PassThrough({objectMode: true}), {
+        _rowCount: 0,
+      });
+      collector._track({sql: SELECT}, stream as unknown as PartialResultStream);
+      stream.emit('end');
+
+      clock.tick(1000);
+      clock.tick(1000);
+    } finally {
+      collector.stop();
+      clock.restore();
+    }
+
+    assert.deepStrictEqual(
+      exports.map(stats => stats.length),
+      [1, 0]
+    );
+    assert.strictEqual(exports[0][0].count, 1);
+  });
+
+  describe('fingerprintSql', () => {
+    it('should replace literals', () => {
+      assert.strictEqual(
+        fingerprintSql(
+          "SELECT * FROM T WHERE A = 'it''s' AND B = \"x\\\"y\" AND C = b'\\x01' AND D = r'''a'b''' AND E = 1.5e3 AND F = 0x1F"
+        ),
+        'SELECT * FROM T WHERE A = ? AND B = ? AND C = ? AND D = ? AND E = ? AND F = ?'
+      );
+    });
+
+    it('should keep identifiers and parameters', () => {
+      assert.strictEqual(
+        fingerprintSql(
+          'SELECT T1.`Col 2`, Col3 FROM T1 WHERE Id = @p1 OR Id = $2'
+        ),
+        'SELECT T1.`Col 2`, Col3 FROM T1 WHERE Id = @p1 OR Id = $2'
+      );
+    });
+
+    it('should keep quoted identifiers in PostgreSQL', () => {
+      assert.strictEqual(
+        fingerprintSql(
+          'SELECT "Col ""1""", c # 3 FROM "T" WHERE a = \'it\'\'s\' AND b = E\'\\\'x\' AND c = $1',
+          'POSTGRESQL'
+        ),
+        'SELECT "Col ""1""", c # ? FROM "T" WHERE a = ? AND b = ? AND c = $1'
+      );
+      assert.strictEqual(
+        fingerprintSql('SELECT "Col" FROM T'),
+        'SELECT ? FROM T'
+      );
+    });
+
+    it('should collapse lists, comments and whitespace', () => {
+      assert.strictEqual(
+        fingerprintSql(
+          '-- Singers\nSELECT  *\n  FROM Singers /* all */ WHERE Id IN (1, 2,3) # end'
+        ),
+        'SELECT * FROM Singers WHERE Id IN (?)'
+      );
+    });
+  });
+});
@@ -0,0 +1,289 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from 'assert';
+import {after, before, beforeEach, describe, it} from 'mocha';
+import {grpc} from 'google-gax';
+import {PassThrough, Readable} from 'stream';
+import {google} from '../protos/protos';
+import {LEADER_AWARE_ROUTING_HEADER} from '../src/common';
+import {
+  ReadRouting,
+  ReadRoutingRequest,
+  routeRequests,
+  toLeaderRequest,
+} from '../src/read-routing';
+import {
+  createSimpleResultSet,
+  Emulator,
+  MockError,
+  startEmulator,
+  StatementResult,
+} from '../src/testing';
+import v1 = google.spanner.v1;
+
+const SELECT = 'SELECT * FROM NUMBERS';
+
+const NEAREST: v1.IDirectedReadOptions = {
+  includeReplicas: {
+    replicaSelections: [{location: 'us-east4', type: 'READ_ONLY'}],
+  },
+};
+
+function failedPrecondition(): MockError {
+  return Object.assign(new Error('Directed reads are not supported.'), {
+    code: grpc.status.FAILED_PRECONDITION,
+  }) as MockError;
+}
+
+describe('ReadRoutingPolicy', () => {
+  let emulator: Emulator;
+  let routed: ReadRoutingRequest[];
+
+  before(async () => {
+    emulator = await startEmulator({
+      tables: [
+        {
+          name: 'Singers',
+          columns: [
+            {name: 'SingerId', type: 'INT64', nullable: false},
+            {name: 'LastName', type: 'STRING(MAX)'},
+          ],
+          primaryKey: [{column: 'SingerId'}],
+        },
+      ],
+    });
+    emulator.mock.putStatementResult(
+      SELECT,
+      StatementResult.resultSet(createSimpleResultSet())
+    );
+  });
+
+  after(async () => {
+    emulator.spanner.readRoutingPolicy = undefined;
+    await emulator.close();
+  });
+
+  beforeEach(() => {
+    routed = [];
+    emulator.mock.removeFaults();
+    emulator.mock.resetRequests();
+    emulator.spanner.readRoutingPolicy = {
+      route: request => {
+        routed.push(request);
+        const {maxStaleness, exactStaleness} = request.timestampBound;
+        return maxStaleness || exactStaleness ? NEAREST : null;
+      },
+    };
+  });
+
+  function requests<T>(field: keyof T): T[] {
+    return emulator.mock
+      .getRequests()
+      .filter(request => field in (request as {})) as T[];
+  }
+
+  it('should direct stale reads with the policy', async () => {
+    const [rows, , metadata] = await emulator.database.run(SELECT, {
+      maxStaleness: 10000,
+    });
+
+    assert.strictEqual(rows.length, 3);
+    assert.strictEqual(routed.length, 1);
+    assert.strictEqual(routed[0].sql, SELECT);
+    assert.strictEqual(routed[0].singleUse, true);
+    const [request] = requests<v1.IExecuteSqlRequest>('sql');
+    assert.deepStrictEqual(
+      request.directedReadOptions!.includeReplicas!.replicaSelections![0]
+        .location,
+      'us-east4'
+    );
+    assert.deepStrictEqual(
+      (metadata as {readRouting?: ReadRouting}).readRouting,
+      {
+        replicaClass: 'DIRECTED',
+        directedReadOptions: NEAREST,
+        fallbackReason: null,
+        error: null,
+      }
+    );
+  });
+
+  it('should use the default routing when the policy returns null', async () => {
+    const [, , metadata] = await emulator.database.run(SELECT);
+
+    const [request] = requests<v1.IExecuteSqlRequest>('sql');
+    assert.strictEqual(request.directedReadOptions, null);
+    assert.strictEqual(
+      (metadata as {readRouting?: ReadRouting}).readRouting,
+      undefined
+    );
+  });
+
+  it('should fall back to a strong read on FAILED_PRECONDITION', async () => {
+    emulator.mock.injectFault(emulator.mock.executeStreamingSql, {
+      error: failedPrecondition(),
+    });
+
+    const [rows, , metadata] = await emulator.database.run(SELECT, {
+      exactStaleness: 5000,
+    });
+
+    assert.strictEqual(rows.length, 3);
+    const [directed, fallback] = requests<v1.IExecuteSqlRequest>('sql');
+    assert.ok(directed.directedReadOptions);
+    assert.ok(directed.transaction!.singleUse!.readOnly!.exactStaleness);
+    assert.strictEqual(fallback.directedReadOptions, null);
+    assert.strictEqual(fallback.transaction!.singleUse!.readOnly!.strong, true);
+    const {readRouting} = metadata as {readRouting?: ReadRouting};
+    assert.strictEqual(readRouting!.replicaClass, 'LEADER');
+    assert.strictEqual(readRouting!.fallbackReason, 'ERROR');
+    assert.strictEqual(
+      readRouting!.error!.code,
+      grpc.status.FAILED_PRECONDITION
+    );
+  });
+
+  it('should route the reads of tables', async () => {
+    emulator.mock.injectFault(emulator.mock.streamingRead, {
+      error: failedPrecondition(),
+    });
+    const [snapshot] = await emulator.database.getSnapshot({
+      exactStaleness: 5000,
+    });
+    try {
+      await snapshot.read('Singers', {keys: ['1'], columns: ['SingerId']});
+    } finally {
+      snapshot.end();
+    }
+
+    assert.strictEqual(routed[0].table, 'Singers');
+    assert.strictEqual(routed[0].singleUse, false);
+    const [directed, fallback] = requests<v1.IReadRequest>('table');
+    assert.ok(directed.directedReadOptions);
+    assert.strictEqual(fallback.directedReadOptions, null);
+    assert.ok(fallback.transaction!.id!.length);
+  });
+
+  it('should not route requests with their own options', async () => {
+    const directedReadOptions = {
+      excludeReplicas: {replicaSelections: [{location: 'us-west1'}]},
+    };
+
+    await emulator.database.run(
+      {sql: SELECT, directedReadOptions},
+      {maxStaleness: 10000}
+    );
+
+    assert.deepStrictEqual(routed, []);
+    const [request] = requests<v1.IExecuteSqlRequest>('sql');
+    assert.strictEqual(
+      request.directedReadOptions!.excludeReplicas!.replicaSelections![0]
+        .location,
+      'us-west1'
+    );
+  });
+
+  it('should not route read/write transactions', async () => {
+    await emulator.database.runTransactionAsync(async transaction => {
+      await transaction.run(SELECT);
+      await transaction.commit();
+    });
+
+    assert.deepStrictEqual(routed, []);
+  });
+
+  describe('routeRequests', () => {
+    const chunk = (): v1.IPartialResultSet => ({
+      metadata: {rowType: {fields: []}},
+      values: [],
+    });
+
+    function collect(stream: Readable): Promise<v1.IPartialResultSet[]> {
+      const chunks: v1.IPartialResultSet[] = [];
+      return new Promise((resolve, reject) => {
+        stream
+          .on('data', data => chunks.push(data))
+          .on('error', reject)
+          .on('end', () => resolve(chunks));
+      });
+    }
+
+    it('should fall back when the latency budget is exceeded', async () => {
+      const streams: Array<[boolean, PassThrough]> = [];
+      const makeRequest = routeRequests(
+        {route: () => NEAREST, latencyBudget: 10},
+        NEAREST,
+        (resumeToken, fallback) => {
+          const stream = new PassThrough({objectMode: true});
+          streams.push([fallback, stream]);
+          if (fallback) {
+            stream.end(chunk());
+          }
+          return stream;
+        }
+      );
+
+      const chunks = await collect(makeRequest());
+
+      assert.deepStrictEqual(
+        streams.map(([fallback]) => fallback),
+        [false, true]
+      );
+      assert.strictEqual(streams[0][1].destroyed, true);
+      const {readRouting} = chunks[0].metadata as {readRouting?: ReadRouting};
+      assert.strictEqual(readRouting!.replicaClass, 'LEADER');
+      assert.strictEqual(readRouting!.fallbackReason, 'LATENCY_BUDGET');
+    });
+
+    it('should not fall back after the first result', async () => {
+      const error = Object.assign(new Error('Failed.'), {
+        code: grpc.status.FAILED_PRECONDITION,
+      });
+      const makeRequest = routeRequests({route: () => NEAREST}, NEAREST, () => {
+        const stream = new PassThrough({objectMode: true});
+        stream.write(chunk());
+        setImmediate(() => stream.destroy(error));
+        return stream;
+      });
+
+      await assert.rejects(collect(makeRequest()), error);
+    });
+  });
+
+  describe('toLeaderRequest', () => {
+    it('should keep the transaction of multi-use snapshots', () => {
+      const transaction = {id: Buffer.from('tx')};
+      const [request, headers] = toLeaderRequest(
+        {directedReadOptions: NEAREST, transaction},
+        {},
+        true
+      );
+
+      assert.deepStrictEqual(request, {
+        directedReadOptions: null,
+        transaction,
+      });
+      assert.deepStrictEqual(headers, {[LEADER_AWARE_ROUTING_HEADER]: 'true'});
+    });
+
+    it('should not add the header if leader aware routing is disabled', () => {
+      const [, headers] = toLeaderRequest({}, {}, false);
+
+      assert.deepStrictEqual(headers, {});
+    });
+  });
+});
@@ -0,0 +1,227 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from 'assert';
+import {after, before, beforeEach, describe, it} from 'mocha';
+import * as sinon from 'sinon';
+import {google} from '../protos/protos';
+import {rowType} from '../src/row-type';
+import {
+  MemoryResultStore,
+  ResultCache,
+  ResultCacheStore,
+} from '../src/result-cache';
+import {
+  createSimpleResultSet,
+  Emulator,
+  startEmulator,
+  StatementResult,
+} from '../src/testing';
+import v1 = google.spanner.v1;
+
+const SELECT = 'SELECT * FROM NUMBERS';
+
+describe('ResultCache', () => {
+  let emulator: Emulator;
+
+  before(async () => {
+    emulator = await startEmulator();
+    emulator.mock.putStatementResult(
+      SELECT,
+      StatementResult.resultSet(createSimpleResultSet())
+    );
+  });
+
+  after(async () => {
+    emulator.database.resultCache = null;
+    await emulator.close();
+  });
+
+  beforeEach(() => {
+    emulator.mock.resetRequests();
+    emulator.database.resultCache = new ResultCache();
+  });
+
+  function queries(): v1.IExecuteSqlRequest[] {
+    return emulator.mock
+      .getRequests()
+      .filter(request => 'sql' in (request as {})) as v1.IExecuteSqlRequest[];
+  }
+
+  it('should serve stale reads from the cache', async () => {
+    const [rows, stats, metadata] = await emulator.database.run(SELECT, {
+      maxStaleness: 10000,
+    });
+    const [cachedRows, cachedStats, cachedMetadata] =
+      await emulator.database.run(SELECT, {maxStaleness: 10000});
+
+    assert.strictEqual(queries().length, 1);
+    assert.deepStrictEqual(cachedRows, rows);
+    assert.deepStrictEqual(cachedStats, stats);
+    assert.deepStrictEqual(cachedMetadata, metadata);
+    assert.deepStrictEqual(emulator.database.resultCache!.stats, {
+      hits: 1,
+      misses: 1,
+      errors: 0,
+    });
+  });
+
+  it('should decode cached rows with the options of the query', async () => {
+    const query = {sql: SELECT, json: true};
+    await emulator.database.run(query, {exactStaleness: 5000});
+    const [rows] = await emulator.database.run(query, {exactStaleness: 5000});
+    const [typedRows] = await emulator.database.run(
+      {
+        sql: SELECT,
+        rowType: rowType({NUM: {type: 'int64'}, NAME: {type: 'string'}}),
+      },
+      {exactStaleness: 5000}
+    );
+
+    assert.strictEqual(queries().length, 1);
+    assert.deepStrictEqual(
+      rows.map(row => (row as {NUM: number}).NUM),
+      [1, 2, 3]
+    );
+    assert.deepStrictEqual(typedRows, [
+      {NUM: 1, NAME: 'One'},
+      {NUM: 2, NAME: 'Two'},
+      {NUM: 3, NAME: 'Three'},
+    ]);
+  });
+
+  it('should not cache strong reads', async () => {
+    await emulator.database.run(SELECT);
+    await emulator.database.run(SELECT, {strong: true});
+
+    assert.strictEqual(queries().length, 2);
+    assert.deepStrictEqual(emulator.database.resultCache!.stats, {
+      hits: 0,
+      misses: 0,
+      errors: 0,
+    });
+  });
+
+  it('should key results by parameters and staleness', async () => {
+    const sql = 'SELECT * FROM NUMBERS WHERE NUM > @min';
+    emulator.mock.putStatementResult(
+      sql,
+      StatementResult.resultSet(createSimpleResultSet())
+    );
+
+    await emulator.database.run({sql, params: {min: 1}}, {maxStaleness: 10000});
+    await emulator.database.run({sql, params: {min: 2}}, {maxStaleness: 10000});
+    await emulator.database.run({sql, params: {min: 1}}, {maxStaleness: 20000});
+    await emulator.database.run({sql, params: {min: 1}}, {maxStaleness: 10000});
+
+    assert.strictEqual(queries().length, 3);
+  });
+
+  it('should cache stale reads of single-use snapshots', async () => {
+    const [session] = await emulator.database.createSession({});
+    try {
+      const [rows] = await session.snapshot({exactStaleness: 5000}).run(SELECT);
+      await emulator.database.run(SELECT, {exactStaleness: 5000});
+      const [cachedRows] = await session
+        .snapshot({exactStaleness: 5000})
+        .run(SELECT);
+
+      assert.strictEqual(queries().length, 1);
+      assert.deepStrictEqual(cachedRows, rows);
+    } finally {
+      await session.delete();
+    }
+  });
+
+  it('should not cache reads of multi-use snapshots', async () => {
+    const [snapshot] = await emulator.database.getSnapshot({
+      exactStaleness: 5000,
+    });
+    try {
+      await snapshot.run(SELECT);
+      await snapshot.run(SELECT);
+    } finally {
+      snapshot.end();
+    }
+
+    assert.strictEqual(queries().length, 2);
+  });
+
+  it('should expire results with the staleness', async () => {
+    const clock = sinon.useFakeTimers({now: Date.now(), toFake: ['Date']});
+    try {
+      await emulator.database.run(SELECT, {exactStaleness: 5000});
+      clock.tick(4999);
+      await emulator.database.run(SELECT, {exactStaleness: 5000});
+      clock.tick(1);
+      await emulator.database.run(SELECT, {exactStaleness: 5000});
+    } finally {
+      clock.restore();
+    }
+
+    assert.strictEqual(queries().length, 2);
+  });
+
+  it('should not cache results that exceed the entry size', async () => {
+    emulator.database.resultCache = new ResultCache({maxEntryBytes: 10});
+
+    await emulator.database.run(SELECT, {maxStaleness: 10000});
+    await emulator.database.run(SELECT, {maxStaleness: 10000});
+
+    assert.strictEqual(queries().length, 2);
+  });
+
+  it('should query Spanner when the store fails', async () => {
+    const store: ResultCacheStore = {
+      get: () => Promise.reject(new Error('Connection refused.')),
+      set: () => Promise.resolve(),
+    };
+    emulator.database.resultCache = new ResultCache({store});
+
+    const [rows] = await emulator.database.run(SELECT, {maxStaleness: 10000});
+
+    assert.strictEqual(rows.length, 3);
+    assert.deepStrictEqual(emulator.database.resultCache.stats, {
+      hits: 0,
+      misses: 1,
+      errors: 1,
+    });
+  });
+
+  describe('MemoryResultStore', () => {
+    it('should evict the least recently used results', async () => {
+      const store = new MemoryResultStore(6);
+      await store.set('a', Buffer.from('aa'), 1000);
+      await store.set('b', Buffer.from('bb'), 1000);
+      await store.set('c', Buffer.from('cc'), 1000);
+      await store.get('a');
+      await store.set('d', Buffer.from('dd'), 1000);
+
+      assert.strictEqual(store.size, 3);
+      assert.strictEqual(store.bytes, 6);
+      assert.strictEqual(await store.get('b'), null);
+      assert.deepStrictEqual(await store.get('a'), Buffer.from('aa'));
+    });
+
+    it('should not store values that exceed its size', async () => {
+      const store = new MemoryResultStore(1);
+      await store.set('a', Buffer.from('aa'), 1000);
+
+      assert.strictEqual(store.size, 0);
+      assert.strictEqual(store.bytes, 0);
+    });
+  });
+});
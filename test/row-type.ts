@@ -0,0 +1,219 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from 'assert';
+import {describe, it} from 'mocha';
+import {google} from '../protos/protos';
+import {Float, PlainDate} from '../src/codec';
+import {
+  RowOf,
+  RowTypeMismatchError,
+  rowType,
+  validateRow,
+  validateRowType,
+} from '../src/row-type';
+
+import IField = google.spanner.v1.StructType.IField;
+import TypeAnnotationCode = google.spanner.v1.TypeAnnotationCode;
+import TypeCode = google.spanner.v1.TypeCode;
+
+describe('row-type', () => {
+  describe('rowType', () => {
+    it('should return the schema', () => {
+      const schema = {NUM: {type: 'int64'}} as const;
+      assert.strictEqual(rowType(schema), schema);
+    });
+
+    it('should infer the type of the rows', () => {
+      const schema = rowType({
+        NUM: {type: 'int64'},
+        NAME: {type: 'string', nullable: true},
+        TAGS: {type: 'array', child: {type: 'string'}},
+        INFO: {type: 'struct', fields: {ACTIVE: {type: 'bool'}}},
+      });
+      const row: RowOf<typeof schema> = {
+        NUM: 1,
+        NAME: null,
+        TAGS: ['a'],
+        INFO: {ACTIVE: true},
+      };
+      assert.strictEqual(row.INFO.ACTIVE, true);
+    });
+
+    it('should infer the type of the rows from the decode options', () => {
+      const schema = rowType({
+        NUM: {type: 'int64'},
+        SCORE: {type: 'float64'},
+        DAY: {type: 'date'},
+        AT: {type: 'timestamp'},
+      });
+      const row: RowOf<
+        typeof schema,
+        {
+          jsonOptions: {wrapNumbers: true; int64As: 'string'};
+          dateAs: 'PlainDate';
+          timestampAs: 'string';
+        }
+      > = {
+        NUM: '1',
+        SCORE: new Float(1.5),
+        DAY: new PlainDate(2026, 1, 1),
+        AT: '2026-01-01T00:00:00Z',
+      };
+      assert.strictEqual(row.SCORE.valueOf(), 1.5);
+    });
+  });
+
+  describe('RowTypeMismatchError', () => {
+    it('should describe all mismatches', () => {
+      const error = new RowTypeMismatchError(['a', 'b']);
+      assert.strictEqual(error.name, 'RowTypeMismatchError');
+      assert.deepStrictEqual(error.mismatches, ['a', 'b']);
+      assert.strictEqual(
+        error.message,
+        'Result does not match the expected row type: a; b'
+      );
+    });
+  });
+
+  describe('validateRowType', () => {
+    const FIELDS: IField[] = [
+      {name: 'NUM', type: {code: TypeCode.INT64}},
+      {name: 'NAME', type: {code: 'STRING' as unknown as TypeCode}},
+    ];
+
+    it('should return null if the columns match', () => {
+      const error = validateRowType(
+        {NUM: {type: 'int64'}, NAME: {type: 'string'}},
+        FIELDS
+      );
+      assert.strictEqual(error, null);
+    });
+
+    it('should report mismatched, unexpected and missing columns', () => {
+      const error = validateRowType(
+        {NUM: {type: 'float64'}, ID: {type: 'string'}},
+        FIELDS
+      );
+      assert.deepStrictEqual(error!.mismatches, [
+        'column "NUM" is of type INT64, expected float64',
+        'unexpected column "NAME"',
+        'missing column "ID"',
+      ]);
+    });
+
+    it('should ignore columns without a name', () => {
+      const error = validateRowType({NUM: {type: 'int64'}}, [
+        FIELDS[0],
+        {name: '', type: {code: TypeCode.STRING}},
+      ]);
+      assert.strictEqual(error, null);
+    });
+
+    it('should match PostgreSQL annotations', () => {
+      const fields: IField[] = [
+        {
+          name: 'AMOUNT',
+          type: {
+            code: TypeCode.NUMERIC,
+            typeAnnotation: TypeAnnotationCode.PG_NUMERIC,
+          },
+        },
+      ];
+      assert.strictEqual(
+        validateRowType({AMOUNT: {type: 'pgNumeric'}}, fields),
+        null
+      );
+      assert.deepStrictEqual(
+        validateRowType({AMOUNT: {type: 'numeric'}}, fields)!.mismatches,
+        ['column "AMOUNT" is of type NUMERIC<PG_NUMERIC>, expected numeric']
+      );
+    });
+
+    it('should validate array elements', () => {
+      const fields: IField[] = [
+        {
+          name: 'TAGS',
+          type: {
+            code: TypeCode.ARRAY,
+            arrayElementType: {code: TypeCode.STRING},
+          },
+        },
+      ];
+      assert.strictEqual(
+        validateRowType(
+          {TAGS: {type: 'array', child: {type: 'string'}}},
+          fields
+        ),
+        null
+      );
+      assert.deepStrictEqual(
+        validateRowType(
+          {TAGS: {type: 'array', child: {type: 'int64'}}},
+          fields
+        )!.mismatches,
+        ['column "TAGS[]" is of type STRING, expected int64']
+      );
+    });
+
+    it('should validate struct fields', () => {
+      const fields: IField[] = [
+        {
+          name: 'INFO',
+          type: {
+            code: TypeCode.STRUCT,
+            structType: {
+              fields: [{name: 'ACTIVE', type: {code: TypeCode.BOOL}}],
+            },
+          },
+        },
+      ];
+      assert.deepStrictEqual(
+        validateRowType(
+          {INFO: {type: 'struct', fields: {ACTIVE: {type: 'string'}}}},
+          fields
+        )!.mismatches,
+        ['column "INFO.ACTIVE" is of type BOOL, expected string']
+      );
+    });
+  });
+
+  describe('validateRow', () => {
+    it('should return null if the row matches', () => {
+      const error = validateRow(
+        {NUM: {type: 'int64'}, NAME: {type: 'string', nullable: true}},
+        {NUM: 1, NAME: null}
+      );
+      assert.strictEqual(error, null);
+    });
+
+    it('should report NULL values in columns that are not nullable', () => {
+      const error = validateRow(
+        {
+          NUM: {type: 'int64'},
+          TAGS: {type: 'array', child: {type: 'string'}},
+          INFO: {type: 'struct', fields: {ACTIVE: {type: 'bool'}}},
+        },
+        {NUM: null, TAGS: ['a', null], INFO: {ACTIVE: null}}
+      );
+      assert.deepStrictEqual(error!.mismatches, [
+        'column "NUM" is NULL, but is not nullable',
+        'column "TAGS[]" is NULL, but is not nullable',
+        'column "INFO.ACTIVE" is NULL, but is not nullable',
+      ]);
+    });
+  });
+});
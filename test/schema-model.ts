@@ -0,0 +1,791 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from 'assert';
+import {describe, it} from 'mocha';
+import {Database} from '../src';
+import {
+  ColumnModel,
+  SchemaModel,
+  TableModel,
+  diffSchemaModels,
+  parseProtoBundle,
+  readSchemaModel,
+} from '../src/schema-model';
+
+type Rows = {[column: string]: string | number | boolean | null}[];
+
+class FakeDatabase {
+  queries: string[] = [];
+  ended = false;
+  schemaRequested = false;
+  constructor(
+    private results: {[table: string]: Rows},
+    private ddl: string[] = []
+  ) {}
+  async getSnapshot() {
+    return [
+      {
+        run: async ({sql}: {sql: string}) => {
+          this.queries.push(sql);
+          const table = /FROM INFORMATION_SCHEMA\.(\w+)/.exec(sql)![1];
+          return [this.results[table] || []];
+        },
+        end: () => (this.ended = true),
+      },
+    ];
+  }
+  async getSchema() {
+    this.schemaRequested = true;
+    return [this.ddl];
+  }
+}
+
+function column(name: string, type: string, nullable = true): ColumnModel {
+  return {
+    name,
+    type,
+    nullable,
+    defaultExpression: null,
+    generationExpression: null,
+    stored: false,
+  };
+}
+
+function emptyModel(dialect: SchemaModel['dialect']): SchemaModel {
+  return {
+    dialect,
+    tables: [],
+    indexes: [],
+    foreignKeys: [],
+    views: [],
+    changeStreams: [],
+    protoBundle: [],
+  };
+}
+
+describe('SchemaModel', () => {
+  const singers: TableModel = {
+    name: 'Singers',
+    columns: [
+      column('SingerId', 'INT64', false),
+      column('Name', 'STRING(MAX)'),
+    ],
+    primaryKey: [{column: 'SingerId', descending: false}],
+    parent: null,
+    onDelete: null,
+  };
+  const albums: TableModel = {
+    name: 'Albums',
+    columns: [
+      column('SingerId', 'INT64', false),
+      column('AlbumId', 'INT64', false),
+    ],
+    primaryKey: [
+      {column: 'SingerId', descending: false},
+      {column: 'AlbumId', descending: true},
+    ],
+    parent: 'Singers',
+    onDelete: 'CASCADE',
+  };
+
+  describe('readSchemaModel', () => {
+    it('should read a GoogleSQL schema', async () => {
+      const database = new FakeDatabase(
+        {
+          TABLES: [
+            {TABLE_SCHEMA: '', TABLE_NAME: 'Singers', TABLE_TYPE: 'BASE TABLE'},
+            {
+              TABLE_SCHEMA: '',
+              TABLE_NAME: 'Albums',
+              TABLE_TYPE: 'BASE TABLE',
+              PARENT_TABLE_NAME: 'Singers',
+              ON_DELETE_ACTION: 'CASCADE',
+            },
+            {TABLE_SCHEMA: '', TABLE_NAME: 'SingerNames', TABLE_TYPE: 'VIEW'},
+            {
+              TABLE_SCHEMA: 'INFORMATION_SCHEMA',
+              TABLE_NAME: 'TABLES',
+              TABLE_TYPE: 'VIEW',
+            },
+          ],
+          COLUMNS: [
+            {
+              TABLE_SCHEMA: '',
+              TABLE_NAME: 'Singers',
+              COLUMN_NAME: 'Name',
+              ORDINAL_POSITION: 2,
+              IS_NULLABLE: 'YES',
+              SPANNER_TYPE: 'STRING(MAX)',
+              COLUMN_DEFAULT: null,
+              IS_GENERATED: 'NEVER',
+              GENERATION_EXPRESSION: null,
+              IS_STORED: null,
+            },
+            {
+              TABLE_SCHEMA: '',
+              TABLE_NAME: 'Singers',
+              COLUMN_NAME: 'SingerId',
+              ORDINAL_POSITION: 1,
+              IS_NULLABLE: 'NO',
+              SPANNER_TYPE: 'INT64',
+              COLUMN_DEFAULT: null,
+              IS_GENERATED: 'NEVER',
+              GENERATION_EXPRESSION: null,
+              IS_STORED: null,
+            },
+            {
+              TABLE_SCHEMA: '',
+              TABLE_NAME: 'Albums',
+              COLUMN_NAME: 'SingerId',
+              ORDINAL_POSITION: 1,
+              IS_NULLABLE: 'NO',
+              SPANNER_TYPE: 'INT64',
+              COLUMN_DEFAULT: null,
+              IS_GENERATED: 'NEVER',
+              GENERATION_EXPRESSION: null,
+              IS_STORED: null,
+            },
+            {
+              TABLE_SCHEMA: '',
+              TABLE_NAME: 'Albums',
+              COLUMN_NAME: 'AlbumId',
+              ORDINAL_POSITION: 2,
+              IS_NULLABLE: 'NO',
+              SPANNER_TYPE: 'INT64',
+              COLUMN_DEFAULT: null,
+              IS_GENERATED: 'NEVER',
+              GENERATION_EXPRESSION: null,
+              IS_STORED: null,
+            },
+            {
+              TABLE_SCHEMA: '',
+              TABLE_NAME: 'Albums',
+              COLUMN_NAME: 'Title',
+              ORDINAL_POSITION: 3,
+              IS_NULLABLE: 'YES',
+              SPANNER_TYPE: 'STRING(100)',
+              COLUMN_DEFAULT: "'Untitled'",
+              IS_GENERATED: 'NEVER',
+              GENERATION_EXPRESSION: null,
+              IS_STORED: null,
+            },
+            {
+              TABLE_SCHEMA: '',
+              TABLE_NAME: 'Albums',
+              COLUMN_NAME: 'UpperTitle',
+              ORDINAL_POSITION: 4,
+              IS_NULLABLE: 'YES',
+              SPANNER_TYPE: 'STRING(100)',
+              COLUMN_DEFAULT: null,
+              IS_GENERATED: 'ALWAYS',
+              GENERATION_EXPRESSION: 'UPPER(Title)',
+              IS_STORED: 'YES',
+            },
+          ],
+          INDEXES: [
+            {
+              TABLE_SCHEMA: '',
+              TABLE_NAME: 'Albums',
+              INDEX_NAME: 'PRIMARY_KEY',
+              INDEX_TYPE: 'PRIMARY_KEY',
+              IS_UNIQUE: true,
+              IS_NULL_FILTERED: false,
+              SPANNER_IS_MANAGED: false,
+            },
+            {
+              TABLE_SCHEMA: '',
+              TABLE_NAME: 'Albums',
+              INDEX_NAME: 'AlbumsByTitle',
+              INDEX_TYPE: 'INDEX',
+              PARENT_TABLE_NAME: 'Singers',
+              IS_UNIQUE: false,
+              IS_NULL_FILTERED: true,
+              SPANNER_IS_MANAGED: false,
+            },
+            {
+              TABLE_SCHEMA: '',
+              TABLE_NAME: 'Albums',
+              INDEX_NAME: 'IDX_Albums_SingerId_123',
+              INDEX_TYPE: 'INDEX',
+              IS_UNIQUE: false,
+              IS_NULL_FILTERED: false,
+              SPANNER_IS_MANAGED: true,
+            },
+          ],
+          INDEX_COLUMNS: [
+            {
+              TABLE_SCHEMA: '',
+              TABLE_NAME: 'Singers',
+              INDEX_NAME: 'PRIMARY_KEY',
+              INDEX_TYPE: 'PRIMARY_KEY',
+              COLUMN_NAME: 'SingerId',
+              ORDINAL_POSITION: 1,
+              COLUMN_ORDERING: 'ASC',
+            },
+            {
+              TABLE_SCHEMA: '',
+              TABLE_NAME: 'Albums',
+              INDEX_NAME: 'PRIMARY_KEY',
+              INDEX_TYPE: 'PRIMARY_KEY',
+              COLUMN_NAME: 'AlbumId',
+              ORDINAL_POSITION: 2,
+              COLUMN_ORDERING: 'DESC',
+            },
+            {
+              TABLE_SCHEMA: '',
+              TABLE_NAME: 'Albums',
+              INDEX_NAME: 'PRIMARY_KEY',
+              INDEX_TYPE: 'PRIMARY_KEY',
+              COLUMN_NAME: 'SingerId',
+              ORDINAL_POSITION: 1,
+              COLUMN_ORDERING: 'ASC',
+            },
+            {
+              TABLE_SCHEMA: '',
+              TABLE_NAME: 'Albums',
+              INDEX_NAME: 'AlbumsByTitle',
+              INDEX_TYPE: 'INDEX',
+              COLUMN_NAME: 'Title',
+              ORDINAL_POSITION: null,
+              COLUMN_ORDERING: null,
+            },
+            {
+              TABLE_SCHEMA: '',
+              TABLE_NAME: 'Albums',
+              INDEX_NAME: 'AlbumsByTitle',
+              INDEX_TYPE: 'INDEX',
+              COLUMN_NAME: 'SingerId',
+              ORDINAL_POSITION: 1,
+              COLUMN_ORDERING: 'ASC',
+            },
+            {
+              TABLE_SCHEMA: '',
+              TABLE_NAME: 'Albums',
+              INDEX_NAME: 'AlbumsByTitle',
+              INDEX_TYPE: 'INDEX',
+              COLUMN_NAME: 'UpperTitle',
+              ORDINAL_POSITION: 2,
+              COLUMN_ORDERING: 'DESC',
+            },
+          ],
+          REFERENTIAL_CONSTRAINTS: [
+            {
+              CONSTRAINT_SCHEMA: '',
+              CONSTRAINT_NAME: 'FK_Albums_Singers',
+              UNIQUE_CONSTRAINT_SCHEMA: '',
+              UNIQUE_CONSTRAINT_NAME: 'PK_Singers',
+              DELETE_RULE: 'NO ACTION',
+            },
+          ],
+          KEY_COLUMN_USAGE: [
+            {
+              CONSTRAINT_SCHEMA: '',
+              CONSTRAINT_NAME: 'FK_Albums_Singers',
+              TABLE_SCHEMA: '',
+              TABLE_NAME: 'Albums',
+              COLUMN_NAME: 'SingerId',
+              ORDINAL_POSITION: 1,
+              POSITION_IN_UNIQUE_CONSTRAINT: 1,
+            },
+            {
+              CONSTRAINT_SCHEMA: '',
+              CONSTRAINT_NAME: 'PK_Singers',
+              TABLE_SCHEMA: '',
+              TABLE_NAME: 'Singers',
+              COLUMN_NAME: 'SingerId',
+              ORDINAL_POSITION: 1,
+              POSITION_IN_UNIQUE_CONSTRAINT: null,
+            },
+          ],
+          VIEWS: [
+            {
+              TABLE_SCHEMA: '',
+              TABLE_NAME: 'SingerNames',
+              VIEW_DEFINITION: 'SELECT Name FROM Singers',
+              SECURITY_TYPE: 'INVOKER',
+            },
+          ],
+          CHANGE_STREAMS: [{CHANGE_STREAM_NAME: 'AlbumChanges', ALL: false}],
+          CHANGE_STREAM_TABLES: [
+            {
+              CHANGE_STREAM_NAME: 'AlbumChanges',
+              TABLE_NAME: 'Albums',
+              ALL_COLUMNS: false,
+            },
+          ],
+          CHANGE_STREAM_COLUMNS: [
+            {
+              CHANGE_STREAM_NAME: 'AlbumChanges',
+              TABLE_NAME: 'Albums',
+              COLUMN_NAME: 'Title',
+            },
+          ],
+          CHANGE_STREAM_OPTIONS: [
+            {
+              CHANGE_STREAM_NAME: 'AlbumChanges',
+              OPTION_NAME: 'retention_period',
+              OPTION_TYPE: 'STRING',
+              OPTION_VALUE: '7d',
+            },
+            {
+              CHANGE_STREAM_NAME: 'AlbumChanges',
+              OPTION_NAME: 'exclude_ttl_deletes',
+              OPTION_TYPE: 'BOOL',
+              OPTION_VALUE: 'true',
+            },
+          ],
+        },
+        [
+          'CREATE TABLE Singers (SingerId INT64 NOT NULL) PRIMARY KEY(SingerId)',
+          'CREATE PROTO BUNDLE (\n  examples.music.Genre,\n  `examples.music.Chart`\n)',
+        ]
+      );
+
+      const model = await readSchemaModel(
+        database as unknown as Database,
+        'GOOGLE_STANDARD_SQL'
+      );
+
+      assert.ok(database.ended);
+      assert.ok(database.queries.some(sql => sql.includes('`ALL`')));
+      assert.deepStrictEqual(model, {
+        dialect: 'GOOGLE_STANDARD_SQL',
+        tables: [
+          {
+            name: 'Albums',
+            columns: [
+              column('SingerId', 'INT64', false),
+              column('AlbumId', 'INT64', false),
+              {
+                name: 'Title',
+                type: 'STRING(100)',
+                nullable: true,
+                defaultExpression: "'Untitled'",
+                generationExpression: null,
+                stored: false,
+              },
+              {
+                name: 'UpperTitle',
+                type: 'STRING(100)',
+                nullable: true,
+                defaultExpression: null,
+                generationExpression: 'UPPER(Title)',
+                stored: true,
+              },
+            ],
+            primaryKey: albums.primaryKey,
+            parent: 'Singers',
+            onDelete: 'CASCADE',
+          },
+          singers,
+        ],
+        indexes: [
+          {
+            name: 'AlbumsByTitle',
+            table: 'Albums',
+            unique: false,
+            nullFiltered: true,
+            keys: [
+              {column: 'SingerId', descending: false},
+              {column: 'UpperTitle', descending: true},
+            ],
+            storing: ['Title'],
+            interleaveIn: 'Singers',
+          },
+        ],
+        foreignKeys: [
+          {
+            name: 'FK_Albums_Singers',
+            table: 'Albums',
+            columns: ['SingerId'],
+            referencedTable: 'Singers',
+            referencedColumns: ['SingerId'],
+            onDelete: 'NO ACTION',
+          },
+        ],
+        views: [
+          {
+            name: 'SingerNames',
+            definition: 'SELECT Name FROM Singers',
+            securityType: 'INVOKER',
+          },
+        ],
+        changeStreams: [
+          {
+            name: 'AlbumChanges',
+            all: false,
+            tables: [{table: 'Albums', columns: ['Title']}],
+            options: {retention_period: '7d', exclude_ttl_deletes: true},
+          },
+        ],
+        protoBundle: ['examples.music.Chart', 'examples.music.Genre'],
+      });
+    });
+
+    it('should read a PostgreSQL schema', async () => {
+      const database = new FakeDatabase({
+        TABLES: [
+          {
+            table_schema: 'public',
+            table_name: 'singers',
+            table_type: 'BASE TABLE',
+          },
+          {
+            table_schema: 'music',
+            table_name: 'albums',
+            table_type: 'BASE TABLE',
+          },
+          {
+            table_schema: 'pg_catalog',
+            table_name: 'pg_type',
+            table_type: 'VIEW',
+          },
+        ],
+        COLUMNS: [
+          {
+            table_schema: 'music',
+            table_name: 'albums',
+            column_name: 'id',
+            ordinal_position: '1',
+            is_nullable: 'NO',
+            spanner_type: 'bigint',
+            column_default: null,
+            is_generated: 'NEVER',
+            generation_expression: null,
+            is_stored: null,
+          },
+        ],
+        VIEWS: [
+          {
+            table_schema: 'public',
+            table_name: 'v',
+            view_definition: 'SELECT 1',
+          },
+        ],
+        CHANGE_STREAMS: [{change_stream_name: 'everything', all: 'YES'}],
+      });
+
+      const model = await readSchemaModel(
+        database as unknown as Database,
+        'POSTGRESQL'
+      );
+
+      assert.ok(!database.schemaRequested);
+      assert.ok(database.queries.some(sql => sql.includes('"all"')));
+      assert.deepStrictEqual(
+        model.tables.map(table => table.name),
+        ['music.albums', 'singers']
+      );
+      assert.deepStrictEqual(model.tables[0].columns, [
+        column('id', 'bigint', false),
+      ]);
+      assert.deepStrictEqual(model.views, [
+        {name: 'v', definition: 'SELECT 1', securityType: 'INVOKER'},
+      ]);
+      assert.deepStrictEqual(model.changeStreams, [
+        {name: 'everything', all: true, tables: [], options: {}},
+      ]);
+      assert.deepStrictEqual(model.protoBundle, []);
+    });
+
+    it('should end the snapshot when a query fails', async () => {
+      const database = new FakeDatabase({});
+      const error = new Error('query failed');
+      const getSnapshot = database.getSnapshot.bind(database);
+      database.getSnapshot = async () => {
+        const [snapshot] = await getSnapshot();
+        snapshot.run = async () => {
+          throw error;
+        };
+        return [snapshot];
+      };
+
+      await assert.rejects(
+        readSchemaModel(database as unknown as Database, 'GOOGLE_STANDARD_SQL'),
+        error
+      );
+      assert.ok(database.ended);
+    });
+  });
+
+  describe('parseProtoBundle', () => {
+    it('should return an empty list without a proto bundle', () => {
+      assert.deepStrictEqual(parseProtoBundle(['CREATE TABLE T']), []);
+    });
+  });
+
+  describe('diffSchemaModels', () => {
+    const googleSql = emptyModel('GOOGLE_STANDARD_SQL');
+    const postgres = emptyModel('POSTGRESQL');
+
+    it('should return no statements for equal models', () => {
+      const model = Object.assign({}, googleSql, {tables: [singers, albums]});
+      assert.deepStrictEqual(diffSchemaModels(model, model), []);
+    });
+
+    it('should create and drop tables in dependency order', () => {
+      const model = Object.assign({}, googleSql, {tables: [albums, singers]});
+
+      assert.deepStrictEqual(diffSchemaModels(googleSql, model), [
+        'CREATE TABLE `Singers` (\n' +
+          '  `SingerId` INT64 NOT NULL,\n' +
+          '  `Name` STRING(MAX)\n' +
+          ') PRIMARY KEY (`SingerId`)',
+        'CREATE TABLE `Albums` (\n' +
+          '  `SingerId` INT64 NOT NULL,\n' +
+          '  `AlbumId` INT64 NOT NULL\n' +
+          ') PRIMARY KEY (`SingerId`, `AlbumId` DESC),\n' +
+          '  INTERLEAVE IN PARENT `Singers` ON DELETE CASCADE',
+      ]);
+      assert.deepStrictEqual(diffSchemaModels(model, googleSql), [
+        'DROP TABLE `Albums`',
+        'DROP TABLE `Singers`',
+      ]);
+    });
+
+    it('should create PostgreSQL tables', () => {
+      const table = Object.assign({}, albums, {
+        name: 'music.albums',
+        parent: 'music.singers',
+      });
+      const model = Object.assign({}, postgres, {tables: [table]});
+
+      assert.deepStrictEqual(diffSchemaModels(postgres, model), [
+        'CREATE TABLE "music"."albums" (\n' +
+          '  "SingerId" INT64 NOT NULL,\n' +
+          '  "AlbumId" INT64 NOT NULL,\n' +
+          '  PRIMARY KEY ("SingerId", "AlbumId" DESC)\n' +
+          ') INTERLEAVE IN PARENT "music"."singers" ON DELETE CASCADE',
+      ]);
+    });
+
+    it('should add, alter and drop columns', () => {
+      const from = Object.assign({}, googleSql, {
+        tables: [
+          Object.assign({}, singers, {
+            columns: [
+              ...singers.columns,
+              column('Age', 'INT64'),
+              column('Bio', 'STRING(MAX)'),
+            ],
+          }),
+        ],
+      });
+      const to = Object.assign({}, googleSql, {
+        tables: [
+          Object.assign({}, singers, {
+            columns: [
+              singers.columns[0],
+              column('Name', 'STRING(100)', false),
+              Object.assign(column('Age', 'INT64'), {defaultExpression: '0'}),
+              Object.assign(column('Upper', 'STRING(MAX)'), {
+                generationExpression: 'UPPER(Name)',
+                stored: true,
+              }),
+            ],
+          }),
+        ],
+      });
+
+      assert.deepStrictEqual(diffSchemaModels(from, to), [
+        'ALTER TABLE `Singers` ALTER COLUMN `Name` STRING(100) NOT NULL',
+        'ALTER TABLE `Singers` ALTER COLUMN `Age` SET DEFAULT (0)',
+        'ALTER TABLE `Singers` ADD COLUMN ' +
+          '`Upper` STRING(MAX) AS (UPPER(Name)) STORED',
+        'ALTER TABLE `Singers` DROP COLUMN `Bio`',
+      ]);
+    });
+
+    it('should alter PostgreSQL columns with separate statements', () => {
+      const from = Object.assign({}, postgres, {
+        tables: [
+          Object.assign({}, singers, {
+            columns: [
+              Object.assign(column('Name', 'character varying'), {
+                defaultExpression: "'x'",
+              }),
+            ],
+          }),
+        ],
+      });
+      const to = Object.assign({}, postgres, {
+        tables: [
+          Object.assign({}, singers, {
+            columns: [column('Name', 'text', false)],
+          }),
+        ],
+      });
+
+      assert.deepStrictEqual(diffSchemaModels(from, to), [
+        'ALTER TABLE "Singers" ALTER COLUMN "Name" TYPE text',
+        'ALTER TABLE "Singers" ALTER COLUMN "Name" SET NOT NULL',
+        'ALTER TABLE "Singers" ALTER COLUMN "Name" DROP DEFAULT',
+      ]);
+    });
+
+    it('should recreate changed indexes and foreign keys', () => {
+      const index = {
+        name: 'AlbumsByTitle',
+        table: 'Albums',
+        unique: false,
+        nullFiltered: false,
+        keys: [{column: 'Title', descending: false}],
+        storing: [],
+        interleaveIn: null,
+      };
+      const foreignKey = {
+        name: 'FK_Albums',
+        table: 'Albums',
+        columns: ['SingerId'],
+        referencedTable: 'Singers',
+        referencedColumns: ['SingerId'],
+        onDelete: 'NO ACTION',
+      };
+      const from = Object.assign({}, googleSql, {
+        indexes: [index],
+        foreignKeys: [foreignKey],
+      });
+      const to = Object.assign({}, googleSql, {
+        indexes: [
+          Object.assign({}, index, {
+            unique: true,
+            nullFiltered: true,
+            storing: ['SingerId'],
+            interleaveIn: 'Singers',
+          }),
+        ],
+        foreignKeys: [Object.assign({}, foreignKey, {onDelete: 'CASCADE'})],
+      });
+
+      assert.deepStrictEqual(diffSchemaModels(from, to), [
+        'ALTER TABLE `Albums` DROP CONSTRAINT `FK_Albums`',
+        'DROP INDEX `AlbumsByTitle`',
+        'CREATE UNIQUE NULL_FILTERED INDEX `AlbumsByTitle` ON `Albums` ' +
+          '(`Title`) STORING (`SingerId`), INTERLEAVE IN `Singers`',
+        'ALTER TABLE `Albums` ADD CONSTRAINT `FK_Albums` ' +
+          'FOREIGN KEY (`SingerId`) REFERENCES `Singers` (`SingerId`) ' +
+          'ON DELETE CASCADE',
+      ]);
+    });
+
+    it('should replace views and alter change streams', () => {
+      const view = {
+        name: 'SingerNames',
+        definition: 'SELECT Name FROM Singers',
+        securityType: 'INVOKER',
+      };
+      const stream = {
+        name: 'Changes',
+        all: false,
+        tables: [{table: 'Singers', columns: null}],
+        options: {retention_period: '1d'},
+      };
+      const from = Object.assign({}, googleSql, {
+        views: [view, Object.assign({}, view, {name: 'Old'})],
+        changeStreams: [stream, Object.assign({}, stream, {name: 'Old'})],
+      });
+      const to = Object.assign({}, googleSql, {
+        views: [
+          Object.assign({}, view, {definition: 'SELECT 1'}),
+          Object.assign({}, view, {name: 'New'}),
+        ],
+        changeStreams: [
+          {
+            name: 'Changes',
+            all: false,
+            tables: [{table: 'Singers', columns: ['Name']}],
+            options: {value_capture_type: 'NEW_ROW'},
+          },
+          Object.assign({}, stream, {name: 'New', all: true, tables: []}),
+        ],
+      });
+
+      assert.deepStrictEqual(diffSchemaModels(from, to), [
+        'DROP VIEW `Old`',
+        'CREATE OR REPLACE VIEW `SingerNames` SQL SECURITY INVOKER AS SELECT 1',
+        'CREATE VIEW `New` SQL SECURITY INVOKER AS SELECT Name FROM Singers',
+        'ALTER CHANGE STREAM `Changes` SET FOR `Singers`(`Name`)',
+        "ALTER CHANGE STREAM `Changes` SET OPTIONS (value_capture_type = 'NEW_ROW', retention_period = NULL)",
+        "CREATE CHANGE STREAM `New` FOR ALL OPTIONS (retention_period = '1d')",
+        'DROP CHANGE STREAM `Old`',
+      ]);
+    });
+
+    it('should alter PostgreSQL change stream options', () => {
+      const from = Object.assign({}, postgres, {
+        changeStreams: [
+          {
+            name: 'changes',
+            all: true,
+            tables: [],
+            options: {retention_period: '1d', exclude_insert: true},
+          },
+        ],
+      });
+      const to = Object.assign({}, postgres, {
+        changeStreams: [
+          {
+            name: 'changes',
+            all: false,
+            tables: [],
+            options: {retention_period: "it's"},
+          },
+        ],
+      });
+
+      assert.deepStrictEqual(diffSchemaModels(from, to), [
+        'ALTER CHANGE STREAM "changes" DROP FOR ALL',
+        "ALTER CHANGE STREAM \"changes\" SET (retention_period = 'it''s')",
+        'ALTER CHANGE STREAM "changes" RESET (exclude_insert)',
+      ]);
+    });
+
+    it('should update the proto bundle', () => {
+      const bundle = (...protoBundle: string[]) =>
+        Object.assign({}, googleSql, {protoBundle});
+
+      assert.deepStrictEqual(diffSchemaModels(bundle(), bundle('a.B')), [
+        'CREATE PROTO BUNDLE (`a.B`)',
+      ]);
+      assert.deepStrictEqual(
+        diffSchemaModels(bundle('a.B', 'a.C'), bundle('a.B', 'a.D')),
+        [
+          'ALTER PROTO BUNDLE INSERT (`a.D`)',
+          'ALTER PROTO BUNDLE DELETE (`a.C`)',
+        ]
+      );
+      assert.deepStrictEqual(diffSchemaModels(bundle('a.B'), bundle()), [
+        'DROP PROTO BUNDLE',
+      ]);
+    });
+
+    it('should reject changes that can not be applied', () => {
+      assert.throws(
+        () => diffSchemaModels(googleSql, postgres),
+        /Can not compare a GOOGLE_STANDARD_SQL schema to a POSTGRESQL schema\./
+      );
+      const from = Object.assign({}, googleSql, {tables: [singers]});
+      const to = Object.assign({}, googleSql, {
+        tables: [Object.assign({}, singers, {primaryKey: []})],
+      });
+      assert.throws(
+        () => diffSchemaModels(from, to),
+        /The primary key or parent of table Singers can not be changed\./
+      );
+    });
+  });
+});
@@ -21,10 +21,13 @@ import {
   Database,
   Instance,
   MutationSet,
+  QueryBuilder,
+  RowTypeMismatchError,
   SessionPool,
   Snapshot,
   Spanner,
   Transaction,
+  rowType,
 } from '../src';
 import * as mock from './mockserver/mockspanner';
 import {
@@ -40,6 +43,7 @@ import * as sinon from 'sinon';
 import {google} from '../protos/protos';
 import {ExecuteSqlRequest, RunResponse} from '../src/transaction';
 import {Row} from '../src/partial-result-stream';
+import {exportRows} from '../src/data-transfer';
 import {GetDatabaseOperationsOptions} from '../src/instance';
 import {
   isSessionNotFoundError,
@@ -47,7 +51,7 @@ import {
   SessionPoolExhaustedError,
   SessionPoolOptions,
 } from '../src/session-pool';
-import {Float, Int, Json, Numeric, SpannerDate} from '../src/codec';
+import {Float, Int, Json, Numeric, PlainDate, SpannerDate} from '../src/codec';
 import * as stream from 'stream';
 import * as util from 'util';
 import {PreciseDate} from '@google-cloud/precise-date';
@@ -55,6 +59,7 @@ import {
   CLOUD_RESOURCE_HEADER,
   LEADER_AWARE_ROUTING_HEADER,
 } from '../src/common';
+import {MultiplexedSessionManager} from '../src/multiplexed-session';
 import CreateInstanceMetadata = google.spanner.admin.instance.v1.CreateInstanceMetadata;
 import QueryOptions = google.spanner.v1.ExecuteSqlRequest.QueryOptions;
 import v1 = google.spanner.v1;
@@ -261,9 +266,9 @@ describe('Spanner with mock server', () => {
           },
         });
       } catch (e) {
-        // Ignore the fact that streaming read is unimplemented on the mock
-        // server. We just want to verify that the correct request is sent.
-        assert.strictEqual((e as ServiceError).code, Status.UNIMPLEMENTED);
+        // Ignore the fact that the table does not exist on the mock server.
+        // We just want to verify that the correct request is sent.
+        assert.strictEqual((e as ServiceError).code, Status.NOT_FOUND);
       } finally {
         snapshot.end();
         await database.close();
@@ -420,9 +425,9 @@ describe('Spanner with mock server', () => {
               },
             });
           } catch (e) {
-            // Ignore the fact that streaming read is unimplemented on the mock
-            // server. We just want to verify that the correct request is sent.
-            assert.strictEqual((e as ServiceError).code, Status.UNIMPLEMENTED);
+            // Ignore the fact that the table does not exist on the mock server.
+            // We just want to verify that the correct request is sent.
+            assert.strictEqual((e as ServiceError).code, Status.NOT_FOUND);
             return undefined;
           } finally {
             tx.end();
@@ -666,6 +671,62 @@ describe('Spanner with mock server', () => {
       }
     });
 
+    it('should decode DATE and TIMESTAMP as configured', async () => {
+      const database = newTestDatabase();
+      spanner.dateAs = 'PlainDate';
+      spanner.timestampAs = 'string';
+      try {
+        const [rows] = await database.run({sql: selectAllTypes, json: true});
+        const row = rows[0] as Json;
+        assert.deepStrictEqual(row.COLDATE, new PlainDate(2021, 5, 11));
+        assert.strictEqual(row.COLTIMESTAMP, '2021-05-11T16:46:04.872Z');
+        assert.deepStrictEqual(row.COLDATEARRAY, [
+          new PlainDate(2021, 5, 12),
+          new PlainDate(2000, 2, 29),
+          null,
+        ]);
+
+        const [overridden] = await database.run({
+          sql: selectAllTypes,
+          json: true,
+          timestampAs: 'PreciseDate',
+        });
+        assert.deepStrictEqual(
+          (overridden[0] as Json).COLTIMESTAMP,
+          new PreciseDate('2021-05-11T16:46:04.872Z')
+        );
+      } finally {
+        spanner.dateAs = undefined;
+        spanner.timestampAs = undefined;
+        await database.close();
+      }
+    });
+
+    it('should export DATE and TIMESTAMP values regardless of the client defaults', async () => {
+      const database = newTestDatabase();
+      spanner.dateAs = 'PlainDate';
+      spanner.timestampAs = 'string';
+      try {
+        const output = new stream.PassThrough();
+        const chunks: Buffer[] = [];
+        output.on('data', chunk => chunks.push(chunk));
+        await exportRows(database, output, {query: selectAllTypes});
+        const [line] = Buffer.concat(chunks).toString().split('\n');
+        const row = JSON.parse(line);
+        assert.strictEqual(row.COLDATE, '2021-05-11');
+        assert.strictEqual(row.COLTIMESTAMP, '2021-05-11T16:46:04.872000000Z');
+        assert.deepStrictEqual(row.COLDATEARRAY, [
+          '2021-05-12',
+          '2000-02-29',
+          null,
+        ]);
+      } finally {
+        spanner.dateAs = undefined;
+        spanner.timestampAs = undefined;
+        await database.close();
+      }
+    });
+
     it('should receive metadata', async () => {
       // The query to execute
       const query = {
@@ -1102,6 +1163,35 @@ describe('Spanner with mock server', () => {
       }
     });
 
+    it('should resume streams with the stream retry policy of the client', async () => {
+      const database = newTestDatabase();
+      const err = {
+        message: 'Temporary unavailable',
+        code: grpc.status.UNAVAILABLE,
+        details: 'Transient error',
+      } as MockError;
+      spannerMock.setExecutionTime(
+        spannerMock.executeStreamingSql,
+        SimulatedExecutionTime.ofError(err)
+      );
+      const retries: number[] = [];
+      spanner.transactionRetryPolicy = {
+        retryableCodes: [grpc.status.ABORTED, grpc.status.RESOURCE_EXHAUSTED],
+      };
+      spanner.streamRetryPolicy = {
+        onRetry: event => retries.push(event.error.code),
+      };
+      try {
+        const [rows] = await database.run(selectSql);
+        assert.strictEqual(rows.length, 3);
+        assert.deepStrictEqual(retries, [grpc.status.UNAVAILABLE]);
+      } finally {
+        spanner.transactionRetryPolicy = undefined;
+        spanner.streamRetryPolicy = undefined;
+        await database.close();
+      }
+    });
+
     it('should not retry non-retryable errors from executeStreamingSql', async () => {
       const database = newTestDatabase();
       const err = {
@@ -2840,6 +2930,295 @@ describe('Spanner with mock server', () => {
     });
   });
 
+  describe('multiplexed-session', () => {
+    function multiplexedSessionRequests(): v1.CreateSessionRequest[] {
+      return spannerMock
+        .getRequests()
+        .filter(
+          val => (val as v1.CreateSessionRequest).session?.multiplexed
+        ) as v1.CreateSessionRequest[];
+    }
+
+    function executeSqlSessions(sql: string): string[] {
+      return spannerMock
+        .getRequests()
+        .filter(val => (val as v1.ExecuteSqlRequest).sql === sql)
+        .map(val => (val as v1.ExecuteSqlRequest).session);
+    }
+
+    it('should run concurrent queries on a single multiplexed session', async () => {
+      const database = newTestDatabase({useMultiplexedSession: true});
+      try {
+        assert.ok(database.pool_ instanceof MultiplexedSessionManager);
+        const results = await Promise.all([
+          database.run(selectSql),
+          database.run(selectSql),
+          database.run(selectSql),
+        ]);
+        results.forEach(([rows]) => assert.strictEqual(rows.length, 3));
+      } finally {
+        await database.close();
+      }
+      assert.strictEqual(multiplexedSessionRequests().length, 1);
+      const sessions = executeSqlSessions(selectSql);
+      assert.strictEqual(sessions.length, 3);
+      assert.strictEqual(new Set(sessions).size, 1);
+      const pool = database.pool_ as MultiplexedSessionManager;
+      assert.strictEqual(pool._pool.borrowed, 0);
+    });
+
+    it('should use the multiplexed session for snapshots', async () => {
+      const database = newTestDatabase({useMultiplexedSession: true});
+      try {
+        const [snapshot1] = await database.getSnapshot();
+        const [snapshot2] = await database.getSnapshot();
+        assert.strictEqual(snapshot1.session, snapshot2.session);
+        assert.strictEqual(snapshot1.session.metadata!.multiplexed, true);
+        await snapshot1.run(selectSql);
+        await snapshot2.run(selectSql);
+        snapshot1.end();
+        snapshot2.end();
+      } finally {
+        await database.close();
+      }
+      assert.strictEqual(new Set(executeSqlSessions(selectSql)).size, 1);
+    });
+
+    it('should use a pooled session for read/write transactions', async () => {
+      const database = newTestDatabase({useMultiplexedSession: true});
+      try {
+        await database.run(selectSql);
+        await database.runTransactionAsync(async tx => {
+          await tx.runUpdate(updateSql);
+          await tx.commit();
+        });
+      } finally {
+        await database.close();
+      }
+      const [multiplexedSession] = executeSqlSessions(selectSql);
+      const [pooledSession] = executeSqlSessions(updateSql);
+      assert.ok(pooledSession);
+      assert.notStrictEqual(pooledSession, multiplexedSession);
+    });
+
+    it('should create a new multiplexed session after "Session not found"', async () => {
+      const database = newTestDatabase({useMultiplexedSession: true});
+      spannerMock.setExecutionTime(
+        spannerMock.executeStreamingSql,
+        SimulatedExecutionTime.ofError({
+          code: grpc.status.NOT_FOUND,
+          message: 'Session not found',
+        } as MockError)
+      );
+      try {
+        const [rows] = await database.run(selectSql);
+        assert.strictEqual(rows.length, 3);
+      } finally {
+        await database.close();
+      }
+      assert.strictEqual(multiplexedSessionRequests().length, 2);
+      const sessions = executeSqlSessions(selectSql);
+      assert.strictEqual(sessions.length, 2);
+      assert.notStrictEqual(sessions[0], sessions[1]);
+    });
+
+    it('should return errors from creating the multiplexed session', async () => {
+      const error = {
+        code: grpc.status.PERMISSION_DENIED,
+        message:
+          'Caller is missing IAM permission spanner.sessions.create on resource',
+      } as MockError;
+      // The first query shares the CreateSession request that is started when
+      // the database is opened.
+      spannerMock.setExecutionTime(
+        spannerMock.createSession,
+        SimulatedExecutionTime.ofError(error)
+      );
+      const database = newTestDatabase({useMultiplexedSession: true, min: 0});
+      try {
+        await assert.rejects(
+          database.run(selectSql),
+          /spanner\.sessions\.create/
+        );
+        const [rows] = await database.run(selectSql);
+        assert.strictEqual(rows.length, 3);
+      } finally {
+        await database.close();
+      }
+    });
+  });
+
+  describe('row-type', () => {
+    const numbers = rowType({
+      NUM: {type: 'int64'},
+      NAME: {type: 'string', nullable: true},
+    });
+
+    it('should return typed rows', async () => {
+      const database = newTestDatabase();
+      try {
+        const [rows] = await database.run(selectSql, {rowType: numbers});
+        const nums: number[] = rows.map(row => row.NUM);
+        assert.deepStrictEqual(nums, [1, 2, 3]);
+        assert.deepStrictEqual(rows[0], {NUM: 1, NAME: 'One'});
+      } finally {
+        await database.close();
+      }
+    });
+
+    it('should accept the row type as part of the query', async () => {
+      const database = newTestDatabase();
+      try {
+        const [snapshot] = await database.getSnapshot();
+        const [rows] = await snapshot.run({sql: selectSql, rowType: numbers});
+        snapshot.end();
+        const names: Array<string | null> = rows.map(row => row.NAME);
+        assert.deepStrictEqual(names, ['One', 'Two', 'Three']);
+      } finally {
+        await database.close();
+      }
+    });
+
+    it('should type the rows by the decode options of the query', async () => {
+      const database = newTestDatabase();
+      try {
+        const [rows] = await database.run({
+          sql: selectSql,
+          int64As: 'bigint',
+          rowType: numbers,
+        });
+        const nums: bigint[] = rows.map(row => row.NUM);
+        assert.deepStrictEqual(nums, [BigInt(1), BigInt(2), BigInt(3)]);
+      } finally {
+        await database.close();
+      }
+    });
+
+    it('should not apply the DATE and TIMESTAMP options of the client', async () => {
+      const sql = 'SELECT COLDATE, COLTIMESTAMP FROM TABLE_WITH_ALL_TYPES';
+      spannerMock.putStatementResult(
+        sql,
+        mock.StatementResult.resultSet(
+          protobuf.ResultSet.create({
+            metadata: {
+              rowType: {
+                fields: [
+                  {name: 'COLDATE', type: {code: TypeCode.DATE}},
+                  {name: 'COLTIMESTAMP', type: {code: TypeCode.TIMESTAMP}},
+                ],
+              },
+            },
+            rows: [
+              {
+                values: [
+                  {stringValue: '2021-05-11'},
+                  {stringValue: '2021-05-11T16:46:04.872Z'},
+                ],
+              },
+            ],
+          })
+        )
+      );
+      const database = newTestDatabase();
+      spanner.dateAs = 'PlainDate';
+      spanner.timestampAs = 'string';
+      try {
+        const [rows] = await database.run(sql, {
+          rowType: rowType({
+            COLDATE: {type: 'date'},
+            COLTIMESTAMP: {type: 'timestamp'},
+          }),
+        });
+        const date: SpannerDate = rows[0].COLDATE;
+        const timestamp: PreciseDate = rows[0].COLTIMESTAMP;
+        assert.deepStrictEqual(date, new SpannerDate('2021-05-11'));
+        assert.deepStrictEqual(
+          timestamp,
+          new PreciseDate('2021-05-11T16:46:04.872Z')
+        );
+      } finally {
+        spanner.dateAs = undefined;
+        spanner.timestampAs = undefined;
+        await database.close();
+      }
+    });
+
+    it('should reject a result that does not match the row type', async () => {
+      const database = newTestDatabase();
+      try {
+        await assert.rejects(
+          database.run(selectSql, {
+            rowType: {NUM: {type: 'string'}, ID: {type: 'int64'}},
+          }),
+          (err: RowTypeMismatchError) => {
+            assert.ok(err instanceof RowTypeMismatchError);
+            assert.deepStrictEqual(err.mismatches, [
+              'column "NUM" is of type INT64, expected string',
+              'unexpected column "NAME"',
+              'missing column "ID"',
+            ]);
+            return true;
+          }
+        );
+      } finally {
+        await database.close();
+      }
+    });
+  });
+
+  describe('query-builder', () => {
+    const qb = new QueryBuilder('GOOGLE_STANDARD_SQL');
+
+    it('should run built statements', async () => {
+      const query = qb
+        .select('NUM', 'NAME')
+        .from('NUMBERS')
+        .where('NUM', 'IN', [1, 2, 3])
+        .build();
+      const update = qb
+        .update('NUMBERS')
+        .set({NAME: 'Unknown'})
+        .where('NUM', '=', 5)
+        .build();
+      spannerMock.putStatementResult(
+        query.sql,
+        mock.StatementResult.resultSet(mock.createSimpleResultSet())
+      );
+      spannerMock.putStatementResult(
+        update.sql,
+        mock.StatementResult.updateCount(1)
+      );
+      const database = newTestDatabase();
+      try {
+        const [rows] = await database.run(query);
+        assert.strictEqual(rows.length, 3);
+        await database.runTransactionAsync(async tx => {
+          const [rowCount] = await tx.runUpdate(update);
+          assert.strictEqual(rowCount, 1);
+          await tx.commit();
+        });
+
+        const request = spannerMock
+          .getRequests()
+          .find(
+            val => (val as v1.ExecuteSqlRequest).sql === query.sql
+          ) as v1.ExecuteSqlRequest;
+        assert.strictEqual(
+          request.paramTypes!.p1.arrayElementType!.code,
+          'INT64'
+        );
+        assert.deepStrictEqual(
+          request.params!.fields!.p1.listValue!.values!.map(
+            value => value.stringValue
+          ),
+          ['1', '2', '3']
+        );
+      } finally {
+        await database.close();
+      }
+    });
+  });
+
   describe('transaction', () => {
     it('should retry on aborted query', async () => {
       let attempts = 0;
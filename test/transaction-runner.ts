@@ -123,6 +123,34 @@ describe('TransactionRunner', () => {
         assert.deepStrictEqual(r.options, options);
         assert.notStrictEqual(r.options, options);
       });
+
+      it('should merge the retry policies with the defaults', () => {
+        const session = Object.assign({}, SESSION, {
+          parent: {
+            parent: {
+              parent: {
+                transactionRetryPolicy: {maxDelay: 4000},
+                streamRetryPolicy: {maxDelay: 0},
+              },
+            },
+          },
+        });
+        const r = new ExtendedRunner(session, fakeTransaction, {
+          retryPolicy: {jitter: 0, baseDelay: undefined},
+        });
+
+        assert.deepStrictEqual(
+          Object.assign({}, r.retryPolicy, {onRetry: undefined}),
+          {
+            maxAttempts: Infinity,
+            baseDelay: 1000,
+            maxDelay: 4000,
+            jitter: 0,
+            retryableCodes: [grpc.status.ABORTED],
+            onRetry: undefined,
+          }
+        );
+      });
     });
 
     describe('getNextDelay', () => {
@@ -189,6 +217,24 @@ describe('TransactionRunner', () => {
 
         assert.strictEqual(delay, expectedDelay);
       });
+      it('should use the backoff of the retry policy', () => {
+        const random = Math.random();
+
+        runner.attempts = 3;
+        runner.retryPolicy = Object.assign({}, runner.retryPolicy, {
+          baseDelay: 10,
+          maxDelay: 50,
+          jitter: 5,
+        });
+        sandbox.stub(global.Math, 'random').returns(random);
+
+        const badError = new Error('err') as grpc.ServiceError;
+        badError.metadata = new grpc.Metadata();
+
+        const delay = runner.getNextDelay(badError);
+
+        assert.strictEqual(delay, 50 + Math.floor(random * 5));
+      });
     });
 
     describe('getTransaction', () => {
@@ -277,6 +323,41 @@ describe('TransactionRunner', () => {
         assert.strictEqual(delayStub.callCount, 1);
       });
 
+      it('should retry the codes of the retry policy', async () => {
+        const fakeError = new Error('err') as grpc.ServiceError;
+        fakeError.code = grpc.status.UNAVAILABLE;
+        const onRetry = sandbox.stub();
+
+        runFn.onCall(0).rejects(fakeError);
+        runFn.onCall(1).resolves(12);
+        runner.retryPolicy = Object.assign({}, runner.retryPolicy, {
+          retryableCodes: [grpc.status.UNAVAILABLE],
+          onRetry,
+        });
+        sandbox.stub(runner, 'getNextDelay').returns(0);
+
+        const returnValue = await runner.run();
+
+        assert.strictEqual(returnValue, 12);
+        assert.deepStrictEqual(onRetry.lastCall.args, [
+          {attempt: 1, delay: 0, error: fakeError},
+        ]);
+      });
+
+      it('should stop after the max attempts of the retry policy', async () => {
+        const fakeError = new Error('err') as grpc.ServiceError;
+        fakeError.code = grpc.status.ABORTED;
+
+        runFn.rejects(fakeError);
+        runner.retryPolicy = Object.assign({}, runner.retryPolicy, {
+          maxAttempts: 3,
+        });
+        sandbox.stub(runner, 'getNextDelay').returns(0);
+
+        await assert.rejects(runner.run(), fakeError);
+        assert.strictEqual(runFn.callCount, 3);
+      });
+
       it('should throw a DeadlineError if the timeout is exceeded', done => {
         const fakeError = new Error('err') as grpc.ServiceError;
         fakeError.code = grpc.status.ABORTED;
@@ -397,9 +397,14 @@ describe('Transaction', () => {
         const fakeOptions = {
           json: true,
           jsonOptions: {a: 'b'},
+          int64As: 'bigint' as const,
+          dateAs: 'PlainDate' as const,
+          timestampAs: 'string' as const,
           maxResumeRetries: 10,
           columnsMetadata: {column1: {test: 'ss'}, column2: Function},
           gaxOptions: gaxOptions,
+          rowType: {column1: {type: 'string'}},
+          retryPolicy: {maxAttempts: 3},
         };
 
         snapshot.createReadStream(TABLE, fakeOptions);
@@ -408,11 +413,17 @@ describe('Transaction', () => {
 
         assert.strictEqual(reqOpts.json, undefined);
         assert.strictEqual(reqOpts.jsonOptions, undefined);
+        assert.strictEqual(reqOpts.int64As, undefined);
+        assert.strictEqual(reqOpts.dateAs, undefined);
+        assert.strictEqual(reqOpts.timestampAs, undefined);
         assert.strictEqual(reqOpts.maxResumeRetries, undefined);
+        assert.strictEqual(reqOpts.rowType, undefined);
+        assert.strictEqual(reqOpts.retryPolicy, undefined);
 
-        const options = PARTIAL_RESULT_STREAM.lastCall.args[1];
+        const {codecs, ...options} = PARTIAL_RESULT_STREAM.lastCall.args[1];
 
         assert.deepStrictEqual(options, fakeOptions);
+        assert.strictEqual(codecs, undefined);
       });
 
       it('should accept directedReadOptions set for client', () => {
@@ -776,9 +787,14 @@ describe('Transaction', () => {
         const expectedOptions = {
           json: true,
           jsonOptions: {a: 'b'},
+          int64As: 'bigint' as const,
+          dateAs: 'PlainDate' as const,
+          timestampAs: 'string' as const,
           maxResumeRetries: 10,
           columnsMetadata: {column1: {test: 'ss'}, column2: Function},
           gaxOptions: gaxOptions,
+          rowType: {column1: {type: 'string'}},
+          retryPolicy: {maxAttempts: 3},
         };
 
         const fakeQuery = Object.assign({}, QUERY, expectedOptions);
@@ -789,11 +805,17 @@ describe('Transaction', () => {
 
         assert.strictEqual(reqOpts.json, undefined);
         assert.strictEqual(reqOpts.jsonOptions, undefined);
+        assert.strictEqual(reqOpts.int64As, undefined);
+        assert.strictEqual(reqOpts.dateAs, undefined);
+        assert.strictEqual(reqOpts.timestampAs, undefined);
         assert.strictEqual(reqOpts.maxResumeRetries, undefined);
+        assert.strictEqual(reqOpts.rowType, undefined);
+        assert.strictEqual(reqOpts.retryPolicy, undefined);
 
-        const options = PARTIAL_RESULT_STREAM.lastCall.args[1];
+        const {codecs, ...options} = PARTIAL_RESULT_STREAM.lastCall.args[1];
 
         assert.deepStrictEqual(options, expectedOptions);
+        assert.strictEqual(codecs, undefined);
       });
 
       it('should use valid parameters', () => {
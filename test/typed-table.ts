@@ -0,0 +1,211 @@
+/*!
+ * Copyright 2026 Google LLC. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from 'assert';
+import {after, before, beforeEach, describe, it} from 'mocha';
+import {Table} from '../src/table';
+import {Emulator, startEmulator} from '../src/testing';
+import {TypedTable} from '../src/typed-table';
+
+interface Singer {
+  SingerId: string;
+  Name: string | null;
+}
+
+interface Album {
+  SingerId: string;
+  AlbumId: string;
+  Title: string | null;
+}
+
+describe('TypedTable', () => {
+  let emulator: Emulator;
+  let singers: TypedTable<Singer, string, keyof Singer>;
+  let albums: TypedTable<Album, [string, string], keyof Album>;
+
+  before(async () => {
+    emulator = await startEmulator({
+      tables: [
+        {
+          name: 'Singers',
+          columns: [
+            {name: 'SingerId', type: 'STRING(MAX)', nullable: false},
+            {name: 'Name', type: 'STRING(MAX)'},
+          ],
+          primaryKey: [{column: 'SingerId'}],
+        },
+        {
+          name: 'Albums',
+          columns: [
+            {name: 'SingerId', type: 'STRING(MAX)', nullable: false},
+            {name: 'AlbumId', type: 'STRING(MAX)', nullable: false},
+            {name: 'Title', type: 'STRING(MAX)'},
+          ],
+          primaryKey: [{column: 'SingerId'}, {column: 'AlbumId'}],
+        },
+      ],
+    });
+    singers = emulator.database.table<Singer, string, keyof Singer>('Singers', {
+      primaryKey: ['SingerId'],
+      columns: ['SingerId', 'Name'],
+    });
+    albums = emulator.database.table<Album, [string, string], keyof Album>(
+      'Albums',
+      {
+        primaryKey: ['SingerId', 'AlbumId'],
+        columns: ['SingerId', 'AlbumId', 'Title'],
+      }
+    );
+  });
+
+  beforeEach(async () => {
+    emulator.store.clear();
+    await singers.insert([
+      {SingerId: 's1', Name: 'Marc'},
+      {SingerId: 's2', Name: null},
+    ]);
+    await albums.insert([
+      {SingerId: 's1', AlbumId: 'a1', Title: 'Go'},
+      {SingerId: 's1', AlbumId: 'a2', Title: 'Stop'},
+      {SingerId: 's2', AlbumId: 'a1', Title: null},
+    ]);
+  });
+
+  after(async () => {
+    await emulator.close();
+  });
+
+  it('should return an untyped table without a primary key', () => {
+    assert(emulator.database.table('Singers') instanceof Table);
+    assert(singers instanceof TypedTable);
+    assert.strictEqual(singers.table.name, 'Singers');
+  });
+
+  it('should get rows by key', async () => {
+    assert.deepStrictEqual(await singers.get('s1'), {
+      SingerId: 's1',
+      Name: 'Marc',
+    });
+    assert.deepStrictEqual(await albums.get(['s1', 'a2']), {
+      SingerId: 's1',
+      AlbumId: 'a2',
+      Title: 'Stop',
+    });
+    assert.strictEqual(await singers.get('s3'), null);
+  });
+
+  it('should project columns', async () => {
+    const album = await albums.get(['s1', 'a1'], {columns: ['Title']});
+
+    assert.deepStrictEqual(album, {Title: 'Go'});
+  });
+
+  it('should type the rows by the default columns', async () => {
+    const titles = emulator.database.table<Album, [string, string], 'Title'>(
+      'Albums',
+      {primaryKey: ['SingerId', 'AlbumId'], columns: ['Title']}
+    );
+
+    const album: Pick<Album, 'Title'> | null = await titles.get(['s1', 'a1']);
+    const [row] = await titles.scan({}, {columns: ['AlbumId']});
+
+    assert.deepStrictEqual(album, {Title: 'Go'});
+    assert.deepStrictEqual(row, {AlbumId: 'a1'});
+  });
+
+  it('should get many rows', async () => {
+    const rows = await albums.getMany(
+      [
+        ['s2', 'a1'],
+        ['s1', 'a1'],
+        ['s3', 'a1'],
+      ],
+      {columns: ['AlbumId', 'Title']}
+    );
+
+    assert.deepStrictEqual(rows, [
+      {AlbumId: 'a1', Title: 'Go'},
+      {AlbumId: 'a1', Title: null},
+    ]);
+    assert.deepStrictEqual(await albums.getMany([]), []);
+  });
+
+  it('should scan ranges of keys', async () => {
+    const titles = async (range: Parameters<typeof albums.scan>[0]) =>
+      (await albums.scan(range, {columns: ['Title']})).map(row => row.Title);
+
+    assert.deepStrictEqual(await titles({}), ['Go', 'Stop', null]);
+    assert.deepStrictEqual(
+      await titles({startClosed: ['s1'], endClosed: ['s1']}),
+      ['Go', 'Stop']
+    );
+    assert.deepStrictEqual(await titles({startOpen: ['s1', 'a1']}), [
+      'Stop',
+      null,
+    ]);
+    assert.deepStrictEqual(await titles({endOpen: ['s2']}), ['Go', 'Stop']);
+  });
+
+  it('should write and delete rows', async () => {
+    await singers.update({SingerId: 's2', Name: 'Catalina'});
+    await singers.upsert({SingerId: 's3', Name: 'Alice'});
+    await singers.replace({SingerId: 's1', Name: null});
+    await albums.delete([['s1', 'a1']]);
+
+    assert.deepStrictEqual(await singers.scan(), [
+      {SingerId: 's1', Name: null},
+      {SingerId: 's2', Name: 'Catalina'},
+      {SingerId: 's3', Name: 'Alice'},
+    ]);
+    assert.deepStrictEqual(await albums.getMany([['s1', 'a1']]), []);
+  });
+
+  it('should check the arity of keys', async () => {
+    await assert.rejects(
+      albums.get(['s1'] as unknown as [string, string]),
+      /Key \[s1\] has 1 values, but the primary key of table Albums has 2 columns\./
+    );
+    await assert.rejects(
+      albums.scan({startClosed: ['s1', 'a1', 'x'] as unknown as ['s1']}),
+      /has 3 values/
+    );
+    await assert.rejects(
+      albums.delete(['s1' as unknown as [string, string]]),
+      /The key of table Albums must be an array of 2 values\./
+    );
+  });
+
+  it('should require the columns to read', async () => {
+    const table = emulator.database.table<Singer, string>('Singers', {
+      primaryKey: ['SingerId'],
+    });
+
+    await assert.rejects(
+      table.get('s1'),
+      /The columns to read from table Singers are required\./
+    );
+    assert.deepStrictEqual(await table.get('s1', {columns: ['Name']}), {
+      Name: 'Marc',
+    });
+  });
+
+  it('should require a primary key', () => {
+    assert.throws(
+      () => emulator.database.table<Singer>('Singers', {primaryKey: []}),
+      /A primary key is required to type a Table\./
+    );
+  });
+});